@@ -7,6 +7,15 @@ import { historyRouter } from "./routes/history.js";
 import { apiKeysRouter } from "./routes/apiKeys.js";
 import { feedbackRouter } from "./routes/feedback.js";
 import { seoHealthRouter } from "./routes/seoHealth.js";
+import { batchesRouter } from "./routes/batches.js";
+import { revisionsRouter } from "./routes/revisions.js";
+import { jobsRouter } from "./routes/jobs.js";
+import { keywordsRouter } from "./routes/keywords.js";
+import { knowledgeBaseRouter } from "./routes/knowledgeBase.js";
+import { experimentsRouter } from "./routes/experiments.js";
+import { usageRouter } from "./routes/usage.js";
+import { siteProfilesRouter } from "./routes/siteProfiles.js";
+import { sanitizeSensitive } from "./utils/sanitize.js";
 
 export function createApp(): Application {
   const app = express();
@@ -117,9 +126,17 @@ export function createApp(): Application {
   app.use("/api", apiKeysRouter);
   app.use("/api", feedbackRouter);
   app.use("/api", seoHealthRouter);
+  app.use("/api", batchesRouter);
+  app.use("/api", revisionsRouter);
+  app.use("/api", jobsRouter);
+  app.use("/api", keywordsRouter);
+  app.use("/api", knowledgeBaseRouter);
+  app.use("/api", experimentsRouter);
+  app.use("/api", usageRouter);
+  app.use("/api", siteProfilesRouter);
 
   app.use((err: unknown, _req, res, _next) => {
-    console.error("[error]", err);
+    console.error("[error]", sanitizeSensitive(err));
     res.status(500).json({ error: "Unexpected server error" });
   });
 
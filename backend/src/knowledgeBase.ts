@@ -1,47 +1,111 @@
-export const KNOWLEDGE_BASE = `
-REGARDING ALL PRODUCT DETAILS (SUCH AS SPECIFICATIONS, MATERIALS, FEATURES, PRICES, AND SERVICES), PLEASE STRICTLY BASE YOUR WRITING SOLELY ON THE CONTENT LISTED BELOW. IF A FACT IS NOT PRESENT, OMIT IT—DO NOT GUESS OR USE EXTERNAL KNOWLEDGE. ALL OUTPUT MUST USE BRITISH ENGLISH WITH NO CHINESE CHARACTERS.
-
-----------------------------------------------------------------------
-AGENT Q
-----------------------------------------------------------------------
-### Basic info
-- Brand name: VERTU
-- Product name: Agent Q
-- Product landing page url: https://vertu.com/agent-q/
-- Collection url: https://vertu.com/product-category/phones/agent-q/
-- Product price: $5,380–$109,680
-
-### Features
-- Falcon-Wing SIM chamber with Swiss hinge, seamless U-shaped leather, 320+ hand-assembled components, thick gold-plated internals, ceramic pillow.
-- Paradigm shift from apps to agents; 200+ specialised agents across 5 categories handle intent end-to-end.
-- Ruby Talk powered by AIGS (advanced agent system) delivers proactive concierge intelligence via the Ruby Key.
-- Five-layer data sovereignty: hardware isolation, sandboxed agents, triple-system architecture, encrypted sanctum, 10TB distributed vault.
-- Camera: 50MP main, 64MP telephoto, 50MP ultra-wide, true mechanical zoom engineered with Swiss precision and 30+ Master Profiles.
-
-### Specs
-- Qualcomm Snapdragon 8 Elite Supreme (3nm) with dedicated A5 encryption chip
-- RAM 16GB; storage 512GB or 1TB
-- Display: 6.82" FHD+ (1080×2340) Flexible AMOLED, 120 Hz
-- Cameras: 50MP main OIS 35mm IMX906 f/1.59–4.0; 32MP front; 64MP telephoto OIS OV64B F2.6 70mm; 50MP ultra-wide OV50D 2.5 cm macro
-- Dimensions 165.2 × 74.6 × 11.5 mm; 262 g
-- Connectivity: Global 5G/4G/3G/2G, Wi-Fi 7, Bluetooth 5.4, NFC; dual stereo speakers with DTS Ultra
-- Battery 5,565 mAh, 65W fast charging
-
-### FAQ notes
-- Marketed as the first "AI Agent Phone" executing tasks through intelligent agents.
-- Ruby Talk enables natural language commands through the Ruby Key.
-- AIGS extends Concierge support with proactive AI plus human specialists.
-- Craftsmanship focus: crocodile leather, 320+ stainless components, Swiss hinge, gold-plated internals, ceramic pillow.
-- Security stack combines military-grade chip, triple-system, and 10TB distributed storage.
-- Battery delivers 65W rapid charging for global travellers.
-
-### Buying angles (for commercial content only)
-- Primary buyer persona: executives and collectors who want an AI-agent phone with concierge-grade service, not a mass-market smartphone.
-- Top reasons vs generic luxury phones: Falcon-Wing engineering, 200+ specialised agents, five-layer data sovereignty, Ruby Key concierge access.
-- Objection handlers: price reflects hand assembly and materials—direct to official collection for current configurations; one-year global warranty and Concierge for after-sales.
-- Recommended links: https://vertu.com/agent-q/ | https://vertu.com/product-category/phones/agent-q/
-
-----------------------------------------------------------------------
+import type { KnowledgeBaseProduct } from "./types.js";
+import { renderKnowledgeBaseProducts } from "./utils/knowledgeBaseRecords.js";
+
+const KNOWLEDGE_BASE_PREAMBLE = `REGARDING ALL PRODUCT DETAILS (SUCH AS SPECIFICATIONS, MATERIALS, FEATURES, PRICES, AND SERVICES), PLEASE STRICTLY BASE YOUR WRITING SOLELY ON THE CONTENT LISTED BELOW. IF A FACT IS NOT PRESENT, OMIT IT—DO NOT GUESS OR USE EXTERNAL KNOWLEDGE. ALL OUTPUT MUST USE BRITISH ENGLISH WITH NO CHINESE CHARACTERS.`;
+
+/**
+ * 内置产品资料（知识库文件 data/knowledge-base.json 不存在时使用，也是首次保存前的版本 1）
+ * 线上修改请走 PUT /api/knowledge-base/products，无需改代码发版
+ */
+export const DEFAULT_KNOWLEDGE_BASE_PRODUCTS: KnowledgeBaseProduct[] = [
+  {
+    id: "agent-q",
+    name: "Agent Q",
+    brand: "VERTU",
+    category: "phones",
+    landingPageUrl: "https://vertu.com/agent-q/",
+    collectionUrl: "https://vertu.com/product-category/phones/agent-q/",
+    priceRange: { min: 5380, max: 109680, currency: "USD" },
+    features: [
+      "Falcon-Wing SIM chamber with Swiss hinge, seamless U-shaped leather, 320+ hand-assembled components, thick gold-plated internals, ceramic pillow.",
+      "Paradigm shift from apps to agents; 200+ specialised agents across 5 categories handle intent end-to-end.",
+      "Ruby Talk powered by AIGS (advanced agent system) delivers proactive concierge intelligence via the Ruby Key.",
+      "Five-layer data sovereignty: hardware isolation, sandboxed agents, triple-system architecture, encrypted sanctum, 10TB distributed vault.",
+      "Camera: 50MP main, 64MP telephoto, 50MP ultra-wide, true mechanical zoom engineered with Swiss precision and 30+ Master Profiles.",
+    ],
+    specs: [
+      "Qualcomm Snapdragon 8 Elite Supreme (3nm) with dedicated A5 encryption chip",
+      "RAM 16GB; storage 512GB or 1TB",
+      "Display: 6.82\" FHD+ (1080×2340) Flexible AMOLED, 120 Hz",
+      "Cameras: 50MP main OIS 35mm IMX906 f/1.59–4.0; 32MP front; 64MP telephoto OIS OV64B F2.6 70mm; 50MP ultra-wide OV50D 2.5 cm macro",
+      "Dimensions 165.2 × 74.6 × 11.5 mm; 262 g",
+      "Connectivity: Global 5G/4G/3G/2G, Wi-Fi 7, Bluetooth 5.4, NFC; dual stereo speakers with DTS Ultra",
+      "Battery 5,565 mAh, 65W fast charging",
+    ],
+    faqNotes: [
+      "Marketed as the first \"AI Agent Phone\" executing tasks through intelligent agents.",
+      "Ruby Talk enables natural language commands through the Ruby Key.",
+      "AIGS extends Concierge support with proactive AI plus human specialists.",
+      "Craftsmanship focus: crocodile leather, 320+ stainless components, Swiss hinge, gold-plated internals, ceramic pillow.",
+      "Security stack combines military-grade chip, triple-system, and 10TB distributed storage.",
+      "Battery delivers 65W rapid charging for global travellers.",
+    ],
+    buyingAngles: [
+      "Primary buyer persona: executives and collectors who want an AI-agent phone with concierge-grade service, not a mass-market smartphone.",
+      "Top reasons vs generic luxury phones: Falcon-Wing engineering, 200+ specialised agents, five-layer data sovereignty, Ruby Key concierge access.",
+      "Objection handlers: price reflects hand assembly and materials—direct to official collection for current configurations; one-year global warranty and Concierge for after-sales.",
+      "Recommended links: https://vertu.com/agent-q/ | https://vertu.com/product-category/phones/agent-q/",
+    ],
+  },
+  {
+    id: "quantum-flip",
+    name: "Quantum Flip",
+    brand: "VERTU",
+    category: "phones",
+    landingPageUrl: "https://vertu.com/quantum/",
+    collectionUrl: "https://vertu.com/product-category/phones/quantum-flip/",
+    priceRange: { min: 4300, max: 25310, currency: "USD" },
+    features: [
+      "Aerospace-grade titanium alloy with HV900 hardness for 650,000 folds; withstands –15 °C to 60 °C; survives 1.2 m marble drop tests.",
+      "AI ecosystem handles image/video/audio generation, advanced translation (76 languages, 99.3% accuracy), photo organisation, AI camera suite, and 400+ specialised AI agents.",
+      "Quantum security stack: BB84 protocol, quantum key, three-finger biometric self-destruction, independent work/life/privacy systems.",
+      "Performance: Snapdragon 8 Elite Supreme 3nm AI chip, 16GB RAM, 1TB storage, 3D liquid cooling.",
+      "Camera system: 50MP rear OIS + 2MP depth (OV50E1, 1.55\", QPD, 7P lens, f/1.88, OIS+EIS); 32MP front; 4K 60 fps video.",
+    ],
+    specs: [
+      "Body: 76 × 170 × 7.2 mm; 230 g",
+      "Displays: 6.9\" FHD+ 2790×1188 OLED 120 Hz main; 3\" 682×422 OLED cover",
+      "Battery 4,300 mAh with 65W flash charging (70% in 20 minutes)",
+      "USB-C 3.1 Gen1, dual nano-SIM, 5G/4G, Android 15",
+    ],
+    faqNotes: [
+      "Durability emphasised via aerospace titanium and HV900 hardness.",
+      "Security uniqueness: quantum encryption plus triple isolated environments.",
+      "AI differentiators: creative suite, multilingual translation, AI image pipeline.",
+      "Fast-charging and endurance highlighted for travel readiness.",
+    ],
+    buyingAngles: [],
+  },
+  {
+    id: "metavertu-max",
+    name: "Metavertu Max",
+    brand: "VERTU",
+    category: "phones",
+    landingPageUrl: "https://vertu.com/metamax/",
+    collectionUrl: "https://vertu.com/product-category/phones/metavertu-2/",
+    priceRange: { min: 5100, max: 55600, currency: "USD" },
+    features: [
+      "Snapdragon 8 Gen 2 with advanced cooling, 5,100 mAh battery, 55W charging, and 10 TB distributed storage.",
+      "Luxury build: aerospace-grade 316L stainless steel, high-density ceramic frame, sapphire lens cover.",
+      "Triple-System architecture with dedicated security chip and one-key destruction for absolute privacy.",
+      "Web3 dual-AI brain combines blockchain security with a personal AI “second brain”.",
+      "Display/audio: 6.78\" 1.5K OLED 120 Hz plus stereo dual speakers.",
+      "Camera suite: 35 mm main sensor, 50MP ultra-wide, 80 mm telephoto, ultra-sensitive focus tracking.",
+    ],
+    specs: [
+      "Memory: 12GB RAM + 512GB storage + 10 TB distributed vault",
+      "Display: 6.78\" 1260×2800 OLED 120 Hz",
+      "Battery: 5,100 mAh with 65W fast charging (6 hr standby / 30 min talk at 5%)",
+      "Connectivity: USB-C 3.1, dual nano-SIM",
+      "Camera details: 50MP main (35 mm IMX800 OIS 1\"), 50MP ultra-wide AF (OV50D, 13 mm, 2.5 cm macro), 80 mm telephoto (further details in internal data)",
+    ],
+    faqNotes: [],
+    buyingAngles: [],
+  },
+];
+
+// 服务与品牌故事（Ruby Key / Ruby Talk / Concierge 案例）：不是产品，仍以固定文本维护
+const KNOWLEDGE_BASE_SERVICE_SECTIONS = `----------------------------------------------------------------------
 RUBY KEY (CONCIERGE SERVICE - NOT A PRODUCT)
 ----------------------------------------------------------------------
 ### IMPORTANT: This is a SERVICE/PRIVILEGE, NOT a phone product
@@ -211,63 +275,10 @@ CONCIERGE SERVICE CASE STUDIES
 - **The Request:** A Russian entrepreneur's daughter dreamed of playing the organ at the Notre Dame Cathedral in Paris.
 - **The Challenge:** The Notre Dame organ is a historic artefact, strictly reserved for church musicians and world-class professionals. It is not open to the public.
 - **The Solution:** The Concierge engaged in repeated, high-level negotiations with the cathedral administration.
-- **Outcome:** They secured a precious performance slot, fulfilling a father's wish to support his daughter's artistic dream.
-
-----------------------------------------------------------------------
-QUANTUM FLIP
-----------------------------------------------------------------------
-### Basic info
-- Brand name: VERTU
-- Product name: Quantum Flip
-- Product landing page url: https://vertu.com/quantum/
-- Collection url: https://vertu.com/product-category/phones/quantum-flip/
-- Product price: $4,300–$25,310
-
-### Features
-- Aerospace-grade titanium alloy with HV900 hardness for 650,000 folds; withstands –15 °C to 60 °C; survives 1.2 m marble drop tests.
-- AI ecosystem handles image/video/audio generation, advanced translation (76 languages, 99.3% accuracy), photo organisation, AI camera suite, and 400+ specialised AI agents.
-- Quantum security stack: BB84 protocol, quantum key, three-finger biometric self-destruction, independent work/life/privacy systems.
-- Performance: Snapdragon 8 Elite Supreme 3nm AI chip, 16GB RAM, 1TB storage, 3D liquid cooling.
-- Camera system: 50MP rear OIS + 2MP depth (OV50E1, 1.55", QPD, 7P lens, f/1.88, OIS+EIS); 32MP front; 4K 60 fps video.
-
-### Specs
-- Body: 76 × 170 × 7.2 mm; 230 g
-- Displays: 6.9" FHD+ 2790×1188 OLED 120 Hz main; 3" 682×422 OLED cover
-- Battery 4,300 mAh with 65W flash charging (70% in 20 minutes)
-- USB-C 3.1 Gen1, dual nano-SIM, 5G/4G, Android 15
-
-### FAQ notes
-- Durability emphasised via aerospace titanium and HV900 hardness.
-- Security uniqueness: quantum encryption plus triple isolated environments.
-- AI differentiators: creative suite, multilingual translation, AI image pipeline.
-- Fast-charging and endurance highlighted for travel readiness.
-
-----------------------------------------------------------------------
-METAVERTU MAX
-----------------------------------------------------------------------
-### Basic info
-- Brand name: VERTU
-- Product name: Metavertu Max
-- Product landing page url: https://vertu.com/metamax/
-- Collection url: https://vertu.com/product-category/phones/metavertu-2/
-- Product price: $5,100–$55,600
-
-### Features
-- Snapdragon 8 Gen 2 with advanced cooling, 5,100 mAh battery, 55W charging, and 10 TB distributed storage.
-- Luxury build: aerospace-grade 316L stainless steel, high-density ceramic frame, sapphire lens cover.
-- Triple-System architecture with dedicated security chip and one-key destruction for absolute privacy.
-- Web3 dual-AI brain combines blockchain security with a personal AI “second brain”.
-- Display/audio: 6.78" 1.5K OLED 120 Hz plus stereo dual speakers.
-- Camera suite: 35 mm main sensor, 50MP ultra-wide, 80 mm telephoto, ultra-sensitive focus tracking.
-
-### Specs
-- Memory: 12GB RAM + 512GB storage + 10 TB distributed vault
-- Display: 6.78" 1260×2800 OLED 120 Hz
-- Battery: 5,100 mAh with 65W fast charging (6 hr standby / 30 min talk at 5%)
-- Connectivity: USB-C 3.1, dual nano-SIM
-- Camera details: 50MP main (35 mm IMX800 OIS 1"), 50MP ultra-wide AF (OV50D, 13 mm, 2.5 cm macro), 80 mm telephoto (further details in internal data)
+- **Outcome:** They secured a precious performance slot, fulfilling a father's wish to support his daughter's artistic dream.`;
 
-----------------------------------------------------------------------
+// 通用转化文案与购物 FAQ
+const KNOWLEDGE_BASE_SHOPPING_SECTIONS = `----------------------------------------------------------------------
 ADDITIONAL PRODUCT PLACEHOLDERS
 ----------------------------------------------------------------------
 Include more VERTU products (Metavertu Curve, Metavertu Max variants, Metavertu Quantum, Aura Ring, AI Diamond Ring, Signature S+, Signature V, Signature Cobra, Grand Watch, Metawatch, Phantom Earbuds, etc.) following the same structure when additional details are supplied.
@@ -319,6 +330,19 @@ Use the following verified FAQ catalogue whenever price-sensitive or transaction
 - **Can I change delivery information after confirmation?** Contact the Concierge team (same contact details above) for personalised assistance.
 
 ### Return
-- **What is the process for returns or replacements?** Contact Concierge first. Protection policy: 7-day return, 15-day exchange, and a 1-year warranty covering craftsmanship and performance. Concierge contact: official.service@vertu.com | WhatsApp +44 7934 635 868 | Tel +86 400-1250-888.
-`;
-
+- **What is the process for returns or replacements?** Contact Concierge first. Protection policy: 7-day return, 15-day exchange, and a 1-year warranty covering craftsmanship and performance. Concierge contact: official.service@vertu.com | WhatsApp +44 7934 635 868 | Tel +86 400-1250-888.`;
+
+/**
+ * 由产品记录渲染提示词使用的完整知识库文本（产品段落格式与 extractKbSection 等解析函数保持一致）
+ */
+export function renderKnowledgeBase(products: KnowledgeBaseProduct[]): string {
+  return [
+    "",
+    KNOWLEDGE_BASE_PREAMBLE,
+    renderKnowledgeBaseProducts(products),
+    KNOWLEDGE_BASE_SERVICE_SECTIONS,
+    KNOWLEDGE_BASE_SHOPPING_SECTIONS,
+  ].join("\n\n") + "\n";
+}
+
+export const KNOWLEDGE_BASE = renderKnowledgeBase(DEFAULT_KNOWLEDGE_BASE_PRODUCTS);
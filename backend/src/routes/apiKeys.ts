@@ -1,5 +1,6 @@
 import { Router } from "express";
 import { getApiKeyManager } from "../services/apiKeyManager.js";
+import { getLlmBudgetStatus } from "../services/llmBudget.js";
 import { getRateLimiter } from "../services/rateLimiter.js";
 import { getRequestQueue } from "../services/requestQueue.js";
 
@@ -7,9 +8,9 @@ export const apiKeysRouter = Router();
 
 /**
  * GET /api/api-keys/status
- * 获取所有 API Keys 的状态信息
+ * 获取所有 API Keys 的状态信息，以及 LLM 预算的当日 / 当月用量（budgets）
  */
-apiKeysRouter.get("/api-keys/status", (_req, res) => {
+apiKeysRouter.get("/api-keys/status", async (_req, res) => {
   try {
     const manager = getApiKeyManager();
     const statuses = manager.getKeyStatuses();
@@ -27,6 +28,7 @@ apiKeysRouter.get("/api-keys/status", (_req, res) => {
         failed: failedCount,
       },
       keys: statuses,
+      budgets: await getLlmBudgetStatus(),
     });
   } catch (error) {
     res.status(500).json({
@@ -0,0 +1,194 @@
+import express from "express";
+import {
+  MAX_BATCH_ROWS,
+  resolveBatchConcurrency,
+  startBatch,
+} from "../services/batchRunner.js";
+import { resolveSiteProfileOrError } from "../services/siteProfiles.js";
+import {
+  createBatch,
+  getBatch,
+  getBatchEvents,
+  listBatches,
+  subscribeBatchEvents,
+  summarizeBatch,
+  updateBatchRow,
+} from "../state/batchStore.js";
+import type { BatchEvent, BatchJob, BatchRowInput, GenerationRequestPayload } from "../types.js";
+import { findBatchDuplicateRows, type BatchRowDuplicate } from "../utils/keywordClustering.js";
+import { openEventStream, parseLastEventId } from "../utils/sse.js";
+import { sanitizeSensitive } from "../utils/sanitize.js";
+import { loadTemplateContent } from "../utils/templatePolicy.js";
+import { isPreviewRun, validatePublishConfig } from "./generation.js";
+
+export const batchesRouter = express.Router();
+
+type BatchRequestBody = Omit<GenerationRequestPayload, "keyword"> & {
+  keywords?: Array<string | BatchRowInput>;
+  concurrency?: number;
+};
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * 规范化关键词列表：支持纯字符串或带覆盖项的对象
+ */
+function parseRows(raw: unknown): BatchRowInput[] | string {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return "keywords must be a non-empty array";
+  }
+  if (raw.length > MAX_BATCH_ROWS) {
+    return `keywords supports at most ${MAX_BATCH_ROWS} rows per batch`;
+  }
+
+  const rows: BatchRowInput[] = [];
+  for (const [i, item] of raw.entries()) {
+    const row: BatchRowInput | null =
+      typeof item === "string"
+        ? { keyword: item.trim() }
+        : item && typeof item === "object"
+          ? {
+              keyword: optionalString((item as BatchRowInput).keyword) ?? "",
+              titleType: optionalString((item as BatchRowInput).titleType),
+              templateType: optionalString((item as BatchRowInput).templateType),
+              targetCategory: optionalString((item as BatchRowInput).targetCategory),
+              pageTitle: optionalString((item as BatchRowInput).pageTitle),
+              userPrompt: optionalString((item as BatchRowInput).userPrompt),
+              refreshSlug: optionalString((item as BatchRowInput).refreshSlug),
+            }
+          : null;
+    if (!row?.keyword) {
+      return `keywords[${i}] is missing a keyword`;
+    }
+    if (row.templateType && loadTemplateContent(row.templateType) === null) {
+      return `keywords[${i}].templateType "${row.templateType}" is not a supported template`;
+    }
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * 同一批次内互相蚕食的行（重复或近似关键词只生成一个）；放行、原地刷新与预览时不检查
+ */
+function findCannibalizingRows(rows: BatchRowInput[], basePayload: GenerationRequestPayload): BatchRowDuplicate[] {
+  if (basePayload.cannibalizationAction === "allow" || basePayload.publishMode === "refresh" || isPreviewRun(basePayload)) {
+    return [];
+  }
+  return findBatchDuplicateRows(rows.map((row) => (row.refreshSlug ? "" : row.keyword)));
+}
+
+/**
+ * POST /api/batches
+ * 创建服务端批量生成任务
+ */
+batchesRouter.post("/batches", async (req, res) => {
+  try {
+    const { keywords, concurrency, ...rest } = (req.body ?? {}) as BatchRequestBody;
+    const rows = parseRows(keywords);
+    if (typeof rows === "string") {
+      return res.status(400).json({ success: false, error: rows });
+    }
+
+    const basePayload = { ...rest, keyword: rows[0].keyword } as GenerationRequestPayload;
+    // 只传 templateType 时由服务端读取模板文件
+    if (!basePayload.templateContent?.trim() && basePayload.templateType) {
+      basePayload.templateContent = loadTemplateContent(basePayload.templateType) ?? "";
+    }
+    // 使用站点配置时按解析后的凭据校验，批量任务只保存 siteProfileId
+    const resolved = await resolveSiteProfileOrError(basePayload);
+    if (typeof resolved === "string") {
+      return res.status(400).json({ success: false, error: resolved });
+    }
+    const configError = validatePublishConfig(resolved);
+    if (configError) {
+      return res.status(400).json({ success: false, error: configError });
+    }
+
+    const batch = createBatch(rows, basePayload, {
+      concurrency: resolveBatchConcurrency(concurrency),
+    });
+    const duplicates = findCannibalizingRows(rows, basePayload);
+    for (const { index, duplicateOf, similarity } of duplicates) {
+      updateBatchRow(batch.id, index, {
+        status: "skipped",
+        error: `Keyword cannibalization: overlaps ${Math.round(similarity * 100)}% with "${duplicateOf}" in the same batch. Set cannibalizationAction to "allow" to generate both.`,
+        finishedAt: Date.now(),
+      });
+    }
+    startBatch(batch.id);
+
+    return res.status(202).json({
+      success: true,
+      batchId: batch.id,
+      status: batch.status,
+      total: batch.rows.length,
+      concurrency: batch.concurrency,
+      duplicates,
+    });
+  } catch (error) {
+    console.error("[Batches] Error creating batch:", sanitizeSensitive(error));
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to create batch",
+    });
+  }
+});
+
+/**
+ * GET /api/batches
+ * 批量任务列表（不含逐行明细）
+ */
+batchesRouter.get("/batches", (_req, res) => {
+  const batches = listBatches().map(({ rows, basePayload: _basePayload, ...batch }) => ({
+    ...batch,
+    summary: summarizeBatch({ ...batch, rows }),
+  }));
+  return res.json({ success: true, batches });
+});
+
+/**
+ * GET /api/batches/:batchId
+ * 批量任务详情（逐行状态、taskId、页面地址）
+ */
+batchesRouter.get("/batches/:batchId", (req, res) => {
+  const batch = getBatch(req.params.batchId);
+  if (!batch) {
+    return res.status(404).json({ success: false, error: "Batch not found" });
+  }
+  const { basePayload: _basePayload, ...publicBatch } = batch;
+  return res.json({ success: true, batch: publicBatch, summary: summarizeBatch(batch) });
+});
+
+function isBatchFinished(status: BatchJob["status"] | undefined): boolean {
+  return status === "completed" || status === "interrupted";
+}
+
+/**
+ * GET /api/batches/:batchId/events
+ * SSE：批量状态、逐行状态与行内任务进度消息；支持 Last-Event-ID 补发，批量结束后关闭连接
+ */
+batchesRouter.get("/batches/:batchId/events", (req, res) => {
+  const { batchId } = req.params;
+  const batch = getBatch(batchId);
+  if (!batch) {
+    return res.status(404).json({ success: false, error: "Batch not found" });
+  }
+
+  const lastEventId = parseLastEventId(req.get("Last-Event-ID"), req.query.lastEventId);
+  let replay = getBatchEvents(batchId, lastEventId);
+  if (replay.length === 0 && lastEventId === undefined) {
+    // 服务重启后事件缓冲为空：先推送批量状态快照
+    replay = [{ id: 0, batchId, type: "batch", timestamp: batch.updatedAt, batchStatus: batch.status }];
+  }
+
+  openEventStream<BatchEvent>(req, res, {
+    replay,
+    eventName: (event) => event.type,
+    subscribe: (listener) => subscribeBatchEvents(batchId, listener),
+    isFinal: (event) => event.type === "batch" && isBatchFinished(event.batchStatus),
+    alreadyFinished: isBatchFinished(batch.status),
+  });
+});
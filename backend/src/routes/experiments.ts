@@ -0,0 +1,122 @@
+import express from "express";
+import { buildExperimentResults } from "../services/experiments.js";
+import { getExperiment, listExperiments, saveExperiment } from "../state/experimentStore.js";
+import { experimentStatus, normalizeExperimentDefinition } from "../utils/experiments.js";
+import { sanitizeSensitive } from "../utils/sanitize.js";
+
+export const experimentsRouter = express.Router();
+
+function handleError(res: express.Response, error: unknown, action: string) {
+  console.error(`[Experiments] Error ${action}:`, sanitizeSensitive(error));
+  return res.status(500).json({
+    success: false,
+    error: error instanceof Error ? error.message : `Failed ${action}`,
+  });
+}
+
+/**
+ * GET /api/experiments
+ * 已登记的实验及当前状态（scheduled / running / stopped）
+ */
+experimentsRouter.get("/experiments", async (_req, res) => {
+  try {
+    const experiments = await listExperiments();
+    return res.json({
+      success: true,
+      experiments: experiments.map((experiment) => ({ ...experiment, status: experimentStatus(experiment) })),
+    });
+  } catch (error) {
+    return handleError(res, error, "listing experiments");
+  }
+});
+
+/**
+ * POST /api/experiments
+ * 登记实验：{ id, name?, hypothesis, variants: [{ id, allocation, templateType?, layoutPriority?, description? }], startAt?, endAt? }
+ */
+experimentsRouter.post("/experiments", async (req, res) => {
+  try {
+    const definition = normalizeExperimentDefinition(req.body);
+    if (typeof definition === "string") {
+      return res.status(400).json({ success: false, error: definition });
+    }
+    if (await getExperiment(definition.id)) {
+      return res.status(409).json({ success: false, error: `Experiment "${definition.id}" already exists` });
+    }
+    const experiment = await saveExperiment(definition);
+    return res.status(201).json({ success: true, experiment: { ...experiment, status: experimentStatus(experiment) } });
+  } catch (error) {
+    return handleError(res, error, "creating experiment");
+  }
+});
+
+experimentsRouter.get("/experiments/:id", async (req, res) => {
+  try {
+    const experiment = await getExperiment(req.params.id);
+    if (!experiment) {
+      return res.status(404).json({ success: false, error: "Experiment not found" });
+    }
+    return res.json({ success: true, experiment: { ...experiment, status: experimentStatus(experiment) } });
+  } catch (error) {
+    return handleError(res, error, "reading experiment");
+  }
+});
+
+/**
+ * PUT /api/experiments/:id
+ * 修改实验（整体替换，id 以路径为准）；已入组页面保留原变体
+ */
+experimentsRouter.put("/experiments/:id", async (req, res) => {
+  try {
+    if (!(await getExperiment(req.params.id))) {
+      return res.status(404).json({ success: false, error: "Experiment not found" });
+    }
+    const definition = normalizeExperimentDefinition({ ...(req.body ?? {}), id: req.params.id });
+    if (typeof definition === "string") {
+      return res.status(400).json({ success: false, error: definition });
+    }
+    const experiment = await saveExperiment(definition);
+    return res.json({ success: true, experiment: { ...experiment, status: experimentStatus(experiment) } });
+  } catch (error) {
+    return handleError(res, error, "updating experiment");
+  }
+});
+
+/**
+ * POST /api/experiments/:id/stop
+ * 立即结束实验：之后生成的页面不再入组
+ */
+experimentsRouter.post("/experiments/:id/stop", async (req, res) => {
+  try {
+    const existing = await getExperiment(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ success: false, error: "Experiment not found" });
+    }
+    if (experimentStatus(existing) === "stopped") {
+      return res.status(409).json({ success: false, error: "Experiment is already stopped" });
+    }
+    const { createdAt: _createdAt, updatedAt: _updatedAt, ...definition } = existing;
+    // 尚未开始的实验结束时间不能早于开始时间
+    const endAt = new Date(Math.max(Date.now(), Date.parse(existing.startAt) + 1)).toISOString();
+    const experiment = await saveExperiment({ ...definition, endAt });
+    return res.json({ success: true, experiment: { ...experiment, status: experimentStatus(experiment) } });
+  } catch (error) {
+    return handleError(res, error, "stopping experiment");
+  }
+});
+
+/**
+ * GET /api/experiments/:id/results
+ * 各变体的页面数、「有帮助」投票率与 GSC CTR，及相对对照组（第一个变体）的差值与 95% 置信区间
+ */
+experimentsRouter.get("/experiments/:id/results", async (req, res) => {
+  try {
+    const experiment = await getExperiment(req.params.id);
+    if (!experiment) {
+      return res.status(404).json({ success: false, error: "Experiment not found" });
+    }
+    return res.json({ success: true, ...(await buildExperimentResults(experiment)) });
+  } catch (error) {
+    return handleError(res, error, "building experiment results");
+  }
+});
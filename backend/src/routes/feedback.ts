@@ -2,6 +2,7 @@ import express from "express";
 import { promises as fs } from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
+import { sanitizeSensitive } from "../utils/sanitize.js";
 
 export const feedbackRouter = express.Router();
 
@@ -49,7 +50,7 @@ feedbackRouter.post("/feedback", async (req, res) => {
 
     return res.json({ success: true });
   } catch (error) {
-    console.error("[Feedback] save failed:", error);
+    console.error("[Feedback] save failed:", sanitizeSensitive(error));
     return res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : "Failed to save feedback",
@@ -3,13 +3,29 @@ import { isAxiosError } from "axios";
 import {
   createTask,
   getTask,
+  getResumableTasks,
+  getTaskCheckpoint,
+  getTaskSignal,
+  isTaskCancelled,
+  saveTaskCheckpoint,
   setTaskCompleted,
   setTaskError,
+  setTaskPayload,
   updateTaskStatus,
   isTaskPaused,
   waitForTaskResume,
 } from "../state/taskStore.js";
-import type { GenerationRequestPayload, ProductSummary } from "../types.js";
+import type {
+  GenerationRequestPayload,
+  PagePreview,
+  PagePublishTarget,
+  ProductSummary,
+  RenderedPage,
+  TaskLlmUsage,
+  TemplateBanditDecision,
+} from "../types.js";
+import { savePagePreview } from "../state/previewStore.js";
+import { getCurrentContentVersion, savePageRevision } from "../state/revisionStore.js";
 import { extractMentionedProductsFromContent } from "../services/googleAi.js";
 import {
   fetchProductsBySource,
@@ -21,10 +37,16 @@ import { resolveLandingImages } from "../services/sanityImageLibrary.js";
 import { injectArticleFiguresIfMissing } from "../utils/articleImageInjector.js";
 import { dedupePageProductSections } from "../utils/pageProductDedup.js";
 import { publishStaticPage, updateStaticSiteSeoFiles } from "../services/staticPublisher.js";
+import {
+  findStoredTranslationKey,
+  resolveHreflangAlternates,
+  syncTranslationSiblings,
+} from "../services/translations.js";
 import {
   createSanityWriteClient,
   fetchRelatedGuidesFromSanity,
   publishToSanity,
+  requestSanityRevalidate,
 } from "../services/sanityPublisher.js";
 import {
   canonicalPathFromPageUrl,
@@ -32,6 +54,7 @@ import {
   serializeJsonLdScripts,
 } from "../utils/htmlPublishExtract.js";
 import { evaluateKeywordGate } from "../utils/keywordIntentGate.js";
+import { backfillInternalLinks, findRelatedGuides, injectRelatedGuideLinks } from "../services/linkGraph.js";
 import { pickInformationGainSnippet } from "../data/informationGainPools.js";
 import {
   buildKeywordAwareReferences,
@@ -142,11 +165,16 @@ import {
   generateQuickAnswerSnippet,
   type GeneratedContent,
 } from "../services/googleAi.js";
-import { publishPage } from "../services/wordpress.js";
+import { runWithLlmUsageContext, updateLlmUsageContext, type LlmUsageRecord } from "../services/llmProvider.js";
+import { applyCannibalizationCheck, describeCannibalizationConflict } from "../services/cannibalizationCheck.js";
+import { getLlmProvider, isKnownLlmProvider, listLlmProviders } from "../services/llmRegistry.js";
+import { publishPage, refreshPage } from "../services/wordpress.js";
 import {
   applyCommercialShellIfNeeded,
   applyGuideIntentLongShellIfNeeded,
   applyExperimentVariantShell,
+  applyExperimentVariantSettings,
+  applyBanditTemplateChoice,
   applyIntentDrivenLayout,
   migrateDisabledTemplate,
 } from "../utils/templatePolicy.js";
@@ -180,6 +208,41 @@ import {
 } from "../utils/contentAlignment.js";
 import { renderTemplate, type Reference } from "../services/templateRenderer.js";
 import { createSlug } from "../utils/slug.js";
+import {
+  buildContentFingerprint,
+  buildDifferentiationHint,
+  type NearDuplicateMatch,
+} from "../utils/contentFingerprint.js";
+import { checkNearDuplicate, resolveNearDuplicateThreshold } from "../services/nearDuplicateCheck.js";
+import { renderKnowledgeBase } from "../knowledgeBase.js";
+import { getKnowledgeBase } from "../state/knowledgeBaseStore.js";
+import { getExperiment } from "../state/experimentStore.js";
+import { resolveExperimentAssignment } from "../services/experiments.js";
+import { chooseTemplateByBandit, resolveTemplateAllocation } from "../services/templateBandit.js";
+import { isValidProjectId } from "../utils/llmBudget.js";
+import { resolveSiteProfileOrError, resolveTaskCredentials } from "../services/siteProfiles.js";
+import { isValidSiteProfileId } from "../utils/siteProfiles.js";
+import { sanitizeSensitive } from "../utils/sanitize.js";
+import {
+  buildFactCheckRetryHint,
+  catalogFacts,
+  factCheckContent,
+  knowledgeBaseFacts,
+  type FactDiscrepancy,
+} from "../utils/factCheck.js";
+import { formatStructuredDataIssues, validateStructuredData } from "../utils/structuredDataValidator.js";
+import { DEFAULT_SEO_GATE_THRESHOLD, evaluateSeoGate } from "../utils/seoQualityGate.js";
+import { shouldTreatAsLongFormGuideArticle } from "../utils/guideIntent.js";
+import {
+  DEFAULT_LOCALE,
+  isDefaultLocale,
+  localeOrDefault,
+  localizeGuideSlug,
+  normalizeTranslationKey,
+  resolveLocale,
+  splitLocalePrefix,
+  SUPPORTED_LOCALES,
+} from "../utils/locale.js";
 import { normalizePublicSiteRoot } from "../utils/publicSiteUrl.js";
 
 /**
@@ -248,43 +311,145 @@ function prioritizeLatestProducts(products: ProductSummary[]): ProductSummary[]
   return sortedProducts;
 }
 
-export const generationRouter = express.Router();
+/**
+ * 预览模式（publishTarget=preview 或 dryRun）：跑完渲染后只保存预览，不发布
+ */
+export function isPreviewRun(payload: GenerationRequestPayload): boolean {
+  return payload.dryRun === true || payload.publishTarget === "preview";
+}
 
-generationRouter.post("/generate-page", (req, res) => {
-  const payload = req.body as GenerationRequestPayload;
+/**
+ * 是否需要人工审核后才发布：请求参数优先，未填写时取 REQUIRE_REVIEW 环境变量；预览不发布，无需审核
+ */
+export function requiresReview(payload: GenerationRequestPayload): boolean {
+  if (isPreviewRun(payload)) return false;
+  return payload.requireReview ?? process.env.REQUIRE_REVIEW === "true";
+}
 
-  if (!payload?.keyword?.trim()) {
-    return res.status(400).json({ error: "Keyword is required" });
-  }
+/**
+ * 发布前仍未解决的质量问题，记录在任务详情 unresolvedQuality 中：
+ * 重生成次数用完后的近似重复 / 无法核实的价格规格，以及低于阈值的 SEO 质量分
+ */
+interface UnresolvedQuality {
+  nearDuplicate?: { similarity: number; keyword: string; pageUrl?: string };
+  factDiscrepancies?: FactDiscrepancy[];
+  seoGate?: { score: number; threshold: number; failing: string[] };
+}
 
-  const gate = evaluateKeywordGate(payload.keyword.trim(), {
-    pageTitle: payload.pageTitle,
-    titleType: payload.titleType,
-    forceGenerate: payload.forceGenerate,
-  });
-  if (!gate.allowed) {
-    return res.status(422).json({
-      error: `Keyword blocked (Tier ${gate.tier}): low brand/category fit for VERTU luxury guides. Reasons: ${gate.reasons.join("; ")}`,
-      tier: gate.tier,
-      score: gate.score,
-      reasons: gate.reasons,
-    });
+function getUnresolvedQuality(taskId: string): UnresolvedQuality | undefined {
+  return (getTask(taskId)?.details as { unresolvedQuality?: UnresolvedQuality } | undefined)?.unresolvedQuality;
+}
+
+function describeUnresolvedQuality(quality: UnresolvedQuality): string {
+  const parts: string[] = [];
+  if (quality.nearDuplicate) {
+    parts.push(
+      `重生成 ${MAX_ALIGNMENT_ATTEMPTS} 次后正文仍与已有指南「${quality.nearDuplicate.keyword}」相似度 ${Math.round(quality.nearDuplicate.similarity * 100)}%`
+    );
+  }
+  if (quality.factDiscrepancies?.length) {
+    parts.push(
+      `重生成 ${MAX_ALIGNMENT_ATTEMPTS} 次后仍有 ${quality.factDiscrepancies.length} 处价格/规格无法核实：${quality.factDiscrepancies
+        .map((d) => `${d.product}: ${d.stated} (expected ${d.expected})`)
+        .join("; ")}`
+    );
+  }
+  if (quality.seoGate) {
+    parts.push(
+      `SEO 质量分 ${quality.seoGate.score}/100 低于阈值 ${quality.seoGate.threshold}，未通过：${quality.seoGate.failing.join("; ")}`
+    );
   }
+  return parts.join("；");
+}
+
+/**
+ * refresh 模式下要更新的页面 slug（去掉语言前缀与 luxury-life-guides/ 前缀）；非 refresh 或未指定时返回空字符串
+ */
+function resolveRefreshSlug(payload: GenerationRequestPayload): string {
+  if (payload.publishMode !== "refresh" || !payload.refreshSlug?.trim()) return "";
+  const { path: refreshPath } = splitLocalePrefix(payload.refreshSlug.trim());
+  return createSlug(refreshPath.replace(/^luxury-life-guides[/-]/, ""));
+}
+
+/**
+ * 发布前 SEO 质量分阈值：请求参数优先，其次 SEO_GATE_THRESHOLD；0 表示只评分不拦截
+ */
+function resolveSeoGateThreshold(payload: GenerationRequestPayload): number {
+  const fromEnv = Number(process.env.SEO_GATE_THRESHOLD);
+  const envThreshold =
+    process.env.SEO_GATE_THRESHOLD?.trim() && Number.isFinite(fromEnv) ? fromEnv : DEFAULT_SEO_GATE_THRESHOLD;
+  const threshold = payload.seoGateThreshold ?? envThreshold;
+  return Math.max(0, Math.min(100, threshold));
+}
+
+/**
+ * 校验模板与发布目标凭据（单条生成与批量生成共用）
+ * @returns 错误信息；校验通过返回 null
+ */
+export function validatePublishConfig(payload: GenerationRequestPayload): string | null {
   if (!payload?.templateContent?.trim()) {
-    return res.status(400).json({ error: "Template content is required" });
+    return "Template content is required";
+  }
+  if (payload.llmProvider && !isKnownLlmProvider(payload.llmProvider)) {
+    return `Unknown llmProvider "${payload.llmProvider}" (available: ${listLlmProviders().join(", ")})`;
+  }
+  if (
+    payload.structuredDataValidation &&
+    !["strict", "warn", "off"].includes(payload.structuredDataValidation)
+  ) {
+    return `Unknown structuredDataValidation "${payload.structuredDataValidation}" (available: strict, warn, off)`;
+  }
+  if (
+    payload.seoGateThreshold !== undefined &&
+    (typeof payload.seoGateThreshold !== "number" || payload.seoGateThreshold < 0 || payload.seoGateThreshold > 100)
+  ) {
+    return "seoGateThreshold must be a number between 0 and 100";
+  }
+  if (
+    payload.nearDuplicateThreshold !== undefined &&
+    (typeof payload.nearDuplicateThreshold !== "number" ||
+      payload.nearDuplicateThreshold < 0 ||
+      payload.nearDuplicateThreshold > 1)
+  ) {
+    return "nearDuplicateThreshold must be a number between 0 and 1";
+  }
+  if (payload.factCheckMode && !["correct", "regenerate", "off"].includes(payload.factCheckMode)) {
+    return `Unknown factCheckMode "${payload.factCheckMode}" (available: correct, regenerate, off)`;
+  }
+  if (payload.project !== undefined && (typeof payload.project !== "string" || !isValidProjectId(payload.project))) {
+    return "project must be 1–64 letters, digits, '.', '_' or '-'";
+  }
+  if (
+    payload.siteProfileId !== undefined &&
+    (typeof payload.siteProfileId !== "string" || !isValidSiteProfileId(payload.siteProfileId))
+  ) {
+    return "siteProfileId must be a lowercase slug (a-z, 0-9, -)";
+  }
+  if (payload.templateAllocation && !["rules", "bandit"].includes(payload.templateAllocation)) {
+    return `Unknown templateAllocation "${payload.templateAllocation}" (available: rules, bandit)`;
+  }
+  const locale = resolveLocale(payload.locale);
+  if (!locale) {
+    return `Unsupported locale "${payload.locale}" (available: ${Object.keys(SUPPORTED_LOCALES).join(", ")})`;
+  }
+  // 预览不发布，无需发布凭据
+  if (isPreviewRun(payload)) {
+    return null;
   }
   const publishTarget = payload?.publishTarget ?? "wordpress";
+  if (publishTarget === "wordpress" && !isDefaultLocale(locale)) {
+    // WordPress 页面固定挂在 luxury-life-guides 父页面下，无法按语言前缀发布
+    return "locale is only supported when publishTarget=static or publishTarget=sanity";
+  }
   if (publishTarget === "wordpress") {
     if (!payload?.wordpress?.url || !payload?.wordpress?.username || !payload?.wordpress?.appPassword) {
-      return res.status(400).json({ error: "WordPress credentials are required when publishTarget=wordpress" });
+      return "WordPress credentials are required when publishTarget=wordpress";
     }
   } else if (publishTarget === "static") {
     const outputDir = payload?.staticPublish?.outputDir || process.env.STATIC_PUBLISH_DIR;
     const baseUrl = payload?.staticPublish?.baseUrl || process.env.STATIC_BASE_URL;
     if (!outputDir || !baseUrl) {
-      return res.status(400).json({
-        error: "staticPublish.outputDir and staticPublish.baseUrl (or STATIC_PUBLISH_DIR/STATIC_BASE_URL env) are required when publishTarget=static",
-      });
+      return "staticPublish.outputDir and staticPublish.baseUrl (or STATIC_PUBLISH_DIR/STATIC_BASE_URL env) are required when publishTarget=static";
     }
   } else if (publishTarget === "sanity") {
     const projectId = payload?.sanity?.projectId || process.env.SANITY_PROJECT_ID;
@@ -292,11 +457,52 @@ generationRouter.post("/generate-page", (req, res) => {
     const token = payload?.sanity?.token || process.env.SANITY_API_TOKEN;
     const baseUrl = payload?.sanity?.baseUrl || process.env.SANITY_BASE_URL;
     if (!projectId || !dataset || !token || !baseUrl) {
-      return res.status(400).json({
-        error: "sanity.projectId/dataset/token/baseUrl (or SANITY_PROJECT_ID/SANITY_DATASET/SANITY_API_TOKEN/SANITY_BASE_URL env) are required when publishTarget=sanity",
-      });
+      return "sanity.projectId/dataset/token/baseUrl (or SANITY_PROJECT_ID/SANITY_DATASET/SANITY_API_TOKEN/SANITY_BASE_URL env) are required when publishTarget=sanity";
     }
   }
+  return null;
+}
+
+export const generationRouter = express.Router();
+
+generationRouter.post("/generate-page", async (req, res) => {
+  const payload = req.body as GenerationRequestPayload;
+
+  if (!payload?.keyword?.trim()) {
+    return res.status(400).json({ error: "Keyword is required" });
+  }
+
+  const gate = evaluateKeywordGate(payload.keyword.trim(), {
+    pageTitle: payload.pageTitle,
+    titleType: payload.titleType,
+    forceGenerate: payload.forceGenerate,
+  });
+  if (!gate.allowed) {
+    return res.status(422).json({
+      error: `Keyword blocked (Tier ${gate.tier}): low brand/category fit for VERTU luxury guides. Reasons: ${gate.reasons.join("; ")}`,
+      tier: gate.tier,
+      score: gate.score,
+      reasons: gate.reasons,
+    });
+  }
+  // 使用站点配置时按解析后的凭据校验（payload 本身不带凭据，解析在 processTask 中重做）
+  const resolved = await resolveSiteProfileOrError(payload);
+  if (typeof resolved === "string") {
+    return res.status(400).json({ error: resolved });
+  }
+  const configError = validatePublishConfig(resolved);
+  if (configError) {
+    return res.status(400).json({ error: configError });
+  }
+
+  const cannibalization = await applyCannibalizationCheck(payload);
+  if (cannibalization.action === "blocked") {
+    const { existing, similarity, matchedOn, intent } = cannibalization.conflict;
+    return res.status(409).json({
+      error: describeCannibalizationConflict(cannibalization.conflict),
+      conflict: { ...existing, similarity, matchedOn, intent },
+    });
+  }
 
   const task = createTask("Task queued");
   console.log('generate-page-------');
@@ -307,11 +513,52 @@ generationRouter.post("/generate-page", (req, res) => {
     taskId: task.id,
     status: task.status,
     message: task.message,
+    ...(cannibalization.action === "none"
+      ? {}
+      : {
+          cannibalization: {
+            action: cannibalization.action,
+            refreshSlug: cannibalization.action === "refresh" ? cannibalization.refreshSlug : undefined,
+            conflictingKeyword: cannibalization.conflict.existing.keyword,
+            conflictingPageUrl: cannibalization.conflict.existing.pageUrl,
+          },
+        }),
   });
 });
 
-async function processTask(taskId: string, payload: GenerationRequestPayload) {
+/**
+ * 服务重启后续跑未完成的任务（从最后完成的检查点继续）
+ * @returns 续跑的任务数
+ */
+export function resumeInterruptedTasks(): number {
+  const resumable = getResumableTasks();
+  for (const { task, payload } of resumable) {
+    console.log(`[task ${task.id}] 服务重启，从检查点续跑（上次状态: ${task.status}）`);
+    void processTask(task.id, payload);
+  }
+  return resumable.length;
+}
+
+/**
+ * 执行生成任务；任务内的每次模型调用都记入调用台账（任务 id / 关键词 / 模板 / 项目）并受项目预算限制
+ */
+export function processTask(taskId: string, payload: GenerationRequestPayload): Promise<void> {
+  return runWithLlmUsageContext(
+    { taskId, keyword: payload.keyword, templateType: payload.templateType, project: payload.project },
+    () => runGenerationTask(taskId, payload)
+  );
+}
+
+async function runGenerationTask(taskId: string, payload: GenerationRequestPayload): Promise<void> {
+  // 取消任务时中断进行中的 Gemini / 产品 / 发布请求
+  const signal = getTaskSignal(taskId);
   try {
+    // 凭据只在内存中补全（任务落盘时去掉）；重启续跑的任务靠站点配置或环境变量恢复，恢复不了则明确失败
+    payload = await resolveTaskCredentials(payload);
+    const credentialError = validatePublishConfig(payload);
+    if (credentialError) {
+      throw new Error(`${credentialError} (credentials are not persisted; use siteProfileId or server env credentials to resume)`);
+    }
     mergeShopifyCredentialsFromEnv(payload);
     migrateDisabledTemplate(payload, `[task ${taskId}]`);
 
@@ -327,16 +574,57 @@ async function processTask(taskId: string, payload: GenerationRequestPayload) {
       applyGuideIntentLongShellIfNeeded(payload, payload.pageTitle?.trim() || payload.keyword);
     }
 
-    // 保存任务的关键信息到任务对象中（用于历史记录）
-    updateTaskStatus(taskId, "queued", "任务已创建", {
-      keyword: payload.keyword,
-      pageTitle: payload.pageTitle,
-      titleType: payload.titleType,
-      templateType: payload.templateType,
-    });
+    // refresh 未指定语言时沿用原页面 slug 的语言前缀
+    const refreshSlugPrefix = resolveRefreshSlug(payload) ? splitLocalePrefix(payload.refreshSlug!.trim()) : null;
+    if (!payload.locale && refreshSlugPrefix && !isDefaultLocale(refreshSlugPrefix.locale)) {
+      payload.locale = refreshSlugPrefix.locale.code;
+    }
+    const targetLocale = localeOrDefault(payload.locale);
+
+    // 保存任务的关键信息到任务对象中（用于历史记录）；重启续跑的暂停任务保持 paused
+    if (!isTaskPaused(taskId)) {
+      updateTaskStatus(taskId, "queued", "任务已创建", {
+        keyword: payload.keyword,
+        pageTitle: payload.pageTitle,
+        titleType: payload.titleType,
+        templateType: payload.templateType,
+      });
+    }
+    setTaskPayload(taskId, payload);
+
+    // 续跑：已发布则直接标记完成，已渲染则直接进入发布
+    const publishCheckpoint = getTaskCheckpoint(taskId, "publish");
+    if (publishCheckpoint) {
+      setTaskCompleted(taskId, publishCheckpoint.message, publishCheckpoint.pageUrl);
+      return;
+    }
+    const renderCheckpoint = getTaskCheckpoint(taskId, "render");
+    if (renderCheckpoint) {
+      // 需要审核且尚未批准：回到等待审核状态，不发布
+      if ((requiresReview(payload) || getUnresolvedQuality(taskId)) && getTask(taskId)?.review?.decision !== "approved") {
+        updateTaskStatus(taskId, "awaiting_review", `页面已渲染，等待审核。预览：/api/tasks/${taskId}/preview`);
+        return;
+      }
+      await waitForTaskResume(taskId);
+      updateTaskStatus(taskId, "publishing", "已从渲染检查点恢复，继续发布...");
+      await publishRenderedPage(taskId, payload, renderCheckpoint);
+      return;
+    }
 
     // 如果请求中提供了 API Key，优先使用；否则使用环境变量中的 Key 池
     const apiKey = payload.googleApiKey || undefined;
+    // 任务级 token 用量（写入 details.llmUsage；续跑时在已记录的用量上累加）
+    const llmProvider = getLlmProvider(payload.llmProvider).name;
+    const priorLlmUsage = (getTask(taskId)?.details as { llmUsage?: TaskLlmUsage } | undefined)?.llmUsage;
+    const llmUsage: TaskLlmUsage = priorLlmUsage
+      ? { ...priorLlmUsage, provider: llmProvider }
+      : { provider: llmProvider, promptTokens: 0, completionTokens: 0, totalTokens: 0, calls: 0 };
+    const onLlmUsage = (usage: LlmUsageRecord) => {
+      llmUsage.promptTokens += usage.promptTokens;
+      llmUsage.completionTokens += usage.completionTokens;
+      llmUsage.totalTokens += usage.totalTokens;
+      llmUsage.calls += 1;
+    };
     const publishTarget = payload.publishTarget ?? "wordpress";
     const staticBaseUrl = payload.staticPublish?.baseUrl || process.env.STATIC_BASE_URL || "";
     const sanityBaseUrl = payload.sanity?.baseUrl || process.env.SANITY_BASE_URL || "";
@@ -349,7 +637,8 @@ async function processTask(taskId: string, payload: GenerationRequestPayload) {
     const productSource = resolveProductSource(payload);
 
     // 如果页面标题为空，根据长尾词和选择的标题类型自动生成标题
-    let finalPageTitle = payload.pageTitle?.trim() || "";
+    let finalPageTitle =
+      payload.pageTitle?.trim() || getTaskCheckpoint(taskId, "title")?.pageTitle || "";
     if (!finalPageTitle) {
       // 在生成标题之前检查暂停状态
       await waitForTaskResume(taskId);
@@ -373,6 +662,10 @@ async function processTask(taskId: string, payload: GenerationRequestPayload) {
             }
           },
           shouldAbort: () => isTaskPaused(taskId), // 传递暂停检查回调
+          signal,
+          llmProvider,
+          onLlmUsage,
+          locale: targetLocale.code,
         });
         
         // 生成标题后立即检查暂停状态
@@ -383,7 +676,7 @@ async function processTask(taskId: string, payload: GenerationRequestPayload) {
         updateTaskStatus(taskId, "generating_title", `已生成标题: ${finalPageTitle}`);
         console.log(`[task ${taskId}] Generated page title: ${finalPageTitle}`);
       } catch (error) {
-        console.error(`[task ${taskId}] Failed to generate title, using fallback:`, error);
+        console.error(`[task ${taskId}] Failed to generate title, using fallback:`, sanitizeSensitive(error));
         // 如果生成失败，使用对应类型的备用标题
         const getFallbackByType = (keyword: string, type?: string): string => {
           const typeFallbacks: Record<string, string[]> = {
@@ -409,12 +702,57 @@ async function processTask(taskId: string, payload: GenerationRequestPayload) {
         updateTaskStatus(taskId, "generating_title", `使用备用标题（类型: ${payload.titleType || '默认'}）: ${finalPageTitle}`);
       }
     }
+    saveTaskCheckpoint(taskId, "title", { pageTitle: finalPageTitle }, payload);
 
     const { intent: searchIntent, layoutPriority } = applyIntentDrivenLayout(
       payload,
       finalPageTitle
     );
 
+    // 登记的实验（/api/experiments）按分配比例入组并套用变体的模板/版式；没有进行中的实验时沿用关键词哈希 A/B
+    const experimentAssignment = payload.respectTemplateChoice ? null : await resolveExperimentAssignment(payload);
+    if (experimentAssignment) {
+      const { experiment, variant } = experimentAssignment;
+      payload.experimentId = experiment.id;
+      payload.experimentVariant = variant.id;
+      applyExperimentVariantSettings(payload, variant, experiment.id);
+      console.log(`[task ${taskId}] 实验 ${experiment.id}: 变体 ${variant.id}（${payload.templateType}）`);
+    } else if (payload.experimentId && (await getExperiment(payload.experimentId))) {
+      // 登记实验只统计按分配比例入组的页面（手动选壳 / 实验未进行时不计入）
+      delete payload.experimentId;
+      delete payload.experimentVariant;
+    }
+    // bandit 模式：未入组登记实验的自动选壳页面按意图 × 品类用 Thompson 采样选壳，替代哈希 A/B 与规则升级
+    let templateBandit: TemplateBanditDecision | null = null;
+    if (!experimentAssignment && !payload.respectTemplateChoice && resolveTemplateAllocation(payload) === "bandit") {
+      const banditCategory = detectPrimaryCategory(payload.keyword, finalPageTitle);
+      try {
+        // 续跑的任务沿用已记录的决策，不重新采样
+        templateBandit =
+          getTask(taskId)?.templateBandit ??
+          (await chooseTemplateByBandit(searchIntent, banditCategory, (payload.templateType || "template-1").trim()));
+      } catch (error) {
+        console.warn(`[task ${taskId}] bandit 选壳失败，改用规则选壳:`, sanitizeSensitive(error));
+      }
+      if (templateBandit && applyBanditTemplateChoice(payload, templateBandit.chosen, `${searchIntent}:${banditCategory}`)) {
+        payload.experimentId = "template-bandit";
+        payload.experimentVariant = templateBandit.chosen;
+        console.log(
+          `[task ${taskId}] bandit 选壳 ${searchIntent}:${banditCategory} → ${templateBandit.chosen}（${templateBandit.arms
+            .map((a) => `${a.arm} α=${a.alpha} β=${a.beta} draw=${a.sample}`)
+            .join("; ")}）`
+        );
+        updateTaskStatus(taskId, "generating_title", `bandit 选壳: ${templateBandit.chosen}`, {
+          templateBandit,
+          details: {
+            ...((getTask(taskId)?.details as Record<string, unknown>) || {}),
+            templateBandit,
+          },
+        });
+      } else {
+        templateBandit = null;
+      }
+    }
     if (!payload.experimentVariant) {
       if (payload.respectTemplateChoice) {
         const tt = (payload.templateType || "template-1").trim();
@@ -429,10 +767,18 @@ async function processTask(taskId: string, payload: GenerationRequestPayload) {
       payload.experimentId = payload.experimentId || `ll-shell-${new Date().getFullYear()}`;
     }
     // A/B 壳替换仅对单条「自动选壳」生效；批量/手动选壳时 respectTemplateChoice 会跳过
-    applyExperimentVariantShell(payload);
+    if (!experimentAssignment && !templateBandit) {
+      applyExperimentVariantShell(payload);
+    }
+
+    // 实验变体指定了模板壳或 bandit 已选壳时不再按意图升级，保证奖励归属到实际使用的模板
+    if (!experimentAssignment?.variant.templateType && !templateBandit) {
+      applyGuideIntentLongShellIfNeeded(payload, finalPageTitle);
+      applyCommercialShellIfNeeded(payload, finalPageTitle);
+    }
 
-    applyGuideIntentLongShellIfNeeded(payload, finalPageTitle);
-    applyCommercialShellIfNeeded(payload, finalPageTitle);
+    // 之后的模型调用按最终模板记账
+    updateLlmUsageContext({ templateType: payload.templateType || "template-1" });
 
     const pageTitleForSeo = finalPageTitle;
     let primaryCategory: PrimaryProductCategory = detectPrimaryCategory(
@@ -453,242 +799,261 @@ async function processTask(taskId: string, payload: GenerationRequestPayload) {
       return; // 任务已暂停，退出
     }
     
-    updateTaskStatus(
-      taskId,
-      "fetching_products",
-      payload.targetCategory
-        ? `正在从 ${productSource} 搜索分类 "${payload.targetCategory}" 下的产品...`
-        : `正在从 ${productSource} 搜索相关产品...`
-    );
     let products: ProductSummary[] = [];
     let relatedProducts: ProductSummary[] = [];
-    try {
-      const productResult = await fetchProductsBySource(payload, payload.keyword, payload.targetCategory);
+    const productsCheckpoint = getTaskCheckpoint(taskId, "products");
+    if (productsCheckpoint) {
+      products = productsCheckpoint.products;
+      relatedProducts = productsCheckpoint.relatedProducts;
+      primaryCategory = productsCheckpoint.primaryCategory;
+      updateTaskStatus(taskId, "fetching_products", `已从检查点恢复 ${products.length} 个相关产品`);
+    } else {
+      updateTaskStatus(
+        taskId,
+        "fetching_products",
+        payload.targetCategory
+          ? `正在从 ${productSource} 搜索分类 "${payload.targetCategory}" 下的产品...`
+          : `正在从 ${productSource} 搜索相关产品...`
+      );
+      try {
+        const productResult = await fetchProductsBySource(
+          payload,
+          payload.keyword,
+          payload.targetCategory,
+          signal
+        );
       
-      // 获取产品后立即检查暂停状态
-      if (isTaskPaused(taskId)) {
-        return; // 任务已暂停，退出
-      }
-      const withLinks = (items: ProductSummary[]) =>
-        productSource === "shopify"
-          ? attachLearnMoreLinks(items)
-          : attachCategoryLinks(attachLearnMoreLinks(items), siteBaseUrl);
-      products = withLinks(productResult.products);
-      relatedProducts = withLinks(productResult.relatedProducts);
+        // 获取产品后立即检查暂停状态
+        if (isTaskPaused(taskId)) {
+          return; // 任务已暂停，退出
+        }
+        const withLinks = (items: ProductSummary[]) =>
+          productSource === "shopify"
+            ? attachLearnMoreLinks(items)
+            : attachCategoryLinks(attachLearnMoreLinks(items), siteBaseUrl);
+        products = withLinks(productResult.products);
+        relatedProducts = withLinks(productResult.relatedProducts);
       
-      // SEO优化：根据关键词和标题过滤相关产品（必须使用 finalPageTitle，含 AI 生成的标题）
-      const keywordLower = payload.keyword.toLowerCase();
-      const pageTitleLower = pageTitleForSeo.toLowerCase();
-      const combinedText = `${keywordLower} ${pageTitleLower}`;
+        // SEO优化：根据关键词和标题过滤相关产品（必须使用 finalPageTitle，含 AI 生成的标题）
+        const keywordLower = payload.keyword.toLowerCase();
+        const pageTitleLower = pageTitleForSeo.toLowerCase();
+        const combinedText = `${keywordLower} ${pageTitleLower}`;
       
-      // 检测性别和目标受众
-      const isMenTarget = combinedText.includes("丈夫") || combinedText.includes("husband") || 
-                          combinedText.includes("men") || combinedText.includes("men's") ||
-                          combinedText.includes("male") || combinedText.includes("gift for him") ||
-                          combinedText.includes("for him") || combinedText.includes("his");
-      const isWomenTarget = combinedText.includes("妻子") || combinedText.includes("wife") ||
-                            combinedText.includes("women") || combinedText.includes("women's") ||
-                            combinedText.includes("ladies") || combinedText.includes("lady") ||
-                            combinedText.includes("female") || combinedText.includes("gift for her") ||
-                            combinedText.includes("for her") || combinedText.includes("her");
+        // 检测性别和目标受众
+        const isMenTarget = combinedText.includes("丈夫") || combinedText.includes("husband") || 
+                            combinedText.includes("men") || combinedText.includes("men's") ||
+                            combinedText.includes("male") || combinedText.includes("gift for him") ||
+                            combinedText.includes("for him") || combinedText.includes("his");
+        const isWomenTarget = combinedText.includes("妻子") || combinedText.includes("wife") ||
+                              combinedText.includes("women") || combinedText.includes("women's") ||
+                              combinedText.includes("ladies") || combinedText.includes("lady") ||
+                              combinedText.includes("female") || combinedText.includes("gift for her") ||
+                              combinedText.includes("for her") || combinedText.includes("her");
       
-      const isFlipIntent = isFlipPhoneIntent(payload.keyword, pageTitleForSeo);
-      const productAudience = { isMenTarget, isWomenTarget };
+        const isFlipIntent = isFlipPhoneIntent(payload.keyword, pageTitleForSeo);
+        const productAudience = { isMenTarget, isWomenTarget };
 
-      const filterProductsByRelevance = (productList: ProductSummary[]): ProductSummary[] =>
-        filterProductsForKeywordIntent(
-          productList,
-          payload.keyword,
-          pageTitleForSeo,
-          primaryCategory,
-          productAudience,
-          payload.targetCategory
-        );
+        const filterProductsByRelevance = (productList: ProductSummary[]): ProductSummary[] =>
+          filterProductsForKeywordIntent(
+            productList,
+            payload.keyword,
+            pageTitleForSeo,
+            primaryCategory,
+            productAudience,
+            payload.targetCategory
+          );
       
-      // 应用过滤
-      // 重要：如果用户指定了产品分类，不要应用基于关键词的产品类型过滤
-      // 因为用户已经明确了想要显示的产品分类
-      if (payload.targetCategory && payload.targetCategory.trim()) {
-        console.log(`[task ${taskId}] ⚠️ 用户指定了产品分类 "${payload.targetCategory}"，跳过基于关键词的产品类型过滤`);
-        // 只应用性别过滤（如果有的话）
-        if (isMenTarget || isWomenTarget) {
-          const applyGenderFilter = (productList: ProductSummary[]): ProductSummary[] => {
-            return productList.filter(product => {
-              const productName = product.name.toLowerCase();
-              const productCategory = (product.category || "").toLowerCase();
+        // 应用过滤
+        // 重要：如果用户指定了产品分类，不要应用基于关键词的产品类型过滤
+        // 因为用户已经明确了想要显示的产品分类
+        if (payload.targetCategory && payload.targetCategory.trim()) {
+          console.log(`[task ${taskId}] ⚠️ 用户指定了产品分类 "${payload.targetCategory}"，跳过基于关键词的产品类型过滤`);
+          // 只应用性别过滤（如果有的话）
+          if (isMenTarget || isWomenTarget) {
+            const applyGenderFilter = (productList: ProductSummary[]): ProductSummary[] => {
+              return productList.filter(product => {
+                const productName = product.name.toLowerCase();
+                const productCategory = (product.category || "").toLowerCase();
               
-              if (isMenTarget && !isWomenTarget) {
-                if (productName.includes("women") || productName.includes("women's") ||
-                    productName.includes("ladies") || productName.includes("lady") ||
-                    productName.includes("female") || productCategory.includes("women") ||
-                    productCategory.includes("ladies")) {
-                  return false;
+                if (isMenTarget && !isWomenTarget) {
+                  if (productName.includes("women") || productName.includes("women's") ||
+                      productName.includes("ladies") || productName.includes("lady") ||
+                      productName.includes("female") || productCategory.includes("women") ||
+                      productCategory.includes("ladies")) {
+                    return false;
+                  }
                 }
-              }
-              if (isWomenTarget && !isMenTarget) {
-                if (productName.includes("men") || productName.includes("men's") ||
-                    productName.includes("male") || productCategory.includes("men") ||
-                    productCategory.includes("male")) {
-                  return false;
+                if (isWomenTarget && !isMenTarget) {
+                  if (productName.includes("men") || productName.includes("men's") ||
+                      productName.includes("male") || productCategory.includes("men") ||
+                      productCategory.includes("male")) {
+                    return false;
+                  }
                 }
-              }
-              return true;
-            });
-          };
-          products = applyGenderFilter(products);
-          relatedProducts = applyGenderFilter(relatedProducts);
+                return true;
+              });
+            };
+            products = applyGenderFilter(products);
+            relatedProducts = applyGenderFilter(relatedProducts);
+          }
+          // 否则保留所有产品，不做任何过滤
+        } else {
+          // 没有指定分类，应用正常的关键词过滤
+          products = filterProductsByRelevance(products);
+          relatedProducts = filterProductsByRelevance(relatedProducts);
         }
-        // 否则保留所有产品，不做任何过滤
-      } else {
-        // 没有指定分类，应用正常的关键词过滤
-        products = filterProductsByRelevance(products);
-        relatedProducts = filterProductsByRelevance(relatedProducts);
-      }
 
-      const gatedProducts = enforceCategoryConsistency(products, payload.keyword, pageTitleForSeo);
-      products = gatedProducts.products;
-      primaryCategory = gatedProducts.primaryCategory;
-      const gatedRelated = enforceCategoryConsistency(relatedProducts, payload.keyword, pageTitleForSeo);
-      relatedProducts = gatedRelated.products;
+        const gatedProducts = enforceCategoryConsistency(products, payload.keyword, pageTitleForSeo);
+        products = gatedProducts.products;
+        primaryCategory = gatedProducts.primaryCategory;
+        const gatedRelated = enforceCategoryConsistency(relatedProducts, payload.keyword, pageTitleForSeo);
+        relatedProducts = gatedRelated.products;
       
-      // 优化：优先推荐最新款产品（Agent Q, Quantum Flip, Metavertu Max等）
-      products = prioritizeLatestProducts(products);
-      relatedProducts = prioritizeLatestProducts(relatedProducts);
+        // 优化：优先推荐最新款产品（Agent Q, Quantum Flip, Metavertu Max等）
+        products = prioritizeLatestProducts(products);
+        relatedProducts = prioritizeLatestProducts(relatedProducts);
       
-      console.log(`[task ${taskId}] SEO产品过滤结果:`);
-      console.log(`  - 关键词: ${payload.keyword}`);
-      console.log(`  - 页面标题: ${pageTitleForSeo}`);
-      console.log(`  - 指定分类: ${payload.targetCategory || "未指定"}`);
-      if (isMenTarget) console.log(`  - 目标受众: 男性/丈夫`);
-      if (isWomenTarget) console.log(`  - 目标受众: 女性/妻子`);
-      if (primaryCategory !== "general" && primaryCategory !== "gift") {
-        console.log(`  - 主类目过滤: ${primaryCategory}`);
-      }
-      if (isFlipIntent) console.log(`  - 检测到产品类型: 翻盖/折叠手机（仅 Quantum Flip / Ironflip）`);
-      if (isComparisonIntent(payload.keyword, pageTitleForSeo)) {
-        console.log(`  - 对比类关键词: 保留多品类商品`);
-      }
-      console.log(`  - 过滤后主产品数: ${products.length}`);
-      console.log(`  - 过滤后相关产品数: ${relatedProducts.length}`);
-      if (products.length > 0) {
-        console.log(`  - 主产品列表: [${products.slice(0, 10).map(p => p.name).join(", ")}${products.length > 10 ? ", ..." : ""}]`);
-      }
+        console.log(`[task ${taskId}] SEO产品过滤结果:`);
+        console.log(`  - 关键词: ${payload.keyword}`);
+        console.log(`  - 页面标题: ${pageTitleForSeo}`);
+        console.log(`  - 指定分类: ${payload.targetCategory || "未指定"}`);
+        if (isMenTarget) console.log(`  - 目标受众: 男性/丈夫`);
+        if (isWomenTarget) console.log(`  - 目标受众: 女性/妻子`);
+        if (primaryCategory !== "general" && primaryCategory !== "gift") {
+          console.log(`  - 主类目过滤: ${primaryCategory}`);
+        }
+        if (isFlipIntent) console.log(`  - 检测到产品类型: 翻盖/折叠手机（仅 Quantum Flip / Ironflip）`);
+        if (isComparisonIntent(payload.keyword, pageTitleForSeo)) {
+          console.log(`  - 对比类关键词: 保留多品类商品`);
+        }
+        console.log(`  - 过滤后主产品数: ${products.length}`);
+        console.log(`  - 过滤后相关产品数: ${relatedProducts.length}`);
+        if (products.length > 0) {
+          console.log(`  - 主产品列表: [${products.slice(0, 10).map(p => p.name).join(", ")}${products.length > 10 ? ", ..." : ""}]`);
+        }
       
-      // 针对奢华产品系列，补充 bespoke 分类的产品
-      // keywordLower 已在上面声明（第288行），直接使用
-      const isLuxuryKeyword = keywordLower.includes("luxury") || keywordLower.includes("premium") || 
-                              keywordLower.includes("bespoke") || keywordLower.includes("exclusive") ||
-                              keywordLower.includes("handcrafted") || keywordLower.includes("artisan");
+        // 针对奢华产品系列，补充 bespoke 分类的产品
+        // keywordLower 已在上面声明（第288行），直接使用
+        const isLuxuryKeyword = keywordLower.includes("luxury") || keywordLower.includes("premium") || 
+                                keywordLower.includes("bespoke") || keywordLower.includes("exclusive") ||
+                                keywordLower.includes("handcrafted") || keywordLower.includes("artisan");
       
-      if (
-        (isLuxuryKeyword || products.length < 3) &&
-        shouldAllowBespokeBackfill(primaryCategory, payload.keyword, pageTitleForSeo)
-      ) {
-        // 在补充产品之前检查暂停状态
-        if (isTaskPaused(taskId)) {
-          return; // 任务已暂停，退出
-        }
-        
-        try {
-          updateTaskStatus(taskId, "fetching_products", "检测到奢华关键词，补充 bespoke 分类产品...");
-          const bespokeResult = await fetchProductsBySource(payload, payload.keyword, "bespoke");
-          
-          // 补充产品后立即检查暂停状态
+        if (
+          (isLuxuryKeyword || products.length < 3) &&
+          shouldAllowBespokeBackfill(primaryCategory, payload.keyword, pageTitleForSeo)
+        ) {
+          // 在补充产品之前检查暂停状态
           if (isTaskPaused(taskId)) {
             return; // 任务已暂停，退出
           }
+        
+          try {
+            updateTaskStatus(taskId, "fetching_products", "检测到奢华关键词，补充 bespoke 分类产品...");
+            const bespokeResult = await fetchProductsBySource(payload, payload.keyword, "bespoke", signal);
+          
+            // 补充产品后立即检查暂停状态
+            if (isTaskPaused(taskId)) {
+              return; // 任务已暂停，退出
+            }
           
-          const bespokeProducts =
-            productSource === "shopify"
-              ? attachLearnMoreLinks(bespokeResult.products)
-              : attachCategoryLinks(attachLearnMoreLinks(bespokeResult.products), siteBaseUrl);
-          const prioritizedBespoke = prioritizeLatestProducts(bespokeProducts);
+            const bespokeProducts =
+              productSource === "shopify"
+                ? attachLearnMoreLinks(bespokeResult.products)
+                : attachCategoryLinks(attachLearnMoreLinks(bespokeResult.products), siteBaseUrl);
+            const prioritizedBespoke = prioritizeLatestProducts(bespokeProducts);
           
-          // 合并 bespoke 产品，避免重复，优先显示最新款
-          const existingIds = new Set(products.map(p => p.id));
-          const newBespokeProducts = prioritizedBespoke.filter(p => !existingIds.has(p.id));
+            // 合并 bespoke 产品，避免重复，优先显示最新款
+            const existingIds = new Set(products.map(p => p.id));
+            const newBespokeProducts = prioritizedBespoke.filter(p => !existingIds.has(p.id));
           
-          if (newBespokeProducts.length > 0) {
-            const merged = [...newBespokeProducts.slice(0, 3), ...products];
-            products = filterProductsByPrimaryCategory(merged, primaryCategory);
-            updateTaskStatus(taskId, "fetching_products", `已补充 ${newBespokeProducts.length} 个 bespoke 产品`);
-            console.log(`[task ${taskId}] ✅ 已补充 bespoke 产品: ${newBespokeProducts.map(p => p.name).join(", ")}`);
+            if (newBespokeProducts.length > 0) {
+              const merged = [...newBespokeProducts.slice(0, 3), ...products];
+              products = filterProductsByPrimaryCategory(merged, primaryCategory);
+              updateTaskStatus(taskId, "fetching_products", `已补充 ${newBespokeProducts.length} 个 bespoke 产品`);
+              console.log(`[task ${taskId}] ✅ 已补充 bespoke 产品: ${newBespokeProducts.map(p => p.name).join(", ")}`);
+            }
+          } catch (e) {
+            console.warn(`[task ${taskId}] 补充 bespoke 产品失败:`, sanitizeSensitive(e));
           }
-        } catch (e) {
-          console.warn(`[task ${taskId}] 补充 bespoke 产品失败:`, e);
+        } else if ((isLuxuryKeyword || products.length < 3) && !shouldAllowBespokeBackfill(primaryCategory)) {
+          console.log(
+            `[task ${taskId}] 跳过 bespoke 补充（主类目 ${primaryCategory} 不允许错位回填）`
+          );
         }
-      } else if ((isLuxuryKeyword || products.length < 3) && !shouldAllowBespokeBackfill(primaryCategory)) {
-        console.log(
-          `[task ${taskId}] 跳过 bespoke 补充（主类目 ${primaryCategory} 不允许错位回填）`
-        );
-      }
       
-      if (products.length === 0) {
-        updateTaskStatus(taskId, "fetching_products", "未找到相关产品，继续发布页面...");
-      } else {
-        updateTaskStatus(taskId, "fetching_products", `找到 ${products.length} 个相关产品（已优化排序）`);
-      }
-
-      const hasPhoneProduct = products.some(
-        (p) =>
-          (p.category?.toLowerCase().includes("phone") || p.name.toLowerCase().includes("phone")) ||
-          (p.categorySlug?.includes("phone") ?? false)
-      );
-      if (
-        shouldAllowPhoneBackfill(payload.keyword, pageTitleForSeo, primaryCategory) &&
-        !hasPhoneProduct
-      ) {
-        // 在补充手机产品之前检查暂停状态
-        if (isTaskPaused(taskId)) {
-          return; // 任务已暂停，退出
+        if (products.length === 0) {
+          updateTaskStatus(taskId, "fetching_products", "未找到相关产品，继续发布页面...");
+        } else {
+          updateTaskStatus(taskId, "fetching_products", `找到 ${products.length} 个相关产品（已优化排序）`);
         }
-        
-        try {
-          updateTaskStatus(taskId, "fetching_products", "未找到手机产品，尝试补充手机类目...");
-          const phoneResult = await fetchProductsBySource(payload, payload.keyword, "phones");
-          
-          // 补充手机产品后立即检查暂停状态
+
+        const hasPhoneProduct = products.some(
+          (p) =>
+            (p.category?.toLowerCase().includes("phone") || p.name.toLowerCase().includes("phone")) ||
+            (p.categorySlug?.includes("phone") ?? false)
+        );
+        if (
+          shouldAllowPhoneBackfill(payload.keyword, pageTitleForSeo, primaryCategory) &&
+          !hasPhoneProduct
+        ) {
+          // 在补充手机产品之前检查暂停状态
           if (isTaskPaused(taskId)) {
             return; // 任务已暂停，退出
           }
+        
+          try {
+            updateTaskStatus(taskId, "fetching_products", "未找到手机产品，尝试补充手机类目...");
+            const phoneResult = await fetchProductsBySource(payload, payload.keyword, "phones", signal);
           
-          const phoneProducts =
-            productSource === "shopify"
-              ? attachLearnMoreLinks(phoneResult.products)
-              : attachCategoryLinks(attachLearnMoreLinks(phoneResult.products), siteBaseUrl);
-          // 只取前4个作为补充，避免过多，并应用优先级排序
-          const prioritizedPhoneProducts = prioritizeLatestProducts(phoneProducts);
-          products = filterProductsByPrimaryCategory(
-            [...prioritizedPhoneProducts.slice(0, 4), ...products],
-            primaryCategory
+            // 补充手机产品后立即检查暂停状态
+            if (isTaskPaused(taskId)) {
+              return; // 任务已暂停，退出
+            }
+          
+            const phoneProducts =
+              productSource === "shopify"
+                ? attachLearnMoreLinks(phoneResult.products)
+                : attachCategoryLinks(attachLearnMoreLinks(phoneResult.products), siteBaseUrl);
+            // 只取前4个作为补充，避免过多，并应用优先级排序
+            const prioritizedPhoneProducts = prioritizeLatestProducts(phoneProducts);
+            products = filterProductsByPrimaryCategory(
+              [...prioritizedPhoneProducts.slice(0, 4), ...products],
+              primaryCategory
+            );
+            updateTaskStatus(taskId, "fetching_products", `已补充 ${phoneProducts.length} 个手机产品（已优化排序）`);
+          } catch (e) {
+            console.warn("[task %s] 补充手机类目失败: %s", taskId, e);
+          }
+        }
+      } catch (error) {
+        // 如果获取产品失败（如 WooCommerce 未安装），记录警告但继续执行
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        if (isAxiosError(error)) {
+          const status = error.response?.status;
+          const requestUrl =
+            `${error.config?.baseURL ?? ""}${error.config?.url ?? ""}` ||
+            error.config?.url ||
+            "unknown";
+          const responseData =
+            typeof error.response?.data === "string"
+              ? error.response.data
+              : JSON.stringify(error.response?.data ?? {});
+          console.warn(
+            `[task ${taskId}] 获取产品失败（source=${productSource}），HTTP ${status ?? "unknown"}，url=${requestUrl}，response=${responseData}`
           );
-          updateTaskStatus(taskId, "fetching_products", `已补充 ${phoneProducts.length} 个手机产品（已优化排序）`);
-        } catch (e) {
-          console.warn("[task %s] 补充手机类目失败: %s", taskId, e);
+        } else {
+          console.warn(`[task ${taskId}] 获取产品失败（source=${productSource}），继续执行:`, errorMsg);
         }
+        updateTaskStatus(taskId, "fetching_products", "获取产品失败，继续发布页面（不包含产品列表）...");
+        products = [];
+        relatedProducts = [];
       }
-    } catch (error) {
-      // 如果获取产品失败（如 WooCommerce 未安装），记录警告但继续执行
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      if (isAxiosError(error)) {
-        const status = error.response?.status;
-        const requestUrl =
-          `${error.config?.baseURL ?? ""}${error.config?.url ?? ""}` ||
-          error.config?.url ||
-          "unknown";
-        const responseData =
-          typeof error.response?.data === "string"
-            ? error.response.data
-            : JSON.stringify(error.response?.data ?? {});
-        console.warn(
-          `[task ${taskId}] 获取产品失败（source=${productSource}），HTTP ${status ?? "unknown"}，url=${requestUrl}，response=${responseData}`
-        );
-      } else {
-        console.warn(`[task ${taskId}] 获取产品失败（source=${productSource}），继续执行:`, errorMsg);
-      }
-      updateTaskStatus(taskId, "fetching_products", "获取产品失败，继续发布页面（不包含产品列表）...");
-      products = [];
-      relatedProducts = [];
+      saveTaskCheckpoint(
+        taskId,
+        "products",
+        { products, relatedProducts, primaryCategory },
+        payload
+      );
     }
 
     // 【已移除】此部分逻辑已废弃，因为现在 AI 生成内容时就会传入实际产品列表，
@@ -1258,12 +1623,23 @@ async function processTask(taskId: string, payload: GenerationRequestPayload) {
     console.log(`  - 第三排产品数量: ${productsRow3.length}`);
     
     // 构建预期的页面URL（用于SEO meta标签）
-    const baseSlug = createSlug(finalPageTitle) || createSlug(payload.keyword) || `page-${Date.now()}`;
+    // refresh 模式沿用已有页面的 slug（标题可能已变化）
+    const baseSlug =
+      resolveRefreshSlug(payload) ||
+      createSlug(finalPageTitle, targetLocale.slugifyLocale) ||
+      createSlug(payload.keyword, targetLocale.slugifyLocale) ||
+      `page-${Date.now()}`;
+    // 非默认语言的页面带语言前缀（如 de/luxury-life-guides/...）；同一 translationKey 的各语言页面互为译本
+    const pageSlug = localizeGuideSlug(baseSlug, targetLocale);
     const publicRootForMeta =
       publishTarget === "static" || publishTarget === "sanity"
         ? normalizePublicSiteRoot(siteBaseUrl)
         : siteBaseUrl;
-    const expectedPageUrl = `${publicRootForMeta}/luxury-life-guides/${baseSlug}/`;
+    const expectedPageUrl = `${publicRootForMeta}/${pageSlug}/`;
+    const translationKey =
+      normalizeTranslationKey(payload.translationKey || "") ||
+      (resolveRefreshSlug(payload) ? await findStoredTranslationKey(expectedPageUrl) : "") ||
+      baseSlug;
 
     // OG 封面图在 AI 生成前通过 Sanity 图库 API 解析（见 resolveLandingImages）
     let pageImageUrl = "";
@@ -2466,11 +2842,30 @@ async function processTask(taskId: string, payload: GenerationRequestPayload) {
       );
     }
 
-    let generatedContent: GeneratedContent | undefined;
-    let alignmentReasons: string[] = [];
-    let alignmentAttempts = 0;
-
-    for (let attempt = 1; attempt <= MAX_ALIGNMENT_ATTEMPTS; attempt++) {
+    // 续跑：正文已生成则复用（商品区按检查点商品重新分组）
+    const contentCheckpoint = getTaskCheckpoint(taskId, "content");
+    let generatedContent: GeneratedContent | undefined = contentCheckpoint?.generatedContent;
+    let alignmentReasons: string[] = contentCheckpoint?.alignmentReasons ?? [];
+    let alignmentAttempts = contentCheckpoint?.alignmentAttempts ?? 0;
+    // 与已发布指南近似重复时记录最相似的页面，下一轮带差异化提示重生成（与对齐重试共用次数）
+    const nearDuplicateThreshold = resolveNearDuplicateThreshold(payload);
+    let nearDuplicate: NearDuplicateMatch | null = null;
+    // 知识库取当前保存的产品记录（可通过 /api/knowledge-base 修改，无需发版）
+    const knowledgeBase = await getKnowledgeBase();
+    const knowledgeBaseContent = renderKnowledgeBase(knowledgeBase.products);
+    // 价格/规格核对：知识库产品记录（价格区间按原币种）+ 本页实际抓取的商品价格；correct 模式先原地修正可确定的数值，其余差异带清单重生成
+    const factCheckMode = payload.factCheckMode || process.env.FACT_CHECK_MODE || "correct";
+    const productFacts =
+      factCheckMode === "off"
+        ? []
+        : [
+            ...knowledgeBaseFacts(knowledgeBase.products),
+            ...catalogFacts([...productsRow1, ...productsRow2, ...productsRow3, ...(topProducts || [])]),
+          ];
+    let factDiscrepancies: FactDiscrepancy[] = [];
+    let factCheckSummary: { claims: number; corrected: FactDiscrepancy[]; remaining: FactDiscrepancy[] } | undefined;
+
+    for (let attempt = 1; !contentCheckpoint && attempt <= MAX_ALIGNMENT_ATTEMPTS; attempt++) {
       alignmentAttempts = attempt;
       await waitForTaskResume(taskId);
       if (isTaskPaused(taskId)) {
@@ -2487,10 +2882,15 @@ async function processTask(taskId: string, payload: GenerationRequestPayload) {
               pageTitleForSeo
             )
           : undefined;
+      const differentiationHint = nearDuplicate ? buildDifferentiationHint(nearDuplicate) : undefined;
+      const factHint = factDiscrepancies.length > 0 ? buildFactCheckRetryHint(factDiscrepancies) : undefined;
       const basePrompt = mergeUserPrompt(payload.userPrompt, emptyCatalogHint || undefined);
-      const mergedPrompt = mergeUserPrompt(basePrompt, retryHint);
+      const mergedPrompt = mergeUserPrompt(
+        basePrompt,
+        [retryHint, differentiationHint, factHint].filter(Boolean).join("\n\n") || undefined
+      );
 
-      if (attempt > 1) {
+      if (attempt > 1 && alignmentReasons.length > 0) {
         console.log(
           `[task ${taskId}] alignment_attempt=${attempt} reasons=${alignmentReasons.join("; ")}`
         );
@@ -2499,6 +2899,18 @@ async function processTask(taskId: string, payload: GenerationRequestPayload) {
           "generating_content",
           `正文与关键词/商品不一致，第 ${attempt} 次重生成（${alignmentReasons.join("; ")}）`
         );
+      } else if (attempt > 1 && nearDuplicate) {
+        updateTaskStatus(
+          taskId,
+          "generating_content",
+          `正文与已有指南「${nearDuplicate.page.pageTitle || nearDuplicate.page.keyword}」相似度 ${Math.round(nearDuplicate.similarity * 100)}%，第 ${attempt} 次重生成`
+        );
+      } else if (attempt > 1 && factDiscrepancies.length > 0) {
+        updateTaskStatus(
+          taskId,
+          "generating_content",
+          `正文有 ${factDiscrepancies.length} 处价格/规格与商品数据不符，第 ${attempt} 次重生成`
+        );
       }
 
       generatedContent = await generateHtmlContent({
@@ -2508,6 +2920,7 @@ async function processTask(taskId: string, payload: GenerationRequestPayload) {
         titleType: payload.titleType,
         templateType: payload.templateType || "template-1",
         userPrompt: mergedPrompt,
+        knowledgeBaseContent,
         availableProducts: availableProductNames,
         articleImageUrls,
         onStatusUpdate: (message) => {
@@ -2516,6 +2929,10 @@ async function processTask(taskId: string, payload: GenerationRequestPayload) {
           }
         },
         shouldAbort: () => isTaskPaused(taskId),
+        signal,
+        llmProvider,
+        onLlmUsage,
+        locale: targetLocale.code,
       });
 
       if (isTaskPaused(taskId)) {
@@ -2533,19 +2950,75 @@ async function processTask(taskId: string, payload: GenerationRequestPayload) {
         topicContentMismatch: generatedContent.topicContentMismatch,
       });
 
-      if (!alignmentEval.needsRetry) {
+      const duplicateCheck = await checkNearDuplicate(
+        taskId,
+        `${generatedContent.articleContent}\n${generatedContent.extendedContent || ""}`,
+        { threshold: nearDuplicateThreshold, pageUrl: expectedPageUrl }
+      ).catch((err) => {
+        console.warn(`[task ${taskId}] 近似重复检查失败，跳过:`, sanitizeSensitive(err));
+        return { fingerprint: [], match: null };
+      });
+      nearDuplicate = duplicateCheck.match;
+      if (nearDuplicate) {
+        console.warn(
+          `[task ${taskId}] near_duplicate similarity=${nearDuplicate.similarity.toFixed(2)} with ${nearDuplicate.page.pageUrl || nearDuplicate.page.keyword}`
+        );
+      }
+
+      if (productFacts.length > 0) {
+        const factCheck = factCheckContent(generatedContent, productFacts, { correct: factCheckMode === "correct" });
+        generatedContent = factCheck.content;
+        factDiscrepancies = factCheck.remaining;
+        factCheckSummary = factCheck;
+        if (factCheck.corrected.length > 0) {
+          console.log(
+            `[task ${taskId}] fact_check corrected=${factCheck.corrected.map((d) => `${d.product}: ${d.stated} → ${d.correction}`).join("; ")}`
+          );
+        }
+        if (factDiscrepancies.length > 0) {
+          console.warn(
+            `[task ${taskId}] fact_check remaining=${factDiscrepancies.map((d) => `${d.product}: ${d.stated} (expected ${d.expected})`).join("; ")}`
+          );
+        }
+      }
+
+      if (!alignmentEval.needsRetry && !nearDuplicate && factDiscrepancies.length === 0) {
         alignmentReasons = [];
         break;
       }
 
-      alignmentReasons = alignmentEval.reasons;
-      if (attempt === MAX_ALIGNMENT_ATTEMPTS) {
+      alignmentReasons = alignmentEval.needsRetry ? alignmentEval.reasons : [];
+      if (attempt === MAX_ALIGNMENT_ATTEMPTS && alignmentReasons.length > 0) {
         console.warn(
           `[task ${taskId}] final_alignment_mismatch after ${MAX_ALIGNMENT_ATTEMPTS} attempts: ${alignmentReasons.join("; ")}`
         );
       }
+      if (attempt === MAX_ALIGNMENT_ATTEMPTS && nearDuplicate) {
+        console.warn(`[task ${taskId}] 重生成 ${MAX_ALIGNMENT_ATTEMPTS} 次后正文仍与已有指南近似重复，转人工审核`);
+      }
+      if (attempt === MAX_ALIGNMENT_ATTEMPTS && factDiscrepancies.length > 0) {
+        console.warn(
+          `[task ${taskId}] 重生成 ${MAX_ALIGNMENT_ATTEMPTS} 次后仍有 ${factDiscrepancies.length} 处价格/规格无法核实，转人工审核`
+        );
+      }
     }
 
+    // 重生成次数用完仍近似重复或有无法核实的价格/规格：写入任务详情，渲染后转人工审核，不自动发布
+    // （续跑时沿用任务详情中已记录的结果）
+    const unresolvedQuality: UnresolvedQuality | undefined =
+      nearDuplicate || factDiscrepancies.length > 0
+        ? {
+            ...(nearDuplicate && {
+              nearDuplicate: {
+                similarity: nearDuplicate.similarity,
+                keyword: nearDuplicate.page.keyword,
+                pageUrl: nearDuplicate.page.pageUrl,
+              },
+            }),
+            ...(factDiscrepancies.length > 0 && { factDiscrepancies }),
+          }
+        : undefined;
+
     if (!generatedContent) {
       throw new Error(`[task ${taskId}] AI content generation produced no result`);
     }
@@ -2557,10 +3030,33 @@ async function processTask(taskId: string, payload: GenerationRequestPayload) {
         alignmentAttempts,
         alignmentReasons,
         finalAlignmentMismatch: alignmentReasons.length > 0,
+        knowledgeBaseVersion: knowledgeBase.version,
+        ...(nearDuplicate && {
+          nearDuplicate: {
+            similarity: nearDuplicate.similarity,
+            keyword: nearDuplicate.page.keyword,
+            pageUrl: nearDuplicate.page.pageUrl,
+          },
+        }),
+        ...(factCheckSummary && {
+          factCheck: {
+            claims: factCheckSummary.claims,
+            corrected: factCheckSummary.corrected,
+            remaining: factCheckSummary.remaining,
+          },
+        }),
+        ...(!contentCheckpoint && { unresolvedQuality }),
+        llmUsage: { ...llmUsage },
       },
       alignmentAttempts,
       alignmentReasons,
       finalAlignmentMismatch: alignmentReasons.length > 0,
+      // 指纹取注入固定段落（信息增益片段、配图）之前的正文，避免公共片段抬高相似度；续跑沿用已记录的指纹
+      ...(!contentCheckpoint && {
+        contentFingerprint: buildContentFingerprint(
+          `${generatedContent.articleContent}\n${generatedContent.extendedContent || ""}`
+        ),
+      }),
     });
 
     // 生成内容后立即检查暂停状态
@@ -2568,7 +3064,7 @@ async function processTask(taskId: string, payload: GenerationRequestPayload) {
       return; // 任务已暂停，丢弃结果并退出
     }
     
-    if (articleImageUrls.length > 0) {
+    if (!contentCheckpoint && articleImageUrls.length > 0) {
       const isLongForm =
         payload.templateType === "template-3" ||
         payload.templateType === "template-4" ||
@@ -2600,12 +3096,14 @@ async function processTask(taskId: string, payload: GenerationRequestPayload) {
       }
     }
 
-    const gainSnippet = pickInformationGainSnippet(payload.keyword, primaryCategory);
-    const gainHtml = buildExpertInsightHtml(gainSnippet.title, gainSnippet.body);
-    generatedContent.articleContent = injectInformationGainBeforeFirstH2(
-      generatedContent.articleContent,
-      gainHtml
-    );
+    if (!contentCheckpoint) {
+      const gainSnippet = pickInformationGainSnippet(payload.keyword, primaryCategory);
+      const gainHtml = buildExpertInsightHtml(gainSnippet.title, gainSnippet.body);
+      generatedContent.articleContent = injectInformationGainBeforeFirstH2(
+        generatedContent.articleContent,
+        gainHtml
+      );
+    }
 
     if (
       shouldRequireHowToSteps(searchIntent, payload.titleType) &&
@@ -2616,22 +3114,38 @@ async function processTask(taskId: string, payload: GenerationRequestPayload) {
       );
     }
 
-    let quickAnswerText = "";
-    try {
-      quickAnswerText = await generateQuickAnswerSnippet({
-        apiKey,
-        keyword: payload.keyword,
-        pageTitle: finalPageTitle,
-        intent: searchIntent,
-        onStatusUpdate: (message) => {
-          if (!isTaskPaused(taskId)) {
-            updateTaskStatus(taskId, "generating_content", message);
-          }
-        },
-      });
-    } catch (qaErr) {
-      console.warn(`[task ${taskId}] Quick answer generation failed:`, qaErr);
-      quickAnswerText = `${finalPageTitle} — a concise guide to ${payload.keyword}, covering what to look for, how premium options differ, and practical buying considerations.`;
+    let quickAnswerText = contentCheckpoint?.quickAnswerText ?? "";
+    if (!contentCheckpoint) {
+      try {
+        quickAnswerText = await generateQuickAnswerSnippet({
+          apiKey,
+          keyword: payload.keyword,
+          pageTitle: finalPageTitle,
+          intent: searchIntent,
+          onStatusUpdate: (message) => {
+            if (!isTaskPaused(taskId)) {
+              updateTaskStatus(taskId, "generating_content", message);
+            }
+          },
+          signal,
+          llmProvider,
+          onLlmUsage,
+          locale: targetLocale.code,
+        });
+      } catch (qaErr) {
+        console.warn(`[task ${taskId}] Quick answer generation failed:`, sanitizeSensitive(qaErr));
+        // 英文兜底句不适用于其他语言，非英文页面只保留标题
+        quickAnswerText = targetLocale.code.startsWith("en-")
+          ? `${finalPageTitle} — a concise guide to ${payload.keyword}, covering what to look for, how premium options differ, and practical buying considerations.`
+          : finalPageTitle;
+      }
+
+      saveTaskCheckpoint(
+        taskId,
+        "content",
+        { generatedContent, quickAnswerText, alignmentAttempts, alignmentReasons },
+        payload
+      );
     }
 
     console.log(`[task ${taskId}] ✅ AI 内容生成完成（基于实际 ${availableProductNames.length} 个产品）`);
@@ -2766,8 +3280,17 @@ async function processTask(taskId: string, payload: GenerationRequestPayload) {
     const showTrustStripFinal =
       (isTemplate1 || isTemplate2 || isTemplate3 || isTemplate4 || isTemplate6) && !isTemplate5;
 
-    let relatedGuides: Array<{ title: string; url: string }> = [];
-    if (publishTarget === "sanity") {
+    // 相关指南：站内内链图谱（历史 + Sanity + 静态站）按相关度排序；图谱为空时退回 Sanity 同品类最新文档
+    const graphRelated = await findRelatedGuides(
+      payload,
+      { keyword: payload.keyword, title: finalPageTitle, category: primaryCategory, url: expectedPageUrl },
+      6
+    );
+    let relatedGuides: Array<{ title: string; url: string }> = graphRelated.map(({ page }) => ({
+      title: page.title || page.keyword,
+      url: page.url,
+    }));
+    if (relatedGuides.length === 0 && publishTarget === "sanity") {
       const sanityProjectId =
         payload.sanity?.projectId || process.env.SANITY_PROJECT_ID || "";
       const sanityDataset = payload.sanity?.dataset || process.env.SANITY_DATASET || "";
@@ -2791,25 +3314,38 @@ async function processTask(taskId: string, payload: GenerationRequestPayload) {
               payload.sanity?.docType ||
               process.env.SANITY_DOC_TYPE ||
               "luxuryLifeGuide",
-            currentSlug: `luxury-life-guides/${baseSlug}`,
+            currentSlug: pageSlug,
             primaryCategory,
             limit: 6,
             baseUrl: sanityBaseUrl,
           });
-          if (relatedGuides.length > 0) {
-            const existingUrls = new Set(internalLinks.map((l) => l.url));
-            for (const guide of relatedGuides) {
-              if (!existingUrls.has(guide.url) && internalLinks.length < 8) {
-                internalLinks.push({ title: guide.title, url: guide.url });
-                existingUrls.add(guide.url);
-              }
-            }
-          }
         } catch (relatedErr) {
-          console.warn(`[task ${taskId}] Sanity related guides fetch failed:`, relatedErr);
+          console.warn(`[task ${taskId}] Sanity related guides fetch failed:`, sanitizeSensitive(relatedErr));
         }
       }
     }
+    if (relatedGuides.length > 0) {
+      const existingUrls = new Set(internalLinks.map((l) => l.url));
+      for (const guide of relatedGuides) {
+        if (!existingUrls.has(guide.url) && internalLinks.length < 8) {
+          internalLinks.push({ title: guide.title, url: guide.url });
+          existingUrls.add(guide.url);
+        }
+      }
+    }
+    if (graphRelated.length > 0) {
+      const contextual = injectRelatedGuideLinks(
+        generatedContent.articleContent,
+        graphRelated,
+        Number(process.env.INTERNAL_LINKS_IN_BODY ?? 3)
+      );
+      generatedContent.articleContent = contextual.html;
+      if (contextual.inserted.length > 0) {
+        console.log(
+          `[task ${taskId}] 正文内链: ${contextual.inserted.map((link) => `"${link.anchor}" → ${link.url}`).join("; ")}`
+        );
+      }
+    }
 
     const resolvedAuthor = resolveArticleAuthor(payload, payload.keyword);
     const authorProfileUrl = `${siteBaseUrl}${resolvedAuthor.profilePath}`;
@@ -2818,15 +3354,26 @@ async function processTask(taskId: string, payload: GenerationRequestPayload) {
       payload.templateType
     );
 
+    // 同一 translationKey 已发布的其他语言版本（WordPress 只发布默认语言，无需查找）
+    const hreflangAlternates =
+      publishTarget === "static" || publishTarget === "sanity"
+        ? await resolveHreflangAlternates(payload, { locale: targetLocale.code, translationKey, url: expectedPageUrl })
+        : [];
+
     updateTaskStatus(taskId, "rendering_template", "正在渲染 SEO 优化模板...", {
+      // 记录实际渲染的模板（策略可能替换了请求中的模板），bandit 奖励按此归属
+      templateType: payload.templateType || "template-1",
       searchIntent,
       experimentVariant: payload.experimentVariant,
       experimentId: payload.experimentId,
+      locale: targetLocale.code,
+      translationKey,
       details: {
         ...((getTask(taskId)?.details as Record<string, unknown>) || {}),
         searchIntent,
         experimentVariant: payload.experimentVariant,
         experimentId: payload.experimentId,
+        llmUsage: { ...llmUsage },
       },
     });
 
@@ -2873,9 +3420,11 @@ async function processTask(taskId: string, payload: GenerationRequestPayload) {
       quickAnswerText,
       layoutPriority: payload.layoutPriority || layoutPriority,
       searchIntent,
-      pageSlug: `luxury-life-guides/${baseSlug}`,
+      pageSlug,
       experimentVariant: payload.experimentVariant,
       showHelpfulFeedback: true,
+      locale: targetLocale.code,
+      hreflangAlternates,
     });
 
     // 调试：检查渲染后的 HTML 内容
@@ -2900,136 +3449,459 @@ async function processTask(taskId: string, payload: GenerationRequestPayload) {
       return; // 任务已暂停，退出
     }
     
-    const slug = `luxury-life-guides/${baseSlug}`;
-    if ((payload.publishTarget ?? "wordpress") === "static") {
-      updateTaskStatus(taskId, "publishing", "正在发布静态页面...");
-      const outputDir = payload.staticPublish?.outputDir || process.env.STATIC_PUBLISH_DIR || "";
-      const baseUrl = payload.staticPublish?.baseUrl || process.env.STATIC_BASE_URL || "";
-      const published = await publishStaticPage({
-        slug,
-        htmlContent: finalHtml,
-        outputDir,
-        baseUrl,
+    const renderedPage: RenderedPage = {
+      html: finalHtml,
+      pageTitle: finalPageTitle,
+      baseSlug,
+      slug: pageSlug,
+      expectedPageUrl,
+      metaDescription: generatedContent.metaDescription || "",
+      pageImageUrl: pageImageUrl || "",
+      primaryCategory,
+      authorSlug: resolvedAuthor.slug,
+      locale: targetLocale.code,
+      translationKey,
+      hreflangAlternates,
+    };
+
+    // 发布前校验 JSON-LD（必填属性、FAQ 与页面可见内容一致）
+    const structuredDataMode =
+      payload.structuredDataValidation || process.env.STRUCTURED_DATA_VALIDATION || "warn";
+    const structuredData = structuredDataMode === "off" ? undefined : validateStructuredData(finalHtml);
+    if (structuredData) {
+      console.log(
+        `[task ${taskId}] 结构化数据校验: ${structuredData.blocks} 个 JSON-LD，${structuredData.errors.length} 个错误，${structuredData.warnings.length} 个警告`
+      );
+      if (structuredData.errors.length > 0) {
+        console.warn(`[task ${taskId}] 结构化数据错误: ${formatStructuredDataIssues(structuredData.errors)}`);
+      }
+      if (structuredData.warnings.length > 0) {
+        console.warn(`[task ${taskId}] 结构化数据警告: ${formatStructuredDataIssues(structuredData.warnings)}`);
+      }
+      updateTaskStatus(taskId, "rendering_template", "结构化数据校验完成", {
+        details: {
+          ...((getTask(taskId)?.details as Record<string, unknown>) || {}),
+          structuredData: { errors: structuredData.errors, warnings: structuredData.warnings },
+        },
       });
+    }
 
-      if (isTaskPaused(taskId)) {
-        return;
-      }
+    // 发布前 SEO 质量评分：分数与未通过项记录到任务 / 历史记录
+    const seoGateThreshold = resolveSeoGateThreshold(payload);
+    const seoGate = evaluateSeoGate(
+      {
+        html: finalHtml,
+        articleHtml: `${generatedContent.articleContent}\n${generatedContent.extendedContent || ""}`,
+        pageTitle: finalPageTitle,
+        metaDescription: generatedContent.metaDescription || "",
+        keyword: payload.keyword,
+        pageUrl: expectedPageUrl,
+        longForm: shouldTreatAsLongFormGuideArticle(payload.templateType, payload.keyword, finalPageTitle, payload.titleType),
+      },
+      seoGateThreshold
+    );
+    console.log(
+      `[task ${taskId}] SEO 质量分: ${seoGate.score}/100（阈值 ${seoGateThreshold}）${seoGate.failing.length ? `，未通过: ${seoGate.failing.join(", ")}` : ""}`
+    );
+    // 低于阈值时不直接失败：页面照常渲染保存，记入 unresolvedQuality 转人工审核（已花费的生成不浪费，审核通过后仍可发布）
+    const qualityIssues: UnresolvedQuality = {
+      ...getUnresolvedQuality(taskId),
+      seoGate: seoGate.passed
+        ? undefined
+        : {
+            score: seoGate.score,
+            threshold: seoGateThreshold,
+            failing: seoGate.checks.filter((c) => !c.passed).map((c) => `${c.id} (${c.detail})`),
+          },
+    };
+    updateTaskStatus(taskId, "rendering_template", `SEO 质量分 ${seoGate.score}/100`, {
+      seoScore: seoGate.score,
+      seoFailingChecks: seoGate.failing,
+      details: {
+        ...((getTask(taskId)?.details as Record<string, unknown>) || {}),
+        unresolvedQuality: Object.values(qualityIssues).some(Boolean) ? qualityIssues : undefined,
+      },
+    });
 
-      try {
-        await updateStaticSiteSeoFiles(outputDir, baseUrl, published.pageUrl);
-        console.log(`[task ${taskId}] SEO: robots.txt / sitemap.xml 已更新（${published.pageUrl}）`);
-      } catch (seoErr) {
-        console.warn(`[task ${taskId}] SEO 文件更新失败（页面已写入）:`, seoErr);
-      }
+    const pagePreview: PagePreview = {
+      html: finalHtml,
+      report: {
+        taskId,
+        keyword: payload.keyword,
+        pageTitle: finalPageTitle,
+        publishTarget,
+        templateType: payload.templateType || "template-1",
+        searchIntent,
+        layoutPriority: payload.layoutPriority || layoutPriority,
+        experimentVariant: payload.experimentVariant,
+        primaryCategory,
+        keywordGate: {
+          tier: keywordGate.tier,
+          score: keywordGate.score,
+          allowed: keywordGate.allowed,
+          reasons: keywordGate.reasons,
+        },
+        products: productsForRender.map(({ id, name, link, category, price }) => ({
+          id,
+          name,
+          link,
+          category,
+          price,
+        })),
+        productCounts: {
+          top: topProducts.length,
+          row1: productsForRender.length,
+          row2: productsRow2.length,
+          related: productsRow3.length,
+        },
+        alignment: {
+          attempts: alignmentAttempts,
+          reasons: alignmentReasons,
+          finalMismatch: alignmentReasons.length > 0,
+        },
+        structuredData,
+        seoGate,
+        slug: renderedPage.slug,
+        expectedPageUrl,
+        metaDescription: renderedPage.metaDescription,
+        htmlLength: finalHtml.length,
+        generatedAt: Date.now(),
+      },
+    };
 
-      console.log(`[task ${taskId}] 静态页面发布成功: ${published.pageUrl}`);
-      console.log(`[task ${taskId}] 文件写入位置: ${published.filePath}`);
-      setTaskCompleted(taskId, "静态页面发布成功！", published.pageUrl);
+    if (isPreviewRun(payload)) {
+      updateTaskStatus(taskId, "rendering_template", "正在保存预览（不发布）...");
+      await savePagePreview(taskId, pagePreview);
+      console.log(`[task ${taskId}] 预览已保存（dry-run，未发布）`);
+      setTaskCompleted(taskId, `预览已生成（未发布），查看：/api/tasks/${taskId}/preview`);
       return;
     }
 
-    if ((payload.publishTarget ?? "wordpress") === "sanity") {
-      updateTaskStatus(taskId, "publishing", "正在发布到 Sanity...");
-      const { bodyHtml, jsonLdScripts } = extractPublishHtml(finalHtml);
-      const nowIso = new Date().toISOString();
-      const published = await publishToSanity({
-        title: finalPageTitle,
-        slug,
-        bodyHtml,
-        excerpt: generatedContent.metaDescription || "",
-        canonicalPath: canonicalPathFromPageUrl(expectedPageUrl),
-        ogImage: pageImageUrl || "",
-        jsonLd: serializeJsonLdScripts(jsonLdScripts),
-        publishedAt: payload.articleDatePublishedISO || nowIso,
-        modifiedAt: nowIso,
-        primaryCategory,
-        keyword: payload.keyword,
-        experimentVariant: payload.experimentVariant,
-        experimentId: payload.experimentId,
-        authorSlug: resolvedAuthor.slug,
-        contentVersion: 1,
-        lastReviewedAt: nowIso,
-        projectId: payload.sanity?.projectId || process.env.SANITY_PROJECT_ID || "",
-        dataset: payload.sanity?.dataset || process.env.SANITY_DATASET || "",
-        token: payload.sanity?.token || process.env.SANITY_API_TOKEN || "",
-        apiVersion: payload.sanity?.apiVersion || process.env.SANITY_API_VERSION || "2024-01-01",
-        docType: payload.sanity?.docType || process.env.SANITY_DOC_TYPE || "luxuryLifeGuide",
-        baseUrl: payload.sanity?.baseUrl || process.env.SANITY_BASE_URL || "",
-      });
+    // strict：结构化数据有错误时不发布（预览运行不受影响，可在预览报告中查看问题）
+    if (structuredDataMode === "strict" && structuredData && structuredData.errors.length > 0) {
+      throw new Error(
+        `Structured data validation failed (${structuredData.errors.length} errors): ${formatStructuredDataIssues(structuredData.errors)}`
+      );
+    }
 
-      const revalidateSecret = process.env.REVALIDATE_SECRET || "";
-      const nextSiteUrl = process.env.NEXT_PUBLIC_SITE_URL || payload.sanity?.baseUrl || "";
-      if (revalidateSecret && nextSiteUrl) {
-        try {
-          const revalidateUrl = `${nextSiteUrl.replace(/\/+$/, "")}/api/revalidate?secret=${encodeURIComponent(revalidateSecret)}&slug=${encodeURIComponent(slug.replace(/^luxury-life-guides\//, ""))}`;
-          await fetch(revalidateUrl, { method: "POST" });
-          console.log(`[task ${taskId}] ISR revalidate requested for ${slug}`);
-        } catch (revErr) {
-          console.warn(`[task ${taskId}] ISR revalidate failed:`, revErr);
-        }
+    saveTaskCheckpoint(taskId, "render", renderedPage, payload);
+
+    // 人工审核：保存预览供编辑查看，批准后由审核接口从 render 检查点继续发布；
+    // 有未解决的质量问题时即使未要求审核也不自动发布
+    const qualityHold = getUnresolvedQuality(taskId);
+    if (requiresReview(payload) || qualityHold) {
+      await savePagePreview(taskId, pagePreview);
+      console.log(`[task ${taskId}] 页面已渲染，等待审核`);
+      updateTaskStatus(
+        taskId,
+        "awaiting_review",
+        qualityHold
+          ? `质量检查未通过（${describeUnresolvedQuality(qualityHold)}），等待审核。预览：/api/tasks/${taskId}/preview`
+          : `页面已渲染，等待审核。预览：/api/tasks/${taskId}/preview`
+      );
+      return;
+    }
+
+    await publishRenderedPage(taskId, payload, renderedPage);
+  } catch (error) {
+    if (isTaskCancelled(taskId)) {
+      console.log(`[task ${taskId}] 任务已取消，流水线已停止`);
+      return;
+    }
+    console.error(`[task ${taskId}]`, sanitizeSensitive(error));
+    const message = error instanceof Error ? error.message : "生成流程失败";
+    setTaskError(taskId, message);
+  }
+}
+
+/**
+ * 完成发布：写入 publish 检查点后再标记完成（续跑时不会重复发布）
+ */
+function completePublishedTask(taskId: string, message: string, pageUrl?: string) {
+  saveTaskCheckpoint(taskId, "publish", { pageUrl, message });
+  setTaskCompleted(taskId, message, pageUrl);
+}
+
+/**
+ * 页面被覆盖后保存旧 HTML 为修订版本（可通过 /api/revisions/rollback 回滚）；失败不影响发布结果
+ */
+async function savePreviousVersion(
+  taskId: string,
+  payload: GenerationRequestPayload,
+  target: PagePublishTarget,
+  slug: string,
+  previous: { html: string; title?: string },
+  previousVersion: number,
+  currentVersion: number
+): Promise<void> {
+  try {
+    const revision = await savePageRevision(
+      target,
+      slug,
+      {
+        contentVersion: previousVersion,
+        title: previous.title,
+        html: previous.html,
+        taskId,
+        reason: payload.publishMode === "refresh" ? "refresh" : "overwrite",
+      },
+      currentVersion
+    );
+    console.log(`[task ${taskId}] 旧版本已保存为修订 #${revision.revision}（contentVersion ${previousVersion}）`);
+  } catch (err) {
+    console.warn(`[task ${taskId}] 保存修订版本失败（页面已更新）:`, sanitizeSensitive(err));
+  }
+}
+
+/**
+ * 新页面发布后在后台把它链接到相关的旧页面（INTERNAL_LINK_BACKFILL_LIMIT=0 关闭）；失败不影响发布结果
+ */
+function scheduleInternalLinkBackfill(
+  taskId: string,
+  payload: GenerationRequestPayload,
+  page: RenderedPage,
+  pageUrl: string
+): void {
+  const limit = Number(process.env.INTERNAL_LINK_BACKFILL_LIMIT ?? 3);
+  if (!(limit > 0)) return;
+  void backfillInternalLinks(
+    payload,
+    { url: pageUrl, title: page.pageTitle, keyword: payload.keyword, category: page.primaryCategory },
+    limit
+  )
+    .then((pages) => {
+      if (pages.length > 0) {
+        console.log(`[task ${taskId}] 已在 ${pages.length} 个相关旧页面中回填指向新页面的内链`);
       }
-      if (isTaskPaused(taskId)) {
-        return;
+    })
+    .catch((err) => console.warn(`[task ${taskId}] 回填内链失败（页面已发布）:`, sanitizeSensitive(err)));
+}
+
+/**
+ * 发布后在后台把新的 hreflang 列表同步到同组已发布的其他语言页面；失败不影响发布结果
+ */
+function scheduleTranslationSync(
+  taskId: string,
+  payload: GenerationRequestPayload,
+  page: RenderedPage,
+  pageUrl: string
+): void {
+  if (!page.hreflangAlternates?.length) return;
+  void syncTranslationSiblings(payload, pageUrl, page.translationKey, page.hreflangAlternates)
+    .then((urls) => {
+      if (urls.length > 0) {
+        console.log(`[task ${taskId}] 已更新 ${urls.length} 个其他语言版本的 hreflang`);
       }
-      console.log(`[task ${taskId}] Sanity 文档发布成功: ${published.documentId}`);
-      setTaskCompleted(taskId, `Sanity 发布成功！文档ID: ${published.documentId}`, published.pageUrl);
+    })
+    .catch((err) => console.warn(`[task ${taskId}] 同步译本 hreflang 失败（页面已发布）:`, sanitizeSensitive(err)));
+}
+
+/**
+ * 将渲染好的页面发布到目标（static / sanity / wordpress）；
+ * publishMode=refresh 时按 slug 原地更新已有页面，contentVersion +1
+ */
+async function publishRenderedPage(
+  taskId: string,
+  payload: GenerationRequestPayload,
+  page: RenderedPage
+): Promise<void> {
+  const slug = page.slug;
+  const signal = getTaskSignal(taskId);
+  const refresh = payload.publishMode === "refresh";
+  if ((payload.publishTarget ?? "wordpress") === "static") {
+    updateTaskStatus(taskId, "publishing", refresh ? "正在原地更新静态页面..." : "正在发布静态页面...");
+    const outputDir = payload.staticPublish?.outputDir || process.env.STATIC_PUBLISH_DIR || "";
+    const baseUrl = payload.staticPublish?.baseUrl || process.env.STATIC_BASE_URL || "";
+    const previousVersion = await getCurrentContentVersion("static", slug);
+    const published = await publishStaticPage(
+      {
+        slug,
+        htmlContent: page.html,
+        outputDir,
+        baseUrl,
+      },
+      signal
+    );
+
+    if (isTaskPaused(taskId)) {
       return;
     }
 
-    updateTaskStatus(taskId, "publishing", "正在发布 WordPress 页面...");
-    const page = await publishPage({
-      credentials: payload.wordpress!,
-      title: finalPageTitle,
+    try {
+      await updateStaticSiteSeoFiles(
+        outputDir,
+        baseUrl,
+        published.pageUrl,
+        page.translationKey ? { locale: page.locale || DEFAULT_LOCALE, translationKey: page.translationKey } : undefined
+      );
+      console.log(`[task ${taskId}] SEO: robots.txt / sitemap.xml 已更新（${published.pageUrl}）`);
+    } catch (seoErr) {
+      console.warn(`[task ${taskId}] SEO 文件更新失败（页面已写入）:`, sanitizeSensitive(seoErr));
+    }
+
+    console.log(`[task ${taskId}] 静态页面发布成功: ${published.pageUrl}`);
+    console.log(`[task ${taskId}] 文件写入位置: ${published.filePath}`);
+    scheduleTranslationSync(taskId, payload, page, published.pageUrl);
+    if (published.previousHtml === null) {
+      if (refresh) console.log(`[task ${taskId}] refresh：未找到已有静态页面，已新建`);
+      completePublishedTask(taskId, "静态页面发布成功！", published.pageUrl);
+      scheduleInternalLinkBackfill(taskId, payload, page, published.pageUrl);
+      return;
+    }
+    const currentVersion = previousVersion + 1;
+    await savePreviousVersion(taskId, payload, "static", slug, { html: published.previousHtml }, previousVersion, currentVersion);
+    completePublishedTask(
+      taskId,
+      `静态页面已原地更新！contentVersion: ${currentVersion}`,
+      published.pageUrl
+    );
+    return;
+  }
+
+  if ((payload.publishTarget ?? "wordpress") === "sanity") {
+    updateTaskStatus(taskId, "publishing", refresh ? "正在原地更新 Sanity 文档..." : "正在发布到 Sanity...");
+    const { bodyHtml, jsonLdScripts } = extractPublishHtml(page.html);
+    const nowIso = new Date().toISOString();
+    const published = await publishToSanity({
+      title: page.pageTitle,
       slug,
-      htmlContent: finalHtml,
-      useElementor: payload.useElementor ?? true,
-    });
+      bodyHtml,
+      excerpt: page.metaDescription,
+      canonicalPath: canonicalPathFromPageUrl(page.expectedPageUrl),
+      ogImage: page.pageImageUrl,
+      jsonLd: serializeJsonLdScripts(jsonLdScripts),
+      // refresh 保留原发布时间
+      publishedAt: payload.articleDatePublishedISO || (refresh ? undefined : nowIso),
+      modifiedAt: nowIso,
+      primaryCategory: page.primaryCategory,
+      keyword: payload.keyword,
+      experimentVariant: payload.experimentVariant,
+      experimentId: payload.experimentId,
+      authorSlug: page.authorSlug,
+      locale: page.locale,
+      translationKey: page.translationKey,
+      hreflang: page.hreflangAlternates,
+      contentVersion: 1,
+      lastReviewedAt: nowIso,
+      projectId: payload.sanity?.projectId || process.env.SANITY_PROJECT_ID || "",
+      dataset: payload.sanity?.dataset || process.env.SANITY_DATASET || "",
+      token: payload.sanity?.token || process.env.SANITY_API_TOKEN || "",
+      apiVersion: payload.sanity?.apiVersion || process.env.SANITY_API_VERSION || "2024-01-01",
+      docType: payload.sanity?.docType || process.env.SANITY_DOC_TYPE || "luxuryLifeGuide",
+      baseUrl: payload.sanity?.baseUrl || process.env.SANITY_BASE_URL || "",
+    }, signal);
 
-    // 发布页面后立即检查暂停状态
+    try {
+      if (await requestSanityRevalidate(slug, payload.sanity?.baseUrl)) {
+        console.log(`[task ${taskId}] ISR revalidate requested for ${slug}`);
+      }
+    } catch (revErr) {
+      console.warn(`[task ${taskId}] ISR revalidate failed:`, sanitizeSensitive(revErr));
+    }
     if (isTaskPaused(taskId)) {
-      return; // 任务已暂停，退出
+      return;
+    }
+    console.log(`[task ${taskId}] Sanity 文档发布成功: ${published.documentId}`);
+    scheduleTranslationSync(taskId, payload, page, published.pageUrl);
+    if (published.previousHtml === null) {
+      if (refresh) console.log(`[task ${taskId}] refresh：未找到已有 Sanity 文档，已新建`);
+      completePublishedTask(taskId, `Sanity 发布成功！文档ID: ${published.documentId}`, published.pageUrl);
+      scheduleInternalLinkBackfill(taskId, payload, page, published.pageUrl);
+      return;
     }
+    await savePreviousVersion(
+      taskId,
+      payload,
+      "sanity",
+      slug,
+      { html: published.previousHtml, title: published.previousTitle },
+      published.contentVersion - 1,
+      published.contentVersion
+    );
+    completePublishedTask(
+      taskId,
+      `Sanity 文档已原地更新！文档ID: ${published.documentId}，contentVersion: ${published.contentVersion}`,
+      published.pageUrl
+    );
+    return;
+  }
 
-    // 获取页面 URL
-    const pageUrl = page?.link ?? page?.guid?.rendered ?? page?.guid?.raw;
-    const baseUrl = payload.wordpress!.url.endsWith("/") 
-      ? payload.wordpress!.url.slice(0, -1) 
-      : payload.wordpress!.url;
-    
-    // 获取页面的实际slug（WordPress返回的slug不包含前缀）
-    const pageSlug = page?.slug || baseSlug;
-    
-    // 构建正确的URL（包含 /luxury-life-guides/ 前缀）
-    const expectedUrl = `${baseUrl}/luxury-life-guides/${pageSlug}/`;
+  updateTaskStatus(taskId, "publishing", refresh ? "正在原地更新 WordPress 页面..." : "正在发布 WordPress 页面...");
+  const publishInput = {
+    credentials: payload.wordpress!,
+    title: page.pageTitle,
+    slug,
+    htmlContent: page.html,
+    useElementor: payload.useElementor ?? true,
+    signal,
+  };
+  let wpPage: any;
+  let refreshedVersion: number | undefined;
+  if (refresh) {
+    const previousVersion = await getCurrentContentVersion("wordpress", slug);
+    const refreshed = await refreshPage({ ...publishInput, contentVersion: previousVersion + 1 });
+    if (refreshed) {
+      wpPage = refreshed.page;
+      refreshedVersion = previousVersion + 1;
+      await savePreviousVersion(
+        taskId,
+        payload,
+        "wordpress",
+        slug,
+        { html: refreshed.previousHtml, title: refreshed.previousTitle },
+        previousVersion,
+        refreshedVersion
+      );
+    } else {
+      console.log(`[task ${taskId}] refresh：未找到 slug 为 ${slug} 的 WordPress 页面，改为新建`);
+    }
+  }
+  if (!wpPage) {
+    wpPage = await publishPage(publishInput);
+  }
+  const publishedLabel = refreshedVersion ? `页面已原地更新（contentVersion: ${refreshedVersion}）` : "发布成功";
+
+  // 发布页面后立即检查暂停状态
+  if (isTaskPaused(taskId)) {
+    return; // 任务已暂停，退出
+  }
+
+  // 获取页面 URL
+  const pageUrl = wpPage?.link ?? wpPage?.guid?.rendered ?? wpPage?.guid?.raw;
+  const baseUrl = payload.wordpress!.url.endsWith("/") 
+    ? payload.wordpress!.url.slice(0, -1) 
+    : payload.wordpress!.url;
+  
+  // 获取页面的实际slug（WordPress返回的slug不包含前缀）
+  const pageSlug = wpPage?.slug || page.baseSlug;
+  
+  // 构建正确的URL（包含 /luxury-life-guides/ 前缀）
+  const expectedUrl = `${baseUrl}/luxury-life-guides/${pageSlug}/`;
+  
+  if (!pageUrl) {
+    // 如果 API 没有返回 URL，使用构建的 URL
+    console.warn(`[task ${taskId}] WordPress API 未返回页面 URL，使用构建的 URL: ${expectedUrl}`);
+    completePublishedTask(taskId, `${publishedLabel}！页面 ID: ${wpPage?.id || '未知'}`, expectedUrl);
+    if (!refreshedVersion) scheduleInternalLinkBackfill(taskId, payload, page, expectedUrl);
+  } else {
+    // 检查返回的URL是否包含 /luxury-life-guides/ 前缀
+    // 如果WordPress的permalink过滤器已生效，URL会包含前缀
+    // 如果未生效（PHP代码未添加或重写规则未刷新），使用构建的URL
+    let finalUrl = pageUrl;
     
-    if (!pageUrl) {
-      // 如果 API 没有返回 URL，使用构建的 URL
-      console.warn(`[task ${taskId}] WordPress API 未返回页面 URL，使用构建的 URL: ${expectedUrl}`);
-      setTaskCompleted(taskId, `发布成功！页面 ID: ${page?.id || '未知'}`, expectedUrl);
+    if (!pageUrl.includes("/luxury-life-guides/")) {
+      // WordPress返回的URL不包含前缀，使用我们构建的URL
+      console.warn(`[task ${taskId}] WordPress返回的URL不包含 /luxury-life-guides/ 前缀`);
+      console.warn(`[task ${taskId}] 原始URL: ${pageUrl}`);
+      console.warn(`[task ${taskId}] 使用构建的URL: ${expectedUrl}`);
+      console.warn(`[task ${taskId}] 提示：请确保已将 wordpress-url-rewrite.php 代码添加到主题的 functions.php 并刷新了重写规则`);
+      finalUrl = expectedUrl;
     } else {
-      // 检查返回的URL是否包含 /luxury-life-guides/ 前缀
-      // 如果WordPress的permalink过滤器已生效，URL会包含前缀
-      // 如果未生效（PHP代码未添加或重写规则未刷新），使用构建的URL
-      let finalUrl = pageUrl;
-      
-      if (!pageUrl.includes("/luxury-life-guides/")) {
-        // WordPress返回的URL不包含前缀，使用我们构建的URL
-        console.warn(`[task ${taskId}] WordPress返回的URL不包含 /luxury-life-guides/ 前缀`);
-        console.warn(`[task ${taskId}] 原始URL: ${pageUrl}`);
-        console.warn(`[task ${taskId}] 使用构建的URL: ${expectedUrl}`);
-        console.warn(`[task ${taskId}] 提示：请确保已将 wordpress-url-rewrite.php 代码添加到主题的 functions.php 并刷新了重写规则`);
-        finalUrl = expectedUrl;
-      } else {
-        console.log(`[task ${taskId}] WordPress返回的URL已包含前缀: ${pageUrl}`);
-      }
-      
-      console.log(`[task ${taskId}] 页面发布成功: ${finalUrl}`);
-      setTaskCompleted(taskId, `发布成功！页面 ID: ${page?.id || '未知'}`, finalUrl);
+      console.log(`[task ${taskId}] WordPress返回的URL已包含前缀: ${pageUrl}`);
     }
-  } catch (error) {
-    console.error(`[task ${taskId}]`, error);
-    const message = error instanceof Error ? error.message : "生成流程失败";
-    setTaskError(taskId, message);
+    
+    console.log(`[task ${taskId}] 页面发布成功: ${finalUrl}`);
+    completePublishedTask(taskId, `${publishedLabel}！页面 ID: ${wpPage?.id || '未知'}`, finalUrl);
+    if (!refreshedVersion) scheduleInternalLinkBackfill(taskId, payload, page, finalUrl);
   }
 }
@@ -15,7 +15,7 @@ export const historyRouter = express.Router();
 historyRouter.get("/history", async (req, res) => {
   try {
     const limit = req.query.limit ? parseInt(String(req.query.limit), 10) : undefined;
-    const status = req.query.status as "completed" | "failed" | undefined;
+    const status = req.query.status as "completed" | "failed" | "cancelled" | "rejected" | undefined;
     const search = req.query.search as string | undefined;
 
     let records = await getAllHistoryRecords();
@@ -41,7 +41,7 @@ historyRouter.get("/history", async (req, res) => {
       records: sanitizeSensitive(records),
     });
   } catch (error) {
-    console.error("[History] Error fetching history:", error);
+    console.error("[History] Error fetching history:", sanitizeSensitive(error));
     return res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : "获取历史记录失败",
@@ -60,7 +60,7 @@ historyRouter.get("/history/recent", async (req, res) => {
       records,
     });
   } catch (error) {
-    console.error("[History] Error fetching recent history:", error);
+    console.error("[History] Error fetching recent history:", sanitizeSensitive(error));
     return res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : "获取最近历史记录失败",
@@ -85,7 +85,7 @@ historyRouter.delete("/history/:taskId", async (req, res) => {
       });
     }
   } catch (error) {
-    console.error("[History] Error deleting history:", error);
+    console.error("[History] Error deleting history:", sanitizeSensitive(error));
     return res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : "删除历史记录失败",
@@ -102,7 +102,7 @@ historyRouter.delete("/history", async (req, res) => {
       message: "所有历史记录已清空",
     });
   } catch (error) {
-    console.error("[History] Error clearing history:", error);
+    console.error("[History] Error clearing history:", sanitizeSensitive(error));
     return res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : "清空历史记录失败",
@@ -0,0 +1,28 @@
+import express from "express";
+import { getJob, listJobs, triggerJob } from "../services/jobScheduler.js";
+
+export const jobsRouter = express.Router();
+
+/**
+ * GET /api/jobs
+ * 内置定时任务列表：cron、上次 / 下次执行时间、上次执行结果
+ */
+jobsRouter.get("/jobs", (_req, res) => {
+  return res.json({ success: true, jobs: listJobs() });
+});
+
+/**
+ * POST /api/jobs/:name/run
+ * 手动触发任务（后台执行）
+ */
+jobsRouter.post("/jobs/:name/run", (req, res) => {
+  const { name } = req.params;
+  if (!getJob(name)) {
+    return res.status(404).json({ success: false, error: `Unknown job "${name}"` });
+  }
+  const error = triggerJob(name);
+  if (error) {
+    return res.status(409).json({ success: false, error });
+  }
+  return res.status(202).json({ success: true, job: getJob(name) });
+});
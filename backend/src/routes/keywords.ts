@@ -0,0 +1,57 @@
+import express from "express";
+import { clusterKeywords } from "../utils/keywordClustering.js";
+
+export const keywordsRouter = express.Router();
+
+/** 单次聚类的关键词上限（两两比对，O(n²)） */
+const MAX_CLUSTER_KEYWORDS = 2000;
+
+/**
+ * 关键词列表：数组或按行 / 逗号分隔的文本
+ */
+function parseKeywords(raw: unknown): string[] | string {
+  const list =
+    typeof raw === "string"
+      ? raw.split(/[\n,]/)
+      : Array.isArray(raw) && raw.every((item) => typeof item === "string")
+        ? (raw as string[])
+        : null;
+  if (!list) {
+    return "keywords must be an array of strings or a newline-separated string";
+  }
+  const keywords = list.map((keyword) => keyword.trim()).filter(Boolean);
+  if (keywords.length === 0) {
+    return "keywords must contain at least one keyword";
+  }
+  if (keywords.length > MAX_CLUSTER_KEYWORDS) {
+    return `keywords supports at most ${MAX_CLUSTER_KEYWORDS} entries per request`;
+  }
+  return keywords;
+}
+
+/**
+ * POST /api/keywords/cluster
+ * 批量规划：关键词闸门 + 搜索意图 + 品类识别，合并近似重复、按主题聚类，
+ * 返回每组的支柱页 / 子页、推荐 titleType 与模板，以及 Tier D 拒绝列表
+ */
+keywordsRouter.post("/keywords/cluster", (req, res) => {
+  const keywords = parseKeywords(req.body?.keywords);
+  if (typeof keywords === "string") {
+    return res.status(400).json({ success: false, error: keywords });
+  }
+  const { clusters, rejects, repeated } = clusterKeywords(keywords);
+  return res.json({
+    success: true,
+    summary: {
+      received: keywords.length,
+      clusters: clusters.length,
+      pages: clusters.reduce((sum, cluster) => sum + 1 + cluster.children.length, 0),
+      duplicates: clusters.reduce((sum, cluster) => sum + cluster.duplicates.length, 0),
+      rejected: rejects.length,
+      repeated: repeated.length,
+    },
+    clusters,
+    rejects,
+    repeated,
+  });
+});
@@ -0,0 +1,205 @@
+import express from "express";
+import { renderKnowledgeBase } from "../knowledgeBase.js";
+import {
+  getKnowledgeBase,
+  getKnowledgeBaseRevision,
+  saveKnowledgeBaseProducts,
+} from "../state/knowledgeBaseStore.js";
+import type { KnowledgeBaseDocument, KnowledgeBaseProduct } from "../types.js";
+import { normalizeKnowledgeBaseProduct, normalizeKnowledgeBaseProducts } from "../utils/knowledgeBaseRecords.js";
+import { sanitizeSensitive } from "../utils/sanitize.js";
+
+export const knowledgeBaseRouter = express.Router();
+
+/**
+ * 解析写入请求的公共参数（note 备注、expectedVersion 乐观锁）
+ * @returns 错误信息或解析结果
+ */
+function parseWriteOptions(body: Record<string, unknown>): { note?: string; expectedVersion?: number } | string {
+  if (body.expectedVersion !== undefined && !Number.isInteger(body.expectedVersion)) {
+    return "expectedVersion must be an integer";
+  }
+  if (body.note !== undefined && typeof body.note !== "string") {
+    return "note must be a string";
+  }
+  return {
+    note: typeof body.note === "string" && body.note.trim() ? body.note.trim().slice(0, 500) : undefined,
+    expectedVersion: body.expectedVersion as number | undefined,
+  };
+}
+
+function versionConflict(res: express.Response, current: KnowledgeBaseDocument) {
+  return res.status(409).json({
+    success: false,
+    error: `Knowledge base has changed (current version ${current.version}); reload and retry`,
+    version: current.version,
+  });
+}
+
+async function save(
+  res: express.Response,
+  products: KnowledgeBaseProduct[],
+  options: { note?: string; expectedVersion?: number }
+) {
+  const saved = await saveKnowledgeBaseProducts(products, options);
+  if (!saved) {
+    return versionConflict(res, await getKnowledgeBase());
+  }
+  console.log(`[KnowledgeBase] 已保存版本 ${saved.version}（${saved.products.length} 个产品）${options.note ? `: ${options.note}` : ""}`);
+  return res.json({ success: true, version: saved.version, updatedAt: saved.updatedAt, products: saved.products });
+}
+
+function handleError(res: express.Response, error: unknown, action: string) {
+  console.error(`[KnowledgeBase] Error ${action}:`, sanitizeSensitive(error));
+  return res.status(500).json({
+    success: false,
+    error: error instanceof Error ? error.message : `Failed ${action}`,
+  });
+}
+
+/**
+ * GET /api/knowledge-base/products
+ * 当前产品记录与版本号
+ */
+knowledgeBaseRouter.get("/knowledge-base/products", async (_req, res) => {
+  try {
+    const kb = await getKnowledgeBase();
+    return res.json({ success: true, version: kb.version, updatedAt: kb.updatedAt, products: kb.products });
+  } catch (error) {
+    return handleError(res, error, "listing knowledge base products");
+  }
+});
+
+knowledgeBaseRouter.get("/knowledge-base/products/:id", async (req, res) => {
+  try {
+    const kb = await getKnowledgeBase();
+    const product = kb.products.find((p) => p.id === req.params.id);
+    if (!product) {
+      return res.status(404).json({ success: false, error: "Product not found" });
+    }
+    return res.json({ success: true, version: kb.version, product });
+  } catch (error) {
+    return handleError(res, error, "reading knowledge base product");
+  }
+});
+
+/**
+ * PUT /api/knowledge-base/products
+ * 整体替换产品列表：{ products, note?, expectedVersion? }
+ */
+knowledgeBaseRouter.put("/knowledge-base/products", async (req, res) => {
+  try {
+    const body = (req.body ?? {}) as Record<string, unknown>;
+    const options = parseWriteOptions(body);
+    if (typeof options === "string") {
+      return res.status(400).json({ success: false, error: options });
+    }
+    const products = normalizeKnowledgeBaseProducts(body.products);
+    if (typeof products === "string") {
+      return res.status(400).json({ success: false, error: products });
+    }
+    return await save(res, products, options);
+  } catch (error) {
+    return handleError(res, error, "saving knowledge base products");
+  }
+});
+
+/**
+ * PUT /api/knowledge-base/products/:id
+ * 新增或整条替换单个产品：{ product, note?, expectedVersion? }（product.id 以路径为准，未提供的列表字段视为空）
+ */
+knowledgeBaseRouter.put("/knowledge-base/products/:id", async (req, res) => {
+  try {
+    const body = (req.body ?? {}) as Record<string, unknown>;
+    const options = parseWriteOptions(body);
+    if (typeof options === "string") {
+      return res.status(400).json({ success: false, error: options });
+    }
+    const input = body.product && typeof body.product === "object" ? body.product : {};
+    const product = normalizeKnowledgeBaseProduct({ ...input, id: req.params.id });
+    if (typeof product === "string") {
+      return res.status(400).json({ success: false, error: product });
+    }
+    const kb = await getKnowledgeBase();
+    const exists = kb.products.some((p) => p.id === product.id);
+    const products = normalizeKnowledgeBaseProducts(
+      exists ? kb.products.map((p) => (p.id === product.id ? product : p)) : [...kb.products, product]
+    );
+    if (typeof products === "string") {
+      return res.status(400).json({ success: false, error: products });
+    }
+    // 基于读取时的版本保存，避免覆盖读取之后的其他修改
+    return await save(res, products, { ...options, expectedVersion: options.expectedVersion ?? kb.version });
+  } catch (error) {
+    return handleError(res, error, "saving knowledge base product");
+  }
+});
+
+/**
+ * GET /api/knowledge-base/versions
+ * 历史版本列表（不含产品内容）
+ */
+knowledgeBaseRouter.get("/knowledge-base/versions", async (_req, res) => {
+  try {
+    const kb = await getKnowledgeBase();
+    return res.json({
+      success: true,
+      currentVersion: kb.version,
+      versions: [...kb.revisions].reverse().map(({ products, ...revision }) => ({
+        ...revision,
+        productCount: products.length,
+      })),
+    });
+  } catch (error) {
+    return handleError(res, error, "listing knowledge base versions");
+  }
+});
+
+knowledgeBaseRouter.get("/knowledge-base/versions/:version", async (req, res) => {
+  try {
+    const revision = await getKnowledgeBaseRevision(Number(req.params.version));
+    if (!revision) {
+      return res.status(404).json({ success: false, error: "Version not found" });
+    }
+    return res.json({ success: true, ...revision });
+  } catch (error) {
+    return handleError(res, error, "reading knowledge base version");
+  }
+});
+
+/**
+ * POST /api/knowledge-base/versions/:version/restore
+ * 恢复历史版本（作为新版本保存，不删除中间版本）：{ note?, expectedVersion? }
+ */
+knowledgeBaseRouter.post("/knowledge-base/versions/:version/restore", async (req, res) => {
+  try {
+    const body = (req.body ?? {}) as Record<string, unknown>;
+    const options = parseWriteOptions(body);
+    if (typeof options === "string") {
+      return res.status(400).json({ success: false, error: options });
+    }
+    const revision = await getKnowledgeBaseRevision(Number(req.params.version));
+    if (!revision) {
+      return res.status(404).json({ success: false, error: "Version not found" });
+    }
+    return await save(res, revision.products, {
+      ...options,
+      note: options.note ?? `Restored version ${revision.version}`,
+    });
+  } catch (error) {
+    return handleError(res, error, "restoring knowledge base version");
+  }
+});
+
+/**
+ * GET /api/knowledge-base/prompt
+ * 由当前产品记录渲染出的提示词知识库文本（纯文本）
+ */
+knowledgeBaseRouter.get("/knowledge-base/prompt", async (_req, res) => {
+  try {
+    const kb = await getKnowledgeBase();
+    return res.type("text/plain").send(renderKnowledgeBase(kb.products));
+  } catch (error) {
+    return handleError(res, error, "rendering knowledge base");
+  }
+});
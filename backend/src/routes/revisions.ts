@@ -0,0 +1,121 @@
+import express from "express";
+import { rollbackToRevision, validateRollbackConfig, type RollbackRequest } from "../services/pageRevisions.js";
+import { resolveSiteProfileOrError } from "../services/siteProfiles.js";
+import { getPageRevision, getPageRevisionHistory } from "../state/revisionStore.js";
+import type { PagePublishTarget } from "../types.js";
+import { sanitizeSensitive } from "../utils/sanitize.js";
+
+export const revisionsRouter = express.Router();
+
+const PUBLISH_TARGETS: PagePublishTarget[] = ["wordpress", "static", "sanity"];
+
+/**
+ * 解析 target + slug（slug 可带 luxury-life-guides/ 前缀，与发布时一致）
+ * @returns 错误信息或解析结果
+ */
+function parsePageRef(target: unknown, slug: unknown): { target: PagePublishTarget; slug: string } | string {
+  if (typeof target !== "string" || !PUBLISH_TARGETS.includes(target as PagePublishTarget)) {
+    return `target must be one of: ${PUBLISH_TARGETS.join(", ")}`;
+  }
+  if (typeof slug !== "string" || !slug.trim()) {
+    return "slug is required";
+  }
+  return { target: target as PagePublishTarget, slug: slug.trim().replace(/^\/+|\/+$/g, "") };
+}
+
+/**
+ * GET /api/revisions?target=wordpress&slug=luxury-life-guides/xxx
+ * 页面的修订版本列表（不含 HTML）
+ */
+revisionsRouter.get("/revisions", async (req, res) => {
+  try {
+    const ref = parsePageRef(req.query.target, req.query.slug);
+    if (typeof ref === "string") {
+      return res.status(400).json({ success: false, error: ref });
+    }
+    const history = await getPageRevisionHistory(ref.target, ref.slug);
+    return res.json({
+      success: true,
+      target: ref.target,
+      slug: ref.slug,
+      currentVersion: history?.currentVersion ?? null,
+      revisions: (history?.revisions ?? []).map(({ html, ...revision }) => ({
+        ...revision,
+        htmlLength: html.length,
+      })),
+    });
+  } catch (error) {
+    console.error("[Revisions] Error listing revisions:", sanitizeSensitive(error));
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to list revisions",
+    });
+  }
+});
+
+/**
+ * GET /api/revisions/html?target=...&slug=...&revision=3
+ * 查看某个修订版本的 HTML
+ */
+revisionsRouter.get("/revisions/html", async (req, res) => {
+  try {
+    const ref = parsePageRef(req.query.target, req.query.slug);
+    if (typeof ref === "string") {
+      return res.status(400).json({ success: false, error: ref });
+    }
+    const revision = await getPageRevision(ref.target, ref.slug, Number(req.query.revision));
+    if (!revision) {
+      return res.status(404).json({ success: false, error: "Revision not found" });
+    }
+    return res.type("html").send(revision.html);
+  } catch (error) {
+    console.error("[Revisions] Error reading revision:", sanitizeSensitive(error));
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to read revision",
+    });
+  }
+});
+
+/**
+ * POST /api/revisions/rollback
+ * 将页面回滚到指定修订版本：{ target, slug, revision, siteProfileId? / wordpress? / sanity? / staticPublish? }
+ */
+revisionsRouter.post("/revisions/rollback", async (req, res) => {
+  try {
+    const body = (req.body ?? {}) as Partial<RollbackRequest> & { revision?: unknown };
+    const ref = parsePageRef(body.target, body.slug);
+    if (typeof ref === "string") {
+      return res.status(400).json({ success: false, error: ref });
+    }
+    const request = await resolveSiteProfileOrError<RollbackRequest>({
+      ...ref,
+      siteProfileId: body.siteProfileId,
+      wordpress: body.wordpress,
+      useElementor: body.useElementor,
+      sanity: body.sanity,
+      staticPublish: body.staticPublish,
+    });
+    if (typeof request === "string") {
+      return res.status(400).json({ success: false, error: request });
+    }
+    const configError = validateRollbackConfig(request);
+    if (configError) {
+      return res.status(400).json({ success: false, error: configError });
+    }
+
+    const revision = await getPageRevision(ref.target, ref.slug, Number(body.revision));
+    if (!revision) {
+      return res.status(404).json({ success: false, error: "Revision not found" });
+    }
+
+    const result = await rollbackToRevision(request, revision);
+    return res.json({ success: true, rolledBackTo: revision.revision, ...result });
+  } catch (error) {
+    console.error("[Revisions] Error rolling back revision:", sanitizeSensitive(error));
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to roll back revision",
+    });
+  }
+});
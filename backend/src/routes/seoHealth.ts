@@ -2,8 +2,11 @@ import express from "express";
 import { readFileSync, existsSync } from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
+import { runLinkAudit } from "../services/linkAudit.js";
 import { getAllHistoryRecords } from "../state/historyStore.js";
+import { isOpenRewriteEntry, readRewriteQueue } from "../state/rewriteQueueStore.js";
 import { evaluateKeywordGate } from "../utils/keywordIntentGate.js";
+import { sanitizeSensitive } from "../utils/sanitize.js";
 
 export const seoHealthRouter = express.Router();
 
@@ -39,7 +42,7 @@ seoHealthRouter.get("/seo-health", async (_req, res) => {
       else variantCounts.unknown += 1;
     }
 
-    const rewriteQueue = readJsonArray("rewrite-queue.json");
+    const rewriteQueue = readRewriteQueue();
     const gscAlerts = readJsonArray("gsc-alerts.json");
     const feedback = readJsonArray("feedback.json");
 
@@ -56,6 +59,7 @@ seoHealthRouter.get("/seo-health", async (_req, res) => {
         completedPages: completed.length,
         tierDPages: tierD.length,
         rewriteQueueSize: rewriteQueue.length,
+        rewriteQueuePending: rewriteQueue.filter(isOpenRewriteEntry).length,
         gscAlerts: gscAlerts.length,
         experimentVariants: variantCounts,
         helpfulVotes: { yes: helpfulYes, no: helpfulNo },
@@ -69,10 +73,38 @@ seoHealthRouter.get("/seo-health", async (_req, res) => {
       })),
     });
   } catch (error) {
-    console.error("[SEO Health] failed:", error);
+    console.error("[SEO Health] failed:", sanitizeSensitive(error));
     return res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : "SEO health check failed",
     });
   }
 });
+
+/**
+ * 孤岛页 / 失效链接审计（只读；写入改写队列用 npm run audit:links:queue）
+ * ?products=false 跳过 Shopify / WooCommerce 商品状态查询
+ */
+seoHealthRouter.get("/seo-health/links", async (req, res) => {
+  try {
+    const report = await runLinkAudit({ checkProducts: req.query.products !== "false" });
+    return res.json({
+      success: true,
+      summary: {
+        crawled: report.crawled,
+        knownPages: report.knownPages,
+        orphans: report.orphans.length,
+        brokenLinks: report.brokenLinks.length,
+        productLinks: report.productLinks,
+        productIssues: report.productIssues.length,
+      },
+      ...report,
+    });
+  } catch (error) {
+    console.error("[SEO Health] link audit failed:", sanitizeSensitive(error));
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Link audit failed",
+    });
+  }
+});
@@ -0,0 +1,101 @@
+import express from "express";
+import { toSiteProfileView, writeSiteProfile } from "../services/siteProfiles.js";
+import { deleteSiteProfile, getSiteProfile, listSiteProfiles } from "../state/siteProfileStore.js";
+import { sanitizeSensitive } from "../utils/sanitize.js";
+import { normalizeSiteProfileInput } from "../utils/siteProfiles.js";
+
+export const siteProfilesRouter = express.Router();
+
+function handleError(res: express.Response, error: unknown, action: string) {
+  console.error(`[SiteProfiles] Error ${action}:`, sanitizeSensitive(error));
+  return res.status(500).json({
+    success: false,
+    error: error instanceof Error ? error.message : `Failed ${action}`,
+  });
+}
+
+/**
+ * GET /api/site-profiles
+ * 全部站点配置（不含凭据，secretFields 列出已保存的凭据字段）
+ */
+siteProfilesRouter.get("/site-profiles", async (_req, res) => {
+  try {
+    const profiles = await listSiteProfiles();
+    return res.json({ success: true, profiles: profiles.map(toSiteProfileView) });
+  } catch (error) {
+    return handleError(res, error, "listing site profiles");
+  }
+});
+
+/**
+ * POST /api/site-profiles
+ * 新建站点配置：{ id, name?, wordpress?: { url, username, appPassword, consumerKey?, consumerSecret? },
+ * shopify?: { storeUrl, accessToken, publicStoreUrl? }, staticPublish?: { outputDir?, baseUrl? },
+ * sanity?: { projectId, dataset, token, apiVersion?, docType?, baseUrl? } }
+ */
+siteProfilesRouter.post("/site-profiles", async (req, res) => {
+  try {
+    const input = normalizeSiteProfileInput(req.body);
+    if (typeof input === "string") {
+      return res.status(400).json({ success: false, error: input });
+    }
+    if (await getSiteProfile(input.profile.id)) {
+      return res.status(409).json({ success: false, error: `Site profile "${input.profile.id}" already exists` });
+    }
+    const profile = await writeSiteProfile(input.profile, input.secrets);
+    console.log(`[SiteProfiles] 已创建站点配置 ${profile.id}（凭据: ${profile.secretFields.join(", ") || "无"}）`);
+    return res.status(201).json({ success: true, profile: toSiteProfileView(profile) });
+  } catch (error) {
+    return handleError(res, error, "creating site profile");
+  }
+});
+
+siteProfilesRouter.get("/site-profiles/:id", async (req, res) => {
+  try {
+    const profile = await getSiteProfile(req.params.id);
+    if (!profile) {
+      return res.status(404).json({ success: false, error: "Site profile not found" });
+    }
+    return res.json({ success: true, profile: toSiteProfileView(profile) });
+  } catch (error) {
+    return handleError(res, error, "reading site profile");
+  }
+});
+
+/**
+ * PUT /api/site-profiles/:id
+ * 整体替换连接信息（id 以路径为准）；未提交的凭据保留原值，提交空字符串 / null 删除该凭据
+ */
+siteProfilesRouter.put("/site-profiles/:id", async (req, res) => {
+  try {
+    const existing = await getSiteProfile(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ success: false, error: "Site profile not found" });
+    }
+    const input = normalizeSiteProfileInput({ ...(req.body ?? {}), id: req.params.id });
+    if (typeof input === "string") {
+      return res.status(400).json({ success: false, error: input });
+    }
+    const profile = await writeSiteProfile(input.profile, input.secrets, existing);
+    console.log(`[SiteProfiles] 已更新站点配置 ${profile.id}（凭据: ${profile.secretFields.join(", ") || "无"}）`);
+    return res.json({ success: true, profile: toSiteProfileView(profile) });
+  } catch (error) {
+    return handleError(res, error, "updating site profile");
+  }
+});
+
+/**
+ * DELETE /api/site-profiles/:id
+ * 删除站点配置；仍引用它的未完成任务会在解析凭据时失败
+ */
+siteProfilesRouter.delete("/site-profiles/:id", async (req, res) => {
+  try {
+    if (!(await deleteSiteProfile(req.params.id))) {
+      return res.status(404).json({ success: false, error: "Site profile not found" });
+    }
+    console.log(`[SiteProfiles] 已删除站点配置 ${req.params.id}`);
+    return res.json({ success: true });
+  } catch (error) {
+    return handleError(res, error, "deleting site profile");
+  }
+});
@@ -1,21 +1,122 @@
 import express from "express";
-import { getTask, pauseTask, resumeTask } from "../state/taskStore.js";
+import { approveTask, regenerateTask, rejectTask } from "../services/taskReview.js";
+import { getPagePreview } from "../state/previewStore.js";
+import {
+  cancelTask,
+  getTask,
+  getTaskEvents,
+  isFinishedStatus,
+  listTasksByStatus,
+  pauseTask,
+  resumeTask,
+  subscribeTaskEvents,
+} from "../state/taskStore.js";
+import type { TaskEvent } from "../types.js";
 import { sanitizeSensitive } from "../utils/sanitize.js";
+import { openEventStream, parseLastEventId } from "../utils/sse.js";
 
 export const tasksRouter = express.Router();
 
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * GET /api/reviews/pending
+ * 等待审核的任务（最近渲染的在前）
+ */
+tasksRouter.get("/reviews/pending", (_req, res) => {
+  const tasks = listTasksByStatus("awaiting_review").map((task) => ({
+    ...sanitizeSensitive(task),
+    previewUrl: `/api/tasks/${task.id}/preview?format=html`,
+  }));
+  return res.json({ success: true, tasks });
+});
+
 tasksRouter.get("/tasks/:taskId", (req, res) => {
   const task = getTask(req.params.taskId);
   if (!task) {
     return res.status(404).json({ 
       error: "Task not found",
       taskId: req.params.taskId,
-      message: "任务不存在或已过期。任务在内存中存储，服务器重启后会丢失。"
+      message: "任务不存在或已过期（已结束任务仅保留 24 小时，请在历史记录中查看）。"
     });
   }
   return res.json(sanitizeSensitive(task));
 });
 
+/**
+ * GET /api/tasks/:taskId/events
+ * 以 SSE 推送任务的每一次状态变化；重连时按 Last-Event-ID 补发最近的事件，任务结束后关闭连接
+ */
+tasksRouter.get("/tasks/:taskId/events", (req, res) => {
+  const { taskId } = req.params;
+  const task = getTask(taskId);
+  if (!task) {
+    return res.status(404).json({
+      error: "Task not found",
+      taskId,
+      message: "任务不存在或已过期（已结束任务仅保留 24 小时，请在历史记录中查看）。",
+    });
+  }
+
+  const lastEventId = parseLastEventId(req.get("Last-Event-ID"), req.query.lastEventId);
+  let replay = getTaskEvents(taskId, lastEventId);
+  if (replay.length === 0 && lastEventId === undefined) {
+    // 服务重启后事件缓冲为空：先推送当前状态快照（id 0 不影响后续序号）
+    replay = [
+      {
+        id: 0,
+        taskId,
+        status: task.status,
+        message: task.message,
+        timestamp: task.updatedAt,
+        pageUrl: task.pageUrl,
+        error: task.error,
+      },
+    ];
+  }
+
+  openEventStream<TaskEvent>(req, res, {
+    replay,
+    eventName: () => "task",
+    subscribe: (listener) => subscribeTaskEvents(taskId, listener),
+    isFinal: (event) => isFinishedStatus(event.status),
+    alreadyFinished: isFinishedStatus(task.status),
+  });
+});
+
+/**
+ * GET /api/tasks/:taskId/preview
+ * 预览模式（publishTarget=preview / dryRun）生成的 HTML 与报告；?format=html 直接返回页面
+ */
+tasksRouter.get("/tasks/:taskId/preview", async (req, res) => {
+  try {
+    const { taskId } = req.params;
+    const preview = await getPagePreview(taskId);
+    if (!preview) {
+      const task = getTask(taskId);
+      return res.status(404).json({
+        success: false,
+        error: task && task.status !== "completed"
+          ? `预览尚未生成（任务状态: ${task.status}）`
+          : "预览不存在。只有 publishTarget=preview、dryRun=true 或需要审核的任务会生成预览。",
+      });
+    }
+
+    if (req.query.format === "html") {
+      return res.type("html").send(preview.html);
+    }
+    return res.json({ success: true, report: preview.report, html: preview.html });
+  } catch (error) {
+    console.error("[Tasks] Error reading preview:", sanitizeSensitive(error));
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "读取预览失败",
+    });
+  }
+});
+
 /**
  * POST /api/tasks/:taskId/pause
  * 暂停任务
@@ -38,7 +139,7 @@ tasksRouter.post("/tasks/:taskId/pause", (req, res) => {
       });
     }
   } catch (error) {
-    console.error("[Tasks] Error pausing task:", error);
+    console.error("[Tasks] Error pausing task:", sanitizeSensitive(error));
     return res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : "暂停任务失败",
@@ -68,10 +169,119 @@ tasksRouter.post("/tasks/:taskId/resume", (req, res) => {
       });
     }
   } catch (error) {
-    console.error("[Tasks] Error resuming task:", error);
+    console.error("[Tasks] Error resuming task:", sanitizeSensitive(error));
     return res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : "恢复任务失败",
     });
   }
 });
+
+/**
+ * POST /api/tasks/:taskId/cancel
+ * 取消任务：中断进行中的 AI / 产品 / 发布请求，并清理已发布的半成品页面
+ */
+tasksRouter.post("/tasks/:taskId/cancel", (req, res) => {
+  try {
+    const { taskId } = req.params;
+    const success = cancelTask(taskId);
+
+    if (success) {
+      return res.json({
+        success: true,
+        message: "任务已取消",
+        task: getTask(taskId),
+      });
+    } else {
+      return res.status(400).json({
+        success: false,
+        error: "无法取消任务。任务可能已完成、失败、已取消或不存在。",
+      });
+    }
+  } catch (error) {
+    console.error("[Tasks] Error cancelling task:", sanitizeSensitive(error));
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "取消任务失败",
+    });
+  }
+});
+
+/**
+ * POST /api/tasks/:taskId/approve
+ * 审核通过：将等待审核的页面发布到配置的目标
+ */
+tasksRouter.post("/tasks/:taskId/approve", (req, res) => {
+  try {
+    const { taskId } = req.params;
+    const error = approveTask(taskId, optionalString(req.body?.reviewer));
+    if (error) {
+      return res.status(400).json({ success: false, error });
+    }
+    return res.status(202).json({
+      success: true,
+      message: "审核通过，正在发布",
+      task: getTask(taskId),
+    });
+  } catch (error) {
+    console.error("[Tasks] Error approving task:", sanitizeSensitive(error));
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "审核发布失败",
+    });
+  }
+});
+
+/**
+ * POST /api/tasks/:taskId/reject
+ * 审核驳回：body.reason 记录到历史记录
+ */
+tasksRouter.post("/tasks/:taskId/reject", (req, res) => {
+  try {
+    const { taskId } = req.params;
+    const error = rejectTask(taskId, optionalString(req.body?.reason), optionalString(req.body?.reviewer));
+    if (error) {
+      return res.status(400).json({ success: false, error });
+    }
+    return res.json({
+      success: true,
+      message: "已驳回",
+      task: getTask(taskId),
+    });
+  } catch (error) {
+    console.error("[Tasks] Error rejecting task:", sanitizeSensitive(error));
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "驳回任务失败",
+    });
+  }
+});
+
+/**
+ * POST /api/tasks/:taskId/regenerate
+ * 审核要求重新生成：body.userPrompt 为修改后的提示词，重新生成后再次等待审核
+ */
+tasksRouter.post("/tasks/:taskId/regenerate", (req, res) => {
+  try {
+    const { taskId } = req.params;
+    const userPrompt = optionalString(req.body?.userPrompt);
+    if (!userPrompt) {
+      return res.status(400).json({ success: false, error: "userPrompt 不能为空" });
+    }
+    const error = regenerateTask(taskId, userPrompt, optionalString(req.body?.reviewer));
+    if (error) {
+      return res.status(400).json({ success: false, error });
+    }
+    return res.status(202).json({
+      success: true,
+      message: "正在重新生成",
+      task: getTask(taskId),
+    });
+  } catch (error) {
+    console.error("[Tasks] Error regenerating task:", sanitizeSensitive(error));
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "重新生成失败",
+    });
+  }
+});
@@ -0,0 +1,74 @@
+import express from "express";
+import { readUsageLedger } from "../state/usageLedgerStore.js";
+import { aggregateUsage, summarizeUsage } from "../utils/usageLedger.js";
+import { sanitizeSensitive } from "../utils/sanitize.js";
+
+export const usageRouter = express.Router();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_DAYS = 30;
+const DEFAULT_LIMIT = 50;
+
+function parseTime(value: unknown, endOfDay: boolean): number | null | undefined {
+  if (typeof value !== "string" || !value.trim()) return undefined;
+  const raw = value.trim();
+  // 纯日期按 UTC 整天计
+  const time = Date.parse(/^\d{4}-\d{2}-\d{2}$/.test(raw) ? `${raw}T${endOfDay ? "23:59:59.999" : "00:00:00.000"}Z` : raw);
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * GET /api/usage
+ * LLM 调用台账汇总：总计 + 按天 / 模型 / 模板 / 关键词（及任务）分组的调用数、失败与重试、token、费用
+ * 查询参数：from / to（日期或 ISO 时间，默认最近 30 天）、taskId、keyword、model、template 过滤，limit 限制关键词与任务分组条数（默认 50）
+ * 指定 taskId 时附带该任务的逐条调用记录
+ */
+usageRouter.get("/usage", async (req, res) => {
+  try {
+    const now = Date.now();
+    const to = parseTime(req.query.to, true);
+    const from = parseTime(req.query.from, false);
+    if (to === null || from === null) {
+      return res.status(400).json({ success: false, error: "from / to must be a date (YYYY-MM-DD) or ISO timestamp" });
+    }
+    const rangeTo = to ?? now;
+    const rangeFrom = from ?? rangeTo - DEFAULT_DAYS * DAY_MS;
+    if (rangeFrom > rangeTo) {
+      return res.status(400).json({ success: false, error: "from must not be later than to" });
+    }
+    const limitParam = Number(req.query.limit);
+    const limit = Number.isInteger(limitParam) && limitParam > 0 ? limitParam : DEFAULT_LIMIT;
+
+    const filter = (name: string) => (typeof req.query[name] === "string" ? (req.query[name] as string).trim() : "");
+    const taskId = filter("taskId");
+    const keyword = filter("keyword").toLowerCase();
+    const model = filter("model");
+    const template = filter("template");
+
+    const entries = (await readUsageLedger({ from: rangeFrom, to: rangeTo })).filter(
+      (entry) =>
+        (!taskId || entry.taskId === taskId) &&
+        (!keyword || entry.keyword?.trim().toLowerCase() === keyword) &&
+        (!model || entry.model === model) &&
+        (!template || entry.templateType === template)
+    );
+
+    return res.json({
+      success: true,
+      range: { from: new Date(rangeFrom).toISOString(), to: new Date(rangeTo).toISOString() },
+      totals: summarizeUsage(entries),
+      byDay: aggregateUsage(entries, "day"),
+      byModel: aggregateUsage(entries, "model"),
+      byTemplate: aggregateUsage(entries, "template"),
+      byKeyword: aggregateUsage(entries, "keyword").slice(0, limit),
+      byTask: aggregateUsage(entries, "task").slice(0, limit),
+      ...(taskId ? { entries } : {}),
+    });
+  } catch (error) {
+    console.error("[Usage] Error reading usage ledger:", sanitizeSensitive(error));
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to read usage ledger",
+    });
+  }
+});
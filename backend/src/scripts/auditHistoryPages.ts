@@ -2,52 +2,25 @@
  * Audit history.json for low-fit keywords, alignment retries, and rewrite candidates.
  * Usage: npx tsx src/scripts/auditHistoryPages.ts [--rewrite-queue]
  */
-import { readFileSync, writeFileSync } from "fs";
+import { readFileSync } from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
-import { evaluateKeywordGate } from "../utils/keywordIntentGate.js";
+import {
+  auditHistoryEntries,
+  queueHistoryAudit,
+  type HistoryAuditEntry,
+} from "../services/historyAudit.js";
+import { rewriteQueueFilePath } from "../state/rewriteQueueStore.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const historyPath = path.join(__dirname, "../../data/history.json");
 
-interface HistoryEntry {
-  id?: string;
-  status?: string;
-  keyword?: string;
-  titleType?: string;
-  templateType?: string;
-  pageUrl?: string;
-  alignmentAttempts?: number;
-  alignmentReasons?: string[];
-  finalAlignmentMismatch?: boolean;
-  details?: {
-    alignmentAttempts?: number;
-    alignmentReasons?: string[];
-    finalAlignmentMismatch?: boolean;
-  };
-}
-
 function main() {
   const writeQueue = process.argv.includes("--rewrite-queue");
   const raw = readFileSync(historyPath, "utf8");
-  const entries: HistoryEntry[] = JSON.parse(raw);
-
-  const tierD: HistoryEntry[] = [];
-  const alignmentIssues: HistoryEntry[] = [];
-  const completed: HistoryEntry[] = [];
-
-  for (const e of entries) {
-    if (e.status !== "completed" || !e.keyword) continue;
-    completed.push(e);
-    const gate = evaluateKeywordGate(e.keyword, { titleType: e.titleType });
-    if (gate.tier === "D") tierD.push(e);
-    const attempts = e.alignmentAttempts ?? e.details?.alignmentAttempts ?? 1;
-    const mismatch = e.finalAlignmentMismatch ?? e.details?.finalAlignmentMismatch;
-    const reasons = e.alignmentReasons ?? e.details?.alignmentReasons ?? [];
-    if (attempts > 1 || mismatch || reasons.length > 0) {
-      alignmentIssues.push(e);
-    }
-  }
+  const entries: HistoryAuditEntry[] = JSON.parse(raw);
+  const audit = auditHistoryEntries(entries);
+  const { completed, tierD, alignmentIssues } = audit;
 
   console.log("=== Luxury Life Guides — History Audit ===\n");
   console.log(`Completed pages: ${completed.length}`);
@@ -79,15 +52,8 @@ function main() {
   console.log("See docs/ga4-cwv-playbook.md for exploration steps.\n");
 
   if (writeQueue) {
-    const queue = [
-      ...tierD.map((e) => ({ ...e, queueReason: "tier_d" })),
-      ...alignmentIssues
-        .filter((e) => !tierD.includes(e))
-        .map((e) => ({ ...e, queueReason: "alignment" })),
-    ];
-    const outPath = path.join(__dirname, "../../data/rewrite-queue.json");
-    writeFileSync(outPath, JSON.stringify(queue, null, 2), "utf8");
-    console.log(`Wrote ${queue.length} entries to ${outPath}`);
+    const { added, candidates } = queueHistoryAudit(audit);
+    console.log(`Added ${added} of ${candidates} entries to ${rewriteQueueFilePath()}`);
   }
 }
 
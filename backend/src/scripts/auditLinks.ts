@@ -0,0 +1,63 @@
+/**
+ * Orphan-page and broken-link audit over stored page HTML (static output dir, Sanity bodies, review previews).
+ * Usage: npx tsx src/scripts/auditLinks.ts [--rewrite-queue] [--no-products]
+ *
+ * Product links are checked against Shopify (SHOPIFY_STORE_URL / SHOPIFY_ACCESS_TOKEN) and
+ * WooCommerce (WORDPRESS_URL + WOOCOMMERCE_CONSUMER_KEY / WOOCOMMERCE_CONSUMER_SECRET).
+ */
+import dotenv from "dotenv";
+import path from "path";
+import { fileURLToPath } from "url";
+import { queueLinkAudit, runLinkAudit } from "../services/linkAudit.js";
+import { rewriteQueueFilePath } from "../state/rewriteQueueStore.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+dotenv.config({ path: path.resolve(__dirname, "../../.env") });
+
+async function main() {
+  const writeQueue = process.argv.includes("--rewrite-queue");
+  const report = await runLinkAudit({ checkProducts: !process.argv.includes("--no-products") });
+  const { crawled } = report;
+
+  console.log("=== Luxury Life Guides — Link Audit ===\n");
+  console.log(`Crawled pages: static ${crawled.static}, sanity ${crawled.sanity}, preview ${crawled.preview}`);
+  console.log(`Known guide URLs (history): ${report.knownPages}`);
+  console.log(`Orphan guides: ${report.orphans.length}`);
+  console.log(`Broken guide links: ${report.brokenLinks.length}`);
+  console.log(`Product links: ${report.productLinks} (${report.productIssues.length} missing / out of stock)\n`);
+
+  if (report.orphans.length > 0) {
+    console.log("--- Orphan guides (no inbound internal links) ---");
+    report.orphans.slice(0, 20).forEach((o) => console.log(`  • ${o.url} [${o.source}]`));
+    if (report.orphans.length > 20) console.log(`  … and ${report.orphans.length - 20} more`);
+    console.log("");
+  }
+
+  if (report.brokenLinks.length > 0) {
+    console.log("--- Links to missing guides ---");
+    report.brokenLinks.slice(0, 20).forEach((l) => console.log(`  • ${l.pageUrl} → ${l.href}`));
+    if (report.brokenLinks.length > 20) console.log(`  … and ${report.brokenLinks.length - 20} more`);
+    console.log("");
+  }
+
+  if (report.productIssues.length > 0) {
+    console.log("--- Product links to missing / out-of-stock products ---");
+    report.productIssues.slice(0, 20).forEach((p) => {
+      console.log(`  • [${p.platform}] ${p.handle} (${p.status}) on ${p.pages.length} page(s)`);
+    });
+    if (report.productIssues.length > 20) console.log(`  … and ${report.productIssues.length - 20} more`);
+    console.log("");
+  }
+
+  report.warnings.forEach((w) => console.warn(`! ${w}`));
+
+  if (writeQueue) {
+    const { added, candidates } = queueLinkAudit(report);
+    console.log(`Added ${added} of ${candidates} entries to ${rewriteQueueFilePath()}`);
+  }
+}
+
+main().catch((err) => {
+  console.error("[Link Audit] failed:", err);
+  process.exit(1);
+});
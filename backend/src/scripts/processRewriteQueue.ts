@@ -0,0 +1,59 @@
+/**
+ * Regenerate pages queued in data/rewrite-queue.json and refresh them in place.
+ * Usage: npx tsx src/scripts/processRewriteQueue.ts [--limit=N] [--dry-run] [--watch[=MINUTES]]
+ *
+ * Publish target: REWRITE_PUBLISH_TARGET (sanity | static | wordpress, default sanity) with the usual
+ * SANITY_* / STATIC_* / WORDPRESS_* env credentials. Don't run --watch while the server has
+ * REWRITE_QUEUE_INTERVAL_MINUTES set — both would consume the same queue.
+ */
+import dotenv from "dotenv";
+import path from "path";
+import { fileURLToPath } from "url";
+import { runRewriteQueue, startRewriteQueueSchedule } from "../services/rewriteQueueWorker.js";
+import { initializeHistoryStore } from "../state/historyStore.js";
+import { initializeTaskStore } from "../state/taskStore.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+dotenv.config({ path: path.resolve(__dirname, "../../.env") });
+
+function readFlag(name: string): string | undefined {
+  const arg = process.argv.find((a) => a === `--${name}` || a.startsWith(`--${name}=`));
+  if (!arg) return undefined;
+  return arg.includes("=") ? arg.slice(arg.indexOf("=") + 1) : "";
+}
+
+async function main() {
+  const limitFlag = Number(readFlag("limit"));
+  const limit = Number.isFinite(limitFlag) && limitFlag > 0 ? Math.floor(limitFlag) : undefined;
+  const dryRun = readFlag("dry-run") !== undefined;
+  const watch = readFlag("watch");
+
+  await initializeHistoryStore();
+  await initializeTaskStore();
+
+  if (watch !== undefined) {
+    const minutes = Number(watch || process.env.REWRITE_QUEUE_INTERVAL_MINUTES || 60);
+    if (!Number.isFinite(minutes) || minutes <= 0) {
+      console.error("--watch interval must be a positive number of minutes");
+      process.exit(1);
+    }
+    console.log(`[RewriteQueue] Watching queue every ${minutes} min (Ctrl+C to stop)`);
+    startRewriteQueueSchedule(minutes, { limit });
+    return;
+  }
+
+  const result = await runRewriteQueue({ limit, dryRun });
+  for (const plan of result.plans) {
+    console.log(
+      `  • [${plan.reason}] ${plan.keyword} → /${plan.refreshSlug}/ (${plan.templateType}${plan.titleType ? `, ${plan.titleType}` : ""})`
+    );
+  }
+  console.log(
+    `[RewriteQueue] ${dryRun ? "Planned" : "Processed"} ${result.plans.length}, done ${result.done}, awaiting review ${result.awaitingReview}, failed ${result.failed}, skipped ${result.skipped}, remaining ${result.remaining}`
+  );
+}
+
+main().catch((err) => {
+  console.error("[RewriteQueue] failed:", err);
+  process.exit(1);
+});
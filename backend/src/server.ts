@@ -5,6 +5,14 @@ import { fileURLToPath } from "url";
 import { createApp } from "./app.js";
 import { initializeApiKeyManager } from "./services/apiKeyManager.js";
 import { initializeHistoryStore } from "./state/historyStore.js";
+import { initializeBatchStore } from "./state/batchStore.js";
+import { initializeTaskStore } from "./state/taskStore.js";
+import { resumeInterruptedTasks } from "./routes/generation.js";
+import { resumeUnfinishedBatches } from "./services/batchRunner.js";
+import { startRewriteQueueSchedule } from "./services/rewriteQueueWorker.js";
+import { startJobScheduler } from "./services/jobScheduler.js";
+import { initializeJobStore } from "./state/jobStore.js";
+import { sanitizeSensitive } from "./utils/sanitize.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -86,7 +94,7 @@ async function performNetworkDiagnostics() {
       console.warn("[server] 详细说明请查看: backend/NETWORK_FIX.md");
     }
   } catch (error) {
-    console.warn("[server] 网络诊断失败:", error);
+    console.warn("[server] 网络诊断失败:", sanitizeSensitive(error));
   }
 }
 
@@ -104,7 +112,47 @@ app.listen(port, host, async () => {
     await initializeHistoryStore();
     console.log("[server] ✅ 历史记录存储已初始化");
   } catch (error) {
-    console.warn("[server] ⚠️  历史记录存储初始化失败:", error);
+    console.warn("[server] ⚠️  历史记录存储初始化失败:", sanitizeSensitive(error));
+  }
+
+  // 初始化任务存储，续跑上次未完成的任务
+  try {
+    await initializeTaskStore();
+    const resumedTasks = resumeInterruptedTasks();
+    if (resumedTasks > 0) {
+      console.log(`[server] ✅ 已续跑 ${resumedTasks} 个未完成任务`);
+    }
+  } catch (error) {
+    console.warn("[server] ⚠️  任务存储初始化失败:", sanitizeSensitive(error));
+  }
+
+  // 初始化批量任务存储，续跑上次未完成的批量
+  try {
+    await initializeBatchStore();
+    const resumedBatches = resumeUnfinishedBatches();
+    if (resumedBatches > 0) {
+      console.log(`[server] ✅ 已续跑 ${resumedBatches} 个批量任务`);
+    }
+  } catch (error) {
+    console.warn("[server] ⚠️  批量任务存储初始化失败:", sanitizeSensitive(error));
+  }
+  
+  // 内置定时任务（GSC 监控 / 过期指南扫描 / 历史审计），按 JOB_*_CRON 配置
+  try {
+    await initializeJobStore();
+    const scheduledJobs = startJobScheduler();
+    if (scheduledJobs > 0) {
+      console.log(`[server] ✅ 已启用 ${scheduledJobs} 个定时任务`);
+    }
+  } catch (error) {
+    console.warn("[server] ⚠️  定时任务启动失败:", sanitizeSensitive(error));
+  }
+
+  // 定时消费改写队列（GSC 监控 / 过期指南 / 历史审计写入），未配置间隔时不启动
+  const rewriteIntervalMinutes = Number(process.env.REWRITE_QUEUE_INTERVAL_MINUTES);
+  if (Number.isFinite(rewriteIntervalMinutes) && rewriteIntervalMinutes > 0) {
+    startRewriteQueueSchedule(rewriteIntervalMinutes);
+    console.log(`[server] ✅ 改写队列每 ${rewriteIntervalMinutes} 分钟处理一次`);
   }
   
   // 异步执行网络诊断，不阻塞服务器启动
@@ -1,3 +1,6 @@
+import { enforceLlmBudget } from "./llmBudget.js";
+import { getLlmUsageContext, withLlmRetryAttempt } from "./llmProvider.js";
+
 interface QuotaLimitInfo {
   timestamp: number; // 配额限制的时间戳
   date: string; // 配额限制的日期（YYYY-MM-DD格式）
@@ -70,10 +73,7 @@ class ApiKeyManager {
    * 用于日志输出，防止泄露
    */
   maskApiKey(key: string): string {
-    if (!key || key.length <= 14) {
-      return "***";
-    }
-    return `${key.substring(0, 10)}...${key.substring(key.length - 4)}`;
+    return maskApiKey(key);
   }
 
   /**
@@ -482,6 +482,16 @@ function collectApiKeysFromEnv(): string[] {
   return Array.from(new Set(keys));
 }
 
+/**
+ * 掩码 API Key（前 10 + 后 4 位），日志与调用台账共用
+ */
+export function maskApiKey(key: string): string {
+  if (!key || key.length <= 14) {
+    return "***";
+  }
+  return `${key.substring(0, 10)}...${key.substring(key.length - 4)}`;
+}
+
 /**
  * 获取全局 API Key 管理器实例
  */
@@ -503,9 +513,12 @@ export async function withApiKey<T>(
   operation: (key: string) => Promise<T>,
   maxRetries = 5,
   onStatusUpdate?: (message: string) => void,
-  shouldAbort?: () => boolean // 可选的检查是否应该中止的回调（用于暂停功能）
+  shouldAbort?: () => boolean, // 可选的检查是否应该中止的回调（用于暂停功能）
+  signal?: AbortSignal // 可选的取消信号：任务取消后不再重试或切换 Key
 ): Promise<T> {
   const manager = getApiKeyManager();
+  // 暂停或取消都中止等待
+  const isAborted = () => Boolean(signal?.aborted) || Boolean(shouldAbort?.());
   let lastError: Error | null = null;
   let currentKey: string | null = null;
   let keyRetryCount = 0;
@@ -521,7 +534,7 @@ export async function withApiKey<T>(
     const checkInterval = 500;
     let remainingMs = ms;
     while (remainingMs > 0) {
-      if (shouldAbort && shouldAbort()) {
+      if (isAborted()) {
         throw new Error("任务已暂停");
       }
       const waitTime = Math.min(checkInterval, remainingMs);
@@ -557,6 +570,10 @@ export async function withApiKey<T>(
       keyRetryCount = 0;
     }
 
+    // 进入 Key 队列前检查 LLM 预算（全局 / 项目）：超出时在队列外等待重置或抛出预算错误，不切换 Key、不计入重试
+    // （提供方调用本身还会再检查一次，见 llmRegistry）
+    await enforceLlmBudget(getLlmUsageContext(), waitWithAbortCheck);
+
     try {
       // 在发送请求前，检查当前 Key 的配额使用率（预防配额限制）
       const keyStats = rateLimiter.getKeyStats(currentKey);
@@ -594,15 +611,15 @@ export async function withApiKey<T>(
         async (key: string) => {
           // 在发送请求前，检查频率限制并等待（如果需要）
           // 注意：在 apiKeyManager 层面不知道具体使用的模型，传递 undefined 使用默认限流参数
-          await waitForRateLimit(key, undefined, onStatusUpdate, shouldAbort);
+          await waitForRateLimit(key, undefined, onStatusUpdate, isAborted);
           
           // 检查是否应该中止（暂停）
-          if (shouldAbort && shouldAbort()) {
+          if (isAborted()) {
             throw new Error("任务已暂停");
           }
           
-          // 执行操作
-          const operationResult = await operation(key);
+          // 执行操作（此前失败的尝试次数计入调用台账的 retryCount）
+          const operationResult = await withLlmRetryAttempt(attempt, () => operation(key));
           
           // 记录请求完成
           rateLimiter.recordRequest(key);
@@ -610,13 +627,17 @@ export async function withApiKey<T>(
           return operationResult;
         },
         0, // 默认优先级
-        shouldAbort // 传递暂停检查回调
+        isAborted // 传递暂停检查回调
       );
       
       // 成功时重置重试计数
       keyRetryCount = 0;
       return result;
     } catch (error) {
+      // 任务已取消：直接抛出取消原因，不做重试
+      if (signal?.aborted) {
+        throw signal.reason ?? error;
+      }
       lastError = error instanceof Error ? error : new Error(String(error));
 
       // 检查是否是 API Key 相关的错误
@@ -0,0 +1,256 @@
+/**
+ * 服务端批量生成执行器
+ * 以固定并发数驱动 processTask，客户端断开不影响批量任务继续执行
+ */
+
+import { processTask, validatePublishConfig } from "../routes/generation.js";
+import { applyCannibalizationCheck, describeCannibalizationConflict } from "./cannibalizationCheck.js";
+import { resolveTaskCredentials } from "./siteProfiles.js";
+import {
+  findBatchRowByTaskId,
+  getBatch,
+  getUnfinishedBatches,
+  markBatchInterrupted,
+  recordBatchTaskEvent,
+  setBatchStatus,
+  summarizeBatch,
+  updateBatchRow,
+} from "../state/batchStore.js";
+import { createTask, getTask, isFinishedStatus, subscribeTaskEvents } from "../state/taskStore.js";
+import type { BatchRow, GenerationRequestPayload } from "../types.js";
+import { evaluateKeywordGate } from "../utils/keywordIntentGate.js";
+import { loadTemplateContent } from "../utils/templatePolicy.js";
+import { sanitizeSensitive } from "../utils/sanitize.js";
+
+/** Gemini Key 池有频率限制，并发过高只会让任务排队等待配额 */
+export const MAX_BATCH_CONCURRENCY = 5;
+export const MAX_BATCH_ROWS = 1000;
+const TASK_SETTLE_POLL_MS = 2000;
+
+/**
+ * 解析并发数：请求参数 > BATCH_CONCURRENCY 环境变量 > 默认 2，限制在 1..MAX_BATCH_CONCURRENCY
+ */
+export function resolveBatchConcurrency(requested?: unknown): number {
+  const fromRequest = Number(requested);
+  const fromEnv = Number(process.env.BATCH_CONCURRENCY);
+  const value = Number.isFinite(fromRequest) && fromRequest > 0
+    ? fromRequest
+    : Number.isFinite(fromEnv) && fromEnv > 0
+      ? fromEnv
+      : 2;
+  return Math.min(MAX_BATCH_CONCURRENCY, Math.max(1, Math.floor(value)));
+}
+
+/**
+ * 合并公共配置与单行覆盖项，生成该关键词的请求参数
+ */
+function buildRowPayload(base: GenerationRequestPayload, row: BatchRow): GenerationRequestPayload {
+  const payload = structuredClone(base);
+  payload.keyword = row.keyword;
+  if (row.titleType) payload.titleType = row.titleType;
+  if (row.targetCategory) payload.targetCategory = row.targetCategory;
+  if (row.pageTitle) payload.pageTitle = row.pageTitle;
+  if (row.userPrompt) payload.userPrompt = row.userPrompt;
+  if (row.refreshSlug) {
+    // 单行指定 slug 即按 refresh 原地更新该页面，不依赖批量请求的 publishMode
+    payload.publishMode = "refresh";
+    payload.refreshSlug = row.refreshSlug;
+  }
+
+  if (row.templateType && row.templateType !== base.templateType) {
+    const content = loadTemplateContent(row.templateType);
+    if (content) {
+      payload.templateType = row.templateType;
+      payload.templateContent = content;
+      // 单行显式指定的壳不再被后端 A/B / 意图策略覆盖（与前端批量模式一致）
+      payload.respectTemplateChoice = true;
+    } else {
+      console.warn(`[BatchRunner] 模板 ${row.templateType} 不可用，"${row.keyword}" 沿用公共模板`);
+    }
+  }
+  return payload;
+}
+
+/**
+ * 等待已在执行（服务重启后由 taskStore 续跑）的任务结束；等待审核也视为本轮结束
+ */
+async function waitForTaskSettled(taskId: string): Promise<void> {
+  for (;;) {
+    const task = getTask(taskId);
+    if (!task || isFinishedStatus(task.status) || task.status === "awaiting_review") {
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, TASK_SETTLE_POLL_MS));
+  }
+}
+
+function recordRowOutcome(batchId: string, row: BatchRow, taskId: string): void {
+  const finished = getTask(taskId);
+  if (finished?.status === "completed") {
+    updateBatchRow(batchId, row.index, {
+      status: "completed",
+      pageUrl: finished.pageUrl,
+      finishedAt: Date.now(),
+    });
+  } else if (finished?.status === "cancelled" || finished?.status === "rejected") {
+    updateBatchRow(batchId, row.index, {
+      status: finished.status,
+      error: finished.message,
+      finishedAt: Date.now(),
+    });
+  } else if (finished?.status === "awaiting_review") {
+    updateBatchRow(batchId, row.index, { status: "awaiting_review" });
+  } else {
+    updateBatchRow(batchId, row.index, {
+      status: "failed",
+      error: finished?.error || finished?.message || "Task did not complete",
+      finishedAt: Date.now(),
+    });
+  }
+}
+
+/**
+ * 审核决定（批准发布 / 驳回 / 重新生成）后同步所属批量行的状态
+ */
+export function syncBatchRowWithTask(taskId: string): void {
+  const found = findBatchRowByTaskId(taskId);
+  if (!found) return;
+  const task = getTask(taskId);
+  if (task && !isFinishedStatus(task.status) && task.status !== "awaiting_review") {
+    updateBatchRow(found.batchId, found.row.index, { status: "running" });
+    return;
+  }
+  recordRowOutcome(found.batchId, found.row, taskId);
+}
+
+async function runRow(batchId: string, row: BatchRow, base: GenerationRequestPayload): Promise<void> {
+  if (row.status === "running" && row.taskId) {
+    const unsubscribe = subscribeTaskEvents(row.taskId, (event) =>
+      recordBatchTaskEvent(batchId, row.index, event)
+    );
+    try {
+      await waitForTaskSettled(row.taskId);
+    } finally {
+      unsubscribe();
+    }
+    recordRowOutcome(batchId, row, row.taskId);
+    return;
+  }
+
+  const payload = buildRowPayload(base, row);
+
+  const gate = evaluateKeywordGate(payload.keyword.trim(), {
+    pageTitle: payload.pageTitle,
+    titleType: payload.titleType,
+    forceGenerate: payload.forceGenerate,
+  });
+  if (!gate.allowed) {
+    updateBatchRow(batchId, row.index, {
+      status: "skipped",
+      error: `Keyword blocked (Tier ${gate.tier}): ${gate.reasons.join("; ")}`,
+      finishedAt: Date.now(),
+    });
+    return;
+  }
+
+  const cannibalization = await applyCannibalizationCheck(payload);
+  if (cannibalization.action === "blocked") {
+    updateBatchRow(batchId, row.index, {
+      status: "skipped",
+      error: describeCannibalizationConflict(cannibalization.conflict),
+      finishedAt: Date.now(),
+    });
+    return;
+  }
+
+  const task = createTask("Task queued");
+  updateBatchRow(batchId, row.index, {
+    status: "running",
+    taskId: task.id,
+    startedAt: Date.now(),
+  });
+
+  // 行内任务的进度消息同步到批量事件流
+  const unsubscribe = subscribeTaskEvents(task.id, (event) =>
+    recordBatchTaskEvent(batchId, row.index, event)
+  );
+  try {
+    await processTask(task.id, payload);
+  } finally {
+    unsubscribe();
+  }
+  recordRowOutcome(batchId, row, task.id);
+}
+
+async function runBatch(batchId: string): Promise<void> {
+  const batch = getBatch(batchId);
+  const base = batch?.basePayload;
+  if (!batch || !base) return;
+
+  // 落盘的公共参数不含凭据：重启续跑时无法从站点配置或环境变量恢复则标记中断
+  const credentialError = validatePublishConfig(await resolveTaskCredentials(base));
+  if (credentialError) {
+    console.warn(`[BatchRunner] 批量任务 ${batchId} 无法恢复凭据，标记为中断: ${credentialError}`);
+    markBatchInterrupted(batchId);
+    return;
+  }
+
+  setBatchStatus(batchId, "running");
+  const pendingRows = batch.rows.filter((row) => row.status === "pending" || row.status === "running");
+  console.log(`[BatchRunner] 批量任务 ${batchId} 开始：${pendingRows.length} 个关键词，并发 ${batch.concurrency}`);
+
+  let cursor = 0;
+  const worker = async () => {
+    while (cursor < pendingRows.length) {
+      const row = pendingRows[cursor++];
+      try {
+        await runRow(batchId, row, base);
+      } catch (error) {
+        console.error(`[BatchRunner] 关键词 "${row.keyword}" 执行异常:`, sanitizeSensitive(error));
+        updateBatchRow(batchId, row.index, {
+          status: "failed",
+          error: error instanceof Error ? error.message : String(error),
+          finishedAt: Date.now(),
+        });
+      }
+    }
+  };
+
+  const workerCount = Math.min(batch.concurrency, pendingRows.length);
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+  // 跑完后不再保留凭据
+  batch.basePayload = undefined;
+  setBatchStatus(batchId, "completed");
+  const summary = summarizeBatch(batch);
+  console.log(
+    `[BatchRunner] 批量任务 ${batchId} 结束：完成 ${summary.completed}，失败 ${summary.failed}，跳过 ${summary.skipped}，取消 ${summary.cancelled}，待审核 ${summary.awaiting_review}`
+  );
+}
+
+/**
+ * 启动批量任务（异步执行，不阻塞调用方）
+ */
+export function startBatch(batchId: string): void {
+  void runBatch(batchId).catch((error) => {
+    console.error(`[BatchRunner] 批量任务 ${batchId} 执行失败:`, sanitizeSensitive(error));
+    markBatchInterrupted(batchId);
+  });
+}
+
+/**
+ * 服务重启后续跑未完成的批量任务；缺少公共配置的旧批量标记为中断
+ * @returns 续跑的批量任务数
+ */
+export function resumeUnfinishedBatches(): number {
+  let resumed = 0;
+  for (const batch of getUnfinishedBatches()) {
+    if (!batch.basePayload) {
+      markBatchInterrupted(batch.id);
+      continue;
+    }
+    startBatch(batch.id);
+    resumed += 1;
+  }
+  return resumed;
+}
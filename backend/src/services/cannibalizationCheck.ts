@@ -0,0 +1,151 @@
+/**
+ * 生成前的关键词蚕食检查
+ * 与历史生成记录和 Sanity 已发布指南的 keyword 比对，命中时按 cannibalizationAction 拦截、
+ * 改为原地刷新已有页面，或由调用方显式放行；预览不产生页面，只返回警告
+ */
+
+import { createClient } from "@sanity/client";
+import { isPreviewRun } from "../routes/generation.js";
+import { getAllHistoryRecords } from "../state/historyStore.js";
+import type { GenerationRequestPayload } from "../types.js";
+import {
+  findCannibalizationConflict,
+  type CannibalizationConflict,
+  type ExistingPageRef,
+} from "../utils/keywordCannibalization.js";
+import { localeOrDefault, splitLocalePrefix } from "../utils/locale.js";
+import { sanitizeSensitive } from "../utils/sanitize.js";
+
+const SANITY_CACHE_TTL_MS = 10 * 60 * 1000;
+
+let sanityCache: { key: string; pages: ExistingPageRef[]; fetchedAt: number } | null = null;
+
+export type CannibalizationOutcome =
+  | { action: "none" }
+  | { action: "allowed" | "blocked" | "warning"; conflict: CannibalizationConflict }
+  | { action: "refresh"; conflict: CannibalizationConflict; refreshSlug: string };
+
+/**
+ * 已发布的 Sanity 指南（带 keyword 字段），缓存 10 分钟；未配置或查询失败时返回空数组
+ */
+async function fetchSanityPages(payload: GenerationRequestPayload): Promise<ExistingPageRef[]> {
+  const projectId = payload.sanity?.projectId || process.env.SANITY_PROJECT_ID;
+  const dataset = payload.sanity?.dataset || process.env.SANITY_DATASET;
+  const token = payload.sanity?.token || process.env.SANITY_READ_TOKEN || process.env.SANITY_API_TOKEN;
+  const docType = payload.sanity?.docType || process.env.SANITY_DOC_TYPE || "luxuryLifeGuide";
+  if (!projectId || !dataset) return [];
+
+  const cacheKey = `${projectId}:${dataset}:${docType}`;
+  if (sanityCache?.key === cacheKey && Date.now() - sanityCache.fetchedAt < SANITY_CACHE_TTL_MS) {
+    return sanityCache.pages;
+  }
+
+  try {
+    const client = createClient({
+      projectId,
+      dataset,
+      token: token || undefined,
+      apiVersion: process.env.SANITY_API_VERSION || "2024-01-01",
+      useCdn: !token,
+    });
+    const docs = await client.fetch<Array<{ title?: string; slug?: string; keyword?: string; locale?: string }>>(
+      `*[_type == $docType && defined(slug.current) && defined(keyword)]{ title, "slug": slug.current, keyword, locale }`,
+      { docType }
+    );
+    const pages: ExistingPageRef[] = (docs || []).map((doc) => ({
+      keyword: doc.keyword || "",
+      pageTitle: doc.title,
+      pageUrl: doc.slug ? `/${doc.slug.replace(/^\/+|\/+$/g, "")}/` : undefined,
+      source: "sanity",
+      locale: doc.locale,
+    }));
+    sanityCache = { key: cacheKey, pages, fetchedAt: Date.now() };
+    return pages;
+  } catch (error) {
+    console.warn("[Cannibalization] Sanity 指南查询失败，仅比对历史记录:", sanitizeSensitive(error));
+    return [];
+  }
+}
+
+/**
+ * 同一语言的已有页面；其他语言的译本不算蚕食
+ */
+async function loadExistingPages(payload: GenerationRequestPayload): Promise<ExistingPageRef[]> {
+  const targetLocale = localeOrDefault(payload.locale).code;
+  const history = await getAllHistoryRecords();
+  const fromHistory: ExistingPageRef[] = history
+    .filter((record) => record.status === "completed" && record.keyword)
+    .map((record) => ({
+      keyword: record.keyword!,
+      pageTitle: record.pageTitle,
+      titleType: record.titleType,
+      pageUrl: record.pageUrl,
+      source: "history",
+      locale: record.locale,
+    }));
+  return [...fromHistory, ...(await fetchSanityPages(payload))].filter(
+    (page) => (page.locale || splitLocalePrefix(pagePathFromUrl(page.pageUrl)).locale.code) === targetLocale
+  );
+}
+
+function pagePathFromUrl(pageUrl?: string): string {
+  if (!pageUrl) return "";
+  try {
+    return new URL(pageUrl, "http://localhost").pathname.replace(/^\/+|\/+$/g, "");
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * 检查关键词蚕食并应用 cannibalizationAction（默认 block）
+ * refresh 时直接改写 payload：publishMode=refresh，refreshSlug=冲突页面的路径
+ */
+export async function applyCannibalizationCheck(payload: GenerationRequestPayload): Promise<CannibalizationOutcome> {
+  // 已经是原地刷新已有页面，不会产生新页面
+  if (payload.publishMode === "refresh") {
+    return { action: "none" };
+  }
+
+  let existingPages: ExistingPageRef[];
+  try {
+    existingPages = await loadExistingPages(payload);
+  } catch (error) {
+    // 检查失败不阻断生成
+    console.warn("[Cannibalization] 读取已有页面失败，跳过检查:", sanitizeSensitive(error));
+    return { action: "none" };
+  }
+  const conflict = findCannibalizationConflict(
+    { keyword: payload.keyword, pageTitle: payload.pageTitle, titleType: payload.titleType },
+    existingPages
+  );
+  if (!conflict) {
+    return { action: "none" };
+  }
+
+  if (isPreviewRun(payload)) {
+    console.warn(`[Cannibalization] 预览 "${payload.keyword}" 与 "${conflict.existing.keyword}" 重叠，仅提示`);
+    return { action: "warning", conflict };
+  }
+  const requested = payload.cannibalizationAction ?? "block";
+  if (requested === "allow") {
+    console.log(`[Cannibalization] "${payload.keyword}" 与 "${conflict.existing.keyword}" 重叠，调用方已放行`);
+    return { action: "allowed", conflict };
+  }
+  const refreshSlug = pagePathFromUrl(conflict.existing.pageUrl);
+  if (requested === "refresh" && refreshSlug) {
+    payload.publishMode = "refresh";
+    payload.refreshSlug = refreshSlug;
+    console.log(`[Cannibalization] "${payload.keyword}" 改为原地刷新已有页面 ${refreshSlug}`);
+    return { action: "refresh", conflict, refreshSlug };
+  }
+  return { action: "blocked", conflict };
+}
+
+/**
+ * 拦截时返回给调用方的说明
+ */
+export function describeCannibalizationConflict(conflict: CannibalizationConflict): string {
+  const { existing, similarity, matchedOn } = conflict;
+  return `Keyword cannibalization: ${matchedOn} overlaps ${Math.round(similarity * 100)}% with existing ${existing.source} page "${existing.keyword}"${existing.pageUrl ? ` (${existing.pageUrl})` : ""}. Set cannibalizationAction to "refresh" to update that page in place, or "allow" to generate anyway.`;
+}
@@ -0,0 +1,128 @@
+/**
+ * A/B 实验：新页面入组（按登记的分配比例与变体设置）与结果汇总
+ * 结果 = 各变体页面的「有帮助」投票率 + Search Console CTR，与对照组（第一个变体）比较并给出 95% 置信区间
+ */
+
+import { getAllHistoryRecords } from "../state/historyStore.js";
+import { listExperiments } from "../state/experimentStore.js";
+import { loadPagePerformance, normalizePageUrl } from "./pagePerformance.js";
+import type { ExperimentDefinition, ExperimentVariantConfig, GenerationRequestPayload } from "../types.js";
+import {
+  assignExperimentVariant,
+  compareProportions,
+  estimateProportion,
+  experimentStatus,
+  type ExperimentStatus,
+  type ProportionComparison,
+  type ProportionEstimate,
+} from "../utils/experiments.js";
+
+export interface ExperimentVariantResult {
+  id: string;
+  allocation: number;
+  templateType?: string;
+  layoutPriority?: ExperimentVariantConfig["layoutPriority"];
+  pages: number;
+  /** successes = yes votes, trials = all votes */
+  helpfulVotes: ProportionEstimate;
+  /** successes = clicks, trials = impressions */
+  ctr: ProportionEstimate;
+  /** Impression-weighted average position; null without impressions */
+  avgPosition: number | null;
+}
+
+export interface ExperimentResults {
+  experiment: ExperimentDefinition;
+  status: ExperimentStatus;
+  baseline: string;
+  variants: ExperimentVariantResult[];
+  comparisons: Array<{
+    variant: string;
+    baseline: string;
+    helpfulRate: ProportionComparison | null;
+    ctr: ProportionComparison | null;
+  }>;
+}
+
+/**
+ * 为新页面选择实验与变体：指定的 experimentId 优先，否则取最近开始的进行中实验
+ * @returns null 表示没有可入组的登记实验（沿用关键词哈希 A/B）
+ */
+export async function resolveExperimentAssignment(
+  payload: GenerationRequestPayload,
+  now: number = Date.now()
+): Promise<{ experiment: ExperimentDefinition; variant: ExperimentVariantConfig } | null> {
+  const registry = await listExperiments();
+  const running = registry.filter((e) => experimentStatus(e, now) === "running");
+  let experiment: ExperimentDefinition | undefined;
+  if (payload.experimentId) {
+    experiment = registry.find((e) => e.id === payload.experimentId);
+    if (experiment && experimentStatus(experiment, now) !== "running") {
+      console.warn(`[Experiments] 实验 ${experiment.id} 未在进行中，页面不入组`);
+      return null;
+    }
+  } else {
+    experiment = [...running].sort((a, b) => Date.parse(b.startAt) - Date.parse(a.startAt))[0];
+  }
+  if (!experiment) return null;
+
+  const requested = experiment.variants.find((v) => v.id === payload.experimentVariant);
+  return { experiment, variant: requested ?? assignExperimentVariant(experiment, payload.keyword) };
+}
+
+/**
+ * 汇总实验结果：页面取历史记录中已完成且标记了该实验的任务；投票与 GSC 数据只统计实验时间窗口内的部分
+ */
+export async function buildExperimentResults(
+  experiment: ExperimentDefinition,
+  now: number = Date.now()
+): Promise<ExperimentResults> {
+  const windowEnd = experiment.endAt ? Math.min(Date.parse(experiment.endAt), now) : now;
+  const history = await getAllHistoryRecords();
+  const pages = history.filter(
+    (record) => record.status === "completed" && record.experimentId === experiment.id && record.pageUrl
+  );
+  const performance = loadPagePerformance(
+    pages.map((page) => page.pageUrl!),
+    { start: Date.parse(experiment.startAt), end: windowEnd }
+  );
+
+  const variants: ExperimentVariantResult[] = experiment.variants.map((variant) => {
+    const variantPages = pages.filter((p) => p.experimentVariant === variant.id);
+    const totals = { clicks: 0, impressions: 0, weightedPosition: 0, helpfulYes: 0, helpfulVotes: 0 };
+    for (const page of variantPages) {
+      const metrics = performance.get(normalizePageUrl(page.pageUrl!));
+      if (!metrics) continue;
+      totals.clicks += metrics.clicks;
+      totals.impressions += metrics.impressions;
+      totals.weightedPosition += metrics.weightedPosition;
+      totals.helpfulYes += metrics.helpfulYes;
+      totals.helpfulVotes += metrics.helpfulVotes;
+    }
+    return {
+      id: variant.id,
+      allocation: variant.allocation,
+      templateType: variant.templateType,
+      layoutPriority: variant.layoutPriority,
+      pages: variantPages.length,
+      helpfulVotes: estimateProportion(totals.helpfulYes, totals.helpfulVotes),
+      ctr: estimateProportion(totals.clicks, totals.impressions),
+      avgPosition:
+        totals.impressions > 0 ? Math.round((totals.weightedPosition / totals.impressions) * 10) / 10 : null,
+    };
+  });
+
+  const [baseline, ...treatments] = variants;
+  return {
+    experiment,
+    status: experimentStatus(experiment, now),
+    baseline: baseline.id,
+    variants,
+    comparisons: treatments.map((variant) => ({
+      variant: variant.id,
+      baseline: baseline.id,
+      helpfulRate: compareProportions(baseline.helpfulVotes, variant.helpfulVotes),
+      ctr: compareProportions(baseline.ctr, variant.ctr),
+    })),
+  };
+}
@@ -0,0 +1,73 @@
+/**
+ * Gemini 提供方（@google/generative-ai）
+ * Key 由调用方从 apiKeyManager 的 Key 池取出传入；未传时自行通过 withApiKey 取 Key
+ */
+
+import { GoogleGenerativeAI, type GenerationConfig } from "@google/generative-ai";
+import { maskApiKey, withApiKey } from "./apiKeyManager.js";
+import {
+  generateJsonViaText,
+  recordLlmFailure,
+  recordLlmUsage,
+  type LlmGenerateOptions,
+  type LlmJsonResult,
+  type LlmProvider,
+  type LlmTextResult,
+} from "./llmProvider.js";
+
+async function generateWithGemini(
+  prompt: string,
+  options: LlmGenerateOptions,
+  extraConfig: Partial<GenerationConfig> = {}
+): Promise<LlmTextResult> {
+  const { apiKey, signal } = options;
+  if (!apiKey) {
+    return withApiKey((key) => generateWithGemini(prompt, { ...options, apiKey: key }, extraConfig), 3, undefined, undefined, signal);
+  }
+
+  const modelName = options.model || geminiProvider.models[options.tier ?? "quality"];
+  const generationConfig: GenerationConfig = { ...extraConfig };
+  if (options.temperature !== undefined) generationConfig.temperature = options.temperature;
+  if (options.topP !== undefined) generationConfig.topP = options.topP;
+  if (options.topK !== undefined) generationConfig.topK = options.topK;
+  if (options.maxOutputTokens !== undefined) generationConfig.maxOutputTokens = options.maxOutputTokens;
+
+  const model = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model: modelName, generationConfig });
+  const startedAt = Date.now();
+  const keyMask = maskApiKey(apiKey);
+  let response: Awaited<ReturnType<typeof model.generateContent>>["response"];
+  try {
+    const result = await model.generateContent(prompt, { signal });
+    response = await result.response;
+  } catch (error) {
+    recordLlmFailure({ provider: "gemini", model: modelName, latencyMs: Date.now() - startedAt, keyMask }, error, signal?.aborted);
+    throw error;
+  }
+  const usage = {
+    promptTokens: response.usageMetadata?.promptTokenCount ?? 0,
+    completionTokens: response.usageMetadata?.candidatesTokenCount ?? 0,
+    totalTokens: response.usageMetadata?.totalTokenCount ?? 0,
+  };
+  recordLlmUsage({ provider: "gemini", model: modelName, latencyMs: Date.now() - startedAt, keyMask, ...usage }, options.onUsage);
+  return { text: response.text() || "", model: modelName, usage };
+}
+
+export const geminiProvider: LlmProvider = {
+  name: "gemini",
+  models: {
+    quality: "gemini-2.5-pro", // 主要模型：高质量，适合复杂任务
+    fast: "gemini-2.0-flash", // 快速模型：配额更高，适合简单任务
+  },
+  usesApiKeyPool: true,
+  generateText(prompt, options = {}) {
+    return generateWithGemini(prompt, options);
+  },
+  async generateJSON<T>(prompt: string, options: LlmGenerateOptions = {}): Promise<LlmJsonResult<T>> {
+    // Gemini 原生支持 JSON 输出；解析仍走通用逻辑以兼容代码块包裹
+    return generateJsonViaText<T>(
+      { generateText: (p, o) => generateWithGemini(p, o ?? {}, { responseMimeType: "application/json" }) },
+      prompt,
+      options
+    );
+  },
+};
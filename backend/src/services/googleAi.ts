@@ -1,6 +1,8 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { withApiKey } from "./apiKeyManager.js";
+import { withLlmRetryAttempt, type LlmGenerationConfig, type LlmGenerateOptions, type LlmProvider } from "./llmProvider.js";
+import { getLlmProvider } from "./llmRegistry.js";
 import { KNOWLEDGE_BASE } from "../knowledgeBase.js";
+import { buildLanguageDirective, localeOrDefault } from "../utils/locale.js";
 import { markdownToHtmlIfNeeded } from "./articleMarkdown.js";
 import {
   getConversionMode,
@@ -13,36 +15,33 @@ import {
   isFlipFormFactorProductName,
   isFlipPhoneIntent,
 } from "../utils/productCategory.js";
+import { sanitizeSensitive } from "../utils/sanitize.js";
 
 // 多模型配置：支持多个模型轮换，降低限流风险
-// 注意：只包含当前API版本确实可用的模型
-const AVAILABLE_MODELS = [
-  "gemini-2.5-pro",      // 主要模型：高质量，适合复杂任务
-  "gemini-2.0-flash",    // 快速模型：配额更高，适合简单任务
-] as const;
-
-const DEFAULT_MODEL = "gemini-2.5-pro";
-const FALLBACK_MODELS = ["gemini-2.0-flash"]; // 只保留确实可用的备选模型
+// 模型由 LLM 提供方给出（Gemini：quality=gemini-2.5-pro，fast=gemini-2.0-flash）
+function getAvailableModels(provider: LlmProvider): string[] {
+  return Array.from(new Set([provider.models.quality, provider.models.fast]));
+}
 
 // 模型选择策略：根据任务复杂度选择模型
-function selectModel(templateType?: string, isComplexTask: boolean = false): string {
+function selectModel(provider: LlmProvider, templateType?: string, isComplexTask: boolean = false): string {
   // 模板6、7需要高质量内容，优先使用pro模型
   if (templateType === "template-6") {
-    return "gemini-2.5-pro";
+    return provider.models.quality;
   }
   
   // 长内容模板（3/4/5）使用pro模型
   if (templateType === "template-3" || templateType === "template-4" || templateType === "template-5") {
-    return "gemini-2.5-pro";
+    return provider.models.quality;
   }
   
   // 复杂任务使用pro模型
   if (isComplexTask) {
-    return "gemini-2.5-pro";
+    return provider.models.quality;
   }
   
   // 简单任务使用flash模型（配额更高，速度更快）
-  return "gemini-2.0-flash";
+  return provider.models.fast;
 }
 const MIN_ARTICLE_LENGTH = 2400; // short commercial shells: ~400 words
 const MAX_ARTICLE_LENGTH = 3600; // short commercial shells: ~600 words
@@ -62,6 +61,10 @@ export interface GenerateContentOptions {
   articleImageUrls?: string[];
   onStatusUpdate?: (message: string) => void; // 可选：状态更新回调
   shouldAbort?: () => boolean; // 可选的检查是否应该中止的回调（用于暂停功能）
+  signal?: AbortSignal; // 可选：任务取消信号，中断进行中的 Gemini 请求
+  llmProvider?: string; // 可选：LLM 提供方（gemini / openai-compatible），默认取 LLM_PROVIDER 环境变量
+  onLlmUsage?: LlmGenerateOptions["onUsage"]; // 可选：每次模型调用的 token 用量回调
+  locale?: string; // 可选：目标市场语言（如 de-DE），默认 en-GB
 }
 
 export interface GenerateTitleOptions {
@@ -70,6 +73,10 @@ export interface GenerateTitleOptions {
   titleType?: string; // 标题类型：purchase, informational, review, commercial, how-to, recommendations, services-guides, tech-insights, comparison, expert, best, top, most
   onStatusUpdate?: (message: string) => void;
   shouldAbort?: () => boolean; // 可选的检查是否应该中止的回调（用于暂停功能）
+  signal?: AbortSignal; // 可选：任务取消信号
+  llmProvider?: string;
+  onLlmUsage?: LlmGenerateOptions["onUsage"];
+  locale?: string;
 }
 
 export interface GeneratedContent {
@@ -96,7 +103,11 @@ async function generateWithKey(
   knowledgeBaseContent?: string,
   preferredModel?: string, // 可选：指定优先使用的模型
   availableProducts?: string[], // 可选：实际从 WordPress 获取到的产品名称列表
-  articleImageUrls?: string[] // 可选：正文配图白名单（Sanity 内容图）
+  articleImageUrls?: string[], // 可选：正文配图白名单（Sanity 内容图）
+  signal?: AbortSignal, // 可选：任务取消信号
+  provider: LlmProvider = getLlmProvider(),
+  onLlmUsage?: LlmGenerateOptions["onUsage"],
+  locale?: string // 可选：目标市场语言，非 en-GB 时在每个提示词末尾追加语言指令
 ): Promise<GeneratedContent> {
   // 根据模板类型设置内容长度限制
   // template-3/4/5 为长内容模式，无严格字数上限
@@ -116,29 +127,32 @@ async function generateWithKey(
   // 智能模型选择：根据任务复杂度选择最佳模型，降低限流风险
   // 如果指定了preferredModel，优先使用（用于模型轮换）
   const isComplexTask = useLongFormArticleLimits || !!userPrompt || keyword.length > 50;
-  let modelName = preferredModel || selectModel(templateType, isComplexTask);
-  
-  // 初始化 Google AI 客户端
-  const genAI = new GoogleGenerativeAI(apiKey);
+  let modelName = preferredModel || selectModel(provider, templateType, isComplexTask);
   
-  // 获取模型实例（根据模板类型和模型类型调整 maxOutputTokens）
+  // 根据模板类型和模型类型调整 maxOutputTokens
   // Flash模型通常有更高的配额限制，但输出token可能更少
-  const isFlashModel = modelName.includes("flash");
+  const isFlashModel = modelName === provider.models.fast && modelName !== provider.models.quality;
   const maxOutputTokens = useLongFormArticleLimits 
     ? 8192 // 长内容模板使用8192
     : 4096; // 简单任务使用4096
   
-  const model = genAI.getGenerativeModel({ 
-    model: modelName,
-    generationConfig: {
-      temperature: 0.7,
-      topP: 0.95,
-      topK: 40,
-      maxOutputTokens: maxOutputTokens,
-    },
-  });
+  const articleConfig: LlmGenerationConfig = {
+    temperature: 0.7,
+    topP: 0.95,
+    topK: 40,
+    maxOutputTokens: maxOutputTokens,
+  };
+
+  const targetLocale = localeOrDefault(locale);
+  const languageDirective = buildLanguageDirective(targetLocale);
 
-  console.log(`[GoogleAI] Using model: ${modelName} (${isFlashModel ? 'Flash - 高配额，适合简单任务' : 'Pro - 高质量，适合复杂任务'}) with SDK`);
+  // 所有调用使用同一提供方、模型与 Key
+  const generateText = async (prompt: string, config: LlmGenerationConfig): Promise<string> => {
+    const result = await provider.generateText(prompt + languageDirective, { ...config, apiKey, model: modelName, signal, onUsage: onLlmUsage });
+    return result.text;
+  };
+
+  console.log(`[GoogleAI] Using model: ${modelName} (${isFlashModel ? 'Flash - 高配额，适合简单任务' : 'Pro - 高质量，适合复杂任务'}) via ${provider.name}`);
 
   // 验证内容是否包含中文字符
   function containsChinese(text: string): boolean {
@@ -164,7 +178,7 @@ async function generateWithKey(
     let attempt = 0;
     while (true) {
       try {
-        return await fn();
+        return await withLlmRetryAttempt(attempt, fn);
       } catch (err: any) {
         attempt += 1;
         const status = err?.status || err?.code;
@@ -175,7 +189,7 @@ async function generateWithKey(
           /resource has been exhausted/i.test(message) ||
           /quota/i.test(message) ||
           /RESOURCE_EXHAUSTED/i.test(message);
-        if (!is429 || attempt > maxRetries) {
+        if (!is429 || attempt > maxRetries || signal?.aborted) {
           console.warn(`[GoogleAI] ${label} request failed (attempt ${attempt}/${maxRetries}):`, message || err);
           throw err;
         }
@@ -1286,9 +1300,7 @@ ${useLongFormArticleLimits ? `4. Write a substantive introduction (2–4 sentenc
 12. Focus on directly answering the keyword question - eliminate unnecessary content
 13. Every sentence must be complete and add value - no filler content`}`;
 
-      const articleResult = await requestWithRetry(() => model.generateContent(promptToUse), "article.generateContent");
-      const articleResponse = await articleResult.response;
-      articleText = articleResponse.text() || "";
+      articleText = await requestWithRetry(() => generateText(promptToUse, articleConfig), "article.generateContent");
 
       if (!articleText.trim()) {
         console.warn(`[GoogleAI] Attempt ${attempt} returned empty content.`);
@@ -1406,19 +1418,14 @@ ${useLongFormArticleLimits ? `4. Write a substantive introduction (2–4 sentenc
     
     try {
       // 创建 FAQ 模型实例（使用较高的 temperature 以生成更多样化、更相关的FAQ）
-      const faqModel = genAI.getGenerativeModel({
-        model: modelName, // 使用相同的模型（优先 Key 使用 gemini-3-pro-preview）
-        generationConfig: {
-          temperature: 0.9, // 提高温度以生成更多样化、更自然的FAQ
-          topP: 0.95,
-          topK: 40,
-          maxOutputTokens: 2048, // 增加输出长度以支持更详细的FAQ答案
-        },
-      });
+      const faqConfig: LlmGenerationConfig = {
+        temperature: 0.9, // 提高温度以生成更多样化、更自然的FAQ
+        topP: 0.95,
+        topK: 40,
+        maxOutputTokens: 2048, // 增加输出长度以支持更详细的FAQ答案
+      };
 
-      const faqResult = await faqModel.generateContent(faqPrompt);
-      const faqResponse = await faqResult.response;
-      const faqText = faqResponse.text();
+      const faqText = await generateText(faqPrompt, faqConfig);
 
       if (faqText) {
         try {
@@ -1456,8 +1463,8 @@ ${useLongFormArticleLimits ? `4. Write a substantive introduction (2–4 sentenc
     const TARGET_FAQ_COUNT = 6;
     let finalFaqItems = faqItems.length > 0 ? faqItems : [];
     
-    // 如果 FAQ 少于 6 个，补充到 6 个
-    if (finalFaqItems.length < TARGET_FAQ_COUNT) {
+    // 如果 FAQ 少于 6 个，补充到 6 个（补充模板为英文，其他语言只保留模型生成的条目）
+    if (finalFaqItems.length < TARGET_FAQ_COUNT && targetLocale.code.startsWith("en-")) {
       console.log(`[GoogleAI] FAQ items (${finalFaqItems.length}) are less than ${TARGET_FAQ_COUNT}, generating additional FAQs...`);
       
       // 分离关键词相关FAQ和通用FAQ
@@ -1580,13 +1587,10 @@ ${useLongFormArticleLimits ? `4. Write a substantive introduction (2–4 sentenc
         const maxOutputTokens = isTemplate4Or5 ? 600 : 300;
         const sentenceCount = isTemplate4Or5 ? "6-8 sentences" : "3-5 sentences";
         
-        const descModel = genAI.getGenerativeModel({
-          model: modelName, // 使用相同的模型（优先 Key 使用 gemini-3-pro-preview）
-          generationConfig: {
-            temperature: 0.7,
-            maxOutputTokens: maxOutputTokens,
-          },
-        });
+        const descConfig: LlmGenerationConfig = {
+          temperature: 0.7,
+          maxOutputTokens: maxOutputTokens,
+        };
         
         const descPrompt = `You are an expert SEO content writer and user engagement specialist. Write a COMPREHENSIVE, DETAILED description paragraph (${sentenceCount}, ${targetMinLength}-${targetMaxLength} characters) for a page about "${keyword}" with title "${pageTitle}".
 
@@ -1640,9 +1644,7 @@ Knowledge base context: ${knowledgeBaseContent ? knowledgeBaseContent.substring(
 
 Write the complete, detailed description paragraph now. Make sure it is STRONGLY RELATED to the title "${pageTitle}", provides substantial value, and effectively engages users to continue reading:`;
 
-        const descResult = await requestWithRetry(() => descModel.generateContent(descPrompt), "description.generateContent");
-        const descResponse = await descResult.response;
-        pageDescription = descResponse.text().trim();
+        pageDescription = (await requestWithRetry(() => generateText(descPrompt, descConfig), "description.generateContent")).trim();
         
         // 验证并优化描述长度
         if (pageDescription.length < targetMinLength) {
@@ -1659,7 +1661,7 @@ Write the complete, detailed description paragraph now. Make sure it is STRONGLY
         
         console.log(`[GoogleAI] Generated comprehensive page description: ${pageDescription.length} characters`);
         } catch (error) {
-          console.warn(`[GoogleAI] Failed to generate comprehensive page description:`, error);
+          console.warn(`[GoogleAI] Failed to generate comprehensive page description:`, sanitizeSensitive(error));
           // 如果生成失败，尝试从文章内容提取更长的段落
           try {
             const paragraphCount = isTemplate4Or5 ? 3 : 2; // 模板4和模板5提取更多段落
@@ -1755,7 +1757,7 @@ Write the complete, detailed description paragraph now. Make sure it is STRONGLY
         }
       }
     } catch (error) {
-      console.warn(`[GoogleAI] Failed to generate meta description:`, error);
+      console.warn(`[GoogleAI] Failed to generate meta description:`, sanitizeSensitive(error));
       metaDescription =
         conversionMode === "commercial"
           ? `${keyword}: compare VERTU luxury models, pricing from the official collection, and buying advice.`
@@ -1787,7 +1789,7 @@ Write the complete, detailed description paragraph now. Make sure it is STRONGLY
       // 限制关键词数量（5-10个）
       metaKeywords = Array.from(allKeywords).slice(0, 10).join(", ");
     } catch (error) {
-      console.warn(`[GoogleAI] Failed to generate meta keywords:`, error);
+      console.warn(`[GoogleAI] Failed to generate meta keywords:`, sanitizeSensitive(error));
       metaKeywords = keyword + ", buy, guide, review, best, luxury";
     }
 
@@ -1796,15 +1798,12 @@ Write the complete, detailed description paragraph now. Make sure it is STRONGLY
     if (isLongFormTemplate) {
       try {
         console.log(`[GoogleAI] Generating extended content for ${templateType}...`);
-        const extendedModel = genAI.getGenerativeModel({
-          model: modelName, // 使用相同的模型（优先 Key 使用 gemini-3-pro-preview）
-          generationConfig: {
-            temperature: 0.8,
-            topP: 0.95,
-            topK: 40,
-            maxOutputTokens: 4096, // 允许较长的扩展内容
-          },
-        });
+        const extendedConfig: LlmGenerationConfig = {
+          temperature: 0.8,
+          topP: 0.95,
+          topK: 40,
+          maxOutputTokens: 4096, // 允许较长的扩展内容
+        };
 
         const extendedPrompt = `You are an expert SEO content writer. Write an EXTENDED, COMPREHENSIVE content section (different from the main content) about "${keyword}" with title "${pageTitle}". Place this section AFTER the main content to provide additional value.
 
@@ -1839,9 +1838,7 @@ ${filteredKbContent.substring(0, 3000)}
 
 Write the extended content in HTML format with proper tags (<h2>, <p>, <ol>, <ul>, <li>). Do NOT include H1 tags.`;
 
-        const extendedResult = await requestWithRetry(() => extendedModel.generateContent(extendedPrompt), "extended.generateContent");
-        const extendedResponse = await extendedResult.response;
-        extendedContent = extendedResponse.text().trim();
+        extendedContent = (await requestWithRetry(() => generateText(extendedPrompt, extendedConfig), "extended.generateContent")).trim();
 
         // 清理markdown代码块标记
         extendedContent = extendedContent
@@ -1884,7 +1881,7 @@ Write the extended content in HTML format with proper tags (<h2>, <p>, <ol>, <ul
           }
         }
       } catch (error) {
-        console.warn(`[GoogleAI] Failed to generate extended content:`, error);
+        console.warn(`[GoogleAI] Failed to generate extended content:`, sanitizeSensitive(error));
         // 如果生成失败，尝试从文章内容提取额外段落作为扩展内容
         try {
           const allParagraphs = finalArticleContent.match(/<p[^>]*>([\s\S]*?)<\/p>/gi);
@@ -1921,7 +1918,7 @@ Write the extended content in HTML format with proper tags (<h2>, <p>, <ol>, <ul
     };
   } catch (error: any) {
     // 处理 SDK 错误，转换为统一格式
-    console.error(`[GoogleAI] Error:`, error);
+    console.error(`[GoogleAI] Error:`, sanitizeSensitive(error));
     
     // SDK 错误通常包含 status 或 statusCode
     let statusCode: number | undefined;
@@ -1956,7 +1953,7 @@ Write the extended content in HTML format with proper tags (<h2>, <p>, <ol>, <ul
 - 如果在中国大陆，需要配置代理访问 Google API
 - 检查网络连接是否正常
 - 尝试在浏览器中访问 https://generativelanguage.googleapis.com 测试连接`;
-      console.error(`[GoogleAI] 网络连接失败，错误详情:`, error);
+      console.error(`[GoogleAI] 网络连接失败，错误详情:`, sanitizeSensitive(error));
     }
 
     // 处理 404 错误（模型不存在或不可用）
@@ -3239,24 +3236,29 @@ function isArticleRich(
 /**
  * 生成页面标题（多样化类型，包含长尾词）
  */
-async function generateTitleWithKey(apiKey: string, keyword: string, titleType?: string): Promise<string> {
-  const genAI = new GoogleGenerativeAI(apiKey);
-  
+async function generateTitleWithKey(
+  apiKey: string,
+  keyword: string,
+  titleType?: string,
+  signal?: AbortSignal,
+  provider: LlmProvider = getLlmProvider(),
+  onLlmUsage?: LlmGenerateOptions["onUsage"],
+  locale?: string
+): Promise<string> {
   // 获取当前年份（动态，避免硬编码）
   const currentYear = new Date().getFullYear();
   
   // 标题生成同样统一使用稳定模型
-  const modelName = DEFAULT_MODEL;
-  
-  const model = genAI.getGenerativeModel({
-    model: modelName, // 使用相应的模型
-    generationConfig: {
-      temperature: 0.9, // 提高温度以增加多样性
-      topP: 0.95,
-      topK: 40,
-      maxOutputTokens: 100,
-    },
-  });
+  const titleOptions: LlmGenerateOptions = {
+    apiKey,
+    model: provider.models.quality,
+    temperature: 0.9, // 提高温度以增加多样性
+    topP: 0.95,
+    topK: 40,
+    maxOutputTokens: 100,
+    signal,
+    onUsage: onLlmUsage,
+  };
 
   // 定义标题类型映射
   const titleTypeMap: Record<string, string> = {
@@ -3304,6 +3306,10 @@ async function generateTitleWithKey(apiKey: string, keyword: string, titleType?:
 
   // 根据标题类型生成对应的备用标题
   const getFallbackTitleByType = (keyword: string, type?: string): string => {
+    // 备用标题模板为英文；其他语言直接使用关键词作为标题
+    if (!localeOrDefault(locale).code.startsWith("en-")) {
+      return keyword.charAt(0).toUpperCase() + keyword.slice(1);
+    }
     let fallbackTitle: string;
     
     if (!type || !titleTypeMap[type]) {
@@ -3526,9 +3532,8 @@ Output only the title text, nothing else. No quotes, no explanations, just the t
 
   try {
     console.log(`[GoogleAI] Generating page title for keyword: ${keyword}`);
-    const result = await model.generateContent(titlePrompt);
-    const response = await result.response;
-    const title = response.text().trim();
+    const result = await provider.generateText(titlePrompt + buildLanguageDirective(localeOrDefault(locale)), titleOptions);
+    const title = result.text.trim();
 
     // 移除可能的引号
     const cleanedTitle = title.replace(/^["']|["']$/g, "").trim();
@@ -3587,7 +3592,15 @@ Output only the title text, nothing else. No quotes, no explanations, just the t
     console.log(`[GoogleAI] Generated title: ${titleCasedTitle}`);
     return titleCasedTitle;
   } catch (error: any) {
-    console.error(`[GoogleAI] Error generating title:`, error);
+    // 任务已取消时不使用备用标题
+    if (signal?.aborted) {
+      throw signal.reason ?? error;
+    }
+    // 预算已用完时同样不降级，交给任务按预算错误处理
+    if (error?.code === "LLM_BUDGET_EXCEEDED") {
+      throw error;
+    }
+    console.error(`[GoogleAI] Error generating title:`, sanitizeSensitive(error));
     // 如果生成失败，使用对应类型的备用标题
     const fallbackTitle = getFallbackTitleByType(keyword, titleType);
     console.log(`[GoogleAI] 使用备用标题（类型: ${titleType || '随机'}）: ${fallbackTitle}`);
@@ -3595,16 +3608,29 @@ Output only the title text, nothing else. No quotes, no explanations, just the t
   }
 }
 
-export async function generatePageTitle({ apiKey, keyword, titleType, onStatusUpdate, shouldAbort }: GenerateTitleOptions): Promise<string> {
-  if (apiKey) {
-    return generateTitleWithKey(apiKey, keyword, titleType);
+export async function generatePageTitle({
+  apiKey,
+  keyword,
+  titleType,
+  onStatusUpdate,
+  shouldAbort,
+  signal,
+  llmProvider,
+  onLlmUsage,
+  locale,
+}: GenerateTitleOptions): Promise<string> {
+  const provider = getLlmProvider(llmProvider);
+  // 自带 Key 或提供方不使用 Google Key 池时直接调用
+  if (apiKey || !provider.usesApiKeyPool) {
+    return generateTitleWithKey(apiKey ?? "", keyword, titleType, signal, provider, onLlmUsage, locale);
   }
 
   return withApiKey(
-    (key) => generateTitleWithKey(key, keyword, titleType),
+    (key) => generateTitleWithKey(key, keyword, titleType, signal, provider, onLlmUsage, locale),
     3, // maxRetries (标题生成失败影响较小，重试次数可以少一些)
     onStatusUpdate,
-    shouldAbort // 传递暂停检查回调
+    shouldAbort, // 传递暂停检查回调
+    signal
   );
 }
 
@@ -3622,7 +3648,11 @@ async function generateWithModelRotation(
   onStatusUpdate?: (message: string) => void,
   availableProducts?: string[],
   articleImageUrls?: string[],
-  attemptedModels: string[] = []
+  signal?: AbortSignal,
+  attemptedModels: string[] = [],
+  provider: LlmProvider = getLlmProvider(),
+  onLlmUsage?: LlmGenerateOptions["onUsage"],
+  locale?: string
 ): Promise<GeneratedContent> {
   const isTemplate3 = templateType === "template-3";
   const isTemplate4 = templateType === "template-4";
@@ -3633,13 +3663,14 @@ async function generateWithModelRotation(
   const isComplexTask = useLongFormArticleLimits || !!userPrompt || keyword.length > 50;
   
   // 选择模型（优先使用未尝试过的模型）
-  let modelName = selectModel(templateType, isComplexTask);
+  const providerModels = getAvailableModels(provider);
+  let modelName = selectModel(provider, templateType, isComplexTask);
   
   // 如果当前模型已尝试过，选择下一个可用模型
   if (attemptedModels.includes(modelName)) {
     const availableModels = isComplexTask 
-      ? AVAILABLE_MODELS.filter(m => !m.includes("flash") && !attemptedModels.includes(m))
-      : AVAILABLE_MODELS.filter(m => !attemptedModels.includes(m));
+      ? providerModels.filter(m => m === provider.models.quality && !attemptedModels.includes(m))
+      : providerModels.filter(m => !attemptedModels.includes(m));
     
     if (availableModels.length > 0) {
       modelName = availableModels[0];
@@ -3647,18 +3678,20 @@ async function generateWithModelRotation(
       onStatusUpdate?.(`模型限流，切换到 ${modelName}...`);
     } else {
       // 所有模型都尝试过了，使用第一个模型
-      modelName = AVAILABLE_MODELS[0];
+      modelName = providerModels[0];
       console.warn(`[GoogleAI] 所有模型都已尝试，使用默认模型: ${modelName}`);
     }
   }
   
-  // 在发送请求前，根据模型类型等待限流（优化：不同模型有不同的限流参数）
-  try {
-    const { waitForRateLimit } = await import("./rateLimiter.js");
-    await waitForRateLimit(apiKey, modelName, onStatusUpdate);
-  } catch (rateLimitError) {
-    // 如果限流等待失败（如任务暂停），抛出错误
-    throw rateLimitError;
+  // 在发送请求前，根据模型类型等待限流（优化：不同模型有不同的限流参数）；限流器按 Google Key 统计
+  if (provider.usesApiKeyPool) {
+    try {
+      const { waitForRateLimit } = await import("./rateLimiter.js");
+      await waitForRateLimit(apiKey, modelName, onStatusUpdate);
+    } catch (rateLimitError) {
+      // 如果限流等待失败（如任务暂停），抛出错误
+      throw rateLimitError;
+    }
   }
   
   try {
@@ -3672,9 +3705,16 @@ async function generateWithModelRotation(
       knowledgeBaseContent,
       modelName,
       availableProducts,
-      articleImageUrls
+      articleImageUrls,
+      signal,
+      provider,
+      onLlmUsage,
+      locale
     );
   } catch (error: any) {
+    if (signal?.aborted) {
+      throw signal.reason ?? error;
+    }
     const statusCode = error?.statusCode || 0;
     const errorMessage = error?.message || "";
     
@@ -3685,7 +3725,7 @@ async function generateWithModelRotation(
     const is429 = statusCode === 429 || errorMessage.includes("429") || errorMessage.includes("quota") || errorMessage.includes("Too Many Requests");
     
     // 如果是404或429错误，且还有未尝试的模型，切换到下一个模型
-    if ((is404 || is429) && attemptedModels.length < AVAILABLE_MODELS.length - 1) {
+    if ((is404 || is429) && attemptedModels.length < providerModels.length - 1) {
       const newAttemptedModels = [...attemptedModels, modelName];
       const errorType = is404 ? "不可用(404)" : "限流(429)";
       console.log(`[GoogleAI] 模型 ${modelName} 遇到${errorType}，尝试下一个模型... (已尝试: ${newAttemptedModels.join(", ")})`);
@@ -3705,7 +3745,11 @@ async function generateWithModelRotation(
         onStatusUpdate,
         availableProducts,
         articleImageUrls,
-        newAttemptedModels
+        signal,
+        newAttemptedModels,
+        provider,
+        onLlmUsage,
+        locale
       );
     }
     
@@ -3720,6 +3764,10 @@ export interface GenerateQuickAnswerOptions {
   pageTitle: string;
   intent?: "informational" | "transactional" | "evaluative";
   onStatusUpdate?: (message: string) => void;
+  signal?: AbortSignal;
+  llmProvider?: string;
+  onLlmUsage?: LlmGenerateOptions["onUsage"];
+  locale?: string;
 }
 
 /** 100–150 word direct answer for featured snippets (British English, no hard sell). */
@@ -3729,7 +3777,13 @@ export async function generateQuickAnswerSnippet({
   pageTitle,
   intent = "informational",
   onStatusUpdate,
+  signal,
+  llmProvider,
+  onLlmUsage,
+  locale,
 }: GenerateQuickAnswerOptions): Promise<string> {
+  const provider = getLlmProvider(llmProvider);
+  const targetLocale = localeOrDefault(locale);
   const prompt = `Write a direct answer to the search query "${keyword}" (page title: "${pageTitle}") in British English.
 
 Requirements:
@@ -3738,16 +3792,15 @@ Requirements:
 - Factual, neutral tone; no hype or calls to action
 - Intent: ${intent}
 - Do NOT use Chinese characters
-- Output plain text only (no HTML, no markdown)`;
+- Output plain text only (no HTML, no markdown)${buildLanguageDirective(targetLocale)}`;
 
   const run = async (key: string): Promise<string> => {
-    const genAI = new GoogleGenerativeAI(key);
-    const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
     onStatusUpdate?.("Generating quick answer snippet...");
-    const result = await model.generateContent(prompt);
-    const text = result.response.text().trim().replace(/^["']|["']$/g, "");
+    const result = await provider.generateText(prompt, { apiKey: key, tier: "fast", signal, onUsage: onLlmUsage });
+    const text = result.text.trim().replace(/^["']|["']$/g, "");
     const words = text.split(/\s+/).filter(Boolean);
-    if (words.length < 40) {
+    // 英文补充句只用于英文市场
+    if (words.length < 40 && targetLocale.code.startsWith("en-")) {
       return `${text} This guide explains what matters for "${keyword}" and how premium options differ on materials, support, and long-term ownership.`;
     }
     if (words.length > 160) {
@@ -3756,8 +3809,8 @@ Requirements:
     return text;
   };
 
-  if (apiKey) return run(apiKey);
-  return withApiKey((key) => run(key), 3, onStatusUpdate);
+  if (apiKey || !provider.usesApiKeyPool) return run(apiKey ?? "");
+  return withApiKey((key) => run(key), 3, onStatusUpdate, undefined, signal);
 }
 
 export async function generateHtmlContent({
@@ -3772,11 +3825,16 @@ export async function generateHtmlContent({
   articleImageUrls,
   onStatusUpdate,
   shouldAbort,
+  signal,
+  llmProvider,
+  onLlmUsage,
+  locale,
 }: GenerateContentOptions): Promise<GeneratedContent> {
-  // 如果提供了 apiKey，直接使用（向后兼容）+ 模型轮换
-  if (apiKey) {
+  const provider = getLlmProvider(llmProvider);
+  // 如果提供了 apiKey（向后兼容）或提供方不使用 Google Key 池，直接调用 + 模型轮换
+  if (apiKey || !provider.usesApiKeyPool) {
     return generateWithModelRotation(
-      apiKey,
+      apiKey ?? "",
       keyword,
       pageTitle,
       titleType,
@@ -3785,7 +3843,12 @@ export async function generateHtmlContent({
       knowledgeBaseContent || KNOWLEDGE_BASE,
       onStatusUpdate,
       availableProducts,
-      articleImageUrls
+      articleImageUrls,
+      signal,
+      [],
+      provider,
+      onLlmUsage,
+      locale
     );
   }
 
@@ -3802,10 +3865,16 @@ export async function generateHtmlContent({
         knowledgeBaseContent || KNOWLEDGE_BASE,
         onStatusUpdate,
         availableProducts,
-        articleImageUrls
+        articleImageUrls,
+        signal,
+        [],
+        provider,
+        onLlmUsage,
+        locale
       ),
     5, // maxRetries
     onStatusUpdate, // 传递状态更新回调
-    shouldAbort // 传递暂停检查回调
+    shouldAbort, // 传递暂停检查回调
+    signal
   );
 }
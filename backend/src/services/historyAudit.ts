@@ -0,0 +1,75 @@
+/**
+ * History audit: Tier D keywords and alignment retries become rewrite candidates (tier_d / alignment).
+ * Used by scripts/auditHistoryPages.ts and the scheduled "history-audit" job.
+ */
+import {
+  isOpenRewriteEntry,
+  readRewriteQueue,
+  writeRewriteQueue,
+} from "../state/rewriteQueueStore.js";
+import type { RewriteQueueEntry } from "../types.js";
+import { evaluateKeywordGate } from "../utils/keywordIntentGate.js";
+
+export interface HistoryAuditEntry {
+  id?: string;
+  status?: string;
+  keyword?: string;
+  titleType?: string;
+  templateType?: string;
+  pageUrl?: string;
+  alignmentAttempts?: number;
+  alignmentReasons?: string[];
+  finalAlignmentMismatch?: boolean;
+  details?: {
+    alignmentAttempts?: number;
+    alignmentReasons?: string[];
+    finalAlignmentMismatch?: boolean;
+  };
+}
+
+export interface HistoryAuditResult {
+  completed: HistoryAuditEntry[];
+  tierD: HistoryAuditEntry[];
+  alignmentIssues: HistoryAuditEntry[];
+}
+
+export function auditHistoryEntries(entries: HistoryAuditEntry[]): HistoryAuditResult {
+  const tierD: HistoryAuditEntry[] = [];
+  const alignmentIssues: HistoryAuditEntry[] = [];
+  const completed: HistoryAuditEntry[] = [];
+
+  for (const e of entries) {
+    if (e.status !== "completed" || !e.keyword) continue;
+    completed.push(e);
+    const gate = evaluateKeywordGate(e.keyword, { titleType: e.titleType });
+    if (gate.tier === "D") tierD.push(e);
+    const attempts = e.alignmentAttempts ?? e.details?.alignmentAttempts ?? 1;
+    const mismatch = e.finalAlignmentMismatch ?? e.details?.finalAlignmentMismatch;
+    const reasons = e.alignmentReasons ?? e.details?.alignmentReasons ?? [];
+    if (attempts > 1 || mismatch || reasons.length > 0) {
+      alignmentIssues.push(e);
+    }
+  }
+
+  return { completed, tierD, alignmentIssues };
+}
+
+/**
+ * Merge audit candidates into rewrite-queue.json instead of overwriting it:
+ * GSC / stale-guide entries and processed outcomes stay in the queue.
+ */
+export function queueHistoryAudit(result: HistoryAuditResult): { added: number; candidates: number } {
+  const detectedAt = new Date().toISOString();
+  const audited: RewriteQueueEntry[] = [
+    ...result.tierD.map((e) => ({ ...e, queueReason: "tier_d" as const })),
+    ...result.alignmentIssues
+      .filter((e) => !result.tierD.includes(e))
+      .map((e) => ({ ...e, queueReason: "alignment" as const })),
+  ].map(({ status: _historyStatus, ...e }) => ({ ...e, detectedAt, source: "auditHistoryPages" }));
+
+  const queue = readRewriteQueue();
+  const openPages = new Set(queue.filter(isOpenRewriteEntry).map((q) => q.pageUrl).filter(Boolean));
+  const added = audited.filter((e) => !e.pageUrl || !openPages.has(e.pageUrl));
+  writeRewriteQueue([...added, ...queue]);
+  return { added: added.length, candidates: audited.length };
+}
@@ -0,0 +1,222 @@
+/**
+ * 内置定时任务调度器
+ * 用 cron 表达式（JOB_*_CRON 环境变量，服务器本地时间）在进程内调度 GSC 监控、过期指南扫描、历史审计和链接审计，
+ * 取代外部 cron 调用一次性脚本；GET /api/jobs 查看状态，POST /api/jobs/:name/run 手动触发
+ */
+
+import { getAllHistoryRecords } from "../state/historyStore.js";
+import { getLastJobOutcome, saveJobOutcome } from "../state/jobStore.js";
+import type { JobRunOutcome, JobState } from "../types.js";
+import { nextCronRun, parseCronExpression, type CronSchedule } from "../utils/cronExpression.js";
+import { auditHistoryEntries, queueHistoryAudit, type HistoryAuditEntry } from "./historyAudit.js";
+import { queueLinkAudit, runLinkAudit } from "./linkAudit.js";
+import { runGscMonitor } from "./searchConsoleMonitor.js";
+import { findStaleGuides, queueStaleGuides } from "./staleGuides.js";
+import { sanitizeSensitive } from "../utils/sanitize.js";
+
+/** setTimeout 的最大延迟约 24.8 天，更远的执行时间分段等待 */
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+interface JobDefinition {
+  name: string;
+  description: string;
+  /** 读取 cron 表达式的环境变量；留空则不定时执行 */
+  cronEnv: string;
+  run: () => Promise<Record<string, unknown>>;
+}
+
+interface JobRuntime {
+  definition: JobDefinition;
+  schedule: CronSchedule | null;
+  cronError?: string;
+  running: boolean;
+  nextRunAt: number | null;
+  timer?: NodeJS.Timeout;
+}
+
+const JOB_DEFINITIONS: JobDefinition[] = [
+  {
+    name: "gsc-monitor",
+    description: "Fetch Search Console metrics, record CTR / ranking alerts and queue affected pages for rewrite",
+    cronEnv: "JOB_GSC_MONITOR_CRON",
+    run: async () => ({ ...(await runGscMonitor()) }),
+  },
+  {
+    name: "stale-guides",
+    description: "Queue Sanity guides not updated in 90+ days for rewrite (stale_content)",
+    cronEnv: "JOB_STALE_GUIDES_CRON",
+    run: async () => {
+      const stale = await findStaleGuides();
+      return { stale: stale.length, queued: queueStaleGuides(stale) };
+    },
+  },
+  {
+    name: "history-audit",
+    description: "Audit generated pages for Tier D keywords and alignment issues and queue them for rewrite",
+    cronEnv: "JOB_HISTORY_AUDIT_CRON",
+    run: async () => {
+      const audit = auditHistoryEntries((await getAllHistoryRecords()) as HistoryAuditEntry[]);
+      const { added } = queueHistoryAudit(audit);
+      return {
+        completedPages: audit.completed.length,
+        tierD: audit.tierD.length,
+        alignmentIssues: audit.alignmentIssues.length,
+        queued: added,
+      };
+    },
+  },
+  {
+    name: "link-audit",
+    description: "Find orphan guides, links to deleted guides and unavailable products and queue them for rewrite",
+    cronEnv: "JOB_LINK_AUDIT_CRON",
+    run: async () => {
+      const report = await runLinkAudit();
+      const { added } = queueLinkAudit(report);
+      return {
+        orphans: report.orphans.length,
+        brokenLinks: report.brokenLinks.length,
+        productIssues: report.productIssues.length,
+        queued: added,
+      };
+    },
+  },
+];
+
+const jobs = new Map<string, JobRuntime>(
+  JOB_DEFINITIONS.map((definition) => [
+    definition.name,
+    { definition, schedule: null, running: false, nextRunAt: null },
+  ])
+);
+
+function toJobState(job: JobRuntime): JobState {
+  const lastOutcome = getLastJobOutcome(job.definition.name);
+  return {
+    name: job.definition.name,
+    description: job.definition.description,
+    cron: job.schedule?.expression ?? null,
+    cronError: job.cronError,
+    running: job.running,
+    lastRunAt: lastOutcome?.startedAt,
+    nextRunAt: job.nextRunAt,
+    lastOutcome,
+  };
+}
+
+export function listJobs(): JobState[] {
+  return Array.from(jobs.values()).map(toJobState);
+}
+
+export function getJob(name: string): JobState | undefined {
+  const job = jobs.get(name);
+  return job ? toJobState(job) : undefined;
+}
+
+async function executeJob(job: JobRuntime, trigger: JobRunOutcome["trigger"]): Promise<JobRunOutcome> {
+  const { name } = job.definition;
+  job.running = true;
+  const startedAt = Date.now();
+  let outcome: JobRunOutcome;
+  try {
+    const result = await job.definition.run();
+    const finishedAt = Date.now();
+    outcome = { status: "success", trigger, startedAt, finishedAt, durationMs: finishedAt - startedAt, result };
+    console.log(`[Jobs] ${name} 执行完成（${outcome.durationMs}ms）`, result);
+  } catch (error) {
+    const finishedAt = Date.now();
+    outcome = {
+      status: "failed",
+      trigger,
+      startedAt,
+      finishedAt,
+      durationMs: finishedAt - startedAt,
+      error: error instanceof Error ? error.message : String(error),
+    };
+    console.error(`[Jobs] ${name} 执行失败:`, sanitizeSensitive(error));
+  } finally {
+    job.running = false;
+  }
+  await saveJobOutcome(name, outcome);
+  return outcome;
+}
+
+/**
+ * 安排下一次定时执行；上一次仍在运行时跳过本次
+ */
+function scheduleNext(job: JobRuntime): void {
+  if (job.timer) clearTimeout(job.timer);
+  job.timer = undefined;
+  if (!job.schedule) {
+    job.nextRunAt = null;
+    return;
+  }
+  const next = nextCronRun(job.schedule);
+  job.nextRunAt = next?.getTime() ?? null;
+  if (!next) return;
+
+  const arm = () => {
+    const delay = next.getTime() - Date.now();
+    if (delay > MAX_TIMER_DELAY_MS) {
+      job.timer = setTimeout(arm, MAX_TIMER_DELAY_MS);
+      return;
+    }
+    job.timer = setTimeout(() => {
+      if (job.running) {
+        console.warn(`[Jobs] ${job.definition.name} 上一次仍在运行，跳过本次定时执行`);
+        scheduleNext(job);
+        return;
+      }
+      void executeJob(job, "schedule").finally(() => scheduleNext(job));
+    }, Math.max(0, delay));
+  };
+  arm();
+}
+
+/**
+ * 按环境变量中的 cron 表达式启动定时任务
+ * @returns 已启用定时执行的任务数
+ */
+export function startJobScheduler(): number {
+  let scheduled = 0;
+  for (const job of jobs.values()) {
+    const expression = process.env[job.definition.cronEnv]?.trim();
+    job.schedule = null;
+    job.cronError = undefined;
+    if (expression) {
+      const parsed = parseCronExpression(expression);
+      if (typeof parsed === "string") {
+        job.cronError = parsed;
+        console.warn(`[Jobs] ${job.definition.cronEnv} 无效，${job.definition.name} 不会定时执行：${parsed}`);
+      } else {
+        job.schedule = parsed;
+        scheduled++;
+      }
+    }
+    scheduleNext(job);
+  }
+  return scheduled;
+}
+
+export function stopJobScheduler(): void {
+  for (const job of jobs.values()) {
+    if (job.timer) clearTimeout(job.timer);
+    job.timer = undefined;
+    job.nextRunAt = null;
+  }
+}
+
+/**
+ * 手动触发任务（后台执行，结果通过 GET /api/jobs 查看）
+ * @returns 错误信息；已开始执行返回 null
+ */
+export function triggerJob(name: string): string | null {
+  const job = jobs.get(name);
+  if (!job) {
+    return `Unknown job "${name}"`;
+  }
+  if (job.running) {
+    return `Job "${name}" is already running`;
+  }
+  void executeJob(job, "manual");
+  return null;
+}
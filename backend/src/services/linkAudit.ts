@@ -0,0 +1,245 @@
+/**
+ * 孤岛页 / 失效链接审计
+ * 抓取我们保存的页面 HTML（静态输出目录、Sanity 文档正文、已发布任务的审核预览），找出没有任何站内入链的指南、
+ * 指向不存在 slug 的指南内链，以及商品已删除 / 下架 / 缺货的产品链接；可把问题页面写入改写队列
+ */
+
+import { existsSync, promises as fs } from "node:fs";
+import path from "node:path";
+import { dataPath } from "../state/dataDir.js";
+import { getAllHistoryRecords } from "../state/historyStore.js";
+import { getPagePreview } from "../state/previewStore.js";
+import { isOpenRewriteEntry, readRewriteQueue, writeRewriteQueue } from "../state/rewriteQueueStore.js";
+import type { RewriteQueueEntry } from "../types.js";
+import {
+  auditInternalLinks,
+  type BrokenInternalLink,
+  type LinkAuditPage,
+  type ProductLinkRef,
+  type ProductLinkStatus,
+} from "../utils/linkAudit.js";
+import { createSanityWriteClient } from "./sanityPublisher.js";
+import { checkShopifyProductHandles } from "./shopify.js";
+import { checkWooProductSlugs } from "./wordpress.js";
+import { sanitizeSensitive } from "../utils/sanitize.js";
+
+/** 静态输出目录最多抓取的页面数 */
+const MAX_STATIC_PAGES = 5000;
+
+export interface ProductLinkIssue extends ProductLinkRef {
+  status: Exclude<ProductLinkStatus, "available">;
+}
+
+export interface LinkAuditReport {
+  generatedAt: string;
+  crawled: { static: number; sanity: number; preview: number };
+  /** 已知但未抓取到 HTML 的指南（历史记录中的 WordPress 页面等），只用于判断链接是否有效 */
+  knownPages: number;
+  orphans: Array<{ url: string; source: LinkAuditPage["source"] }>;
+  brokenLinks: BrokenInternalLink[];
+  productLinks: number;
+  productIssues: ProductLinkIssue[];
+  /** 部分来源未能抓取或商品状态未能检查的原因（缺少凭据、请求失败等） */
+  warnings: string[];
+}
+
+export interface LinkAuditOptions {
+  /** 是否查询 Shopify / WooCommerce 商品状态，默认 true */
+  checkProducts?: boolean;
+}
+
+async function collectStaticPages(): Promise<LinkAuditPage[]> {
+  const outputDir = process.env.STATIC_PUBLISH_DIR?.trim();
+  const baseUrl = process.env.STATIC_BASE_URL?.trim().replace(/\/+$/, "");
+  if (!outputDir || !baseUrl || !existsSync(outputDir)) return [];
+
+  const root = path.resolve(outputDir);
+  const pages: LinkAuditPage[] = [];
+  const walk = async (dir: string): Promise<void> => {
+    for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+      if (pages.length >= MAX_STATIC_PAGES) return;
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        await walk(full);
+      } else if (entry.name === "index.html" && dir !== root) {
+        const slug = path.relative(root, dir).split(path.sep).join("/");
+        pages.push({ url: `${baseUrl}/${slug}/`, html: await fs.readFile(full, "utf-8"), source: "static" });
+      }
+    }
+  };
+  await walk(root);
+  return pages;
+}
+
+async function collectSanityPages(): Promise<LinkAuditPage[]> {
+  const projectId = process.env.SANITY_PROJECT_ID || "";
+  const dataset = process.env.SANITY_DATASET || "";
+  const token = process.env.SANITY_API_TOKEN || "";
+  const baseUrl = (process.env.SANITY_BASE_URL || "").replace(/\/+$/, "");
+  if (!projectId || !dataset || !token || !baseUrl) return [];
+
+  const client = createSanityWriteClient({
+    projectId,
+    dataset,
+    token,
+    apiVersion: process.env.SANITY_API_VERSION || "2024-01-01",
+  });
+  const docs = await client.fetch<Array<{ slug?: string; bodyHtml?: string; html?: string }>>(
+    `*[_type == $docType && defined(slug.current)]{ "slug": slug.current, bodyHtml, html }`,
+    { docType: process.env.SANITY_DOC_TYPE || "luxuryLifeGuide" }
+  );
+  return (docs || [])
+    .filter((doc) => doc.slug && (doc.bodyHtml || doc.html))
+    .map((doc) => ({
+      url: `${baseUrl}/${doc.slug!.replace(/^\/+|\/+$/g, "")}/`,
+      html: doc.bodyHtml || doc.html || "",
+      source: "sanity" as const,
+    }));
+}
+
+/**
+ * 经人工审核后发布的任务保留了渲染 HTML（data/previews），以历史记录中的线上 URL 计
+ */
+async function collectPreviewPages(historyByTaskId: Map<string, string>): Promise<LinkAuditPage[]> {
+  const previewsDir = dataPath("previews");
+  if (!existsSync(previewsDir)) return [];
+  const pages: LinkAuditPage[] = [];
+  for (const name of await fs.readdir(previewsDir)) {
+    const taskId = name.replace(/\.json$/, "");
+    const pageUrl = historyByTaskId.get(taskId);
+    if (!name.endsWith(".json") || !pageUrl) continue;
+    const preview = await getPagePreview(taskId);
+    if (preview?.html) pages.push({ url: pageUrl, html: preview.html, source: "preview" });
+  }
+  return pages;
+}
+
+async function checkProductLinks(productLinks: ProductLinkRef[], errors: string[]): Promise<ProductLinkIssue[]> {
+  const issues: ProductLinkIssue[] = [];
+  const collect = (refs: ProductLinkRef[], statuses: Record<string, ProductLinkStatus>) => {
+    for (const ref of refs) {
+      const status = statuses[ref.handle];
+      if (status && status !== "available") issues.push({ ...ref, status });
+    }
+  };
+
+  const shopifyRefs = productLinks.filter((ref) => ref.platform === "shopify");
+  if (shopifyRefs.length > 0) {
+    const storeUrl = process.env.SHOPIFY_STORE_URL?.trim();
+    const accessToken = process.env.SHOPIFY_ACCESS_TOKEN?.trim();
+    if (!storeUrl || !accessToken) {
+      errors.push("Shopify product links not checked: SHOPIFY_STORE_URL / SHOPIFY_ACCESS_TOKEN not configured");
+    } else {
+      try {
+        collect(shopifyRefs, await checkShopifyProductHandles({ storeUrl, accessToken }, shopifyRefs.map((ref) => ref.handle)));
+      } catch (error) {
+        errors.push(`Shopify product check failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  const wooRefs = productLinks.filter((ref) => ref.platform === "woocommerce");
+  if (wooRefs.length > 0) {
+    try {
+      collect(
+        wooRefs,
+        await checkWooProductSlugs(
+          {
+            url: process.env.WORDPRESS_URL || "",
+            username: process.env.WORDPRESS_USERNAME || "",
+            appPassword: process.env.WORDPRESS_APP_PASSWORD || "",
+          },
+          wooRefs.map((ref) => ref.handle)
+        )
+      );
+    } catch (error) {
+      errors.push(`WooCommerce product check failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return issues;
+}
+
+/**
+ * 执行一次链接审计（只读，不修改队列）
+ */
+export async function runLinkAudit(options: LinkAuditOptions = {}): Promise<LinkAuditReport> {
+  const history = (await getAllHistoryRecords()).filter((record) => record.status === "completed" && record.pageUrl);
+  const historyByTaskId = new Map(history.map((record) => [record.id, record.pageUrl!]));
+
+  const collectors: Array<[LinkAuditPage["source"], () => Promise<LinkAuditPage[]>]> = [
+    ["static", collectStaticPages],
+    ["sanity", collectSanityPages],
+    ["preview", () => collectPreviewPages(historyByTaskId)],
+  ];
+  const crawled: LinkAuditReport["crawled"] = { static: 0, sanity: 0, preview: 0 };
+  const warnings: string[] = [];
+  const byUrl = new Map<string, LinkAuditPage>();
+  for (const [source, collect] of collectors) {
+    try {
+      const pages = await collect();
+      crawled[source] = pages.length;
+      // 同一 URL 以先抓到的线上版本为准（静态文件 / Sanity 优先于预览）
+      for (const page of pages) if (!byUrl.has(page.url)) byUrl.set(page.url, page);
+    } catch (error) {
+      console.warn(`[LinkAudit] 抓取 ${source} 页面失败:`, sanitizeSensitive(error));
+      warnings.push(`Crawling ${source} pages failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  const pages = Array.from(byUrl.values());
+  const knownUrls = history.map((record) => record.pageUrl!);
+  const result = auditInternalLinks(pages, knownUrls);
+  const productIssues =
+    options.checkProducts === false ? [] : await checkProductLinks(result.productLinks, warnings);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    crawled,
+    knownPages: knownUrls.length,
+    orphans: result.orphans.map(({ url, source }) => ({ url, source })),
+    brokenLinks: result.brokenLinks,
+    productLinks: result.productLinks.length,
+    productIssues,
+    warnings,
+  };
+}
+
+/**
+ * 把审计问题写入改写队列：含失效指南链接 / 失效商品链接的页面为 broken_links，孤岛页为 orphan_page
+ * 与仍待处理的记录按 pageUrl 去重
+ */
+export function queueLinkAudit(report: LinkAuditReport): { added: number; candidates: number } {
+  const detectedAt = new Date().toISOString();
+  const brokenByPage = new Map<string, string[]>();
+  const addBroken = (pageUrl: string, detail: string) => {
+    brokenByPage.set(pageUrl, [...(brokenByPage.get(pageUrl) ?? []), detail]);
+  };
+  for (const link of report.brokenLinks) addBroken(link.pageUrl, `missing guide ${link.href}`);
+  for (const issue of report.productIssues) {
+    for (const pageUrl of issue.pages) addBroken(pageUrl, `${issue.status} product ${issue.url}`);
+  }
+
+  const orphanUrls = new Set(report.orphans.map((orphan) => orphan.url));
+  const candidates: RewriteQueueEntry[] = [
+    // 同时是孤岛页的记录标记 orphan，改写完成后同样回填内链
+    ...Array.from(brokenByPage, ([pageUrl, brokenLinks]) => ({
+      pageUrl,
+      reason: "broken_links" as const,
+      brokenLinks,
+      ...(orphanUrls.has(pageUrl) ? { orphan: true } : {}),
+      detectedAt,
+      source: "linkAudit",
+    })),
+    ...report.orphans
+      .filter((orphan) => !brokenByPage.has(orphan.url))
+      .map((orphan) => ({ pageUrl: orphan.url, reason: "orphan_page" as const, detectedAt, source: "linkAudit" })),
+  ];
+
+  const queue = readRewriteQueue();
+  const openPages = new Set(queue.filter(isOpenRewriteEntry).map((entry) => entry.pageUrl).filter(Boolean));
+  const added = candidates.filter((entry) => !openPages.has(entry.pageUrl));
+  if (added.length > 0) {
+    writeRewriteQueue([...added, ...queue]);
+  }
+  return { added: added.length, candidates: candidates.length };
+}
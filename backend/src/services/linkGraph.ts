@@ -0,0 +1,367 @@
+/**
+ * 站内主题内链图谱
+ * 汇总所有已发布指南（历史记录 + Sanity + 静态站 sitemap-entries.json），按关键词 / 品类 / 产品实体相关度
+ * 选出相关指南，在正文中插入上下文锚文本链接；新页面发布后回填到相关的旧页面（static / sanity / wordpress），
+ * 避免新指南成为孤岛页
+ */
+
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { getAllHistoryRecords } from "../state/historyStore.js";
+import { getCurrentContentVersion, savePageRevision } from "../state/revisionStore.js";
+import type { GenerationRequestPayload, PagePublishTarget } from "../types.js";
+import {
+  buildAnchorPhrases,
+  injectContextualLinks,
+  normalizeLinkUrl,
+  rankRelatedPages,
+  splitArticleBody,
+  type InjectedLink,
+  type LinkGraphPage,
+  type RelatedPage,
+} from "../utils/internalLinking.js";
+import { detectPrimaryCategory } from "../utils/productCategory.js";
+import { createSanityWriteClient, requestSanityRevalidate, updateSanityDocumentHtml } from "./sanityPublisher.js";
+import { publishStaticPage, updateStaticSiteSeoFiles } from "./staticPublisher.js";
+import { extractPageHtml, findPageBySlug, refreshPage } from "./wordpress.js";
+import { sanitizeSensitive } from "../utils/sanitize.js";
+
+const SANITY_CACHE_TTL_MS = 10 * 60 * 1000;
+const SOURCE_PRIORITY: Record<LinkGraphPage["source"], number> = { sanity: 3, history: 2, static: 1 };
+
+let sanityCache: { key: string; pages: LinkGraphPage[]; fetchedAt: number } | null = null;
+
+export interface BackfilledPage {
+  url: string;
+  target: PagePublishTarget;
+  anchor: string;
+}
+
+function sanityConfig(payload: GenerationRequestPayload) {
+  return {
+    projectId: payload.sanity?.projectId || process.env.SANITY_PROJECT_ID || "",
+    dataset: payload.sanity?.dataset || process.env.SANITY_DATASET || "",
+    token: payload.sanity?.token || process.env.SANITY_API_TOKEN || "",
+    apiVersion: payload.sanity?.apiVersion || process.env.SANITY_API_VERSION || "2024-01-01",
+    docType: payload.sanity?.docType || process.env.SANITY_DOC_TYPE || "luxuryLifeGuide",
+    baseUrl: (payload.sanity?.baseUrl || process.env.SANITY_BASE_URL || "").replace(/\/+$/, ""),
+  };
+}
+
+function staticConfig(payload: GenerationRequestPayload) {
+  return {
+    outputDir: payload.staticPublish?.outputDir || process.env.STATIC_PUBLISH_DIR || "",
+    baseUrl: (payload.staticPublish?.baseUrl || process.env.STATIC_BASE_URL || "").replace(/\/+$/, ""),
+  };
+}
+
+function wordpressBaseUrl(payload: GenerationRequestPayload): string {
+  return (payload.wordpress?.url || "").replace(/\/+$/, "");
+}
+
+function toPage(
+  input: { url: string; title?: string; keyword?: string; category?: string; publishedAt?: string },
+  source: LinkGraphPage["source"]
+): LinkGraphPage {
+  const title = input.title?.trim() || "";
+  const keyword = input.keyword?.trim() || title;
+  return {
+    url: input.url,
+    title,
+    keyword,
+    category: input.category || detectPrimaryCategory(keyword, title),
+    source,
+    publishedAt: input.publishedAt,
+  };
+}
+
+/** baseUrl 之下的页面路径（不在该站点下时返回空串） */
+function slugUnderBase(url: string, baseUrl: string): string {
+  const base = baseUrl.replace(/\/+$/, "");
+  if (!base || !url.toLowerCase().startsWith(`${base.toLowerCase()}/`)) return "";
+  return url.slice(base.length).replace(/[?#].*$/, "").replace(/^\/+|\/+$/g, "");
+}
+
+/** 由 URL 最后一段还原可读的标题（静态站没有标题 / 关键词元数据） */
+function titleFromUrl(url: string): string {
+  const last = normalizeLinkUrl(url).split("/").pop() || "";
+  return last.replace(/[-_]+/g, " ").trim();
+}
+
+async function loadSanityPages(payload: GenerationRequestPayload): Promise<LinkGraphPage[]> {
+  const config = sanityConfig(payload);
+  if (!config.projectId || !config.dataset || !config.baseUrl) return [];
+
+  const cacheKey = `${config.projectId}:${config.dataset}:${config.docType}`;
+  if (sanityCache?.key === cacheKey && Date.now() - sanityCache.fetchedAt < SANITY_CACHE_TTL_MS) {
+    return sanityCache.pages;
+  }
+  try {
+    const client = createSanityWriteClient(config);
+    const docs = await client.fetch<
+      Array<{ title?: string; slug?: string; keyword?: string; primaryCategory?: string; publishedAt?: string }>
+    >(
+      `*[_type == $docType && defined(slug.current)]{ title, "slug": slug.current, keyword, primaryCategory, publishedAt }`,
+      { docType: config.docType }
+    );
+    const pages = (docs || [])
+      .filter((doc) => doc.slug && (doc.title || doc.keyword))
+      .map((doc) =>
+        toPage(
+          {
+            url: `${config.baseUrl}/${doc.slug!.replace(/^\/+|\/+$/g, "")}/`,
+            title: doc.title,
+            keyword: doc.keyword,
+            category: doc.primaryCategory,
+            publishedAt: doc.publishedAt,
+          },
+          "sanity"
+        )
+      );
+    sanityCache = { key: cacheKey, pages, fetchedAt: Date.now() };
+    return pages;
+  } catch (error) {
+    console.warn("[LinkGraph] Sanity 指南查询失败:", sanitizeSensitive(error));
+    return [];
+  }
+}
+
+async function loadStaticPages(payload: GenerationRequestPayload): Promise<LinkGraphPage[]> {
+  const { outputDir } = staticConfig(payload);
+  const entriesPath = outputDir ? path.join(path.resolve(outputDir), "sitemap-entries.json") : "";
+  if (!entriesPath || !existsSync(entriesPath)) return [];
+  try {
+    const entries = JSON.parse(await readFile(entriesPath, "utf-8")) as Array<{ loc?: string; lastmod?: string }>;
+    return (Array.isArray(entries) ? entries : [])
+      .filter((entry) => typeof entry?.loc === "string" && titleFromUrl(entry.loc))
+      .map((entry) => toPage({ url: entry.loc!, title: titleFromUrl(entry.loc!), publishedAt: entry.lastmod }, "static"));
+  } catch (error) {
+    console.warn("[LinkGraph] sitemap-entries.json 读取失败:", sanitizeSensitive(error));
+    return [];
+  }
+}
+
+/**
+ * 汇总全部已发布指南；同一 URL 以元数据最完整的来源为准（Sanity > 历史记录 > 静态站）
+ */
+export async function loadLinkGraphPages(payload: GenerationRequestPayload): Promise<LinkGraphPage[]> {
+  const history = (await getAllHistoryRecords())
+    .filter((record) => record.status === "completed" && record.pageUrl && record.keyword)
+    .map((record) =>
+      toPage(
+        {
+          url: record.pageUrl!,
+          title: record.pageTitle,
+          keyword: record.keyword,
+          publishedAt: new Date(record.createdAt).toISOString(),
+        },
+        "history"
+      )
+    );
+  const [sanity, statics] = await Promise.all([loadSanityPages(payload), loadStaticPages(payload)]);
+
+  const byUrl = new Map<string, LinkGraphPage>();
+  for (const page of [...history, ...sanity, ...statics]) {
+    const key = normalizeLinkUrl(page.url);
+    const existing = byUrl.get(key);
+    if (!existing || SOURCE_PRIORITY[page.source] > SOURCE_PRIORITY[existing.source]) {
+      byUrl.set(key, page);
+    }
+  }
+  return Array.from(byUrl.values());
+}
+
+/**
+ * 与当前页面主题最相关的已发布指南（按相关度排序）
+ */
+export async function findRelatedGuides(
+  payload: GenerationRequestPayload,
+  target: { keyword: string; title: string; category: string; url?: string },
+  limit = 6
+): Promise<RelatedPage[]> {
+  try {
+    return rankRelatedPages(target, await loadLinkGraphPages(payload), { limit });
+  } catch (error) {
+    console.warn("[LinkGraph] 相关指南计算失败:", sanitizeSensitive(error));
+    return [];
+  }
+}
+
+/**
+ * 在正文中为相关指南插入上下文内链（每个指南最多一次，共 maxLinks 个）
+ */
+export function injectRelatedGuideLinks(
+  articleHtml: string,
+  related: RelatedPage[],
+  maxLinks = 3
+): { html: string; inserted: InjectedLink[] } {
+  return injectContextualLinks(
+    articleHtml,
+    related.map(({ page }) => ({ url: page.url, anchors: buildAnchorPhrases(page) })),
+    maxLinks
+  );
+}
+
+/** 只在正文容器内插入，避免改到导航 / 页脚 */
+function injectIntoPage(html: string, newPage: LinkGraphPage): { html: string; anchor?: string } {
+  const candidate = [{ url: newPage.url, anchors: buildAnchorPhrases(newPage) }];
+  const split = splitArticleBody(html);
+  if (!split) {
+    const result = injectContextualLinks(html, candidate, 1);
+    return { html: result.html, anchor: result.inserted[0]?.anchor };
+  }
+  const result = injectContextualLinks(split.body, candidate, 1);
+  return { html: split.before + result.html + split.after, anchor: result.inserted[0]?.anchor };
+}
+
+async function backfillStaticPage(
+  payload: GenerationRequestPayload,
+  page: LinkGraphPage,
+  newPage: LinkGraphPage
+): Promise<string | null> {
+  const { outputDir, baseUrl } = staticConfig(payload);
+  const slug = slugUnderBase(page.url, baseUrl);
+  if (!outputDir || !slug) return null;
+  const filePath = path.join(path.resolve(outputDir), slug, "index.html");
+  if (!existsSync(filePath)) return null;
+
+  const html = await readFile(filePath, "utf-8");
+  const injected = injectIntoPage(html, newPage);
+  if (!injected.anchor) return null;
+
+  const previousVersion = await getCurrentContentVersion("static", slug);
+  const published = await publishStaticPage({ slug, htmlContent: injected.html, outputDir, baseUrl });
+  await updateStaticSiteSeoFiles(outputDir, baseUrl, published.pageUrl);
+  await savePageRevision(
+    "static",
+    slug,
+    { contentVersion: previousVersion, html, reason: "internal_links" },
+    previousVersion + 1
+  );
+  return injected.anchor;
+}
+
+async function backfillSanityPage(
+  payload: GenerationRequestPayload,
+  page: LinkGraphPage,
+  newPage: LinkGraphPage
+): Promise<string | null> {
+  const config = sanityConfig(payload);
+  const slug = slugUnderBase(page.url, config.baseUrl);
+  if (!config.projectId || !config.dataset || !config.token || !slug) return null;
+
+  const client = createSanityWriteClient(config);
+  const doc = await client.fetch<{ bodyHtml?: string; html?: string } | null>(
+    `*[_type == $docType && slug.current == $slug][0]{ bodyHtml, html }`,
+    { docType: config.docType, slug }
+  );
+  const html = doc?.bodyHtml || doc?.html || "";
+  if (!html) return null;
+  const injected = injectIntoPage(html, newPage);
+  if (!injected.anchor) return null;
+
+  const updated = await updateSanityDocumentHtml({ ...config, slug, bodyHtml: injected.html });
+  await savePageRevision(
+    "sanity",
+    slug,
+    {
+      contentVersion: updated.contentVersion - 1,
+      title: updated.previousTitle,
+      html: updated.previousHtml ?? html,
+      reason: "internal_links",
+    },
+    updated.contentVersion
+  );
+  try {
+    await requestSanityRevalidate(slug, payload.sanity?.baseUrl);
+  } catch (error) {
+    console.warn(`[LinkGraph] ISR revalidate failed for ${slug}:`, sanitizeSensitive(error));
+  }
+  return injected.anchor;
+}
+
+async function backfillWordpressPage(
+  payload: GenerationRequestPayload,
+  page: LinkGraphPage,
+  newPage: LinkGraphPage
+): Promise<string | null> {
+  const credentials = payload.wordpress;
+  const slug = slugUnderBase(page.url, wordpressBaseUrl(payload));
+  if (!credentials?.username || !credentials.appPassword || !slug) return null;
+
+  const existing = await findPageBySlug(credentials, slug);
+  const html = existing ? extractPageHtml(existing) : "";
+  if (!html) return null;
+  const injected = injectIntoPage(html, newPage);
+  if (!injected.anchor) return null;
+
+  const previousVersion = await getCurrentContentVersion("wordpress", slug);
+  // 标题留空沿用原标题
+  const refreshed = await refreshPage({
+    credentials,
+    title: "",
+    slug,
+    htmlContent: injected.html,
+    useElementor: payload.useElementor ?? true,
+    contentVersion: previousVersion + 1,
+  });
+  if (!refreshed) return null;
+  await savePageRevision(
+    "wordpress",
+    slug,
+    {
+      contentVersion: previousVersion,
+      title: refreshed.previousTitle,
+      html: refreshed.previousHtml,
+      reason: "internal_links",
+    },
+    previousVersion + 1
+  );
+  return injected.anchor;
+}
+
+/**
+ * 新页面发布后，在最相关的旧页面正文中插入指向它的链接（static / sanity / wordpress 目标，可回滚修订）
+ * @returns 实际插入了链接的页面
+ */
+export async function backfillInternalLinks(
+  payload: GenerationRequestPayload,
+  newPage: { url: string; title: string; keyword: string; category: string },
+  limit = 3
+): Promise<BackfilledPage[]> {
+  const target = (payload.publishTarget ?? "wordpress") as PagePublishTarget;
+  if (limit <= 0) return [];
+
+  // WordPress 页面只有历史记录这一来源
+  const linkTarget: LinkGraphPage = { ...newPage, source: target === "wordpress" ? "history" : target };
+  // 旧页面只能改到与本次发布同一站点下的页面；多取一些候选，正文中找不到锚文本的会被跳过
+  const siteBaseUrl =
+    target === "sanity"
+      ? sanityConfig(payload).baseUrl
+      : target === "static"
+        ? staticConfig(payload).baseUrl
+        : wordpressBaseUrl(payload);
+  const sitePages = (await loadLinkGraphPages(payload)).filter((page) => slugUnderBase(page.url, siteBaseUrl));
+  const candidates = rankRelatedPages(newPage, sitePages, { limit: limit * 3 });
+
+  const backfilled: BackfilledPage[] = [];
+  for (const { page } of candidates) {
+    if (backfilled.length >= limit) break;
+    try {
+      const anchor =
+        target === "sanity"
+          ? await backfillSanityPage(payload, page, linkTarget)
+          : target === "static"
+            ? await backfillStaticPage(payload, page, linkTarget)
+            : await backfillWordpressPage(payload, page, linkTarget);
+      if (anchor) {
+        backfilled.push({ url: page.url, target, anchor });
+        console.log(`[LinkGraph] 已在 ${page.url} 中插入指向 ${newPage.url} 的内链（"${anchor}"）`);
+      }
+    } catch (error) {
+      console.warn(`[LinkGraph] 回填内链失败 ${page.url}:`, sanitizeSensitive(error));
+    }
+  }
+  return backfilled;
+}
@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { generatePageTitle, generateQuickAnswerSnippet } from "./googleAi.js";
+import { runWithLlmUsageContext, type LlmGenerateOptions, type LlmProvider } from "./llmProvider.js";
+import { registerLlmProvider } from "./llmRegistry.js";
+
+process.env.LLM_BUDGETS = JSON.stringify({ projects: { acme: { daily: { requests: 0 } } } });
+process.env.LLM_BUDGET_ACTION = "fail";
+
+const calls: Array<{ provider: string; apiKey?: string }> = [];
+const fakeProvider = (name: string, usesApiKeyPool: boolean): LlmProvider => ({
+  name,
+  models: { quality: "fake-quality", fast: "fake-fast" },
+  usesApiKeyPool,
+  async generateText(_prompt: string, options?: LlmGenerateOptions) {
+    calls.push({ provider: name, apiKey: options?.apiKey });
+    return {
+      text: "Luxury phones combine handcrafted materials with concierge support.",
+      model: "fake-fast",
+      usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+    };
+  },
+  async generateJSON<T>() {
+    return { text: "{}", model: "fake-fast", usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 }, data: {} as T };
+  },
+});
+registerLlmProvider(fakeProvider("budget-pool", true));
+registerLlmProvider(fakeProvider("budget-direct", false));
+
+const snippet = { keyword: "luxury phone", pageTitle: "Luxury Phones" };
+const isBudgetError = (error: any) => error?.code === "LLM_BUDGET_EXCEEDED" && /acme/.test(error.message);
+
+// A task with its own key skips the key pool, but not the budget
+await runWithLlmUsageContext({ project: "acme" }, async () => {
+  await assert.rejects(generateQuickAnswerSnippet({ ...snippet, apiKey: "task-key", llmProvider: "budget-pool" }), isBudgetError);
+  // Providers without a key pool (openai-compatible) are checked as well
+  await assert.rejects(generateQuickAnswerSnippet({ ...snippet, llmProvider: "budget-direct" }), isBudgetError);
+  // Title generation falls back on other errors, but not on an exhausted budget
+  await assert.rejects(generatePageTitle({ apiKey: "task-key", keyword: "luxury phone", llmProvider: "budget-pool" }), isBudgetError);
+});
+assert.deepEqual(calls, []);
+
+// Projects without a budget are dispatched with the task's key
+await runWithLlmUsageContext({ project: "beta" }, async () => {
+  const answer = await generateQuickAnswerSnippet({ ...snippet, apiKey: "task-key", llmProvider: "budget-pool" });
+  assert.match(answer, /^Luxury phones combine/);
+});
+assert.deepEqual(calls, [{ provider: "budget-pool", apiKey: "task-key" }]);
+
+console.log("llmBudget.test.ts: all assertions passed");
@@ -0,0 +1,139 @@
+/**
+ * LLM 预算（LLM_BUDGETS）：按天 / 按月的 token 与请求数上限，全局与按项目（payload.project）分别计算
+ * 用量来自调用台账：首次检查时按本月台账重建，之后随每次调用累加；每次提供方调用前检查（llmRegistry 包装），
+ * 使用 Key 池时 withApiKey 在进入 Key 队列前再检查一次，避免等待预算时占住队列；
+ * 超出时按 LLM_BUDGET_ACTION 让任务回到 queued 等待预算重置（wait，默认）或直接以预算错误失败（fail）
+ * 并发请求在检查之后才计入用量，预算是软上限，可能被少量超出
+ */
+
+import { readUsageLedger } from "../state/usageLedgerStore.js";
+import { getTask, getTaskSignal, isTaskPaused, updateTaskStatus } from "../state/taskStore.js";
+import type { LlmUsageLedgerEntry } from "../types.js";
+import {
+  addBudgetUsage,
+  createBudgetUsage,
+  describeBudgets,
+  findBudgetViolation,
+  formatBudgetViolation,
+  parseBudgetConfig,
+  type BudgetUsage,
+  type BudgetViolation,
+  type LlmBudgetConfig,
+} from "../utils/llmBudget.js";
+
+/** 等待预算重置时的检查间隔 */
+const BUDGET_POLL_INTERVAL_MS = 60 * 1000;
+
+let usage: BudgetUsage | null = null;
+let loadingUsage: Promise<BudgetUsage> | null = null;
+let reportedConfigError: string | null = null;
+
+function loadBudgetConfig(): LlmBudgetConfig {
+  const config = parseBudgetConfig(process.env.LLM_BUDGETS);
+  if (typeof config === "string") {
+    if (config !== reportedConfigError) {
+      console.error(`[LlmBudget] LLM_BUDGETS 配置无效，预算不生效: ${config}`);
+      reportedConfigError = config;
+    }
+    return { projects: {} };
+  }
+  return config;
+}
+
+function hasBudgets(config: LlmBudgetConfig): boolean {
+  return !!config.global || Object.keys(config.projects).length > 0;
+}
+
+export function resolveBudgetAction(): "wait" | "fail" {
+  return process.env.LLM_BUDGET_ACTION?.trim() === "fail" ? "fail" : "wait";
+}
+
+async function getBudgetUsage(): Promise<BudgetUsage> {
+  if (usage) return usage;
+  loadingUsage ??= (async () => {
+    const now = new Date();
+    const monthStart = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1);
+    const rebuilt = createBudgetUsage(now.getTime());
+    for (const entry of await readUsageLedger({ from: monthStart })) {
+      addBudgetUsage(rebuilt, entry);
+    }
+    usage = rebuilt;
+    return rebuilt;
+  })();
+  return loadingUsage;
+}
+
+/**
+ * 台账每记一次调用时累加（用量尚未从台账重建时跳过，重建会读到这条记录）
+ */
+export function recordLlmBudgetUsage(entry: Pick<LlmUsageLedgerEntry, "timestamp" | "totalTokens" | "project">): void {
+  if (usage) addBudgetUsage(usage, entry);
+}
+
+/**
+ * 检查新请求是否超出预算
+ * @returns 第一个已用完的预算；未配置预算或均未用完时为 null
+ */
+export async function checkLlmBudget(project?: string): Promise<BudgetViolation | null> {
+  const config = loadBudgetConfig();
+  if (!hasBudgets(config)) return null;
+  return findBudgetViolation(config, await getBudgetUsage(), project);
+}
+
+/**
+ * 分段等待预算重置；任务暂停或取消时抛错
+ */
+async function waitForTask(taskId: string, ms: number): Promise<void> {
+  const signal = getTaskSignal(taskId);
+  for (let remaining = ms; remaining > 0; remaining -= 500) {
+    signal.throwIfAborted();
+    if (isTaskPaused(taskId)) {
+      throw new Error("任务已暂停");
+    }
+    await new Promise((resolve) => setTimeout(resolve, Math.min(500, remaining)));
+  }
+}
+
+/**
+ * 派发请求前执行预算检查：fail 模式（或不在生成任务中的调用）抛出预算错误；
+ * wait 模式把任务置为 queued 并等待预算重置，之后恢复原状态继续
+ * @param wait 分段等待并在暂停 / 取消时抛错（withApiKey 传入自己的等待；默认按任务状态检查）
+ */
+export async function enforceLlmBudget(
+  context: { taskId?: string; project?: string } | undefined,
+  wait?: (ms: number) => Promise<void>
+): Promise<void> {
+  let violation = await checkLlmBudget(context?.project);
+  if (!violation) return;
+
+  const task = context?.taskId ? getTask(context.taskId) : undefined;
+  if (resolveBudgetAction() === "fail" || !task) {
+    throw Object.assign(new Error(formatBudgetViolation(violation)), {
+      code: "LLM_BUDGET_EXCEEDED",
+      budget: violation,
+    });
+  }
+
+  const resume = { status: task.status, message: task.message };
+  console.warn(`[LlmBudget] 任务 ${task.id} 等待预算重置: ${formatBudgetViolation(violation)}`);
+  while (violation) {
+    updateTaskStatus(task.id, "queued", `LLM 预算已用完，等待重置后继续（${formatBudgetViolation(violation)}）`);
+    const untilReset = Date.parse(violation.resetsAt) - Date.now();
+    const waitMs = Math.max(1000, Math.min(BUDGET_POLL_INTERVAL_MS, untilReset));
+    await (wait ? wait(waitMs) : waitForTask(task.id, waitMs));
+    violation = await checkLlmBudget(context?.project);
+  }
+  updateTaskStatus(task.id, resume.status, resume.message);
+}
+
+/**
+ * 当前预算与用量（/api/api-keys/status）
+ */
+export async function getLlmBudgetStatus() {
+  const config = loadBudgetConfig();
+  return {
+    action: resolveBudgetAction(),
+    configured: hasBudgets(config),
+    ...describeBudgets(config, await getBudgetUsage()),
+  };
+}
@@ -0,0 +1,193 @@
+/**
+ * LLM 提供方接口与 token 用量统计
+ * 内容生成只依赖 generateText / generateJSON，具体实现可以是 Gemini（默认，使用 API Key 池轮换），
+ * 也可以是任意 OpenAI 兼容的 HTTP 接口（本地模型服务等）；按名称选择见 llmRegistry.ts
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { appendUsageLedgerEntry } from "../state/usageLedgerStore.js";
+import { recordLlmBudgetUsage } from "./llmBudget.js";
+import { parseLlmJson } from "../utils/llmJson.js";
+import { classifyLlmOutcome, estimateCostUsd, resolveModelPricing } from "../utils/usageLedger.js";
+import type { LlmUsageLedgerEntry } from "../types.js";
+
+export interface LlmGenerationConfig {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+}
+
+export interface LlmGenerateOptions extends LlmGenerationConfig {
+  /** 提供方自己的模型名；不填时按 tier 取提供方的默认模型 */
+  model?: string;
+  tier?: "quality" | "fast";
+  /** 需要 Key 的提供方（Gemini）由调用方从 Key 池取出后传入 */
+  apiKey?: string;
+  signal?: AbortSignal;
+  /** 每次调用完成后回调本次 token 用量（任务级统计） */
+  onUsage?: (usage: LlmUsageRecord) => void;
+}
+
+export interface LlmTokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmUsageRecord extends LlmTokenUsage {
+  provider: string;
+  model: string;
+  latencyMs: number;
+  /** 掩码后的 API Key（写入调用台账） */
+  keyMask?: string;
+}
+
+/** 调用台账的归属：生成任务在 processTask 中设置，重试层在此基础上累加 retries */
+export interface LlmUsageContext {
+  taskId?: string;
+  keyword?: string;
+  templateType?: string;
+  project?: string;
+  retries?: number;
+}
+
+export interface LlmTextResult {
+  text: string;
+  model: string;
+  usage: LlmTokenUsage;
+}
+
+export interface LlmJsonResult<T> extends LlmTextResult {
+  data: T;
+}
+
+export interface LlmProvider {
+  name: string;
+  /** quality：长文 / 复杂任务；fast：标题、摘要等简单任务 */
+  models: { quality: string; fast: string };
+  /** 为 true 时调用方需通过 apiKeyManager 的 Key 池（withApiKey / 限流器）取 Key */
+  usesApiKeyPool: boolean;
+  generateText(prompt: string, options?: LlmGenerateOptions): Promise<LlmTextResult>;
+  /** 要求模型只输出 JSON；返回解析后的数据 */
+  generateJSON<T = unknown>(prompt: string, options?: LlmGenerateOptions): Promise<LlmJsonResult<T>>;
+}
+
+/** 进程内按 provider:model 累计的 token 用量 */
+const usageTotals = new Map<string, LlmUsageRecord & { calls: number }>();
+
+const usageContext = new AsyncLocalStorage<LlmUsageContext>();
+
+/**
+ * 在台账上下文中执行：其中（含排队、重试）的每次模型调用都记到该任务名下
+ */
+export function runWithLlmUsageContext<T>(context: LlmUsageContext, fn: () => T): T {
+  return usageContext.run(context, fn);
+}
+
+export function getLlmUsageContext(): LlmUsageContext | undefined {
+  return usageContext.getStore();
+}
+
+/** 修改当前上下文（例如模板策略替换了模板之后） */
+export function updateLlmUsageContext(patch: Partial<LlmUsageContext>): void {
+  const current = usageContext.getStore();
+  if (current) Object.assign(current, patch);
+}
+
+/**
+ * 在重试层中执行一次尝试：attempt 为此前已失败的次数，累加到台账的 retryCount
+ */
+export function withLlmRetryAttempt<T>(attempt: number, fn: () => T): T {
+  if (attempt <= 0) return fn();
+  const current = usageContext.getStore();
+  return usageContext.run({ ...current, retries: (current?.retries ?? 0) + attempt }, fn);
+}
+
+function appendLedger(record: LlmUsageRecord, outcome: LlmUsageLedgerEntry["outcome"], error?: string): void {
+  const context = usageContext.getStore();
+  const entry: LlmUsageLedgerEntry = {
+    timestamp: Date.now(),
+    taskId: context?.taskId,
+    keyword: context?.keyword,
+    templateType: context?.templateType,
+    project: context?.project,
+    provider: record.provider,
+    model: record.model,
+    keyMask: record.keyMask,
+    promptTokens: record.promptTokens,
+    completionTokens: record.completionTokens,
+    totalTokens: record.totalTokens,
+    latencyMs: record.latencyMs,
+    retryCount: context?.retries ?? 0,
+    outcome,
+    error,
+    costUsd: estimateCostUsd(
+      record.model,
+      record.promptTokens,
+      record.completionTokens,
+      resolveModelPricing(process.env.LLM_PRICING)
+    ),
+  };
+  void appendUsageLedgerEntry(entry);
+  recordLlmBudgetUsage(entry);
+}
+
+/**
+ * 记录一次失败的调用（只写台账，不计入 token 统计与任务回调）
+ */
+export function recordLlmFailure(
+  record: Pick<LlmUsageRecord, "provider" | "model" | "latencyMs" | "keyMask">,
+  error: unknown,
+  aborted = false
+): void {
+  const message = error instanceof Error ? error.message : String(error);
+  appendLedger(
+    { ...record, promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+    classifyLlmOutcome(error, aborted),
+    message.slice(0, 300)
+  );
+}
+
+/**
+ * 记录一次调用的用量：累加进程内统计、写入调用台账并回调调用方
+ */
+export function recordLlmUsage(record: LlmUsageRecord, onUsage?: LlmGenerateOptions["onUsage"]): void {
+  const key = `${record.provider}:${record.model}`;
+  const total = usageTotals.get(key) ?? {
+    provider: record.provider,
+    model: record.model,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    latencyMs: 0,
+    calls: 0,
+  };
+  total.promptTokens += record.promptTokens;
+  total.completionTokens += record.completionTokens;
+  total.totalTokens += record.totalTokens;
+  total.latencyMs += record.latencyMs;
+  total.calls += 1;
+  usageTotals.set(key, total);
+  appendLedger(record, "success");
+  onUsage?.(record);
+}
+
+export function getLlmUsageTotals(): Array<LlmUsageRecord & { calls: number }> {
+  return Array.from(usageTotals.values()).map((total) => ({ ...total }));
+}
+
+/**
+ * generateJSON 的通用实现：追加 JSON 输出要求后调用 generateText，再解析回复
+ */
+export async function generateJsonViaText<T>(
+  provider: Pick<LlmProvider, "generateText">,
+  prompt: string,
+  options?: LlmGenerateOptions
+): Promise<LlmJsonResult<T>> {
+  const result = await provider.generateText(
+    `${prompt}\n\nRespond with valid JSON only. No markdown fences, no commentary.`,
+    options
+  );
+  return { ...result, data: parseLlmJson<T>(result.text) };
+}
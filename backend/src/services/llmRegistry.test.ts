@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { validatePublishConfig } from "../routes/generation.js";
+import { readUsageLedger } from "../state/usageLedgerStore.js";
+import { generatePageTitle, generateQuickAnswerSnippet } from "./googleAi.js";
+import {
+  generateJsonViaText,
+  getLlmUsageTotals,
+  recordLlmUsage,
+  runWithLlmUsageContext,
+  type LlmGenerateOptions,
+  type LlmProvider,
+  type LlmUsageRecord,
+} from "./llmProvider.js";
+import { getLlmProvider, isKnownLlmProvider, listLlmProviders, registerLlmProvider } from "./llmRegistry.js";
+
+// Every call is appended to the usage ledger; it goes to a temporary DATA_DIR, not the real one
+const dataDir = await mkdtemp(path.join(tmpdir(), "llm-registry-data-"));
+process.env.DATA_DIR = dataDir;
+delete process.env.LLM_PROVIDER;
+delete process.env.LLM_BUDGETS;
+
+const calls: Array<{ prompt: string; options?: LlmGenerateOptions }> = [];
+const mockProvider: LlmProvider = {
+  name: "mock-llm",
+  models: { quality: "mock-quality", fast: "mock-fast" },
+  usesApiKeyPool: false,
+  async generateText(prompt, options) {
+    calls.push({ prompt, options });
+    const model = options?.model || mockProvider.models[options?.tier ?? "quality"];
+    const text = prompt.includes("Respond with valid JSON only")
+      ? '{"ok": true}'
+      : prompt.includes("Output only the title text")
+        ? "luxury phone buying guide"
+        : "A luxury phone pairs handcrafted materials with concierge support.";
+    const usage = { promptTokens: 10, completionTokens: 5, totalTokens: 15 };
+    recordLlmUsage({ provider: mockProvider.name, model, latencyMs: 1, ...usage }, options?.onUsage);
+    return { text, model, usage };
+  },
+  generateJSON(prompt, options) {
+    return generateJsonViaText(mockProvider, prompt, options);
+  },
+};
+
+const base = { keyword: "luxury phone", templateContent: "<html></html>", publishTarget: "static" as const };
+
+try {
+  {
+    assert.ok(!isKnownLlmProvider("mock-llm"));
+    assert.match(validatePublishConfig({ ...base, llmProvider: "mock-llm" }) ?? "", /Unknown llmProvider "mock-llm"/);
+
+    registerLlmProvider(mockProvider);
+    assert.ok(listLlmProviders().includes("mock-llm"));
+    assert.doesNotMatch(validatePublishConfig({ ...base, llmProvider: "mock-llm" }) ?? "", /llmProvider/);
+    assert.equal(getLlmProvider("mock-llm").name, "mock-llm");
+    assert.equal(getLlmProvider("mock-llm").models.fast, "mock-fast");
+    // Other tasks keep the default provider
+    assert.equal(getLlmProvider().name, "gemini");
+  }
+
+  {
+    // A task that selects the mock: its calls and token usage go through the mock
+    const taskUsage: LlmUsageRecord[] = [];
+    const onLlmUsage = (usage: LlmUsageRecord) => taskUsage.push(usage);
+    await runWithLlmUsageContext({ taskId: "task-mock", keyword: "luxury phone", project: "acme" }, async () => {
+      const title = await generatePageTitle({ keyword: "luxury phone", llmProvider: "mock-llm", onLlmUsage });
+      assert.equal(title, "Luxury Phone Buying Guide");
+      const answer = await generateQuickAnswerSnippet({
+        keyword: "luxury phone",
+        pageTitle: title,
+        llmProvider: "mock-llm",
+        onLlmUsage,
+      });
+      assert.match(answer, /^A luxury phone pairs handcrafted materials/);
+
+      const json = await getLlmProvider("mock-llm").generateJSON<{ ok: boolean }>("Is this JSON?", {
+        tier: "fast",
+        onUsage: onLlmUsage,
+      });
+      assert.deepEqual(json.data, { ok: true });
+    });
+
+    assert.equal(calls.length, 3);
+    assert.equal(calls[1].options?.tier, "fast");
+    assert.match(calls[2].prompt, /^Is this JSON\?\n\nRespond with valid JSON only/);
+    assert.deepEqual(
+      taskUsage.map(({ provider, model, totalTokens }) => ({ provider, model, totalTokens })),
+      [
+        { provider: "mock-llm", model: "mock-quality", totalTokens: 15 },
+        { provider: "mock-llm", model: "mock-fast", totalTokens: 15 },
+        { provider: "mock-llm", model: "mock-fast", totalTokens: 15 },
+      ]
+    );
+
+    const totals = getLlmUsageTotals().filter((total) => total.provider === "mock-llm");
+    assert.equal(totals.reduce((sum, total) => sum + total.calls, 0), 3);
+    assert.equal(totals.reduce((sum, total) => sum + total.totalTokens, 0), 45);
+
+    // Ledger entries are attributed to the task that made the calls
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    const ledger = (await readUsageLedger()).filter((entry) => entry.provider === "mock-llm");
+    assert.equal(ledger.length, 3);
+    assert.ok(ledger.every((entry) => entry.taskId === "task-mock" && entry.project === "acme" && entry.outcome === "success"));
+  }
+} finally {
+  await rm(dataDir, { recursive: true, force: true });
+}
+
+console.log("llmRegistry.test.ts: all assertions passed");
@@ -0,0 +1,65 @@
+/**
+ * LLM 提供方注册表：内置 gemini 与 openai-compatible，测试可通过 registerLlmProvider 注册 mock
+ * 注册的提供方都包上预算检查，任务自带 Key 或不使用 Key 池的调用同样受 LLM_BUDGETS 约束
+ */
+
+import { geminiProvider } from "./geminiProvider.js";
+import { enforceLlmBudget } from "./llmBudget.js";
+import { getLlmUsageContext, type LlmGenerateOptions, type LlmProvider } from "./llmProvider.js";
+import { openAiCompatibleProvider } from "./openAiCompatibleProvider.js";
+
+export const DEFAULT_LLM_PROVIDER = "gemini";
+
+/**
+ * 每次 generateText / generateJSON 前执行预算检查（超出时等待重置或抛出预算错误）
+ */
+function withBudgetCheck(provider: LlmProvider): LlmProvider {
+  return {
+    name: provider.name,
+    // openai-compatible 的模型名按环境变量延迟解析，这里不能取快照
+    get models() {
+      return provider.models;
+    },
+    usesApiKeyPool: provider.usesApiKeyPool,
+    async generateText(prompt: string, options?: LlmGenerateOptions) {
+      await enforceLlmBudget(getLlmUsageContext());
+      return provider.generateText(prompt, options);
+    },
+    async generateJSON<T = unknown>(prompt: string, options?: LlmGenerateOptions) {
+      await enforceLlmBudget(getLlmUsageContext());
+      return provider.generateJSON<T>(prompt, options);
+    },
+  };
+}
+
+const providers = new Map<string, LlmProvider>(
+  [geminiProvider, openAiCompatibleProvider].map((provider) => [provider.name, withBudgetCheck(provider)])
+);
+
+/**
+ * 注册（或替换）提供方，例如测试中的 mock
+ */
+export function registerLlmProvider(provider: LlmProvider): void {
+  providers.set(provider.name, withBudgetCheck(provider));
+}
+
+export function listLlmProviders(): string[] {
+  return Array.from(providers.keys());
+}
+
+export function isKnownLlmProvider(name: string): boolean {
+  return providers.has(name);
+}
+
+/**
+ * 按名称取提供方：任务参数 llmProvider > LLM_PROVIDER 环境变量 > gemini
+ */
+export function getLlmProvider(name?: string): LlmProvider {
+  const resolved = name?.trim() || process.env.LLM_PROVIDER?.trim() || DEFAULT_LLM_PROVIDER;
+  const provider = providers.get(resolved);
+  if (!provider) {
+    throw new Error(`Unknown LLM provider "${resolved}" (available: ${listLlmProviders().join(", ")})`);
+  }
+  return provider;
+}
+
@@ -0,0 +1,61 @@
+/**
+ * 发布前的近似重复正文检查
+ * 用历史记录中已完成页面的 MinHash 指纹比对新生成的正文，相似度超过阈值时由生成流程带「差异化」提示重生成
+ */
+
+import { getAllHistoryRecords } from "../state/historyStore.js";
+import type { GenerationRequestPayload } from "../types.js";
+import {
+  buildContentFingerprint,
+  findNearDuplicate,
+  type FingerprintedPage,
+  type NearDuplicateMatch,
+} from "../utils/contentFingerprint.js";
+
+export const DEFAULT_NEAR_DUPLICATE_THRESHOLD = 0.4;
+
+/**
+ * 相似度阈值（0–1）：请求参数优先，其次 NEAR_DUPLICATE_THRESHOLD；0 关闭检查
+ */
+export function resolveNearDuplicateThreshold(payload: GenerationRequestPayload): number {
+  const fromEnv = Number(process.env.NEAR_DUPLICATE_THRESHOLD);
+  const envThreshold =
+    process.env.NEAR_DUPLICATE_THRESHOLD?.trim() && Number.isFinite(fromEnv) ? fromEnv : DEFAULT_NEAR_DUPLICATE_THRESHOLD;
+  return Math.max(0, Math.min(1, payload.nearDuplicateThreshold ?? envThreshold));
+}
+
+function samePage(a?: string, b?: string): boolean {
+  return !!a && !!b && a.replace(/\/+$/, "").toLowerCase() === b.replace(/\/+$/, "").toLowerCase();
+}
+
+/**
+ * 计算正文指纹并查找最相似的已发布页面（排除当前任务与 refresh 的同一页面）
+ * @returns match 为 null 表示未超过阈值或检查已关闭
+ */
+export async function checkNearDuplicate(
+  taskId: string,
+  articleHtml: string,
+  options: { threshold: number; pageUrl?: string }
+): Promise<{ fingerprint: number[]; match: NearDuplicateMatch | null }> {
+  const fingerprint = buildContentFingerprint(articleHtml);
+  if (!(options.threshold > 0) || fingerprint.length === 0) {
+    return { fingerprint, match: null };
+  }
+  const history = await getAllHistoryRecords();
+  const corpus: FingerprintedPage[] = history
+    .filter(
+      (record) =>
+        record.status === "completed" &&
+        record.id !== taskId &&
+        record.contentFingerprint?.length &&
+        !samePage(record.pageUrl, options.pageUrl)
+    )
+    .map((record) => ({
+      id: record.id,
+      keyword: record.keyword || "",
+      pageTitle: record.pageTitle,
+      pageUrl: record.pageUrl,
+      fingerprint: record.contentFingerprint!,
+    }));
+  return { fingerprint, match: findNearDuplicate(fingerprint, corpus, options.threshold) };
+}
@@ -0,0 +1,88 @@
+/**
+ * OpenAI 兼容提供方：POST {OPENAI_COMPAT_BASE_URL}/chat/completions
+ * 适用于 OpenAI 以及 vLLM / Ollama / LM Studio 等本地兼容服务
+ */
+
+import axios from "axios";
+import {
+  generateJsonViaText,
+  recordLlmFailure,
+  recordLlmUsage,
+  type LlmGenerateOptions,
+  type LlmProvider,
+  type LlmTextResult,
+} from "./llmProvider.js";
+
+const DEFAULT_BASE_URL = "http://localhost:11434/v1";
+const REQUEST_TIMEOUT_MS = 180000;
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+}
+
+function resolveModels(): LlmProvider["models"] {
+  const quality = process.env.OPENAI_COMPAT_MODEL?.trim() || "gpt-4o";
+  return { quality, fast: process.env.OPENAI_COMPAT_FAST_MODEL?.trim() || quality };
+}
+
+async function generateWithChatCompletions(prompt: string, options: LlmGenerateOptions = {}): Promise<LlmTextResult> {
+  const baseUrl = (process.env.OPENAI_COMPAT_BASE_URL?.trim() || DEFAULT_BASE_URL).replace(/\/+$/, "");
+  const apiKey = process.env.OPENAI_COMPAT_API_KEY?.trim();
+  const modelName = options.model || resolveModels()[options.tier ?? "quality"];
+
+  const startedAt = Date.now();
+  try {
+    const { data } = await axios.post<ChatCompletionResponse>(
+      `${baseUrl}/chat/completions`,
+      {
+        model: modelName,
+        messages: [{ role: "user", content: prompt }],
+        temperature: options.temperature,
+        top_p: options.topP,
+        max_tokens: options.maxOutputTokens,
+      },
+      {
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+        timeout: REQUEST_TIMEOUT_MS,
+        signal: options.signal,
+      }
+    );
+
+    const usage = {
+      promptTokens: data.usage?.prompt_tokens ?? 0,
+      completionTokens: data.usage?.completion_tokens ?? 0,
+      totalTokens: data.usage?.total_tokens ?? (data.usage?.prompt_tokens ?? 0) + (data.usage?.completion_tokens ?? 0),
+    };
+    const model = data.model || modelName;
+    recordLlmUsage({ provider: "openai-compatible", model, latencyMs: Date.now() - startedAt, ...usage }, options.onUsage);
+    return { text: data.choices?.[0]?.message?.content ?? "", model, usage };
+  } catch (error) {
+    const failure = { provider: "openai-compatible", model: modelName, latencyMs: Date.now() - startedAt };
+    if (axios.isAxiosError(error) && error.response) {
+      // 保留状态码，googleAi 的 429 / 404 模型轮换逻辑依赖 statusCode
+      const detail = JSON.stringify(error.response.data ?? "").slice(0, 300);
+      const httpError = Object.assign(new Error(`[HTTP ${error.response.status}] OpenAI-compatible request failed: ${detail}`), {
+        statusCode: error.response.status,
+        status: error.response.status,
+      });
+      recordLlmFailure(failure, httpError);
+      throw httpError;
+    }
+    recordLlmFailure(failure, error, options.signal?.aborted);
+    throw error;
+  }
+}
+
+export const openAiCompatibleProvider: LlmProvider = {
+  name: "openai-compatible",
+  get models() {
+    return resolveModels();
+  },
+  usesApiKeyPool: false,
+  generateText: generateWithChatCompletions,
+  generateJSON(prompt, options) {
+    return generateJsonViaText(openAiCompatibleProvider, prompt, options);
+  },
+};
@@ -0,0 +1,96 @@
+/**
+ * 已发布页面的效果数据：Search Console 周数据（gsc-metrics-history.json）+「有帮助」投票（feedback.json）
+ * 实验结果与模板 bandit 共用
+ */
+
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import type { GscPageMetric } from "./searchConsoleMonitor.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const dataDir = path.join(__dirname, "../../data");
+
+interface FeedbackVote {
+  vote: "yes" | "no";
+  pageSlug?: string;
+  createdAt: string;
+}
+
+export interface PagePerformance {
+  clicks: number;
+  impressions: number;
+  /** Σ position × impressions，用于按展示量加权的平均排名 */
+  weightedPosition: number;
+  helpfulYes: number;
+  helpfulVotes: number;
+}
+
+function readJson<T>(fileName: string, fallback: T): T {
+  const full = path.join(dataDir, fileName);
+  if (!existsSync(full)) return fallback;
+  try {
+    return JSON.parse(readFileSync(full, "utf8")) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+export function normalizePageUrl(url: string): string {
+  return url.trim().replace(/[?#].*$/, "").replace(/\/+$/, "").toLowerCase();
+}
+
+function pathSlug(url: string): string {
+  try {
+    return new URL(url).pathname.replace(/^\/+|\/+$/g, "").toLowerCase();
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * 汇总指定页面的 GSC 点击/展示与投票
+ * @param window 可选时间窗口（毫秒时间戳）：投票按提交时间、GSC 按整周落在窗口内计入
+ * @returns key 为 normalizePageUrl(pageUrl)；没有任何数据的页面也会返回全 0 记录
+ */
+export function loadPagePerformance(
+  pageUrls: string[],
+  window?: { start: number; end: number }
+): Map<string, PagePerformance> {
+  const inWindow = (time: number) => !window || (time >= window.start && time <= window.end);
+  const performance = new Map<string, PagePerformance>();
+  const urlBySlug = new Map<string, string>();
+  for (const url of pageUrls) {
+    const key = normalizePageUrl(url);
+    performance.set(key, { clicks: 0, impressions: 0, weightedPosition: 0, helpfulYes: 0, helpfulVotes: 0 });
+    const slug = pathSlug(url);
+    if (slug) urlBySlug.set(slug, key);
+  }
+
+  for (const entry of readJson<FeedbackVote[]>("feedback.json", [])) {
+    if (!entry?.pageSlug || !inWindow(Date.parse(entry.createdAt))) continue;
+    // 页面上报的 slug 可能不带语言前缀 / 指南目录，按路径结尾匹配
+    const slug = entry.pageSlug.replace(/^\/+|\/+$/g, "").toLowerCase();
+    const key =
+      urlBySlug.get(slug) ?? [...urlBySlug.entries()].find(([pageSlug]) => pageSlug.endsWith(`/${slug}`))?.[1];
+    const totals = key ? performance.get(key) : undefined;
+    if (!totals) continue;
+    totals.helpfulVotes += 1;
+    if (entry.vote === "yes") totals.helpfulYes += 1;
+  }
+
+  const metricsHistory = readJson<Record<string, GscPageMetric[]>>("gsc-metrics-history.json", {});
+  for (const [pageUrl, weeks] of Object.entries(metricsHistory)) {
+    const totals = performance.get(normalizePageUrl(pageUrl));
+    if (!totals || !Array.isArray(weeks)) continue;
+    for (const week of weeks) {
+      // week = "YYYY-MM-DD_YYYY-MM-DD"：整周都在窗口内才计入
+      const [start, end] = (week.week || "").split("_").map((d) => Date.parse(d));
+      if (window && !(inWindow(start) && end <= window.end)) continue;
+      totals.clicks += week.clicks || 0;
+      totals.impressions += week.impressions || 0;
+      totals.weightedPosition += (week.position || 0) * (week.impressions || 0);
+    }
+  }
+  return performance;
+}
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { getCurrentContentVersion, getPageRevision, getPageRevisionHistory, savePageRevision } from "../state/revisionStore.js";
+import { rollbackToRevision, validateRollbackConfig } from "./pageRevisions.js";
+import { publishStaticPage } from "./staticPublisher.js";
+
+// Revisions are stored under a temporary DATA_DIR instead of backend/data/revisions
+const dataDir = await mkdtemp(path.join(tmpdir(), "page-revisions-data-"));
+process.env.DATA_DIR = dataDir;
+const outputDir = await mkdtemp(path.join(tmpdir(), "page-revisions-test-"));
+const slug = "luxury-life-guides/rollback-test";
+const request = { target: "static" as const, slug, staticPublish: { outputDir, baseUrl: "https://vertu.com" } };
+const readPage = () => readFile(path.join(outputDir, slug, "index.html"), "utf-8");
+
+try {
+  {
+    assert.equal(validateRollbackConfig(request), null);
+    assert.match(validateRollbackConfig({ target: "wordpress", slug }) as string, /WordPress credentials/);
+    assert.equal(await getCurrentContentVersion("static", slug), 1);
+  }
+
+  {
+    // v1 published, then refreshed to v2: the overwritten v1 becomes revision #1
+    await publishStaticPage({ slug, htmlContent: "<p>v1</p>", ...request.staticPublish });
+    const refreshed = await publishStaticPage({ slug, htmlContent: "<p>v2</p>", ...request.staticPublish });
+    assert.equal(refreshed.previousHtml, "<p>v1</p>");
+    await savePageRevision("static", slug, { contentVersion: 1, html: refreshed.previousHtml!, reason: "refresh" }, 2);
+
+    // Rolling back writes v1 again and keeps the replaced v2 as revision #2
+    const result = await rollbackToRevision(request, (await getPageRevision("static", slug, 1))!);
+    assert.equal(await readPage(), "<p>v1</p>");
+    assert.deepEqual(result, { pageUrl: `https://vertu.com/${slug}/`, contentVersion: 3, replacedRevision: 2 });
+    const history = await getPageRevisionHistory("static", slug);
+    assert.equal(history?.currentVersion, 3);
+    assert.deepEqual(
+      history?.revisions.map(({ revision, contentVersion, html, reason }) => ({ revision, contentVersion, html, reason })),
+      [
+        { revision: 1, contentVersion: 1, html: "<p>v1</p>", reason: "refresh" },
+        { revision: 2, contentVersion: 2, html: "<p>v2</p>", reason: "rollback" },
+      ]
+    );
+  }
+
+  {
+    // A rollback can itself be undone
+    const undo = await rollbackToRevision(request, (await getPageRevision("static", slug, 2))!);
+    assert.equal(await readPage(), "<p>v2</p>");
+    assert.equal(undo.contentVersion, 4);
+    assert.equal(undo.replacedRevision, 3);
+    assert.equal((await getPageRevision("static", slug, 3))?.html, "<p>v1</p>");
+  }
+
+  {
+    // Slugs that differ only by "." or a non-ASCII character keep separate histories
+    await savePageRevision("static", "guides/v1.2", { contentVersion: 1, html: "<p>dotted</p>", reason: "refresh" }, 2);
+    await savePageRevision("static", "guides/v12", { contentVersion: 1, html: "<p>plain</p>", reason: "refresh" }, 2);
+    await savePageRevision("static", "guides/café", { contentVersion: 1, html: "<p>accented</p>", reason: "refresh" }, 2);
+    for (const [pageSlug, html] of [
+      ["guides/v1.2", "<p>dotted</p>"],
+      ["guides/v12", "<p>plain</p>"],
+      ["guides/café", "<p>accented</p>"],
+    ]) {
+      const history = await getPageRevisionHistory("static", pageSlug);
+      assert.equal(history?.slug, pageSlug);
+      assert.deepEqual(history?.revisions.map((revision) => revision.html), [html]);
+    }
+    assert.equal(await getPageRevisionHistory("static", "guides/caf"), null);
+  }
+} finally {
+  await rm(outputDir, { recursive: true, force: true });
+  await rm(dataDir, { recursive: true, force: true });
+}
+
+console.log("pageRevisions.test.ts: all assertions passed");
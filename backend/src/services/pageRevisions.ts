@@ -0,0 +1,126 @@
+/**
+ * 页面修订版本回滚
+ * 将保存的旧 HTML 原地写回发布目标；回滚前的线上版本同样保存为修订，回滚本身也可撤销
+ */
+
+import { getCurrentContentVersion, savePageRevision } from "../state/revisionStore.js";
+import type { GenerationRequestPayload, PagePublishTarget, PageRevision } from "../types.js";
+import { requestSanityRevalidate, updateSanityDocumentHtml } from "./sanityPublisher.js";
+import { publishStaticPage, updateStaticSiteSeoFiles } from "./staticPublisher.js";
+import { refreshPage } from "./wordpress.js";
+import { sanitizeSensitive } from "../utils/sanitize.js";
+
+export interface RollbackRequest {
+  target: PagePublishTarget;
+  slug: string;
+  /** 站点配置 id：由路由解析后补全下面的凭据 */
+  siteProfileId?: string;
+  wordpress?: GenerationRequestPayload["wordpress"];
+  useElementor?: boolean;
+  sanity?: GenerationRequestPayload["sanity"];
+  staticPublish?: GenerationRequestPayload["staticPublish"];
+}
+
+export interface RollbackResult {
+  pageUrl?: string;
+  contentVersion: number;
+  /** 回滚前的线上版本保存成的修订号 */
+  replacedRevision?: number;
+}
+
+/**
+ * 校验回滚目标的凭据（与发布时相同，sanity / static 可回退到环境变量）
+ * @returns 错误信息；校验通过返回 null
+ */
+export function validateRollbackConfig(request: RollbackRequest): string | null {
+  if (request.target === "wordpress") {
+    const wp = request.wordpress;
+    if (!wp?.url || !wp.username || !wp.appPassword) {
+      return "WordPress credentials are required to roll back a WordPress page";
+    }
+  } else if (request.target === "static") {
+    if (!(request.staticPublish?.outputDir || process.env.STATIC_PUBLISH_DIR)) {
+      return "staticPublish.outputDir (or STATIC_PUBLISH_DIR env) is required to roll back a static page";
+    }
+  } else if (request.target === "sanity") {
+    const projectId = request.sanity?.projectId || process.env.SANITY_PROJECT_ID;
+    const dataset = request.sanity?.dataset || process.env.SANITY_DATASET;
+    const token = request.sanity?.token || process.env.SANITY_API_TOKEN;
+    if (!projectId || !dataset || !token) {
+      return "Sanity projectId/dataset/token (or SANITY_* env) are required to roll back a Sanity document";
+    }
+  }
+  return null;
+}
+
+/**
+ * 将修订版本写回发布目标
+ */
+export async function rollbackToRevision(request: RollbackRequest, revision: PageRevision): Promise<RollbackResult> {
+  const { target, slug } = request;
+  const previousVersion = await getCurrentContentVersion(target, slug);
+
+  let pageUrl: string | undefined;
+  let contentVersion = previousVersion + 1;
+  let replaced: { html: string; title?: string } | null = null;
+
+  if (target === "static") {
+    const outputDir = request.staticPublish?.outputDir || process.env.STATIC_PUBLISH_DIR || "";
+    const baseUrl = request.staticPublish?.baseUrl || process.env.STATIC_BASE_URL || "";
+    const published = await publishStaticPage({ slug, htmlContent: revision.html, outputDir, baseUrl });
+    await updateStaticSiteSeoFiles(outputDir, baseUrl, published.pageUrl).catch((err) => {
+      console.warn("[Revisions] SEO 文件更新失败（页面已写入）:", sanitizeSensitive(err));
+    });
+    pageUrl = published.pageUrl;
+    replaced = published.previousHtml === null ? null : { html: published.previousHtml };
+  } else if (target === "sanity") {
+    const published = await updateSanityDocumentHtml({
+      slug,
+      title: revision.title,
+      bodyHtml: revision.html,
+      projectId: request.sanity?.projectId || process.env.SANITY_PROJECT_ID || "",
+      dataset: request.sanity?.dataset || process.env.SANITY_DATASET || "",
+      token: request.sanity?.token || process.env.SANITY_API_TOKEN || "",
+      apiVersion: request.sanity?.apiVersion || process.env.SANITY_API_VERSION || "2024-01-01",
+      docType: request.sanity?.docType || process.env.SANITY_DOC_TYPE || "luxuryLifeGuide",
+      baseUrl: request.sanity?.baseUrl || process.env.SANITY_BASE_URL || "",
+    });
+    await requestSanityRevalidate(slug, request.sanity?.baseUrl).catch((err) => {
+      console.warn("[Revisions] ISR revalidate failed:", sanitizeSensitive(err));
+    });
+    pageUrl = published.pageUrl;
+    contentVersion = published.contentVersion;
+    replaced = { html: published.previousHtml ?? "", title: published.previousTitle };
+  } else {
+    const refreshed = await refreshPage({
+      credentials: request.wordpress!,
+      title: revision.title ?? "",
+      slug,
+      htmlContent: revision.html,
+      useElementor: request.useElementor ?? true,
+      contentVersion,
+    });
+    if (!refreshed) {
+      throw new Error(`WordPress page for slug "${slug}" no longer exists`);
+    }
+    pageUrl = refreshed.page?.link;
+    replaced = { html: refreshed.previousHtml, title: refreshed.previousTitle };
+  }
+
+  if (!replaced) {
+    return { pageUrl, contentVersion };
+  }
+  const saved = await savePageRevision(
+    target,
+    slug,
+    {
+      contentVersion: contentVersion - 1,
+      title: replaced.title,
+      html: replaced.html,
+      reason: "rollback",
+    },
+    contentVersion
+  );
+  console.log(`[Revisions] ${target}:${slug} 已回滚到修订 #${revision.revision}，contentVersion ${contentVersion}`);
+  return { pageUrl, contentVersion, replacedRevision: saved.revision };
+}
@@ -22,6 +22,7 @@ import {
   fetchRelatedProducts as fetchShopifyProducts,
   searchProductsByName as searchShopifyProductsByName,
 } from "./shopify.js";
+import { resolveSiteProfile } from "./siteProfiles.js";
 
 export type ProductSource = "wordpress" | "shopify";
 
@@ -63,25 +64,31 @@ export function resolveProductSource(payload: GenerationRequestPayload): Product
   return "wordpress";
 }
 
+/**
+ * 按产品源拉取相关产品（payload 带 siteProfileId 时先从站点配置补全凭据）
+ */
 export async function fetchProductsBySource(
   payload: GenerationRequestPayload,
   keyword: string,
-  targetCategory?: string
+  targetCategory?: string,
+  signal?: AbortSignal
 ): Promise<ProductFetchResult> {
+  payload = await resolveSiteProfile(payload);
   const source = resolveProductSource(payload);
   if (source === "shopify") {
     if (!payload.shopify) {
       throw new Error("Shopify product source selected but shopify credentials are missing");
     }
-    return fetchShopifyProducts(payload.shopify, keyword, targetCategory);
+    return fetchShopifyProducts(payload.shopify, keyword, targetCategory, signal);
   }
-  return fetchWordpressProducts(payload.wordpress, keyword, targetCategory);
+  return fetchWordpressProducts(payload.wordpress, keyword, targetCategory, signal);
 }
 
 export async function searchProductsBySource(
   payload: GenerationRequestPayload,
   productNames: string[]
 ): Promise<ProductSummary[]> {
+  payload = await resolveSiteProfile(payload);
   const source = resolveProductSource(payload);
   if (source === "shopify") {
     if (!payload.shopify) return [];
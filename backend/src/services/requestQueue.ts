@@ -3,6 +3,9 @@
  * 使用队列方式处理请求，避免并发导致频率过高
  */
 
+import { AsyncResource } from "async_hooks";
+import { sanitizeSensitive } from "../utils/sanitize.js";
+
 interface QueuedRequest<T> {
   id: string;
   key: string;
@@ -40,7 +43,8 @@ class RequestQueue {
       const request: QueuedRequest<T> = {
         id: `${key}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
         key,
-        operation,
+        // 绑定入队时的异步上下文：队列由先到的请求驱动，否则调用台账会把请求记到别的任务名下
+        operation: AsyncResource.bind(operation),
         resolve,
         reject,
         priority,
@@ -55,7 +59,7 @@ class RequestQueue {
 
       // 尝试处理队列
       this.processQueue(key).catch((error) => {
-        console.error(`[RequestQueue] 处理队列时出错 (${key.substring(0, 20)}...):`, error);
+        console.error(`[RequestQueue] 处理队列时出错 (${key.substring(0, 20)}...):`, sanitizeSensitive(error));
       });
     });
   }
@@ -133,7 +137,7 @@ class RequestQueue {
         // 延迟一下再处理下一个批次（避免阻塞）
         setTimeout(() => {
           this.processQueue(key).catch((error) => {
-            console.error(`[RequestQueue] 继续处理队列时出错 (${key.substring(0, 20)}...):`, error);
+            console.error(`[RequestQueue] 继续处理队列时出错 (${key.substring(0, 20)}...):`, sanitizeSensitive(error));
           });
         }, 100);
       }
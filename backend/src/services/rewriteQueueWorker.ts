@@ -0,0 +1,374 @@
+/**
+ * 改写队列执行器
+ * 消费 data/rewrite-queue.json：从历史记录恢复原关键词 / 标题类型 / 模板，
+ * 按入队原因附加改写提示词重新生成，并以 refresh 模式原地更新线上页面
+ */
+
+import { processTask, validatePublishConfig } from "../routes/generation.js";
+import { getAllHistoryRecords } from "../state/historyStore.js";
+import {
+  getRewriteReason,
+  isOpenRewriteEntry,
+  readRewriteQueue,
+  updateRewriteQueueEntry,
+} from "../state/rewriteQueueStore.js";
+import { createTask, getTask, getTaskPayload, isFinishedStatus } from "../state/taskStore.js";
+import type {
+  GenerationRequestPayload,
+  RewriteQueueEntry,
+  RewriteQueueStatus,
+  RewriteReason,
+  TaskProgress,
+} from "../types.js";
+import { evaluateKeywordGate } from "../utils/keywordIntentGate.js";
+import { detectPrimaryCategory } from "../utils/productCategory.js";
+import { TEMPLATE_7_FALLBACK, loadTemplateContent } from "../utils/templatePolicy.js";
+import { sanitizeSensitive } from "../utils/sanitize.js";
+import { backfillInternalLinks } from "./linkGraph.js";
+
+const DEFAULT_REWRITE_BATCH_SIZE = 5;
+
+/** 各入队原因对应的改写提示词（作为 userPrompt 交给内容生成） */
+export const REWRITE_REASON_HINTS: Record<RewriteReason, string> = {
+  ctr_drop:
+    "This page is losing click-through rate in Google Search. Rewrite the title and meta description to match the searcher's intent more sharply, answer the query directly in the opening paragraph, and make the page's value obvious above the fold.",
+  ranking_loss:
+    "This page has lost Google rankings. Cover the query more completely than competing pages: add the missing subtopics, concrete specifics and an up-to-date FAQ, and keep the focus keyword in the main headings.",
+  stale_content:
+    "This guide has not been updated for more than 90 days. Refresh models, prices, specifications and dates to the current year and remove references that are no longer accurate.",
+  tier_d:
+    "This keyword has weak VERTU brand fit. Reframe the article around the luxury mobile lifestyle angles that matter to VERTU buyers and connect recommendations naturally to VERTU products.",
+  alignment:
+    "The previous version drifted between the keyword, the products and the article. Keep every section tightly focused on the keyword and only reference products that genuinely match it.",
+  broken_links:
+    "This page links to guides that no longer exist or to products that are gone or out of stock. Replace those references with currently available VERTU products and remove links to missing pages.",
+  orphan_page:
+    "No other guide links to this page. Sharpen its focus on the keyword and clearly relate it to the neighbouring VERTU topics so related guides can link to it naturally.",
+};
+
+export interface RewritePlan {
+  entry: RewriteQueueEntry;
+  reason: RewriteReason;
+  keyword: string;
+  titleType?: string;
+  templateType: string;
+  pageTitle?: string;
+  /** 要原地更新的页面 slug（取自页面 URL 路径） */
+  refreshSlug: string;
+  /** 原页面的生成记录 ID */
+  sourceTaskId?: string;
+}
+
+export interface RewriteQueueRunOptions {
+  /** 本轮最多处理的条数，默认 REWRITE_QUEUE_BATCH_SIZE 环境变量或 5 */
+  limit?: number;
+  /** 只输出改写计划，不生成、不修改队列 */
+  dryRun?: boolean;
+}
+
+export interface RewriteQueueRunResult {
+  plans: RewritePlan[];
+  done: number;
+  failed: number;
+  skipped: number;
+  /** 停在人工审核、尚未重新发布的条数 */
+  awaitingReview: number;
+  /** 本轮结束后仍待处理的条数 */
+  remaining: number;
+}
+
+/**
+ * 页面 URL → 不带首尾斜杠的路径（去掉 luxury-life-guides/ 前缀），用于与历史记录比对
+ */
+function normalizePagePath(pageUrl?: string): string {
+  if (!pageUrl?.trim()) return "";
+  let pathname = pageUrl.trim();
+  try {
+    pathname = new URL(pathname, "http://localhost").pathname;
+  } catch {
+    // 非法 URL 按原样当作路径处理
+  }
+  return pathname.replace(/^\/+|\/+$/g, "").replace(/^luxury-life-guides\//, "").toLowerCase();
+}
+
+/**
+ * 找到队列记录对应的原始生成记录：历史 ID > 页面 URL > 关键词（取最近完成的一条）
+ */
+function findSourceRecord(entry: RewriteQueueEntry, history: TaskProgress[]): TaskProgress | undefined {
+  const completed = history.filter((record) => record.status === "completed" && record.keyword);
+  if (entry.id) {
+    const byId = completed.find((record) => record.id === entry.id);
+    if (byId) return byId;
+  }
+  const pagePath = normalizePagePath(entry.pageUrl);
+  if (pagePath) {
+    const byUrl = completed.find((record) => normalizePagePath(record.pageUrl) === pagePath);
+    if (byUrl) return byUrl;
+  }
+  const keyword = entry.keyword?.trim().toLowerCase();
+  if (keyword) {
+    return completed
+      .filter((record) => record.keyword!.trim().toLowerCase() === keyword)
+      .sort((a, b) => b.updatedAt - a.updatedAt)[0];
+  }
+  return undefined;
+}
+
+/**
+ * 生成改写计划
+ * @returns 改写计划；无法改写时返回原因字符串
+ */
+export function planRewrite(entry: RewriteQueueEntry, history: TaskProgress[]): RewritePlan | string {
+  const reason = getRewriteReason(entry);
+  if (!reason) {
+    return `Unknown rewrite reason "${String(entry.reason ?? entry.queueReason ?? "")}"`;
+  }
+  const source = findSourceRecord(entry, history);
+  const keyword = source?.keyword?.trim() || entry.keyword?.trim();
+  if (!keyword) {
+    return `No keyword found in history for ${entry.pageUrl || "entry without pageUrl"}`;
+  }
+  const refreshSlug = normalizePagePath(source?.pageUrl || entry.pageUrl);
+  if (!refreshSlug) {
+    return `No page URL to refresh for "${keyword}"`;
+  }
+
+  const requestedTemplate = source?.templateType || entry.templateType;
+  const templateType =
+    requestedTemplate && loadTemplateContent(requestedTemplate) !== null ? requestedTemplate : TEMPLATE_7_FALLBACK;
+
+  return {
+    entry,
+    reason,
+    keyword,
+    titleType: source?.titleType || entry.titleType,
+    templateType,
+    // CTR 下滑需要新标题；其他原因沿用原标题
+    pageTitle: reason === "ctr_drop" ? undefined : source?.pageTitle,
+    refreshSlug,
+    sourceTaskId: source?.id,
+  };
+}
+
+/**
+ * 改写任务的公共配置：发布目标取 REWRITE_PUBLISH_TARGET（默认 sanity），凭据取环境变量
+ */
+export function buildRewriteBasePayload(): GenerationRequestPayload {
+  const publishTarget = (process.env.REWRITE_PUBLISH_TARGET || "sanity") as GenerationRequestPayload["publishTarget"];
+  const payload: GenerationRequestPayload = {
+    keyword: "",
+    publishTarget,
+    publishMode: "refresh",
+    templateContent: "",
+  };
+  if (publishTarget === "wordpress") {
+    payload.wordpress = {
+      url: process.env.WORDPRESS_URL || "",
+      username: process.env.WORDPRESS_USERNAME || "",
+      appPassword: process.env.WORDPRESS_APP_PASSWORD || "",
+    };
+    payload.useElementor = process.env.WORDPRESS_USE_ELEMENTOR !== "false";
+  }
+  return payload;
+}
+
+function buildPlanPayload(base: GenerationRequestPayload, plan: RewritePlan): GenerationRequestPayload {
+  const payload = structuredClone(base);
+  payload.keyword = plan.keyword;
+  payload.titleType = plan.titleType;
+  payload.pageTitle = plan.pageTitle;
+  payload.templateType = plan.templateType;
+  payload.templateContent = loadTemplateContent(plan.templateType) ?? "";
+  // 沿用原页面的模板，不再被 A/B / 意图策略换壳
+  payload.respectTemplateChoice = true;
+  payload.refreshSlug = plan.refreshSlug;
+  payload.userPrompt = REWRITE_REASON_HINTS[plan.reason];
+  // 链接审计记录了具体的失效链接，一并交给模型避免再次引用
+  const brokenLinks = Array.isArray(plan.entry.brokenLinks) ? (plan.entry.brokenLinks as string[]) : [];
+  if (plan.reason === "broken_links" && brokenLinks.length > 0) {
+    payload.userPrompt += `\nBroken references found on the current page:\n${brokenLinks.map((link) => `- ${link}`).join("\n")}`;
+  }
+  // 页面已上线，Tier D 改写的目的正是提升品牌契合度
+  payload.forceGenerate = plan.reason === "tier_d";
+  return payload;
+}
+
+/**
+ * 执行一条改写计划，并把结果写回队列记录
+ */
+async function runPlan(
+  base: GenerationRequestPayload,
+  plan: RewritePlan
+): Promise<"done" | "failed" | "skipped" | "awaitingReview"> {
+  const { entry } = plan;
+  const payload = buildPlanPayload(base, plan);
+
+  const gate = evaluateKeywordGate(payload.keyword, {
+    pageTitle: payload.pageTitle,
+    titleType: payload.titleType,
+    forceGenerate: payload.forceGenerate,
+  });
+  if (!gate.allowed) {
+    updateRewriteQueueEntry(entry, {
+      status: "skipped",
+      finishedAt: new Date().toISOString(),
+      outcome: { error: `Keyword blocked (Tier ${gate.tier}): ${gate.reasons.join("; ")}` },
+    });
+    return "skipped";
+  }
+
+  const task = createTask("Task queued");
+  updateRewriteQueueEntry(entry, {
+    status: "processing",
+    attempts: (entry.attempts ?? 0) + 1,
+    startedAt: new Date().toISOString(),
+    outcome: { taskId: task.id },
+  });
+  console.log(`[RewriteQueue] ${plan.reason}: "${plan.keyword}" → ${plan.refreshSlug}（任务 ${task.id}）`);
+
+  await processTask(task.id, payload);
+  return recordEntryOutcome(entry, task.id, payload);
+}
+
+/**
+ * 根据任务结果结算队列记录：完成 → done；停在审核 → awaiting_review（页面尚未重新发布，审核决定后再结算）；其他 → failed
+ */
+async function recordEntryOutcome(
+  entry: RewriteQueueEntry,
+  taskId: string,
+  payload?: GenerationRequestPayload
+): Promise<"done" | "failed" | "awaitingReview"> {
+  const finished = getTask(taskId);
+  const status: RewriteQueueStatus =
+    finished?.status === "completed" ? "done" : finished?.status === "awaiting_review" ? "awaiting_review" : "failed";
+  updateRewriteQueueEntry(entry, {
+    status,
+    finishedAt: status === "awaiting_review" ? undefined : new Date().toISOString(),
+    outcome: {
+      taskId,
+      taskStatus: finished?.status,
+      pageUrl: finished?.pageUrl,
+      message: finished?.message,
+      error:
+        status === "failed"
+          ? finished?.error || finished?.message || (finished ? "Task did not complete" : "Task no longer exists")
+          : undefined,
+    },
+  });
+  const orphan = getRewriteReason(entry) === "orphan_page" || entry.orphan === true;
+  if (status === "done" && orphan && finished?.pageUrl && payload) {
+    // 孤岛页改写后在相关旧页面中回填指向它的内链
+    try {
+      await backfillInternalLinks(payload, {
+        url: finished.pageUrl,
+        title: finished.pageTitle || finished.keyword || payload.keyword,
+        keyword: payload.keyword,
+        category: detectPrimaryCategory(payload.keyword, finished.pageTitle || ""),
+      });
+    } catch (error) {
+      console.warn(`[RewriteQueue] 孤岛页回填内链失败 ${finished.pageUrl}:`, sanitizeSensitive(error));
+    }
+  }
+  return status === "awaiting_review" ? "awaitingReview" : status;
+}
+
+/**
+ * 审核决定（批准发布 / 驳回 / 取消）后结算对应的 awaiting_review 队列记录；任务仍在进行或等待审核时不处理
+ */
+export async function syncRewriteEntryWithTask(taskId: string): Promise<void> {
+  const entry = readRewriteQueue().find(
+    (candidate) => candidate.status === "awaiting_review" && candidate.outcome?.taskId === taskId
+  );
+  if (!entry) return;
+  const task = getTask(taskId);
+  if (task && !isFinishedStatus(task.status)) return;
+  await recordEntryOutcome(entry, taskId, getTaskPayload(taskId));
+}
+
+/**
+ * 处理一轮改写队列（按队列顺序串行执行，避免与单条 / 批量生成争抢 Gemini 配额）
+ */
+export async function runRewriteQueue(options: RewriteQueueRunOptions = {}): Promise<RewriteQueueRunResult> {
+  const envLimit = Number(process.env.REWRITE_QUEUE_BATCH_SIZE);
+  const limit = options.limit ?? (Number.isFinite(envLimit) && envLimit > 0 ? envLimit : DEFAULT_REWRITE_BATCH_SIZE);
+  const result: RewriteQueueRunResult = { plans: [], done: 0, failed: 0, skipped: 0, awaitingReview: 0, remaining: 0 };
+
+  const base = buildRewriteBasePayload();
+  const configError = validatePublishConfig({ ...base, templateContent: loadTemplateContent(TEMPLATE_7_FALLBACK) ?? "" });
+  if (configError && !options.dryRun) {
+    throw new Error(`Rewrite queue publish config invalid: ${configError}`);
+  }
+
+  if (!options.dryRun) {
+    // 补结算审核期间被取消、或服务重启时错过结算的记录
+    for (const entry of readRewriteQueue().filter((candidate) => candidate.status === "awaiting_review")) {
+      if (entry.outcome?.taskId) await syncRewriteEntryWithTask(entry.outcome.taskId);
+    }
+  }
+
+  const history = await getAllHistoryRecords();
+  // 等待审核的记录已有任务在跑，不再重新生成
+  const openEntries = readRewriteQueue().filter(
+    (entry) => isOpenRewriteEntry(entry) && entry.status !== "awaiting_review"
+  );
+  for (const entry of openEntries.slice(0, limit)) {
+    const plan = planRewrite(entry, history);
+    if (typeof plan === "string") {
+      if (!options.dryRun) {
+        updateRewriteQueueEntry(entry, {
+          status: "skipped",
+          finishedAt: new Date().toISOString(),
+          outcome: { error: plan },
+        });
+      }
+      console.warn(`[RewriteQueue] 跳过：${plan}`);
+      result.skipped++;
+      continue;
+    }
+    result.plans.push(plan);
+    if (options.dryRun) continue;
+
+    try {
+      result[await runPlan(base, plan)]++;
+    } catch (error) {
+      console.error(`[RewriteQueue] "${plan.keyword}" 改写异常:`, sanitizeSensitive(error));
+      updateRewriteQueueEntry(entry, {
+        status: "failed",
+        finishedAt: new Date().toISOString(),
+        outcome: { ...entry.outcome, error: error instanceof Error ? error.message : String(error) },
+      });
+      result.failed++;
+    }
+  }
+
+  result.remaining = readRewriteQueue().filter(isOpenRewriteEntry).length;
+  return result;
+}
+
+let scheduleRunning = false;
+
+/**
+ * 定时处理改写队列；上一轮未结束时跳过本轮
+ * @returns 停止定时器的函数
+ */
+export function startRewriteQueueSchedule(intervalMinutes: number, options: RewriteQueueRunOptions = {}): () => void {
+  const tick = async () => {
+    if (scheduleRunning) return;
+    scheduleRunning = true;
+    try {
+      const { plans, done, failed, skipped, awaitingReview, remaining } = await runRewriteQueue(options);
+      if (plans.length > 0 || skipped > 0) {
+        console.log(
+          `[RewriteQueue] 本轮完成 ${done}，待审核 ${awaitingReview}，失败 ${failed}，跳过 ${skipped}，剩余 ${remaining}`
+        );
+      }
+    } catch (error) {
+      console.error("[RewriteQueue] 定时处理失败:", sanitizeSensitive(error));
+    } finally {
+      scheduleRunning = false;
+    }
+  };
+  const timer = setInterval(() => void tick(), intervalMinutes * 60 * 1000);
+  void tick();
+  return () => clearInterval(timer);
+}
@@ -1,5 +1,7 @@
 import { createClient, type SanityClient } from "@sanity/client";
+import type { HreflangAlternate } from "../utils/locale.js";
 import { normalizePublicSiteRoot } from "../utils/publicSiteUrl.js";
+import { sanitizeSensitive } from "../utils/sanitize.js";
 
 export interface SanityPublishInput {
   title: string;
@@ -16,11 +18,15 @@ export interface SanityPublishInput {
   modifiedAt?: string;
   primaryCategory?: string;
   keyword?: string;
-  experimentVariant?: "A" | "B";
+  experimentVariant?: string;
   experimentId?: string;
   authorSlug?: string;
   contentVersion?: number;
   lastReviewedAt?: string;
+  /** 页面语言（BCP 47）与译本分组；hreflang 为同组各语言版本（含本页） */
+  locale?: string;
+  translationKey?: string;
+  hreflang?: HreflangAlternate[];
   projectId: string;
   dataset: string;
   token: string;
@@ -32,6 +38,10 @@ export interface SanityPublishInput {
 export interface SanityPublishResult {
   documentId: string;
   pageUrl: string;
+  contentVersion: number;
+  /** 被覆盖的旧文档正文；首次发布为 null */
+  previousHtml: string | null;
+  previousTitle?: string;
 }
 
 export interface RelatedGuide {
@@ -104,12 +114,18 @@ export async function fetchRelatedGuidesFromSanity(
         url: `${base}/${r.slug!.replace(/^\/+|\/+$/g, "")}/`,
       }));
   } catch (err) {
-    console.warn("[Sanity] fetchRelatedGuidesFromSanity failed:", err);
+    console.warn("[Sanity] fetchRelatedGuidesFromSanity failed:", sanitizeSensitive(err));
     return [];
   }
 }
 
-export async function publishToSanity(input: SanityPublishInput): Promise<SanityPublishResult> {
+/**
+ * 发布（或覆盖）文档；传入的 signal 被取消时回滚为发布前的文档（新建的则删除）
+ */
+export async function publishToSanity(
+  input: SanityPublishInput,
+  signal?: AbortSignal
+): Promise<SanityPublishResult> {
   const projectId = input.projectId?.trim();
   const dataset = input.dataset?.trim();
   const token = input.token?.trim();
@@ -130,26 +146,33 @@ export async function publishToSanity(input: SanityPublishInput): Promise<Sanity
     throw new Error("Sanity publish requires bodyHtml or htmlContent");
   }
 
-  const publishedAt = input.publishedAt || new Date().toISOString();
-  const modifiedAt = input.modifiedAt || publishedAt;
+  const nowIso = new Date().toISOString();
+  let publishedAt = input.publishedAt || nowIso;
 
   let contentVersion = input.contentVersion ?? 1;
+  let previousDocument: SanityGuideDocument | null = null;
   try {
-    const existing = await client.fetch<{ contentVersion?: number; publishedAt?: string } | null>(
-      `*[_id == $id][0]{ contentVersion, publishedAt }`,
-      { id: documentId }
+    const existing = await client.fetch<SanityGuideDocument | null>(
+      `*[_id == $id][0]`,
+      { id: documentId },
+      { signal }
     );
+    previousDocument = existing;
     if (existing) {
       contentVersion = (existing.contentVersion ?? 0) + 1;
       if (!input.publishedAt && existing.publishedAt) {
         // preserve original publish date on republish when not explicitly set
+        publishedAt = existing.publishedAt;
       }
     }
   } catch {
     /* first publish */
   }
+  const modifiedAt = input.modifiedAt || (previousDocument ? nowIso : publishedAt);
+  // 未确认旧文档是否存在前不写入，保证取消时可以正确回滚
+  signal?.throwIfAborted();
 
-  await client.createOrReplace({
+  const document = {
     _id: documentId,
     _type: docType,
     title: input.title,
@@ -169,11 +192,128 @@ export async function publishToSanity(input: SanityPublishInput): Promise<Sanity
     authorSlug: input.authorSlug || "",
     contentVersion,
     lastReviewedAt: input.lastReviewedAt || modifiedAt,
+    locale: input.locale || "",
+    translationKey: input.translationKey || "",
+    hreflang: toSanityHreflang(input.hreflang),
     source: "ai-automation",
-  });
+  };
+
+  try {
+    await client.createOrReplace(document, { signal });
+    signal?.throwIfAborted();
+  } catch (error) {
+    if (signal?.aborted) {
+      await rollbackSanityDocument(client, documentId, previousDocument);
+    }
+    throw error;
+  }
 
   return {
     documentId,
     pageUrl: `${baseUrl}/${cleanSlug}/`,
+    contentVersion,
+    previousHtml: previousDocument ? documentHtml(previousDocument) : null,
+    previousTitle: previousDocument?.title,
   };
 }
+
+type SanityGuideDocument = {
+  title?: string;
+  html?: string;
+  bodyHtml?: string;
+  contentVersion?: number;
+  publishedAt?: string;
+} & Record<string, unknown>;
+
+function documentHtml(document: SanityGuideDocument): string {
+  return document.bodyHtml || document.html || "";
+}
+
+export type SanityPatchInput = Pick<
+  SanityPublishInput,
+  "slug" | "projectId" | "dataset" | "token" | "apiVersion" | "docType" | "baseUrl"
+> & { bodyHtml: string; title?: string };
+
+/**
+ * 只替换已有文档的正文（及标题，若提供）用于回滚修订版本，其余字段保持不变；contentVersion +1
+ */
+export async function updateSanityDocumentHtml(input: SanityPatchInput): Promise<SanityPublishResult> {
+  const docType = input.docType?.trim() || "luxuryLifeGuide";
+  const baseUrl = normalizeBaseUrl(input.baseUrl);
+  const cleanSlug = (input.slug || "").replace(/^\/+|\/+$/g, "");
+  const documentId = `${docType}.${cleanSlug.replace(/\//g, "-")}`;
+  const client = createSanityWriteClient(input);
+
+  const existing = await client.fetch<SanityGuideDocument | null>(`*[_id == $id][0]`, { id: documentId });
+  if (!existing) {
+    throw new Error(`Sanity document ${documentId} not found`);
+  }
+  const contentVersion = (existing.contentVersion ?? 0) + 1;
+  const nowIso = new Date().toISOString();
+  await client
+    .patch(documentId)
+    .set({
+      ...(input.title ? { title: input.title } : {}),
+      html: input.bodyHtml,
+      bodyHtml: input.bodyHtml,
+      modifiedAt: nowIso,
+      lastReviewedAt: nowIso,
+      contentVersion,
+    })
+    .commit();
+
+  return {
+    documentId,
+    pageUrl: `${baseUrl}/${cleanSlug}/`,
+    contentVersion,
+    previousHtml: documentHtml(existing),
+    previousTitle: existing.title,
+  };
+}
+
+function toSanityHreflang(alternates: HreflangAlternate[] = []) {
+  return alternates.map((alt) => ({ _key: alt.hreflang.toLowerCase(), hreflang: alt.hreflang, href: alt.href }));
+}
+
+/**
+ * 只更新已有文档的 hreflang 列表（新译本发布后同步到同组的其他语言版本），不改变 contentVersion
+ */
+export async function updateSanityHreflang(
+  input: Pick<SanityPublishInput, "projectId" | "dataset" | "token" | "apiVersion">,
+  documentId: string,
+  alternates: HreflangAlternate[]
+): Promise<void> {
+  await createSanityWriteClient(input).patch(documentId).set({ hreflang: toSanityHreflang(alternates) }).commit();
+}
+
+/**
+ * 通知 Next.js 站点按 slug 重新生成页面（ISR）
+ * @returns 是否已发送请求（未配置 REVALIDATE_SECRET / 站点地址时跳过）
+ */
+export async function requestSanityRevalidate(slug: string, siteUrl?: string): Promise<boolean> {
+  const revalidateSecret = process.env.REVALIDATE_SECRET || "";
+  const nextSiteUrl = process.env.NEXT_PUBLIC_SITE_URL || siteUrl || "";
+  if (!revalidateSecret || !nextSiteUrl) return false;
+  const revalidateUrl = `${nextSiteUrl.replace(/\/+$/, "")}/api/revalidate?secret=${encodeURIComponent(revalidateSecret)}&slug=${encodeURIComponent(slug.replace(/^luxury-life-guides\//, ""))}`;
+  await fetch(revalidateUrl, { method: "POST" });
+  return true;
+}
+
+async function rollbackSanityDocument(
+  client: SanityClient,
+  documentId: string,
+  previousDocument: Record<string, unknown> | null
+): Promise<void> {
+  try {
+    if (previousDocument) {
+      const { _rev: _r, _createdAt: _c, _updatedAt: _u, ...fields } = previousDocument;
+      await client.createOrReplace({ ...fields, _id: documentId, _type: String(fields._type) });
+      console.log(`[Sanity] 已回滚文档到发布前版本: ${documentId}`);
+    } else {
+      await client.delete(documentId);
+      console.log(`[Sanity] 已删除本次新建的文档: ${documentId}`);
+    }
+  } catch (err) {
+    console.warn(`[Sanity] 回滚文档 ${documentId} 失败:`, sanitizeSensitive(err));
+  }
+}
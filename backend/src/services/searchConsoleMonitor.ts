@@ -1,10 +1,11 @@
 import { readFileSync, writeFileSync, existsSync } from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
+import { isOpenRewriteEntry, readRewriteQueue, writeRewriteQueue } from "../state/rewriteQueueStore.js";
+import { sanitizeSensitive } from "../utils/sanitize.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const dataDir = path.join(__dirname, "../../data");
-const rewriteQueuePath = path.join(dataDir, "rewrite-queue.json");
 const gscAlertsPath = path.join(dataDir, "gsc-alerts.json");
 const gscMetricsPath = path.join(dataDir, "gsc-metrics-history.json");
 
@@ -19,7 +20,7 @@ export interface GscPageMetric {
 
 export interface GscAlert {
   page: string;
-  reason: string;
+  reason: "ctr_drop" | "ranking_loss";
   ctrDropPct?: number;
   position?: number;
   detectedAt: string;
@@ -88,7 +89,7 @@ export async function fetchGscPageMetrics(options?: {
       week,
     }));
   } catch (error) {
-    console.warn("[GSC] API fetch failed:", error);
+    console.warn("[GSC] API fetch failed:", sanitizeSensitive(error));
     return [];
   }
 }
@@ -152,9 +153,10 @@ export async function runGscMonitor(): Promise<{
   const mergedAlerts = [...alerts, ...existingAlerts].slice(0, 200);
   writeFileSync(gscAlertsPath, JSON.stringify(mergedAlerts, null, 2), "utf8");
 
-  const rewriteQueue = readJson<unknown[]>(rewriteQueuePath, []);
+  // 只与待处理记录去重：已改写完成的页面再次下滑时重新入队
+  const rewriteQueue = readRewriteQueue();
   const rewritePages = new Set(
-    rewriteQueue.map((r) => (r as { pageUrl?: string }).pageUrl).filter(Boolean)
+    rewriteQueue.filter(isOpenRewriteEntry).map((r) => r.pageUrl).filter(Boolean)
   );
 
   for (const alert of alerts) {
@@ -170,7 +172,7 @@ export async function runGscMonitor(): Promise<{
     }
   }
 
-  writeFileSync(rewriteQueuePath, JSON.stringify(rewriteQueue.slice(0, 500), null, 2), "utf8");
+  writeRewriteQueue(rewriteQueue);
 
   return { metrics: current.length, alerts: alerts.length, rewriteQueue: rewriteQueue.length };
 }
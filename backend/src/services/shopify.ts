@@ -1,5 +1,6 @@
 import axios from "axios";
 import type { ProductFetchResult, ProductSummary } from "../types.js";
+import type { ProductLinkStatus } from "../utils/linkAudit.js";
 
 export interface ShopifyCredentials {
   storeUrl: string;
@@ -47,7 +48,7 @@ function resolveProductLinkBase(credentials: ShopifyCredentials): string {
   return normalizeStoreUrl(credentials.storeUrl);
 }
 
-function createShopifyClient(credentials: ShopifyCredentials) {
+function createShopifyClient(credentials: ShopifyCredentials, signal?: AbortSignal) {
   if (!credentials.accessToken?.trim()) {
     throw new Error("Shopify accessToken is required");
   }
@@ -60,6 +61,7 @@ function createShopifyClient(credentials: ShopifyCredentials) {
     // Shopify 请求直连，避免被系统 HTTP(S)_PROXY 转发后触发协议端口错误
     proxy: false,
     timeout: 30000,
+    signal,
   });
 }
 
@@ -180,9 +182,10 @@ function filterProducts(products: ShopifyProduct[], keyword: string, targetCateg
 export async function fetchRelatedProducts(
   credentials: ShopifyCredentials,
   keyword: string,
-  targetCategory?: string
+  targetCategory?: string,
+  signal?: AbortSignal
 ): Promise<ProductFetchResult> {
-  const client = createShopifyClient(credentials);
+  const client = createShopifyClient(credentials, signal);
   const linkBase = resolveProductLinkBase(credentials);
 
   const response = await client.get("/products.json", {
@@ -238,3 +241,38 @@ export async function searchProductsByName(
     .slice(0, 30)
     .map((p) => toProductSummary(linkBase, p));
 }
+
+/**
+ * 按 handle 查询商品现状（链接审计用）：不存在或非 active 为 missing，无可售变体为 out_of_stock
+ */
+export async function checkShopifyProductHandles(
+  credentials: ShopifyCredentials,
+  handles: string[]
+): Promise<Record<string, ProductLinkStatus>> {
+  const client = createShopifyClient(credentials);
+  const statuses: Record<string, ProductLinkStatus> = {};
+  const unique = Array.from(new Set(handles.filter(Boolean)));
+
+  // handle 参数支持逗号分隔，每次最多 50 个
+  for (let i = 0; i < unique.length; i += 50) {
+    const chunk = unique.slice(i, i + 50);
+    const response = await client.get("/products.json", {
+      params: { handle: chunk.join(","), limit: 250, fields: "id,handle,status,variants" },
+    });
+    const found = new Map<string, ShopifyProduct & { status?: string }>(
+      (Array.isArray(response.data?.products) ? response.data.products : []).map(
+        (p: ShopifyProduct & { status?: string }) => [p.handle, p]
+      )
+    );
+    for (const handle of chunk) {
+      const product = found.get(handle);
+      statuses[handle] =
+        !product || (product.status && product.status !== "active")
+          ? "missing"
+          : isShopifyProductSellable(product)
+            ? "available"
+            : "out_of_stock";
+    }
+  }
+  return statuses;
+}
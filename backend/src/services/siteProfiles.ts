@@ -0,0 +1,114 @@
+/**
+ * 站点配置：WordPress / Shopify / Sanity / 静态发布的连接信息保存在服务端，凭据用 SITE_PROFILE_ENCRYPTION_KEY 加密落盘
+ * 请求只传 siteProfileId，processTask、产品源与发布前在内存中解析出完整凭据；接口与日志不返回凭据明文
+ */
+
+import { getSiteProfile, saveSiteProfile } from "../state/siteProfileStore.js";
+import type { SiteProfile, SiteProfileSecrets } from "../types.js";
+import { decryptSecret, encryptSecret } from "../utils/secretVault.js";
+import {
+  applySecretUpdates,
+  isValidSiteProfileId,
+  listSecretFields,
+  mergeSiteProfile,
+  type SiteCredentialTarget,
+  type SiteProfileSecretUpdates,
+  type SiteProfileSettings,
+} from "../utils/siteProfiles.js";
+
+function requireEncryptionKey(): string {
+  const key = process.env.SITE_PROFILE_ENCRYPTION_KEY?.trim();
+  if (!key) {
+    throw Object.assign(new Error("SITE_PROFILE_ENCRYPTION_KEY is not configured; site profile secrets are unavailable"), {
+      code: "SITE_PROFILE_KEY_MISSING",
+    });
+  }
+  return key;
+}
+
+/**
+ * 解密站点配置中的凭据（没有保存凭据时不需要密钥）
+ */
+export function readSiteProfileSecrets(profile: SiteProfile): SiteProfileSecrets {
+  if (!profile.encryptedSecrets) return {};
+  return JSON.parse(decryptSecret(profile.encryptedSecrets, requireEncryptionKey())) as SiteProfileSecrets;
+}
+
+/**
+ * 新增或更新站点配置：未提交的凭据保留原值，空字符串 / null 删除
+ */
+export async function writeSiteProfile(
+  settings: SiteProfileSettings,
+  secretUpdates: SiteProfileSecretUpdates,
+  existing?: SiteProfile
+): Promise<SiteProfile> {
+  const secrets = applySecretUpdates(existing ? readSiteProfileSecrets(existing) : {}, secretUpdates);
+  const secretFields = listSecretFields(secrets);
+  return saveSiteProfile({
+    ...settings,
+    ...(secretFields.length > 0 && { encryptedSecrets: encryptSecret(JSON.stringify(secrets), requireEncryptionKey()) }),
+    secretFields,
+  });
+}
+
+/**
+ * 接口返回的站点配置（去掉密文，只列出已保存的凭据字段）
+ */
+export function toSiteProfileView({ encryptedSecrets: _encrypted, ...profile }: SiteProfile) {
+  return profile;
+}
+
+/**
+ * 按 siteProfileId 补全请求中的连接信息与凭据（请求中已填写的字段优先），返回新对象；
+ * 未指定 siteProfileId 时原样返回
+ * @throws siteProfileId 无效、站点配置不存在或凭据无法解密
+ */
+export async function resolveSiteProfile<T extends SiteCredentialTarget>(target: T): Promise<T> {
+  const id = typeof target.siteProfileId === "string" ? target.siteProfileId.trim() : "";
+  if (!id) return target;
+  if (!isValidSiteProfileId(id)) {
+    throw new Error("siteProfileId must be a lowercase slug (a-z, 0-9, -)");
+  }
+  const profile = await getSiteProfile(id);
+  if (!profile) {
+    throw Object.assign(new Error(`Site profile "${id}" not found`), { code: "SITE_PROFILE_NOT_FOUND" });
+  }
+  return mergeSiteProfile(target, profile, readSiteProfileSecrets(profile));
+}
+
+/**
+ * 路由校验用：解析失败（站点配置不存在、未配置密钥等）时返回错误信息
+ */
+export async function resolveSiteProfileOrError<T extends SiteCredentialTarget>(target: T): Promise<T | string> {
+  try {
+    return await resolveSiteProfile(target);
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+function sameSiteUrl(a: string, b: string): boolean {
+  return a.trim().replace(/\/+$/, "").toLowerCase() === b.trim().replace(/\/+$/, "").toLowerCase();
+}
+
+/**
+ * 补全生成任务的凭据：先按 siteProfileId 解析；WordPress 应用密码仍缺时使用 WORDPRESS_* 环境变量（站点 URL 一致或未填时）
+ * 任务与批量参数落盘时不含凭据，重启续跑、审核通过后重新发布都依赖这里恢复；Shopify / Sanity 的环境变量回退在产品源与发布时处理
+ */
+export async function resolveTaskCredentials<T extends SiteCredentialTarget>(payload: T): Promise<T> {
+  const resolved = await resolveSiteProfile(payload);
+  const url = process.env.WORDPRESS_URL?.trim();
+  const appPassword = process.env.WORDPRESS_APP_PASSWORD?.trim();
+  const wordpress = resolved.wordpress;
+  if (!url || !appPassword || wordpress?.appPassword?.trim()) return resolved;
+  if (wordpress?.url?.trim() && !sameSiteUrl(wordpress.url, url)) return resolved;
+  return {
+    ...resolved,
+    wordpress: {
+      ...wordpress,
+      url: wordpress?.url?.trim() || url,
+      username: wordpress?.username?.trim() || process.env.WORDPRESS_USERNAME?.trim() || "",
+      appPassword,
+    },
+  };
+}
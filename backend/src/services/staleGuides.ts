@@ -0,0 +1,77 @@
+/**
+ * Stale Sanity guides (not modified for STALE_GUIDE_DAYS) — feeds the rewrite queue as stale_content.
+ * Used by scripts/refreshStaleGuides.ts and the scheduled "stale-guides" job.
+ */
+import { createClient } from "@sanity/client";
+import { isOpenRewriteEntry, readRewriteQueue, writeRewriteQueue } from "../state/rewriteQueueStore.js";
+
+export const STALE_GUIDE_DAYS = 90;
+
+export interface StaleGuide {
+  title?: string;
+  slug?: string;
+  modifiedAt?: string;
+  keyword?: string;
+}
+
+/**
+ * List guides whose modifiedAt is missing or older than STALE_GUIDE_DAYS.
+ * Requires SANITY_PROJECT_ID, SANITY_DATASET and SANITY_API_TOKEN.
+ */
+export async function findStaleGuides(): Promise<StaleGuide[]> {
+  const projectId = process.env.SANITY_PROJECT_ID?.trim();
+  const dataset = process.env.SANITY_DATASET?.trim();
+  const token = process.env.SANITY_API_TOKEN?.trim();
+  if (!projectId || !dataset || !token) {
+    throw new Error("SANITY_PROJECT_ID, SANITY_DATASET, SANITY_API_TOKEN required");
+  }
+
+  const client = createClient({
+    projectId,
+    dataset,
+    token,
+    apiVersion: process.env.SANITY_API_VERSION || "2024-01-01",
+    useCdn: false,
+  });
+
+  const docs = await client.fetch<StaleGuide[]>(
+    `*[_type == "luxuryLifeGuide" && defined(slug.current)]{
+      title,
+      "slug": slug.current,
+      modifiedAt,
+      keyword
+    }`
+  );
+
+  const cutoff = Date.now() - STALE_GUIDE_DAYS * 24 * 60 * 60 * 1000;
+  return (docs || []).filter((d) => {
+    const t = Date.parse(d.modifiedAt || "");
+    return Number.isNaN(t) || t < cutoff;
+  });
+}
+
+/**
+ * Add stale guides to rewrite-queue.json (skips pages that already have an open entry).
+ * @returns number of entries added
+ */
+export function queueStaleGuides(stale: StaleGuide[]): number {
+  const queue = readRewriteQueue();
+  const existing = new Set(queue.filter(isOpenRewriteEntry).map((q) => q.pageUrl));
+  let added = 0;
+  for (const d of stale) {
+    const pageUrl = `/${(d.slug || "").replace(/^\/+|\/+$/g, "")}/`;
+    if (existing.has(pageUrl)) continue;
+    queue.unshift({
+      pageUrl,
+      keyword: d.keyword || "",
+      reason: "stale_content",
+      detectedAt: new Date().toISOString(),
+      source: "refreshStaleGuides",
+    });
+    existing.add(pageUrl);
+    added++;
+  }
+
+  writeRewriteQueue(queue);
+  return added;
+}
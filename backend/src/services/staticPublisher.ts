@@ -1,6 +1,7 @@
 import { existsSync } from "node:fs";
-import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
 import path from "node:path";
+import { buildHreflangAlternates, normalizeTranslationKey, splitLocalePrefix } from "../utils/locale.js";
 import { normalizePublicSiteRoot } from "../utils/publicSiteUrl.js";
 
 export interface StaticPublishInput {
@@ -13,6 +14,8 @@ export interface StaticPublishInput {
 export interface StaticPublishResult {
   filePath: string;
   pageUrl: string;
+  /** 被覆盖的旧文件内容；首次写入为 null */
+  previousHtml: string | null;
 }
 
 function sanitizeSlug(slug: string): string {
@@ -34,6 +37,14 @@ function normalizeBaseUrl(baseUrl: string): string {
 interface SitemapEntry {
   loc: string;
   lastmod: string;
+  /** 页面语言与译本分组，同组页面在 sitemap 中输出 xhtml:link hreflang */
+  locale?: string;
+  translationKey?: string;
+}
+
+export interface StaticPageTranslation {
+  locale: string;
+  translationKey: string;
 }
 
 const SITEMAP_ENTRIES_FILE = "sitemap-entries.json";
@@ -50,12 +61,14 @@ function normalizePageLoc(url: string): string {
 
 /**
  * 在静态输出根目录维护 robots.txt、sitemap.xml（追加当前页 URL，去重）。
+ * 传入 translation 时记录页面语言与译本分组，同组的各语言页面在 sitemap 中互相声明 hreflang。
  * 部署时需将 outputDir 根目录对应到 STATIC_BASE_URL 所指站点路径。
  */
 export async function updateStaticSiteSeoFiles(
   outputDir: string,
   baseUrl: string,
-  pageUrl: string
+  pageUrl: string,
+  translation?: StaticPageTranslation
 ): Promise<void> {
   const root = path.resolve((outputDir || "").trim());
   if (!root) return;
@@ -82,31 +95,49 @@ export async function updateStaticSiteSeoFiles(
   const existingIdx = entries.findIndex((e) => normalizePageLoc(e.loc) === loc);
   if (existingIdx >= 0) {
     entries[existingIdx].lastmod = lastmod;
+    if (translation) Object.assign(entries[existingIdx], translation);
   } else if (loc) {
-    entries.push({ loc, lastmod });
+    entries.push({ loc, lastmod, ...translation });
   }
 
   await writeFile(entriesPath, JSON.stringify(entries, null, 2), "utf-8");
 
+  // 早期条目没有语言信息：分组取 URL 的基础 slug，语言取站点根目录下的路径前缀
+  const siteRoot = normalizeBaseUrl(baseUrl).replace(/\/+$/, "");
+  const sitePath = (loc: string) =>
+    loc.toLowerCase().startsWith(`${siteRoot.toLowerCase()}/`) ? loc.slice(siteRoot.length) : loc;
+  const translationOf = (e: SitemapEntry) => ({
+    key: e.translationKey || normalizeTranslationKey(sitePath(e.loc)),
+    locale: e.locale || splitLocalePrefix(sitePath(e.loc)).locale.code,
+    url: e.loc,
+  });
+  const groups = new Map<string, Array<{ locale: string; url: string }>>();
+  for (const e of entries) {
+    const t = translationOf(e);
+    if (t.key) groups.set(t.key, [...(groups.get(t.key) ?? []), t]);
+  }
   const urlset = entries
-    .map(
-      (e) => `  <url>
+    .map((e) => {
+      const alternates = buildHreflangAlternates(groups.get(translationOf(e).key) ?? []);
+      const links = alternates
+        .map((alt) => `\n    <xhtml:link rel="alternate" hreflang="${escapeXml(alt.hreflang)}" href="${escapeXml(alt.href)}" />`)
+        .join("");
+      return `  <url>
     <loc>${escapeXml(e.loc)}</loc>
     <lastmod>${e.lastmod}</lastmod>
     <changefreq>weekly</changefreq>
-    <priority>0.7</priority>
-  </url>`
-    )
+    <priority>0.7</priority>${links}
+  </url>`;
+    })
     .join("\n");
 
   const sitemapBody = `<?xml version="1.0" encoding="UTF-8"?>
-<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">
 ${urlset}
 </urlset>
 `;
   await writeFile(path.join(root, "sitemap.xml"), sitemapBody, "utf-8");
 
-  const siteRoot = normalizeBaseUrl(baseUrl).replace(/\/+$/, "");
   const sitemapPublicUrl = `${siteRoot}/sitemap.xml`;
   const robotsBody = `User-agent: *
 Allow: /
@@ -116,7 +147,13 @@ Sitemap: ${sitemapPublicUrl}
   await writeFile(path.join(root, "robots.txt"), robotsBody, "utf-8");
 }
 
-export async function publishStaticPage(input: StaticPublishInput): Promise<StaticPublishResult> {
+/**
+ * 写入静态页面；传入的 signal 被取消时恢复原文件（新建的则删除）
+ */
+export async function publishStaticPage(
+  input: StaticPublishInput,
+  signal?: AbortSignal
+): Promise<StaticPublishResult> {
   const outputDir = (input.outputDir || "").trim();
   if (!outputDir) {
     throw new Error("Static publish outputDir is required");
@@ -131,11 +168,27 @@ export async function publishStaticPage(input: StaticPublishInput): Promise<Stat
   const fullDir = path.join(outputDir, slug);
   const filePath = path.join(fullDir, "index.html");
 
+  const previousHtml = existsSync(filePath) ? await readFile(filePath, "utf-8") : null;
+  signal?.throwIfAborted();
+
   await mkdir(fullDir, { recursive: true });
-  await writeFile(filePath, input.htmlContent, "utf-8");
+  try {
+    await writeFile(filePath, input.htmlContent, { encoding: "utf-8", signal });
+    signal?.throwIfAborted();
+  } catch (error) {
+    if (signal?.aborted) {
+      if (previousHtml === null) {
+        await rm(filePath, { force: true });
+      } else {
+        await writeFile(filePath, previousHtml, "utf-8");
+      }
+    }
+    throw error;
+  }
 
   return {
     filePath,
     pageUrl: `${baseUrl}/${slug}/`,
+    previousHtml,
   };
 }
@@ -0,0 +1,141 @@
+import assert from "node:assert/strict";
+import { existsSync, rmSync } from "node:fs";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  cancelTask,
+  createTask,
+  getTask,
+  getTaskCheckpoint,
+  getTaskPayload,
+  saveTaskCheckpoint,
+  setTaskPayload,
+  updateTaskStatus,
+} from "../state/taskStore.js";
+import { readRewriteQueue, writeRewriteQueue } from "../state/rewriteQueueStore.js";
+import type { GenerationRequestPayload, RenderedPage } from "../types.js";
+import type { GeneratedContent } from "./googleAi.js";
+import { approveTask, regenerateTask, rejectTask } from "./taskReview.js";
+
+// Task and history stores write to a temporary DATA_DIR, never backend/data
+const dataDir = await mkdtemp(path.join(tmpdir(), "task-review-data-"));
+process.env.DATA_DIR = dataDir;
+// Deleted at exit: the cancelled regeneration may still save a checkpoint after the last assertion
+process.on("exit", () => rmSync(dataDir, { recursive: true, force: true }));
+const outputDir = await mkdtemp(path.join(tmpdir(), "task-review-test-"));
+process.env.INTERNAL_LINK_BACKFILL_LIMIT = "0";
+
+const payload: GenerationRequestPayload = {
+  keyword: "luxury phone",
+  templateContent: "<html>{{content}}</html>",
+  publishTarget: "static",
+  staticPublish: { outputDir, baseUrl: "https://vertu.com" },
+  requireReview: true,
+};
+const rendered: RenderedPage = {
+  html: "<html><body><p>reviewed</p></body></html>",
+  pageTitle: "Luxury Phones",
+  baseSlug: "reviewed",
+  slug: "luxury-life-guides/reviewed",
+  expectedPageUrl: "https://vertu.com/luxury-life-guides/reviewed/",
+  metaDescription: "",
+  pageImageUrl: "",
+  primaryCategory: "phones",
+};
+
+/** A task that stopped at the review gate with its page rendered */
+function awaitingReview(withRender = true): string {
+  const { id } = createTask("Task queued");
+  setTaskPayload(id, payload);
+  saveTaskCheckpoint(id, "title", { pageTitle: rendered.pageTitle });
+  if (withRender) saveTaskCheckpoint(id, "render", rendered);
+  updateTaskStatus(id, "awaiting_review", "页面已渲染，等待审核");
+  return id;
+}
+
+async function waitForStatus(id: string, status: string): Promise<void> {
+  for (let i = 0; i < 50 && getTask(id)?.status !== status; i++) {
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+  assert.equal(getTask(id)?.status, status);
+}
+
+try {
+  {
+    assert.match(approveTask("missing") as string, /不存在/);
+    const queued = createTask("Task queued").id;
+    setTaskPayload(queued, payload);
+    assert.match(approveTask(queued) as string, /当前状态: queued/);
+    assert.match(approveTask(awaitingReview(false)) as string, /缺少渲染结果/);
+  }
+
+  {
+    // approve: publishing right away, then published from the render checkpoint
+    const id = awaitingReview();
+    assert.equal(approveTask(id, "editor"), null);
+    assert.equal(getTask(id)?.status, "publishing");
+    assert.equal(getTask(id)?.review?.decision, "approved");
+    assert.equal(getTask(id)?.review?.reviewer, "editor");
+    await waitForStatus(id, "completed");
+    assert.equal(getTask(id)?.pageUrl, rendered.expectedPageUrl);
+    assert.ok(existsSync(path.join(outputDir, rendered.slug, "index.html")));
+    // A decided task cannot be reviewed again
+    assert.match(rejectTask(id) as string, /当前状态: completed/);
+  }
+
+  {
+    // reject: the task ends with the reason and nothing is published
+    await rm(path.join(outputDir, rendered.slug), { recursive: true, force: true });
+    const id = awaitingReview();
+    assert.equal(rejectTask(id, "off-brand tone", "editor"), null);
+    assert.equal(getTask(id)?.status, "rejected");
+    assert.equal(getTask(id)?.review?.reason, "off-brand tone");
+    assert.match(approveTask(id) as string, /当前状态: rejected/);
+    assert.ok(!existsSync(path.join(outputDir, rendered.slug, "index.html")));
+  }
+
+  {
+    // A rewrite held for review stays open in the queue; rejecting it fails the entry so it is retried
+    const id = awaitingReview();
+    writeRewriteQueue([
+      {
+        pageUrl: rendered.expectedPageUrl,
+        reason: "stale_content",
+        status: "awaiting_review",
+        attempts: 1,
+        outcome: { taskId: id, taskStatus: "awaiting_review" },
+      },
+    ]);
+    assert.equal(rejectTask(id, "still outdated"), null);
+    const [entry] = readRewriteQueue();
+    assert.equal(entry.status, "failed");
+    assert.equal(entry.outcome?.taskStatus, "rejected");
+    assert.match(entry.outcome?.error ?? "", /still outdated/);
+  }
+
+  {
+    // regenerate: new prompt, content and render are dropped, the title is kept
+    const id = awaitingReview();
+    saveTaskCheckpoint(id, "content", {
+      generatedContent: {} as GeneratedContent,
+      quickAnswerText: "",
+      alignmentAttempts: 1,
+      alignmentReasons: [],
+    });
+    assert.equal(regenerateTask(id, "Shorter, warmer intro"), null);
+    assert.equal(getTask(id)?.status, "queued");
+    assert.equal(getTask(id)?.review?.decision, "regenerate");
+    assert.equal(getTaskPayload(id)?.userPrompt, "Shorter, warmer intro");
+    assert.equal(getTaskCheckpoint(id, "content"), undefined);
+    assert.equal(getTaskCheckpoint(id, "render"), undefined);
+    assert.equal(getTaskCheckpoint(id, "title")?.pageTitle, rendered.pageTitle);
+    // Stop the regenerated run; generating content is outside this test
+    cancelTask(id);
+    await waitForStatus(id, "cancelled");
+  }
+} finally {
+  await rm(outputDir, { recursive: true, force: true });
+}
+
+console.log("taskReview.test.ts: all assertions passed");
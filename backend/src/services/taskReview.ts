@@ -0,0 +1,102 @@
+/**
+ * 人工审核流程
+ * 需要审核的任务渲染后停在 awaiting_review（页面保存在 render 检查点与预览中），
+ * 编辑可批准发布、驳回，或修改 userPrompt 后重新生成
+ */
+
+import { processTask } from "../routes/generation.js";
+import {
+  clearTaskCheckpoints,
+  getTask,
+  getTaskCheckpoint,
+  getTaskPayload,
+  setTaskPayload,
+  setTaskRejected,
+  updateTaskStatus,
+} from "../state/taskStore.js";
+import type { TaskReview } from "../types.js";
+import { syncBatchRowWithTask } from "./batchRunner.js";
+import { syncRewriteEntryWithTask } from "./rewriteQueueWorker.js";
+
+/**
+ * 检查任务是否处于等待审核状态
+ * @returns 错误信息；可以审核返回 null
+ */
+function checkReviewable(taskId: string): string | null {
+  const task = getTask(taskId);
+  if (!task) {
+    return "任务不存在或已过期";
+  }
+  if (task.status !== "awaiting_review") {
+    return `任务不在等待审核状态（当前状态: ${task.status}）`;
+  }
+  if (!getTaskPayload(taskId)) {
+    return "任务缺少请求参数，无法继续";
+  }
+  return null;
+}
+
+/**
+ * 同步任务所属的批量行与改写队列记录
+ */
+function syncTaskOwners(taskId: string): void {
+  syncBatchRowWithTask(taskId);
+  void syncRewriteEntryWithTask(taskId);
+}
+
+/**
+ * 在后台继续执行流水线，结束后同步批量行与改写队列记录
+ */
+function continueTask(taskId: string): void {
+  const payload = getTaskPayload(taskId)!;
+  syncBatchRowWithTask(taskId);
+  void processTask(taskId, payload).finally(() => syncTaskOwners(taskId));
+}
+
+/**
+ * 批准：从 render 检查点发布到配置的目标（wordpress / static / sanity）
+ */
+export function approveTask(taskId: string, reviewer?: string): string | null {
+  const error = checkReviewable(taskId);
+  if (error) return error;
+  if (!getTaskCheckpoint(taskId, "render")) {
+    return "任务缺少渲染结果，请重新生成";
+  }
+
+  const review: TaskReview = { decision: "approved", reviewer, decidedAt: Date.now() };
+  updateTaskStatus(taskId, "publishing", "审核通过，正在发布...", { review });
+  console.log(`[task ${taskId}] 审核通过${reviewer ? `（${reviewer}）` : ""}，开始发布`);
+  continueTask(taskId);
+  return null;
+}
+
+/**
+ * 驳回：任务结束，原因写入历史记录
+ */
+export function rejectTask(taskId: string, reason?: string, reviewer?: string): string | null {
+  const error = checkReviewable(taskId);
+  if (error) return error;
+
+  setTaskRejected(taskId, { decision: "rejected", reason, reviewer, decidedAt: Date.now() });
+  console.log(`[task ${taskId}] 审核驳回${reason ? `：${reason}` : ""}`);
+  syncTaskOwners(taskId);
+  return null;
+}
+
+/**
+ * 重新生成：使用新的 userPrompt 从内容生成阶段重跑（沿用已确定的标题与产品），完成后再次等待审核
+ */
+export function regenerateTask(taskId: string, userPrompt: string, reviewer?: string): string | null {
+  const error = checkReviewable(taskId);
+  if (error) return error;
+
+  const payload = getTaskPayload(taskId)!;
+  setTaskPayload(taskId, { ...payload, userPrompt });
+  clearTaskCheckpoints(taskId, ["content", "render"]);
+
+  const review: TaskReview = { decision: "regenerate", reason: userPrompt, reviewer, decidedAt: Date.now() };
+  updateTaskStatus(taskId, "queued", "已按审核意见修改提示词，重新生成中...", { review });
+  console.log(`[task ${taskId}] 审核要求重新生成`);
+  continueTask(taskId);
+  return null;
+}
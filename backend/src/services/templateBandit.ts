@@ -0,0 +1,76 @@
+/**
+ * bandit 模板分配（TEMPLATE_ALLOCATION=bandit）
+ * 每个「搜索意图 × 主品类」是一个上下文，候选壳为臂；奖励来自历史页面的 GSC CTR（相对站点中位数）与「有帮助」投票率，
+ * 新页面按各壳 Beta 后验的 Thompson 采样选壳
+ */
+
+import { getAllHistoryRecords } from "../state/historyStore.js";
+import type { GenerationRequestPayload, TaskProgress, TemplateBanditDecision } from "../types.js";
+import { detectPrimaryCategory } from "../utils/productCategory.js";
+import type { SearchIntent } from "../utils/searchIntentClassifier.js";
+import {
+  BANDIT_ARMS_BY_INTENT,
+  buildArmPosteriors,
+  computePageReward,
+  medianCtr,
+  thompsonSelect,
+} from "../utils/templateBandit.js";
+import { loadPagePerformance, normalizePageUrl } from "./pagePerformance.js";
+
+export function resolveTemplateAllocation(payload: GenerationRequestPayload): "rules" | "bandit" {
+  const mode = payload.templateAllocation || process.env.TEMPLATE_ALLOCATION?.trim() || "rules";
+  return mode === "bandit" ? "bandit" : "rules";
+}
+
+/** 历史页面所属的上下文：bandit 选壳的页面以当时的决策为准，其余按意图与关键词/标题推断品类 */
+function pageContext(record: TaskProgress): { intent?: string; category: string } {
+  if (record.templateBandit) {
+    return { intent: record.templateBandit.intent, category: record.templateBandit.category };
+  }
+  return { intent: record.searchIntent, category: detectPrimaryCategory(record.keyword || "", record.pageTitle || "") };
+}
+
+/**
+ * 为新页面选壳
+ * 规则选壳的历史页面同样计入（按最终使用的模板），bandit 冷启动时即可利用已有数据
+ */
+export async function chooseTemplateByBandit(
+  intent: SearchIntent,
+  category: string,
+  currentTemplate: string,
+  random: () => number = Math.random
+): Promise<TemplateBanditDecision> {
+  const arms = BANDIT_ARMS_BY_INTENT[intent];
+  const history = await getAllHistoryRecords();
+  const pages = history.filter((record) => record.status === "completed" && record.pageUrl && record.templateType);
+  const performance = loadPagePerformance(pages.map((page) => page.pageUrl!));
+  const siteMedianCtr = medianCtr([...performance.values()]);
+
+  const observations: Array<{ arm: string; reward: number }> = [];
+  for (const page of pages) {
+    const context = pageContext(page);
+    if (context.intent !== intent || context.category !== category) continue;
+    const metrics = performance.get(normalizePageUrl(page.pageUrl!));
+    const reward = metrics ? computePageReward(metrics, siteMedianCtr) : null;
+    if (reward !== null) observations.push({ arm: page.templateType!, reward });
+  }
+
+  const decision = thompsonSelect(buildArmPosteriors(arms, observations), random);
+  const round = (n: number) => Math.round(n * 1000) / 1000;
+  return {
+    intent,
+    category,
+    chosen: decision.chosen,
+    previousTemplate: currentTemplate,
+    medianCtr: round(siteMedianCtr),
+    decidedAt: Date.now(),
+    arms: decision.arms.map((arm) => ({
+      arm: arm.arm,
+      alpha: round(arm.alpha),
+      beta: round(arm.beta),
+      pages: arm.pages,
+      mean: round(arm.mean),
+      sample: round(arm.sample),
+    })),
+  };
+}
@@ -2,6 +2,12 @@ import Handlebars from "handlebars";
 import type { ProductSummary, FAQItem } from "../types.js";
 import { markdownToHtmlIfNeeded } from "./articleMarkdown.js";
 import { injectSharedLandingCss } from "../utils/sharedLandingCss.js";
+import {
+  applyHreflangLinks,
+  localeOrDefault,
+  localizeTemplateChrome,
+  type HreflangAlternate,
+} from "../utils/locale.js";
 import type { LayoutPriority, SearchIntent } from "../utils/searchIntentClassifier.js";
 import {
   buildAuthorBylineHtml,
@@ -13,6 +19,7 @@ import {
   extractHowToStepsFromHtml,
   injectServerSideToc,
 } from "../utils/landingPartialHtml.js";
+import { sanitizeSensitive } from "../utils/sanitize.js";
 
 /** 商品区上方信任条（与 template-5 Quick Stats 互补，用于未含统计条的模板） */
 export const DEFAULT_TRUST_STRIP_HTML =
@@ -38,10 +45,10 @@ export function wrapArticleTablesInScroll(html: string): string {
   });
 }
 
-function formatIsoDateForDisplay(iso: string): string {
+function formatIsoDateForDisplay(iso: string, locale = "en-GB"): string {
   const t = Date.parse(iso);
   if (Number.isNaN(t)) return iso;
-  return new Date(t).toLocaleDateString("en-GB", {
+  return new Date(t).toLocaleDateString(locale, {
     year: "numeric",
     month: "long",
     day: "numeric",
@@ -311,8 +318,12 @@ export interface RenderTemplateInput {
   authorProfileUrl?: string;
   authorSameAs?: string[];
   pageSlug?: string;
-  experimentVariant?: "A" | "B";
+  experimentVariant?: string;
   showHelpfulFeedback?: boolean;
+  /** 目标市场语言（默认 en-GB）：html lang / og:locale / inLanguage 与固定文案 */
+  locale?: string;
+  /** 同一指南各语言版本（含本页），输出为 hreflang link；少于两种语言时为空 */
+  hreflangAlternates?: HreflangAlternate[];
 }
 
 export function renderTemplate({
@@ -359,7 +370,11 @@ export function renderTemplate({
   pageSlug,
   experimentVariant,
   showHelpfulFeedback = true,
+  locale,
+  hreflangAlternates = [],
 }: RenderTemplateInput) {
+  const targetLocale = localeOrDefault(locale);
+  const copy = targetLocale.copy;
   const templateContentWithSharedCss = injectSharedLandingCss(templateContent);
   const template = Handlebars.compile(templateContentWithSharedCss);
 
@@ -385,9 +400,9 @@ export function renderTemplate({
   const modifiedIso = articleDateModifiedISO?.trim() || publishedIso;
   const datePublished = publishedIso;
   const dateModified = modifiedIso;
-  const LAST_UPDATED_LABEL = formatIsoDateForDisplay(dateModified);
+  const LAST_UPDATED_LABEL = formatIsoDateForDisplay(dateModified, targetLocale.code);
 
-  const editorialLeadHtml = `<p class="ll-editorial-lead" role="note"><strong>Editorial note:</strong> This guide reflects our product knowledge base at the time of writing. <span class="ll-updated">Updated <time datetime="${dateModified}">${LAST_UPDATED_LABEL}</time>.</span></p>`;
+  const editorialLeadHtml = `<p class="ll-editorial-lead" role="note"><strong>${copy.editorialNote}</strong> ${copy.editorialNoteBody} <span class="ll-updated">${copy.updated} <time datetime="${dateModified}">${LAST_UPDATED_LABEL}</time>.</span></p>`;
 
   const authorNamePlain = (articleAuthorName ?? "").replace(/<[^>]*>/g, "").trim();
   const authorJobPlain = (articleAuthorJobTitle ?? "").replace(/<[^>]*>/g, "").trim();
@@ -479,7 +494,7 @@ export function renderTemplate({
           url: `${origin}/`,
           name: "VERTU",
           publisher: { "@id": orgId },
-          inLanguage: "en-GB",
+          inLanguage: targetLocale.code,
         });
 
         if (authorNamePlain) {
@@ -516,7 +531,7 @@ export function renderTemplate({
       headline: pageTitlePlain,
       description: (metaDescription || pageDescription || "").replace(/<[^>]*>/g, "").trim(),
       url: pageUrl || "",
-      inLanguage: "en-GB",
+      inLanguage: targetLocale.code,
       datePublished: datePublished,
       dateModified: dateModified,
       mainEntityOfPage: {
@@ -592,7 +607,7 @@ export function renderTemplate({
           url: pageId,
           name: pageTitlePlain,
           description: (metaDescription || pageDescription || "").replace(/<[^>]*>/g, "").trim(),
-          inLanguage: "en-GB",
+          inLanguage: targetLocale.code,
           isPartOf: { "@id": `${new URL(pu).origin}/#website` },
           mainEntity: { "@type": "Article", headline: pageTitlePlain },
         };
@@ -646,7 +661,7 @@ export function renderTemplate({
       2
     );
   } catch (error) {
-    console.warn(`[TemplateRenderer] Failed to generate Article structured data:`, error);
+    console.warn(`[TemplateRenderer] Failed to generate Article structured data:`, sanitizeSensitive(error));
   }
 
   // 调试：检查描述是否正确传递
@@ -691,7 +706,7 @@ export function renderTemplate({
       };
       itemListStructuredData = JSON.stringify(itemListSchema, null, 2);
     } catch (error) {
-      console.warn(`[TemplateRenderer] Failed to generate ItemList structured data:`, error);
+      console.warn(`[TemplateRenderer] Failed to generate ItemList structured data:`, sanitizeSensitive(error));
     }
   }
 
@@ -763,7 +778,7 @@ export function renderTemplate({
         2
       );
     } catch (error) {
-      console.warn(`[TemplateRenderer] Failed to generate Product structured data:`, error);
+      console.warn(`[TemplateRenderer] Failed to generate Product structured data:`, sanitizeSensitive(error));
     }
   }
 
@@ -785,7 +800,7 @@ export function renderTemplate({
     authorProfileUrl
   );
   const helpfulFeedbackHtml = showHelpfulFeedback
-    ? buildHelpfulFeedbackHtml(pageSlug)
+    ? buildHelpfulFeedbackHtml(pageSlug, copy)
     : "";
   const relatedGuidesHtml = buildRelatedGuidesHtml(relatedGuides, {
     compact: relatedGuidesCompact,
@@ -802,7 +817,7 @@ export function renderTemplate({
     howToStructuredData = buildHowToSchemaJson(pageTitlePlain, pageUrl || "", steps);
   }
 
-  const rendered = template({
+  const renderedTemplate = template({
     PAGE_TITLE: pageTitle,
     PAGE_DESCRIPTION: pageDescription || "", // 页面描述（用于模板2和模板3）
     META_DESCRIPTION: metaDescription || pageDescription || "", // SEO meta description
@@ -860,6 +875,7 @@ export function renderTemplate({
     categoryImages,
     craftImages,
   });
+  const rendered = applyHreflangLinks(localizeTemplateChrome(renderedTemplate, targetLocale), hreflangAlternates);
 
   // 调试日志：检查渲染结果
   console.log(`[TemplateRenderer] 渲染完成:`);
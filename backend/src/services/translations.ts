@@ -0,0 +1,200 @@
+/**
+ * 多语言指南的译本分组与 hreflang 互链
+ * 同一 translationKey 的各语言页面来自历史记录、静态站 sitemap-entries.json 与 Sanity 文档；
+ * 新译本渲染时写入完整的 hreflang 列表，发布后再同步到同组已发布的其他语言页面
+ */
+
+import { existsSync } from "node:fs";
+import { readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { getAllHistoryRecords } from "../state/historyStore.js";
+import type { GenerationRequestPayload } from "../types.js";
+import {
+  applyHreflangLinks,
+  buildHreflangAlternates,
+  normalizeTranslationKey,
+  splitLocalePrefix,
+  type HreflangAlternate,
+} from "../utils/locale.js";
+import { createSanityWriteClient, updateSanityHreflang } from "./sanityPublisher.js";
+import { sanitizeSensitive } from "../utils/sanitize.js";
+
+export interface TranslationPage {
+  locale: string;
+  url: string;
+}
+
+function siteOrigin(url: string): string {
+  try {
+    return new URL(url).origin.toLowerCase();
+  } catch {
+    return "";
+  }
+}
+
+function pathUnderBase(url: string, baseUrl: string): string | null {
+  const base = (baseUrl || "").replace(/\/+$/, "");
+  if (!base || !url.toLowerCase().startsWith(`${base.toLowerCase()}/`)) return null;
+  return url.slice(base.length).replace(/[?#].*$/, "").replace(/^\/+|\/+$/g, "");
+}
+
+function staticConfig(payload: GenerationRequestPayload) {
+  return {
+    outputDir: payload.staticPublish?.outputDir || process.env.STATIC_PUBLISH_DIR || "",
+    baseUrl: (payload.staticPublish?.baseUrl || process.env.STATIC_BASE_URL || "").replace(/\/+$/, ""),
+  };
+}
+
+function sanityConfig(payload: GenerationRequestPayload) {
+  return {
+    projectId: payload.sanity?.projectId || process.env.SANITY_PROJECT_ID || "",
+    dataset: payload.sanity?.dataset || process.env.SANITY_DATASET || "",
+    token: payload.sanity?.token || process.env.SANITY_API_TOKEN || "",
+    apiVersion: payload.sanity?.apiVersion || process.env.SANITY_API_VERSION || "2024-01-01",
+    docType: payload.sanity?.docType || process.env.SANITY_DOC_TYPE || "luxuryLifeGuide",
+    baseUrl: (payload.sanity?.baseUrl || process.env.SANITY_BASE_URL || "").replace(/\/+$/, ""),
+  };
+}
+
+async function historyTranslations(translationKey: string, baseUrl: string): Promise<TranslationPage[]> {
+  const history = await getAllHistoryRecords();
+  return history
+    .filter((record) => record.status === "completed" && record.pageUrl)
+    .map((record) => {
+      // 早期记录没有语言字段：分组取 URL 的基础 slug，语言取路径前缀
+      const pagePath = pathUnderBase(record.pageUrl!, baseUrl) ?? record.pageUrl!;
+      return {
+        key: record.translationKey || normalizeTranslationKey(pagePath),
+        locale: record.locale || splitLocalePrefix(pagePath).locale.code,
+        url: record.pageUrl!,
+      };
+    })
+    .filter((page) => page.key === translationKey)
+    .map(({ locale, url }) => ({ locale, url }));
+}
+
+async function staticTranslations(payload: GenerationRequestPayload, translationKey: string): Promise<TranslationPage[]> {
+  const { outputDir, baseUrl } = staticConfig(payload);
+  const entriesPath = outputDir ? path.join(path.resolve(outputDir), "sitemap-entries.json") : "";
+  if (!entriesPath || !existsSync(entriesPath)) return [];
+  const entries = JSON.parse(await readFile(entriesPath, "utf-8")) as Array<{
+    loc?: string;
+    locale?: string;
+    translationKey?: string;
+  }>;
+  return (Array.isArray(entries) ? entries : [])
+    .filter((entry) => typeof entry?.loc === "string")
+    .map((entry) => {
+      const pagePath = pathUnderBase(entry.loc!, baseUrl) ?? entry.loc!;
+      return {
+        key: entry.translationKey || normalizeTranslationKey(pagePath),
+        locale: entry.locale || splitLocalePrefix(pagePath).locale.code,
+        url: entry.loc!,
+      };
+    })
+    .filter((page) => page.key === translationKey)
+    .map(({ locale, url }) => ({ locale, url }));
+}
+
+async function sanityTranslations(
+  payload: GenerationRequestPayload,
+  translationKey: string
+): Promise<Array<TranslationPage & { documentId: string }>> {
+  const config = sanityConfig(payload);
+  if (!config.projectId || !config.dataset || !config.token || !config.baseUrl) return [];
+  const docs = await createSanityWriteClient(config).fetch<Array<{ _id: string; slug?: string; locale?: string }>>(
+    `*[_type == $docType && translationKey == $translationKey && defined(slug.current)]{ _id, "slug": slug.current, locale }`,
+    { docType: config.docType, translationKey }
+  );
+  return (docs || []).map((doc) => ({
+    documentId: doc._id,
+    locale: doc.locale || splitLocalePrefix(doc.slug || "").locale.code,
+    url: `${config.baseUrl}/${(doc.slug || "").replace(/^\/+|\/+$/g, "")}/`,
+  }));
+}
+
+/**
+ * refresh 时沿用原页面记录的 translationKey（历史记录中没有则返回空字符串）
+ */
+export async function findStoredTranslationKey(pageUrl: string): Promise<string> {
+  const target = pageUrl.replace(/\/+$/, "").toLowerCase();
+  const history = await getAllHistoryRecords();
+  const record = history.find(
+    (r) => r.status === "completed" && r.translationKey && (r.pageUrl || "").replace(/\/+$/, "").toLowerCase() === target
+  );
+  return record?.translationKey || "";
+}
+
+/**
+ * 本页与同组其他语言版本的 hreflang 列表（只取与本页同一站点的页面；同一语言以本页为准）
+ * @returns 少于两种语言时为空数组
+ */
+export async function resolveHreflangAlternates(
+  payload: GenerationRequestPayload,
+  page: { locale: string; translationKey: string; url: string }
+): Promise<HreflangAlternate[]> {
+  const target = payload.publishTarget ?? "wordpress";
+  const siteBaseUrl = target === "sanity" ? sanityConfig(payload).baseUrl : staticConfig(payload).baseUrl;
+  const origin = siteOrigin(page.url);
+  const siblings: TranslationPage[] = [];
+  const sources: Array<() => Promise<TranslationPage[]>> = [
+    () => historyTranslations(page.translationKey, siteBaseUrl),
+    ...(target === "static" ? [() => staticTranslations(payload, page.translationKey)] : []),
+    ...(target === "sanity" ? [() => sanityTranslations(payload, page.translationKey)] : []),
+  ];
+  for (const load of sources) {
+    try {
+      siblings.push(...(await load()));
+    } catch (error) {
+      console.warn("[Translations] 读取译本失败:", sanitizeSensitive(error));
+    }
+  }
+  return buildHreflangAlternates([
+    { locale: page.locale, url: page.url },
+    ...siblings.filter((sibling) => siteOrigin(sibling.url) === origin),
+  ]);
+}
+
+/**
+ * 把 hreflang 列表同步到同组已发布的其他语言页面（static 改写 <head>，sanity 更新 hreflang 字段）
+ * @param translationKey 页面渲染时使用的 translationKey（refresh 时取自已发布页面，可能与 URL slug 不同）
+ * @returns 已更新的页面 URL
+ */
+export async function syncTranslationSiblings(
+  payload: GenerationRequestPayload,
+  selfUrl: string,
+  translationKey: string | undefined,
+  alternates: HreflangAlternate[]
+): Promise<string[]> {
+  const target = payload.publishTarget ?? "wordpress";
+  const selfKey = selfUrl.replace(/\/+$/, "").toLowerCase();
+  const siblingUrls = alternates
+    .filter((alt) => alt.hreflang !== "x-default" && alt.href.replace(/\/+$/, "").toLowerCase() !== selfKey)
+    .map((alt) => alt.href);
+  if (siblingUrls.length === 0) return [];
+
+  const updated: string[] = [];
+  if (target === "static") {
+    const { outputDir, baseUrl } = staticConfig(payload);
+    for (const url of siblingUrls) {
+      const slug = pathUnderBase(url, baseUrl);
+      const filePath = slug ? path.join(path.resolve(outputDir), slug, "index.html") : "";
+      if (!filePath || !existsSync(filePath)) continue;
+      const html = await readFile(filePath, "utf-8");
+      const next = applyHreflangLinks(html, alternates);
+      if (next !== html) {
+        await writeFile(filePath, next, "utf-8");
+        updated.push(url);
+      }
+    }
+  } else if (target === "sanity") {
+    const config = sanityConfig(payload);
+    const docs = await sanityTranslations(payload, normalizeTranslationKey(translationKey || selfUrl));
+    for (const doc of docs) {
+      if (!siblingUrls.some((url) => url.replace(/\/+$/, "") === doc.url.replace(/\/+$/, ""))) continue;
+      await updateSanityHreflang(config, doc.documentId, alternates);
+      updated.push(doc.url);
+    }
+  }
+  return updated;
+}
@@ -1,5 +1,7 @@
-import axios from "axios";
+import axios, { type AxiosInstance } from "axios";
 import type { ProductFetchResult, ProductSummary } from "../types.js";
+import type { ProductLinkStatus } from "../utils/linkAudit.js";
+import { sanitizeSensitive } from "../utils/sanitize.js";
 
 const STOP_WORDS = new Set([
   "best",
@@ -123,7 +125,7 @@ export interface WordpressCredentials {
   consumerSecret?: string;
 }
 
-function createClient({ url, username, appPassword }: WordpressCredentials) {
+function createClient({ url, username, appPassword }: WordpressCredentials, signal?: AbortSignal) {
   if (!url) {
     throw new Error("WordPress URL is required");
   }
@@ -206,6 +208,7 @@ function createClient({ url, username, appPassword }: WordpressCredentials) {
     proxy: proxyConfig,
     // 确保正确处理 HTTPS
     httpsAgent: undefined, // 使用默认的 HTTPS agent
+    signal,
   });
 
   return client;
@@ -363,7 +366,8 @@ export async function searchProductsByName(
 export async function fetchRelatedProducts(
   credentials: WordpressCredentials,
   keyword: string,
-  targetCategory?: string
+  targetCategory?: string,
+  signal?: AbortSignal // 可选：任务取消信号，中断进行中的产品请求
 ): Promise<ProductFetchResult> {
   // WooCommerce 使用自己的 REST API 命名空间和认证方式
   // 支持两种认证方式：
@@ -474,6 +478,7 @@ export async function fetchRelatedProducts(
             },
             proxy: proxyConfig,
             httpsAgent: undefined,
+            signal,
           });
         } else {
           client = axios.create({
@@ -483,6 +488,7 @@ export async function fetchRelatedProducts(
             },
             proxy: proxyConfig,
             httpsAgent: undefined,
+            signal,
           });
         }
         
@@ -683,6 +689,7 @@ export async function fetchRelatedProducts(
           },
           proxy: proxyConfig,
           httpsAgent: undefined,
+          signal,
         });
 
         const result = await fetchWooCommerceProducts(
@@ -717,6 +724,7 @@ export async function fetchRelatedProducts(
         },
         proxy: proxyConfig,
         httpsAgent: undefined,
+        signal,
       });
 
       if (endpoint.name.startsWith("WooCommerce")) {
@@ -2023,6 +2031,7 @@ export interface PublishPageInput {
   slug: string;
   htmlContent: string;
   useElementor?: boolean; // 是否使用 Elementor 保存页面
+  signal?: AbortSignal; // 可选：任务取消信号；取消时删除本次新建的页面
 }
 
 /**
@@ -2045,111 +2054,273 @@ function convertHtmlToElementorFormat(htmlContent: string): string {
   return JSON.stringify(elementorData);
 }
 
-export async function publishPage({ credentials, title, slug, htmlContent, useElementor = false }: PublishPageInput) {
-  const client = createClient(credentials);
+/**
+ * 删除页面（跳过回收站），用于清理已取消任务留下的半成品页面
+ */
+export async function deletePage(credentials: WordpressCredentials, pageId: number): Promise<boolean> {
   try {
-    // 处理slug：如果包含路径分隔符，提取实际的slug部分
-    // 例如：luxury-life-guides/complete-guide-to-sleep-ring -> complete-guide-to-sleep-ring
-    let actualSlug = slug;
-    let urlPrefix = "";
-    
-    if (slug.includes("/")) {
-      const parts = slug.split("/");
-      if (parts.length >= 2 && parts[0] === "luxury-life-guides") {
-        // 提取实际的slug（去掉前缀部分）
-        actualSlug = parts.slice(1).join("-"); // 将剩余部分用连字符连接
-        urlPrefix = "luxury-life-guides";
-        console.log(`[WordPress] 📁 使用自定义URL前缀: ${urlPrefix}/${actualSlug}`);
-      } else {
-        // 如果格式不对，使用整个slug（去掉斜杠）
-        actualSlug = slug.replace(/\//g, "-");
-        console.warn(`[WordPress] ⚠️ Slug包含斜杠但格式不正确，转换为: ${actualSlug}`);
-      }
-    } else if (slug.startsWith("luxury-life-guides-")) {
-      // 如果slug以 "luxury-life-guides-" 开头，提取实际部分
-      actualSlug = slug.replace(/^luxury-life-guides-/, "");
-      urlPrefix = "luxury-life-guides";
-      console.log(`[WordPress] 📁 从slug中提取URL前缀: ${urlPrefix}/${actualSlug}`);
-    } else {
-      // 如果slug不包含前缀，添加前缀标记
-      urlPrefix = "luxury-life-guides";
-      console.log(`[WordPress] 📁 为页面添加URL前缀: ${urlPrefix}/${actualSlug}`);
+    const client = createClient(credentials);
+    await client.delete(`/pages/${pageId}`, { params: { force: true } });
+    console.log(`[WordPress] 🗑️ 已删除页面 ID: ${pageId}`);
+    return true;
+  } catch (error: any) {
+    console.warn(`[WordPress] ⚠️ 删除页面 ${pageId} 失败:`, error.response?.status || error.message);
+    return false;
+  }
+}
+
+/**
+ * 发布页面；任务被取消时删除本次已创建的页面，避免留下半成品草稿
+ */
+export async function publishPage(input: PublishPageInput) {
+  let createdPageId: number | undefined;
+  try {
+    const page = await createPage(input, (pageId) => {
+      createdPageId = pageId;
+    });
+    input.signal?.throwIfAborted();
+    return page;
+  } catch (error) {
+    if (input.signal?.aborted && createdPageId) {
+      await deletePage(input.credentials, createdPageId);
     }
-    // WordPress REST API 默认会过滤 HTML，移除 <style> 和 <script> 标签
-    // 我们需要提取 <body> 内容，并将 <style> 和 <script> 内联到内容中
-    // 或者使用 WordPress 的 content.raw 字段（如果支持）
-    
-    // 检查是否是完整的 HTML 文档
-    const isFullHtmlDocument = htmlContent.trim().startsWith('<!DOCTYPE') || htmlContent.trim().startsWith('<html');
-    
-    let contentToSave = htmlContent;
-    
-    if (isFullHtmlDocument) {
-      // 提取 <head> 中的 <style> 和 <script>
-      const styleMatch = htmlContent.match(/<style[^>]*>([\s\S]*?)<\/style>/gi);
-      const scriptMatch = htmlContent.match(/<script[^>]*>([\s\S]*?)<\/script>/gi);
-      
-      // 提取 <body> 内容（不包含 <body> 标签本身）
-      const bodyMatch = htmlContent.match(/<body[^>]*>([\s\S]*?)<\/body>/i);
-      const bodyContent = bodyMatch ? bodyMatch[1] : htmlContent;
-      
-      // 将 <style> 和 <script> 内联到 body 内容中
-      let styles = '';
-      if (styleMatch) {
-        styles = styleMatch.map(style => {
-          // 保持原始的 <style> 标签和内容，确保没有额外的换行
-          return style.trim();
-        }).join('\n');
-      }
-      
-      let scripts = '';
-      if (scriptMatch) {
-        scripts = scriptMatch.map(script => {
-          // 保持原始的 <script> 标签和内容，确保没有额外的换行
-          return script.trim();
-        }).join('\n');
-      }
-      
-      // 组合内容：样式在开头，脚本在结尾
-      // 注意：WordPress REST API 不支持 HTML 块格式（<!-- wp:html -->），
-      // 因为 REST API 使用的是不同的内容处理方式，HTML 块格式会被移除
-      // 我们需要直接保存 HTML，依赖用户的 'unfiltered_html' 权限来保留 <style> 和 <script> 标签
-      const rawHtml = (styles ? styles + '\n' : '') + bodyContent.trim() + (scripts ? '\n' + scripts : '');
-      
-      // 直接保存 HTML，不包装在 HTML 块格式中
-      // WordPress REST API 会处理内容，但如果我们有 'unfiltered_html' 权限，样式和脚本会被保留
-      contentToSave = rawHtml;
-      
-      console.log(`[WordPress] 提取 HTML 文档: styles=${styleMatch?.length || 0}, scripts=${scriptMatch?.length || 0}, bodyLength=${bodyContent.length}`);
-      console.log(`[WordPress] 组合后的内容长度: ${contentToSave.length}`);
-      console.log(`[WordPress] 直接保存 HTML（不包装在 HTML 块格式中，因为 REST API 不支持）`);
-      console.log(`[WordPress] ⚠️ 重要：确保 WordPress 用户有 'unfiltered_html' 权限，否则 <style> 和 <script> 标签会被过滤`);
-      
-      // 检查组合后的内容是否包含实际数据
-      if (bodyContent.includes('product-card')) {
-        console.log(`[WordPress] ✅ Body 内容包含产品卡片结构`);
+    throw error;
+  }
+}
+
+/**
+ * 按发布 slug（可带 luxury-life-guides/ 前缀）查找已有页面，包含草稿；找不到返回 null
+ */
+export async function findPageBySlug(
+  credentials: WordpressCredentials,
+  slug: string,
+  signal?: AbortSignal
+): Promise<any | null> {
+  const client = createClient(credentials, signal);
+  const { actualSlug } = resolveWordpressSlug(slug);
+  const response = await client.get("/pages", {
+    params: {
+      slug: actualSlug,
+      status: "publish,draft,pending,private,future",
+      context: "edit",
+      per_page: 1,
+    },
+  });
+  return Array.isArray(response.data) && response.data.length > 0 ? response.data[0] : null;
+}
+
+/**
+ * 读取页面当前的 HTML：Elementor 页面取 HTML Widget 内容，否则取 content.raw
+ */
+export function extractPageHtml(page: any): string {
+  const elementorData = page?.meta?._elementor_data;
+  if (typeof elementorData === "string" && elementorData.trim()) {
+    try {
+      const widgets = JSON.parse(elementorData);
+      const html = Array.isArray(widgets) ? widgets[0]?.settings?.html : undefined;
+      if (typeof html === "string" && html.trim()) return html;
+    } catch {
+      /* 非本工具写入的 Elementor 数据，回退到 content */
+    }
+  }
+  return page?.content?.raw || page?.content?.rendered || "";
+}
+
+export interface RefreshPageInput extends PublishPageInput {
+  /** 写入 _content_version 自定义字段（需 WordPress 端注册该 meta 才会保存） */
+  contentVersion: number;
+}
+
+export interface RefreshPageResult {
+  page: any;
+  previousHtml: string;
+  previousTitle: string;
+}
+
+/**
+ * 原地更新已有页面（按 slug 查找）；页面不存在时返回 null，由调用方决定是否新建。
+ * 任务被取消时恢复更新前的内容。
+ */
+export async function refreshPage(input: RefreshPageInput): Promise<RefreshPageResult | null> {
+  const { credentials, title, slug, htmlContent, useElementor = false, contentVersion, signal } = input;
+  const existing = await findPageBySlug(credentials, slug, signal);
+  if (!existing?.id) {
+    return null;
+  }
+  signal?.throwIfAborted();
+
+  const pageId: number = existing.id;
+  const previousHtml = extractPageHtml(existing);
+  const previousTitle: string = existing.title?.raw || existing.title?.rendered || "";
+  const { contentToSave } = prepareWordpressContent(htmlContent);
+  const client = createClient(credentials, signal);
+  console.log(`[WordPress] ♻️ 原地更新页面 ID: ${pageId}, slug=${existing.slug}, contentVersion=${contentVersion}`);
+
+  const save = async (pageClient: AxiosInstance, html: string, pageTitle: string, version?: number) => {
+    const meta: Record<string, unknown> = {};
+    if (version !== undefined) meta._content_version = version;
+    if (useElementor) {
+      meta._elementor_data = convertHtmlToElementorFormat(html);
+      meta._elementor_edit_mode = "builder";
+      try {
+        return await pageClient.put(`/pages/${pageId}`, { title: pageTitle, meta });
+      } catch (metaError: any) {
+        // 与新建页面一致：Elementor 元数据写入失败时回退到标准 content 字段
+        console.warn(`[WordPress] ⚠️ Elementor 元数据更新失败，回退到标准方式:`, metaError.message);
+        delete meta._elementor_data;
+        delete meta._elementor_edit_mode;
       }
-      if (bodyContent.includes('{{')) {
-        console.warn(`[WordPress] ⚠️ Body 内容仍包含 Handlebars 占位符，模板可能未正确渲染`);
+    }
+    return pageClient.put(`/pages/${pageId}`, { title: pageTitle, content: html, meta });
+  };
+
+  let updated = false;
+  try {
+    // 未提供标题时沿用原标题
+    const response = await save(client, contentToSave, title || previousTitle, contentVersion);
+    updated = true;
+    signal?.throwIfAborted();
+    console.log(`[WordPress] ✅ 页面已原地更新: ID=${pageId}, URL=${response.data?.link || "未提供"}`);
+    return { page: response.data, previousHtml, previousTitle };
+  } catch (error) {
+    if (signal?.aborted && updated) {
+      try {
+        // 原 client 绑定了已取消的信号，恢复时使用新的 client
+        await save(createClient(credentials), previousHtml, previousTitle);
+        console.log(`[WordPress] ↩️ 任务已取消，已恢复页面 ${pageId} 更新前的内容`);
+      } catch (restoreError: any) {
+        console.warn(`[WordPress] ⚠️ 恢复页面 ${pageId} 失败:`, restoreError.response?.status || restoreError.message);
       }
-    } else {
-      // 如果不是完整的 HTML 文档，直接保存
-      contentToSave = htmlContent.trim();
-      console.log(`[WordPress] 非完整 HTML 文档，直接保存`);
     }
+    throw error;
+  }
+}
+
+/**
+ * 解析发布 slug：去掉 luxury-life-guides/ 前缀得到 WordPress 实际 slug，前缀写入 _custom_url_prefix
+ */
+function resolveWordpressSlug(slug: string): { actualSlug: string; urlPrefix: string } {
+  // 处理slug：如果包含路径分隔符，提取实际的slug部分
+  // 例如：luxury-life-guides/complete-guide-to-sleep-ring -> complete-guide-to-sleep-ring
+  let actualSlug = slug;
+  let urlPrefix = "";
+  
+  if (slug.includes("/")) {
+    const parts = slug.split("/");
+    if (parts.length >= 2 && parts[0] === "luxury-life-guides") {
+      // 提取实际的slug（去掉前缀部分）
+      actualSlug = parts.slice(1).join("-"); // 将剩余部分用连字符连接
+      urlPrefix = "luxury-life-guides";
+      console.log(`[WordPress] 📁 使用自定义URL前缀: ${urlPrefix}/${actualSlug}`);
+    } else {
+      // 如果格式不对，使用整个slug（去掉斜杠）
+      actualSlug = slug.replace(/\//g, "-");
+      console.warn(`[WordPress] ⚠️ Slug包含斜杠但格式不正确，转换为: ${actualSlug}`);
+    }
+  } else if (slug.startsWith("luxury-life-guides-")) {
+    // 如果slug以 "luxury-life-guides-" 开头，提取实际部分
+    actualSlug = slug.replace(/^luxury-life-guides-/, "");
+    urlPrefix = "luxury-life-guides";
+    console.log(`[WordPress] 📁 从slug中提取URL前缀: ${urlPrefix}/${actualSlug}`);
+  } else {
+    // 如果slug不包含前缀，添加前缀标记
+    urlPrefix = "luxury-life-guides";
+    console.log(`[WordPress] 📁 为页面添加URL前缀: ${urlPrefix}/${actualSlug}`);
+  }
+  return { actualSlug, urlPrefix };
+}
+
+/**
+ * 将渲染好的 HTML 转为 WordPress 可保存的内容（完整文档时把 <style>/<script> 内联到 body 内容中）
+ */
+function prepareWordpressContent(htmlContent: string): { contentToSave: string; isFullHtmlDocument: boolean } {
+  // WordPress REST API 默认会过滤 HTML，移除 <style> 和 <script> 标签
+  // 我们需要提取 <body> 内容，并将 <style> 和 <script> 内联到内容中
+  // 或者使用 WordPress 的 content.raw 字段（如果支持）
+  
+  // 检查是否是完整的 HTML 文档
+  const isFullHtmlDocument = htmlContent.trim().startsWith('<!DOCTYPE') || htmlContent.trim().startsWith('<html');
+  
+  let contentToSave = htmlContent;
+  
+  if (isFullHtmlDocument) {
+    // 提取 <head> 中的 <style> 和 <script>
+    const styleMatch = htmlContent.match(/<style[^>]*>([\s\S]*?)<\/style>/gi);
+    const scriptMatch = htmlContent.match(/<script[^>]*>([\s\S]*?)<\/script>/gi);
+    
+    // 提取 <body> 内容（不包含 <body> 标签本身）
+    const bodyMatch = htmlContent.match(/<body[^>]*>([\s\S]*?)<\/body>/i);
+    const bodyContent = bodyMatch ? bodyMatch[1] : htmlContent;
+    
+    // 将 <style> 和 <script> 内联到 body 内容中
+    let styles = '';
+    if (styleMatch) {
+      styles = styleMatch.map(style => {
+        // 保持原始的 <style> 标签和内容，确保没有额外的换行
+        return style.trim();
+      }).join('\n');
+    }
+    
+    let scripts = '';
+    if (scriptMatch) {
+      scripts = scriptMatch.map(script => {
+        // 保持原始的 <script> 标签和内容，确保没有额外的换行
+        return script.trim();
+      }).join('\n');
+    }
+    
+    // 组合内容：样式在开头，脚本在结尾
+    // 注意：WordPress REST API 不支持 HTML 块格式（<!-- wp:html -->），
+    // 因为 REST API 使用的是不同的内容处理方式，HTML 块格式会被移除
+    // 我们需要直接保存 HTML，依赖用户的 'unfiltered_html' 权限来保留 <style> 和 <script> 标签
+    const rawHtml = (styles ? styles + '\n' : '') + bodyContent.trim() + (scripts ? '\n' + scripts : '');
+    
+    // 直接保存 HTML，不包装在 HTML 块格式中
+    // WordPress REST API 会处理内容，但如果我们有 'unfiltered_html' 权限，样式和脚本会被保留
+    contentToSave = rawHtml;
+    
+    console.log(`[WordPress] 提取 HTML 文档: styles=${styleMatch?.length || 0}, scripts=${scriptMatch?.length || 0}, bodyLength=${bodyContent.length}`);
+    console.log(`[WordPress] 组合后的内容长度: ${contentToSave.length}`);
+    console.log(`[WordPress] 直接保存 HTML（不包装在 HTML 块格式中，因为 REST API 不支持）`);
+    console.log(`[WordPress] ⚠️ 重要：确保 WordPress 用户有 'unfiltered_html' 权限，否则 <style> 和 <script> 标签会被过滤`);
+    
+    // 检查组合后的内容是否包含实际数据
+    if (bodyContent.includes('product-card')) {
+      console.log(`[WordPress] ✅ Body 内容包含产品卡片结构`);
+    }
+    if (bodyContent.includes('{{')) {
+      console.warn(`[WordPress] ⚠️ Body 内容仍包含 Handlebars 占位符，模板可能未正确渲染`);
+    }
+  } else {
+    // 如果不是完整的 HTML 文档，直接保存
+    contentToSave = htmlContent.trim();
+    console.log(`[WordPress] 非完整 HTML 文档，直接保存`);
+  }
+  
+  // 发布前最终检查
+  const hasUnrenderedPlaceholders = contentToSave.includes('{{') || contentToSave.includes('{{{');
+  if (hasUnrenderedPlaceholders) {
+    console.error(`[WordPress] ❌ 错误：发布前检查发现内容仍包含 Handlebars 占位符！`);
+    console.error(`[WordPress] 这意味着模板渲染失败，数据没有被正确替换`);
+    console.error(`[WordPress] 内容预览（前 1000 字符）:`);
+    console.error(contentToSave.substring(0, 1000));
+    throw new Error('模板渲染失败：内容仍包含未替换的 Handlebars 占位符。请检查模板和数据是否正确传递。');
+  }
+
+  return { contentToSave, isFullHtmlDocument };
+}
+
+async function createPage(
+  { credentials, title, slug, htmlContent, useElementor = false, signal }: PublishPageInput,
+  onCreated: (pageId: number) => void
+) {
+  const client = createClient(credentials, signal);
+  try {
+    const { actualSlug, urlPrefix } = resolveWordpressSlug(slug);
+    const { contentToSave, isFullHtmlDocument } = prepareWordpressContent(htmlContent);
     
     console.log(`[WordPress] 发布页面: title=${title}, slug=${slug}, contentLength=${contentToSave.length}, isFullHtml=${isFullHtmlDocument}`);
     
-    // 发布前最终检查
-    const hasUnrenderedPlaceholders = contentToSave.includes('{{') || contentToSave.includes('{{{');
-    if (hasUnrenderedPlaceholders) {
-      console.error(`[WordPress] ❌ 错误：发布前检查发现内容仍包含 Handlebars 占位符！`);
-      console.error(`[WordPress] 这意味着模板渲染失败，数据没有被正确替换`);
-      console.error(`[WordPress] 内容预览（前 1000 字符）:`);
-      console.error(contentToSave.substring(0, 1000));
-      throw new Error('模板渲染失败：内容仍包含未替换的 Handlebars 占位符。请检查模板和数据是否正确传递。');
-    }
-    
     // WordPress REST API 的 content 字段是字符串
     // 需要确保 WordPress 用户有 'unfiltered_html' 权限才能保存 <style> 和 <script> 标签
     // 如果没有权限，WordPress 会过滤掉这些标签
@@ -2199,6 +2370,7 @@ export async function publishPage({ credentials, title, slug, htmlContent, useEl
           
           response = await client.post("/pages", pageData);
           const pageId = response.data.id;
+          onCreated(pageId);
           console.log(`[WordPress] ✅ WordPress 页面创建成功，ID: ${pageId}`);
           
           // 验证URL前缀是否已设置（如果创建时设置失败，尝试更新）
@@ -2349,6 +2521,7 @@ export async function publishPage({ credentials, title, slug, htmlContent, useEl
           
           response = await client.post("/pages", pageData);
           const pageId = response.data.id;
+          onCreated(pageId);
           console.log(`[WordPress] ✅ 使用 content.raw 字段保存成功, ID: ${pageId}`);
           
           // 如果meta字段未成功设置，尝试使用PUT方法更新
@@ -2391,6 +2564,7 @@ export async function publishPage({ credentials, title, slug, htmlContent, useEl
           
           response = await client.post("/pages", pageData);
           const pageId = response.data.id;
+          onCreated(pageId);
           console.log(`[WordPress] ✅ 使用标准 content 字段保存成功, ID: ${pageId}`);
           
           // 如果meta字段未成功设置，尝试使用PUT方法更新
@@ -2418,7 +2592,7 @@ export async function publishPage({ credentials, title, slug, htmlContent, useEl
       if (errorStatus === 400) {
         // 400 错误可能是内容格式问题
         console.error(`[WordPress] ❌ 400 错误：内容格式可能有问题`);
-        console.error(`[WordPress] 错误详情:`, errorData);
+        console.error(`[WordPress] 错误详情:`, sanitizeSensitive(errorData));
         throw new Error(`WordPress API 返回 400 错误。可能的原因：
 1. 内容格式不正确
 2. WordPress 用户没有 'unfiltered_html' 权限
@@ -2688,3 +2862,40 @@ ${solution}
     throw error;
   }
 }
+
+/**
+ * 按 slug 查询 WooCommerce 商品现状（链接审计用）：不存在或未发布为 missing，stock_status=outofstock 为 out_of_stock
+ * 需要 WooCommerce Consumer Key/Secret（环境变量或凭据）
+ */
+export async function checkWooProductSlugs(
+  credentials: WordpressCredentials,
+  slugs: string[]
+): Promise<Record<string, ProductLinkStatus>> {
+  const consumerKey = process.env.WOOCOMMERCE_CONSUMER_KEY || credentials.consumerKey;
+  const consumerSecret = process.env.WOOCOMMERCE_CONSUMER_SECRET || credentials.consumerSecret;
+  if (!credentials.url?.trim() || !consumerKey || !consumerSecret) {
+    throw new Error("WooCommerce product check requires WORDPRESS_URL and WOOCOMMERCE_CONSUMER_KEY / WOOCOMMERCE_CONSUMER_SECRET");
+  }
+  let baseURL = credentials.url.trim();
+  if (!baseURL.startsWith("http://") && !baseURL.startsWith("https://")) {
+    baseURL = `https://${baseURL}`;
+  }
+  const client = axios.create({
+    baseURL: `${baseURL.replace(/\/+$/, "")}/wp-json/wc/v3`,
+    auth: { username: consumerKey, password: consumerSecret },
+    timeout: 30000,
+  });
+
+  const statuses: Record<string, ProductLinkStatus> = {};
+  for (const slug of Array.from(new Set(slugs.filter(Boolean)))) {
+    const response = await client.get("/products", { params: { slug, status: "any", per_page: 1 } });
+    const product = Array.isArray(response.data) ? response.data[0] : undefined;
+    statuses[slug] =
+      !product || product.status !== "publish"
+        ? "missing"
+        : String(product.stock_status).toLowerCase() === "outofstock"
+          ? "out_of_stock"
+          : "available";
+  }
+  return statuses;
+}
@@ -0,0 +1,282 @@
+import { randomUUID } from "crypto";
+import { EventEmitter } from "events";
+import { promises as fs } from "fs";
+import { dirname } from "path";
+import type {
+  BatchEvent,
+  BatchJob,
+  BatchRow,
+  BatchRowInput,
+  BatchStatus,
+  GenerationRequestPayload,
+  TaskEvent,
+} from "../types.js";
+import { stripPayloadSecrets } from "../utils/siteProfiles.js";
+import { eventsAfter, pushBounded } from "../utils/sse.js";
+import { sanitizeSensitive } from "../utils/sanitize.js";
+import { dataPath } from "./dataDir.js";
+
+// 批量任务文件路径
+const batchesFilePath = () => dataPath("batches.json");
+const MAX_BATCH_RECORDS = 200; // 最多保留200个批量任务
+const BATCH_EVENT_BUFFER_SIZE = 200; // 每个批量任务保留最近 200 条事件，供 SSE 断线重连补发
+
+// 内存缓存（最新的在前面）
+let batches: BatchJob[] = [];
+let isInitialized = false;
+let saveScheduled = false;
+
+// 批量事件流（不持久化）
+const batchEvents = new Map<string, BatchEvent[]>();
+const batchEventSeq = new Map<string, number>();
+const batchEventEmitter = new EventEmitter();
+batchEventEmitter.setMaxListeners(0);
+
+/**
+ * 确保数据目录存在
+ */
+async function ensureDataDirectory(): Promise<void> {
+  const dataDir = dirname(batchesFilePath());
+  try {
+    await fs.access(dataDir);
+  } catch {
+    await fs.mkdir(dataDir, { recursive: true });
+  }
+}
+
+/**
+ * 从文件加载批量任务
+ */
+async function loadBatchesFromFile(): Promise<void> {
+  try {
+    await ensureDataDirectory();
+    const data = await fs.readFile(batchesFilePath(), "utf-8");
+    const parsed = JSON.parse(data);
+    batches = Array.isArray(parsed) ? parsed : [];
+    console.log(`[BatchStore] 已从文件加载 ${batches.length} 个批量任务`);
+  } catch (error: any) {
+    if (error.code === "ENOENT") {
+      batches = [];
+      console.log("[BatchStore] 批量任务文件不存在，使用空记录");
+    } else {
+      console.error("[BatchStore] 加载批量任务失败:", sanitizeSensitive(error));
+      batches = [];
+    }
+  }
+}
+
+/**
+ * 保存批量任务到文件（公共请求参数去掉凭据，续跑时由站点配置或环境变量补全）
+ */
+async function saveBatchesToFile(): Promise<void> {
+  try {
+    await ensureDataDirectory();
+    const records = batches.map((batch) =>
+      batch.basePayload ? { ...batch, basePayload: stripPayloadSecrets(batch.basePayload) } : batch
+    );
+    await fs.writeFile(batchesFilePath(), JSON.stringify(records, null, 2), "utf-8");
+  } catch (error) {
+    console.error("[BatchStore] 保存批量任务到文件失败:", sanitizeSensitive(error));
+    // 不抛出错误，避免影响主流程
+  }
+}
+
+/**
+ * 合并同一事件循环内的多次写入（批量行状态变化频繁）
+ */
+function scheduleSave(): void {
+  if (saveScheduled) return;
+  saveScheduled = true;
+  setImmediate(() => {
+    saveScheduled = false;
+    saveBatchesToFile().catch((error) => {
+      console.error("[BatchStore] 异步保存批量任务失败:", sanitizeSensitive(error));
+    });
+  });
+}
+
+/**
+ * 初始化批量任务存储（加载文件数据）
+ */
+export async function initializeBatchStore(): Promise<void> {
+  if (isInitialized) {
+    return;
+  }
+  await loadBatchesFromFile();
+  isInitialized = true;
+}
+
+export function createBatch(
+  inputs: BatchRowInput[],
+  basePayload: GenerationRequestPayload,
+  options: { concurrency: number }
+): BatchJob {
+  const now = Date.now();
+  const rows: BatchRow[] = inputs.map((input, index) => ({
+    ...input,
+    index,
+    status: "pending",
+  }));
+  const batch: BatchJob = {
+    id: randomUUID(),
+    status: "queued",
+    concurrency: options.concurrency,
+    publishTarget: basePayload.publishTarget ?? "wordpress",
+    basePayload,
+    rows,
+    createdAt: now,
+    updatedAt: now,
+  };
+  batches.unshift(batch);
+  if (batches.length > MAX_BATCH_RECORDS) {
+    batches = batches.slice(0, MAX_BATCH_RECORDS);
+  }
+  scheduleSave();
+  return batch;
+}
+
+export function getBatch(id: string): BatchJob | undefined {
+  return batches.find((b) => b.id === id);
+}
+
+/**
+ * 查找任务所属的批量行（审核决定后同步行状态）
+ */
+export function findBatchRowByTaskId(taskId: string): { batchId: string; row: BatchRow } | undefined {
+  for (const batch of batches) {
+    const row = batch.rows.find((r) => r.taskId === taskId);
+    if (row) return { batchId: batch.id, row };
+  }
+  return undefined;
+}
+
+export function listBatches(): BatchJob[] {
+  return [...batches];
+}
+
+export function setBatchStatus(id: string, status: BatchStatus): void {
+  const batch = getBatch(id);
+  if (!batch) return;
+  const now = Date.now();
+  batch.status = status;
+  batch.updatedAt = now;
+  if (status === "running" && !batch.startedAt) {
+    batch.startedAt = now;
+  }
+  if (status === "completed" || status === "interrupted") {
+    batch.finishedAt = now;
+  }
+  recordBatchEvent(id, { type: "batch", batchStatus: status });
+  scheduleSave();
+}
+
+export function updateBatchRow(
+  id: string,
+  index: number,
+  patch: Partial<Omit<BatchRow, "index" | "keyword">>
+): void {
+  const batch = getBatch(id);
+  const row = batch?.rows[index];
+  if (!batch || !row) return;
+  Object.assign(row, patch);
+  batch.updatedAt = Date.now();
+  if (patch.status) {
+    recordBatchEvent(id, {
+      type: "row",
+      rowIndex: index,
+      rowStatus: row.status,
+      taskId: row.taskId,
+      pageUrl: row.pageUrl,
+      error: row.error,
+    });
+  }
+  scheduleSave();
+}
+
+function recordBatchEvent(id: string, data: Omit<BatchEvent, "id" | "batchId" | "timestamp">): void {
+  const seq = (batchEventSeq.get(id) ?? 0) + 1;
+  batchEventSeq.set(id, seq);
+  const event: BatchEvent = { id: seq, batchId: id, timestamp: Date.now(), ...data };
+  const buffer = batchEvents.get(id) ?? [];
+  pushBounded(buffer, event, BATCH_EVENT_BUFFER_SIZE);
+  batchEvents.set(id, buffer);
+  batchEventEmitter.emit(id, event);
+}
+
+/**
+ * 转发行内任务的进度消息到批量事件流
+ */
+export function recordBatchTaskEvent(id: string, rowIndex: number, event: TaskEvent): void {
+  if (!getBatch(id)) return;
+  recordBatchEvent(id, {
+    type: "task",
+    rowIndex,
+    taskId: event.taskId,
+    taskStatus: event.status,
+    message: event.message,
+    pageUrl: event.pageUrl,
+    error: event.error,
+  });
+}
+
+/**
+ * 获取批量任务最近的事件；传入 afterId 时只返回之后的事件
+ */
+export function getBatchEvents(id: string, afterId?: number): BatchEvent[] {
+  return eventsAfter(batchEvents.get(id) ?? [], afterId);
+}
+
+/**
+ * 订阅批量任务事件
+ * @returns 取消订阅函数
+ */
+export function subscribeBatchEvents(id: string, listener: (event: BatchEvent) => void): () => void {
+  batchEventEmitter.on(id, listener);
+  return () => {
+    batchEventEmitter.off(id, listener);
+  };
+}
+
+/**
+ * 统计各状态的行数（用于接口返回与日志）
+ */
+export function summarizeBatch(batch: BatchJob): Record<BatchRow["status"], number> & { total: number } {
+  const summary = {
+    total: batch.rows.length,
+    pending: 0,
+    running: 0,
+    completed: 0,
+    failed: 0,
+    skipped: 0,
+    cancelled: 0,
+    awaiting_review: 0,
+    rejected: 0,
+  };
+  for (const row of batch.rows) {
+    summary[row.status] += 1;
+  }
+  return summary;
+}
+
+/**
+ * 服务重启后仍未跑完的批量任务
+ */
+export function getUnfinishedBatches(): BatchJob[] {
+  return batches.filter((b) => b.status === "queued" || b.status === "running");
+}
+
+/**
+ * 无法续跑的批量任务（旧数据缺少公共配置）标记为 interrupted
+ */
+export function markBatchInterrupted(id: string): void {
+  const batch = getBatch(id);
+  if (!batch) return;
+  for (const row of batch.rows) {
+    if (row.status === "running") {
+      row.status = "failed";
+      row.error = "服务重启，任务中断";
+      row.finishedAt = Date.now();
+    }
+  }
+  setBatchStatus(id, "interrupted");
+}
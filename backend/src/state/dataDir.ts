@@ -0,0 +1,17 @@
+import { join, dirname, resolve } from "path";
+import { fileURLToPath } from "url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// 默认数据目录 backend/data
+const DEFAULT_DATA_DIR = join(__dirname, "../../data");
+
+/**
+ * 运行时数据文件路径；设置 DATA_DIR 时写到该目录（如测试用的临时目录）
+ * 每次调用时读取环境变量，进程内改写 DATA_DIR 后立即生效
+ */
+export function dataPath(...segments: string[]): string {
+  const dataDir = process.env.DATA_DIR ? resolve(process.env.DATA_DIR) : DEFAULT_DATA_DIR;
+  return join(dataDir, ...segments);
+}
@@ -0,0 +1,56 @@
+import { promises as fs } from "fs";
+import { dirname } from "path";
+import type { ExperimentDefinition } from "../types.js";
+import { sanitizeSensitive } from "../utils/sanitize.js";
+import { dataPath } from "./dataDir.js";
+
+// 实验登记（数量少，整体读写）
+const experimentsFilePath = () => dataPath("experiments.json");
+
+let experiments: ExperimentDefinition[] | null = null;
+// 串行化写入，避免并发请求互相覆盖
+let writeChain: Promise<unknown> = Promise.resolve();
+
+/**
+ * 全部实验（首次调用时从文件加载）
+ */
+export async function listExperiments(): Promise<ExperimentDefinition[]> {
+  if (experiments) {
+    return experiments;
+  }
+  try {
+    const parsed = JSON.parse(await fs.readFile(experimentsFilePath(), "utf-8"));
+    experiments = Array.isArray(parsed) ? parsed : [];
+  } catch (error: any) {
+    if (error.code !== "ENOENT") {
+      console.error("[ExperimentStore] 加载实验登记失败:", sanitizeSensitive(error));
+    }
+    experiments = [];
+  }
+  return experiments;
+}
+
+export async function getExperiment(id: string): Promise<ExperimentDefinition | undefined> {
+  return (await listExperiments()).find((e) => e.id === id);
+}
+
+/**
+ * 新增或更新实验（按 id），保留原 createdAt
+ */
+export function saveExperiment(
+  experiment: Omit<ExperimentDefinition, "createdAt" | "updatedAt">
+): Promise<ExperimentDefinition> {
+  const run = writeChain.then(async () => {
+    const current = await listExperiments();
+    const existing = current.find((e) => e.id === experiment.id);
+    const now = Date.now();
+    const saved: ExperimentDefinition = { ...experiment, createdAt: existing?.createdAt ?? now, updatedAt: now };
+    const next = existing ? current.map((e) => (e.id === saved.id ? saved : e)) : [...current, saved];
+    await fs.mkdir(dirname(experimentsFilePath()), { recursive: true });
+    await fs.writeFile(experimentsFilePath(), JSON.stringify(next, null, 2), "utf-8");
+    experiments = next;
+    return saved;
+  });
+  writeChain = run.catch(() => undefined);
+  return run;
+}
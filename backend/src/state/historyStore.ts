@@ -1,14 +1,11 @@
 import type { TaskProgress } from "../types.js";
 import { promises as fs } from "fs";
-import { join, dirname } from "path";
-import { fileURLToPath } from "url";
-
-// 获取当前文件的目录路径
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
+import { dirname } from "path";
+import { sanitizeSensitive } from "../utils/sanitize.js";
+import { dataPath } from "./dataDir.js";
 
 // 历史记录文件路径
-const HISTORY_FILE_PATH = join(__dirname, "../../data/history.json");
+const historyFilePath = () => dataPath("history.json");
 const MAX_HISTORY_RECORDS = 1000; // 最多保存1000条历史记录
 
 // 内存缓存（提高读取性能）
@@ -19,7 +16,7 @@ let isInitialized = false;
  * 确保数据目录存在
  */
 async function ensureDataDirectory(): Promise<void> {
-  const dataDir = dirname(HISTORY_FILE_PATH);
+  const dataDir = dirname(historyFilePath());
   try {
     await fs.access(dataDir);
   } catch {
@@ -33,7 +30,7 @@ async function ensureDataDirectory(): Promise<void> {
 async function loadHistoryFromFile(): Promise<void> {
   try {
     await ensureDataDirectory();
-    const data = await fs.readFile(HISTORY_FILE_PATH, "utf-8");
+    const data = await fs.readFile(historyFilePath(), "utf-8");
     historyRecords = JSON.parse(data);
     if (!Array.isArray(historyRecords)) {
       historyRecords = [];
@@ -45,7 +42,7 @@ async function loadHistoryFromFile(): Promise<void> {
       historyRecords = [];
       console.log("[HistoryStore] 历史记录文件不存在，使用空记录");
     } else {
-      console.error("[HistoryStore] 加载历史记录失败:", error);
+      console.error("[HistoryStore] 加载历史记录失败:", sanitizeSensitive(error));
       historyRecords = [];
     }
   }
@@ -57,9 +54,9 @@ async function loadHistoryFromFile(): Promise<void> {
 async function saveHistoryToFile(): Promise<void> {
   try {
     await ensureDataDirectory();
-    await fs.writeFile(HISTORY_FILE_PATH, JSON.stringify(historyRecords, null, 2), "utf-8");
+    await fs.writeFile(historyFilePath(), JSON.stringify(historyRecords, null, 2), "utf-8");
   } catch (error) {
-    console.error("[HistoryStore] 保存历史记录到文件失败:", error);
+    console.error("[HistoryStore] 保存历史记录到文件失败:", sanitizeSensitive(error));
     // 不抛出错误，避免影响主流程
   }
 }
@@ -79,7 +76,12 @@ export async function initializeHistoryStore(): Promise<void> {
  * 保存历史记录（仅保存已完成的任务）
  */
 export async function saveHistoryRecord(task: TaskProgress) {
-  if (task.status === "completed" || task.status === "failed") {
+  if (
+    task.status === "completed" ||
+    task.status === "failed" ||
+    task.status === "cancelled" ||
+    task.status === "rejected"
+  ) {
     // 确保已初始化
     if (!isInitialized) {
       await initializeHistoryStore();
@@ -102,7 +104,7 @@ export async function saveHistoryRecord(task: TaskProgress) {
 
     // 异步保存到文件（不阻塞）
     saveHistoryToFile().catch((error) => {
-      console.error("[HistoryStore] 异步保存历史记录失败:", error);
+      console.error("[HistoryStore] 异步保存历史记录失败:", sanitizeSensitive(error));
     });
   }
 }
@@ -144,7 +146,7 @@ export async function searchHistoryRecords(keyword: string): Promise<TaskProgres
 /**
  * 根据状态筛选历史记录
  */
-export async function filterHistoryRecordsByStatus(status: "completed" | "failed"): Promise<TaskProgress[]> {
+export async function filterHistoryRecordsByStatus(status: "completed" | "failed" | "cancelled" | "rejected"): Promise<TaskProgress[]> {
   if (!isInitialized) {
     await initializeHistoryStore();
   }
@@ -0,0 +1,47 @@
+import { promises as fs } from "fs";
+import { dirname } from "path";
+import type { JobRunOutcome } from "../types.js";
+import { sanitizeSensitive } from "../utils/sanitize.js";
+import { dataPath } from "./dataDir.js";
+
+// 定时任务最近一次执行结果（重启后 GET /api/jobs 仍能看到上次运行情况）
+const jobsFilePath = () => dataPath("jobs.json");
+
+let lastOutcomes: Record<string, JobRunOutcome> = {};
+let isInitialized = false;
+
+/**
+ * 初始化定时任务存储（加载文件数据）
+ */
+export async function initializeJobStore(): Promise<void> {
+  if (isInitialized) {
+    return;
+  }
+  try {
+    const parsed = JSON.parse(await fs.readFile(jobsFilePath(), "utf-8"));
+    lastOutcomes = parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch (error: any) {
+    if (error.code !== "ENOENT") {
+      console.error("[JobStore] 加载定时任务记录失败:", sanitizeSensitive(error));
+    }
+    lastOutcomes = {};
+  }
+  isInitialized = true;
+}
+
+export function getLastJobOutcome(name: string): JobRunOutcome | undefined {
+  return lastOutcomes[name];
+}
+
+/**
+ * 记录一次执行结果并写入文件（写入失败只记日志）
+ */
+export async function saveJobOutcome(name: string, outcome: JobRunOutcome): Promise<void> {
+  lastOutcomes[name] = outcome;
+  try {
+    await fs.mkdir(dirname(jobsFilePath()), { recursive: true });
+    await fs.writeFile(jobsFilePath(), JSON.stringify(lastOutcomes, null, 2), "utf-8");
+  } catch (error) {
+    console.error("[JobStore] 保存定时任务记录失败:", sanitizeSensitive(error));
+  }
+}
@@ -0,0 +1,89 @@
+import { promises as fs } from "fs";
+import { dirname } from "path";
+import { DEFAULT_KNOWLEDGE_BASE_PRODUCTS } from "../knowledgeBase.js";
+import type { KnowledgeBaseDocument, KnowledgeBaseProduct, KnowledgeBaseRevision } from "../types.js";
+import { sanitizeSensitive } from "../utils/sanitize.js";
+import { dataPath } from "./dataDir.js";
+
+// 知识库产品记录（含历史版本）；文件不存在时使用 knowledgeBase.ts 中的内置产品
+const knowledgeBaseFilePath = () => dataPath("knowledge-base.json");
+const MAX_KNOWLEDGE_BASE_REVISIONS = 50; // 最多保留50个历史版本
+
+let document: KnowledgeBaseDocument | null = null;
+// 串行化写入，避免并发 PUT 互相覆盖
+let writeChain: Promise<unknown> = Promise.resolve();
+
+function defaultDocument(): KnowledgeBaseDocument {
+  return { version: 1, updatedAt: 0, products: DEFAULT_KNOWLEDGE_BASE_PRODUCTS, revisions: [] };
+}
+
+function sameContent(a: KnowledgeBaseProduct, b: KnowledgeBaseProduct): boolean {
+  return JSON.stringify({ ...a, updatedAt: undefined }) === JSON.stringify({ ...b, updatedAt: undefined });
+}
+
+/**
+ * 当前知识库（首次调用时从文件加载；文件损坏时记录日志并使用内置产品）
+ */
+export async function getKnowledgeBase(): Promise<KnowledgeBaseDocument> {
+  if (document) {
+    return document;
+  }
+  try {
+    const parsed = JSON.parse(await fs.readFile(knowledgeBaseFilePath(), "utf-8")) as KnowledgeBaseDocument;
+    document = Array.isArray(parsed?.products) ? { ...parsed, revisions: parsed.revisions ?? [] } : defaultDocument();
+  } catch (error: any) {
+    if (error.code !== "ENOENT") {
+      console.error("[KnowledgeBaseStore] 加载知识库失败，使用内置产品:", sanitizeSensitive(error));
+    }
+    document = defaultDocument();
+  }
+  return document;
+}
+
+export async function getKnowledgeBaseRevision(version: number): Promise<KnowledgeBaseRevision | undefined> {
+  return (await getKnowledgeBase()).revisions.find((r) => r.version === version);
+}
+
+/**
+ * 保存新的产品列表：旧列表存为历史版本，version 加 1
+ * @param expectedVersion 可选：与当前版本不一致时不保存（防止覆盖他人修改）
+ * @returns 保存后的知识库；版本冲突时返回 null
+ */
+export function saveKnowledgeBaseProducts(
+  products: KnowledgeBaseProduct[],
+  options: { note?: string; expectedVersion?: number } = {}
+): Promise<KnowledgeBaseDocument | null> {
+  const run = writeChain.then(async () => {
+    const current = await getKnowledgeBase();
+    if (options.expectedVersion !== undefined && options.expectedVersion !== current.version) {
+      return null;
+    }
+    const now = Date.now();
+    const previous = new Map(current.products.map((p) => [p.id, p]));
+    const next: KnowledgeBaseDocument = {
+      version: current.version + 1,
+      updatedAt: now,
+      ...(options.note && { note: options.note }),
+      // 内容未变的产品保留原 updatedAt
+      products: products.map((product) => {
+        const old = previous.get(product.id);
+        return { ...product, updatedAt: old && sameContent(old, product) ? old.updatedAt : now };
+      }),
+      revisions: [
+        ...current.revisions,
+        {
+          version: current.version,
+          savedAt: current.updatedAt,
+          ...(current.note && { note: current.note }),
+          products: current.products,
+        },
+      ].slice(-MAX_KNOWLEDGE_BASE_REVISIONS),
+    };
+    await fs.mkdir(dirname(knowledgeBaseFilePath()), { recursive: true });
+    await fs.writeFile(knowledgeBaseFilePath(), JSON.stringify(next, null, 2), "utf-8");
+    document = next;
+    return next;
+  });
+  writeChain = run.catch(() => undefined);
+  return run;
+}
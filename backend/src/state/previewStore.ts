@@ -0,0 +1,55 @@
+import { promises as fs } from "fs";
+import { join } from "path";
+import type { PagePreview } from "../types.js";
+import { sanitizeSensitive } from "../utils/sanitize.js";
+import { dataPath } from "./dataDir.js";
+
+// 预览文件目录（每个任务一个 JSON，含完整 HTML，体积较大故不放内存）
+const previewsDir = () => dataPath("previews");
+const MAX_PREVIEW_FILES = 200; // 最多保留200个预览
+
+function previewFilePath(taskId: string): string {
+  // taskId 为 UUID；过滤其他字符，防止路径穿越
+  return join(previewsDir(), `${taskId.replace(/[^a-zA-Z0-9-]/g, "")}.json`);
+}
+
+/**
+ * 删除最旧的预览文件，只保留 MAX_PREVIEW_FILES 个
+ */
+async function prunePreviews(): Promise<void> {
+  const names = (await fs.readdir(previewsDir())).filter((name) => name.endsWith(".json"));
+  if (names.length <= MAX_PREVIEW_FILES) return;
+  const entries = await Promise.all(
+    names.map(async (name) => ({ name, mtimeMs: (await fs.stat(join(previewsDir(), name))).mtimeMs }))
+  );
+  entries.sort((a, b) => b.mtimeMs - a.mtimeMs);
+  await Promise.all(
+    entries.slice(MAX_PREVIEW_FILES).map((entry) => fs.rm(join(previewsDir(), entry.name), { force: true }))
+  );
+}
+
+/**
+ * 保存任务预览（HTML + 报告）
+ */
+export async function savePagePreview(taskId: string, preview: PagePreview): Promise<void> {
+  await fs.mkdir(previewsDir(), { recursive: true });
+  await fs.writeFile(previewFilePath(taskId), JSON.stringify(preview), "utf-8");
+  prunePreviews().catch((error) => {
+    console.error("[PreviewStore] 清理旧预览失败:", sanitizeSensitive(error));
+  });
+}
+
+/**
+ * 读取任务预览；不存在时返回 null
+ */
+export async function getPagePreview(taskId: string): Promise<PagePreview | null> {
+  try {
+    const data = await fs.readFile(previewFilePath(taskId), "utf-8");
+    return JSON.parse(data) as PagePreview;
+  } catch (error: any) {
+    if (error.code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
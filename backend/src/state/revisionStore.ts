@@ -0,0 +1,97 @@
+import { promises as fs } from "fs";
+import { join } from "path";
+import type { PagePublishTarget, PageRevision, PageRevisionHistory } from "../types.js";
+import { dataPath } from "./dataDir.js";
+
+// 修订版本目录（每个页面一个 JSON，含完整 HTML，体积较大故不放内存）
+const revisionsDir = () => dataPath("revisions");
+const MAX_REVISIONS_PER_PAGE = 20; // 每个页面最多保留20个修订版本
+
+function normalizeSlug(slug: string): string {
+  return (slug || "").trim().replace(/^\/+|\/+$/g, "");
+}
+
+function revisionFilePath(target: PagePublishTarget, slug: string): string {
+  // slug 整体做 URL 编码：/ 编码为 %2F（防止路径穿越），不同 slug 不会落到同一文件
+  return join(revisionsDir(), `${target}--${encodeURIComponent(normalizeSlug(slug))}.json`);
+}
+
+/**
+ * 旧版文件名（/ 转 __、其余非法字符直接删除）；新文件尚不存在时从这里读取已有历史，下次保存即迁到新文件名
+ */
+function legacyRevisionFilePath(target: PagePublishTarget, slug: string): string {
+  const safeSlug = normalizeSlug(slug).replace(/\//g, "__").replace(/[^a-zA-Z0-9_-]/g, "");
+  return join(revisionsDir(), `${target}--${safeSlug}.json`);
+}
+
+async function readRevisionFile(filePath: string): Promise<PageRevisionHistory | null> {
+  try {
+    const data = await fs.readFile(filePath, "utf-8");
+    return JSON.parse(data) as PageRevisionHistory;
+  } catch (error: any) {
+    if (error.code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * 读取页面的修订历史；没有记录时返回 null
+ */
+export async function getPageRevisionHistory(
+  target: PagePublishTarget,
+  slug: string
+): Promise<PageRevisionHistory | null> {
+  const history = await readRevisionFile(revisionFilePath(target, slug));
+  if (history) return history;
+  // 旧文件名可能被多个 slug 共用，只认 slug 完全一致的记录
+  const legacy = await readRevisionFile(legacyRevisionFilePath(target, slug));
+  return legacy?.slug === normalizeSlug(slug) ? legacy : null;
+}
+
+/**
+ * 线上页面当前的 contentVersion（没有修订记录时视为 1）
+ */
+export async function getCurrentContentVersion(target: PagePublishTarget, slug: string): Promise<number> {
+  return (await getPageRevisionHistory(target, slug))?.currentVersion ?? 1;
+}
+
+export async function getPageRevision(
+  target: PagePublishTarget,
+  slug: string,
+  revision: number
+): Promise<PageRevision | undefined> {
+  return (await getPageRevisionHistory(target, slug))?.revisions.find((r) => r.revision === revision);
+}
+
+/**
+ * 保存被覆盖的旧版本，并记录页面新的 contentVersion
+ */
+export async function savePageRevision(
+  target: PagePublishTarget,
+  slug: string,
+  snapshot: Omit<PageRevision, "revision" | "savedAt">,
+  currentVersion: number
+): Promise<PageRevision> {
+  const history: PageRevisionHistory = (await getPageRevisionHistory(target, slug)) ?? {
+    target,
+    slug: normalizeSlug(slug),
+    currentVersion: 1,
+    updatedAt: Date.now(),
+    revisions: [],
+  };
+  const lastRevision = history.revisions[history.revisions.length - 1]?.revision ?? 0;
+  const revision: PageRevision = { ...snapshot, revision: lastRevision + 1, savedAt: Date.now() };
+
+  history.revisions.push(revision);
+  if (history.revisions.length > MAX_REVISIONS_PER_PAGE) {
+    history.revisions = history.revisions.slice(-MAX_REVISIONS_PER_PAGE);
+  }
+  history.currentVersion = currentVersion;
+  history.updatedAt = revision.savedAt;
+
+  await fs.mkdir(revisionsDir(), { recursive: true });
+  await fs.writeFile(revisionFilePath(target, slug), JSON.stringify(history), "utf-8");
+  return revision;
+}
@@ -0,0 +1,74 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import type { RewriteQueueEntry, RewriteReason } from "../types.js";
+import { dataPath } from "./dataDir.js";
+
+// 改写队列文件：GSC 监控、过期指南脚本、历史审计脚本、链接审计写入，rewriteQueueWorker 消费
+export const rewriteQueueFilePath = () => dataPath("rewrite-queue.json");
+export const MAX_REWRITE_QUEUE_ENTRIES = 500;
+/** 失败的记录最多重试次数，超过后保留为 failed 等人工处理 */
+export const MAX_REWRITE_ATTEMPTS = 3;
+
+const REWRITE_REASONS: RewriteReason[] = [
+  "ctr_drop",
+  "ranking_loss",
+  "stale_content",
+  "tier_d",
+  "alignment",
+  "broken_links",
+  "orphan_page",
+];
+
+/**
+ * 读取改写队列（文件不存在或损坏时返回空数组）
+ */
+export function readRewriteQueue(): RewriteQueueEntry[] {
+  if (!existsSync(rewriteQueueFilePath())) return [];
+  try {
+    const parsed = JSON.parse(readFileSync(rewriteQueueFilePath(), "utf8"));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function writeRewriteQueue(queue: RewriteQueueEntry[]): void {
+  mkdirSync(dirname(rewriteQueueFilePath()), { recursive: true });
+  writeFileSync(rewriteQueueFilePath(), JSON.stringify(queue.slice(0, MAX_REWRITE_QUEUE_ENTRIES), null, 2), "utf8");
+}
+
+/**
+ * 入队原因：GSC / 过期指南写 reason，历史审计写 queueReason；无法识别时返回 null
+ */
+export function getRewriteReason(entry: RewriteQueueEntry): RewriteReason | null {
+  const reason = entry.reason ?? entry.queueReason;
+  return reason && REWRITE_REASONS.includes(reason) ? reason : null;
+}
+
+/**
+ * 是否仍待处理（pending / 中断的 processing / 等待审核 / 未超过重试次数的 failed）
+ * 写入方按 pageUrl 去重时只与待处理记录比较，已完成的页面可以再次入队
+ */
+export function isOpenRewriteEntry(entry: RewriteQueueEntry): boolean {
+  const status = entry.status ?? "pending";
+  if (status === "pending" || status === "processing" || status === "awaiting_review") return true;
+  return status === "failed" && (entry.attempts ?? 0) < MAX_REWRITE_ATTEMPTS;
+}
+
+/**
+ * 更新队列中的一条记录（按 pageUrl + 历史 ID + 原因 + 入队时间定位，期间其他脚本写入的新记录不会被覆盖）
+ */
+export function updateRewriteQueueEntry(target: RewriteQueueEntry, patch: Partial<RewriteQueueEntry>): void {
+  const queue = readRewriteQueue();
+  const index = queue.findIndex(
+    (entry) =>
+      entry.pageUrl === target.pageUrl &&
+      entry.id === target.id &&
+      getRewriteReason(entry) === getRewriteReason(target) &&
+      entry.detectedAt === target.detectedAt
+  );
+  if (index === -1) return;
+  queue[index] = { ...queue[index], ...patch };
+  Object.assign(target, patch);
+  writeRewriteQueue(queue);
+}
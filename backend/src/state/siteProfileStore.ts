@@ -0,0 +1,75 @@
+import { promises as fs } from "fs";
+import { dirname } from "path";
+import type { SiteProfile } from "../types.js";
+import { sanitizeSensitive } from "../utils/sanitize.js";
+import { dataPath } from "./dataDir.js";
+
+// 站点配置（数量少，整体读写）；凭据以密文保存在 encryptedSecrets 中
+const siteProfilesFilePath = () => dataPath("site-profiles.json");
+
+let profiles: SiteProfile[] | null = null;
+// 串行化写入，避免并发请求互相覆盖
+let writeChain: Promise<unknown> = Promise.resolve();
+
+/**
+ * 全部站点配置（首次调用时从文件加载）
+ */
+export async function listSiteProfiles(): Promise<SiteProfile[]> {
+  if (profiles) {
+    return profiles;
+  }
+  try {
+    const parsed = JSON.parse(await fs.readFile(siteProfilesFilePath(), "utf-8"));
+    profiles = Array.isArray(parsed) ? parsed : [];
+  } catch (error: any) {
+    if (error.code !== "ENOENT") {
+      console.error("[SiteProfileStore] 加载站点配置失败:", sanitizeSensitive(error));
+    }
+    profiles = [];
+  }
+  return profiles;
+}
+
+export async function getSiteProfile(id: string): Promise<SiteProfile | undefined> {
+  return (await listSiteProfiles()).find((p) => p.id === id);
+}
+
+async function writeProfiles(next: SiteProfile[]): Promise<void> {
+  await fs.mkdir(dirname(siteProfilesFilePath()), { recursive: true });
+  // 文件含密文，仅限服务进程用户读写
+  await fs.writeFile(siteProfilesFilePath(), JSON.stringify(next, null, 2), { encoding: "utf-8", mode: 0o600 });
+  profiles = next;
+}
+
+/**
+ * 新增或整体替换站点配置（按 id），保留原 createdAt
+ */
+export function saveSiteProfile(profile: Omit<SiteProfile, "createdAt" | "updatedAt">): Promise<SiteProfile> {
+  const run = writeChain.then(async () => {
+    const current = await listSiteProfiles();
+    const existing = current.find((p) => p.id === profile.id);
+    const now = Date.now();
+    const saved: SiteProfile = { ...profile, createdAt: existing?.createdAt ?? now, updatedAt: now };
+    await writeProfiles(existing ? current.map((p) => (p.id === saved.id ? saved : p)) : [...current, saved]);
+    return saved;
+  });
+  writeChain = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * 删除站点配置
+ * @returns 是否存在并已删除
+ */
+export function deleteSiteProfile(id: string): Promise<boolean> {
+  const run = writeChain.then(async () => {
+    const current = await listSiteProfiles();
+    if (!current.some((p) => p.id === id)) {
+      return false;
+    }
+    await writeProfiles(current.filter((p) => p.id !== id));
+    return true;
+  });
+  writeChain = run.catch(() => undefined);
+  return run;
+}
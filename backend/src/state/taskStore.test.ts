@@ -0,0 +1,123 @@
+import assert from "node:assert/strict";
+import { existsSync, rmSync } from "node:fs";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { processTask } from "../routes/generation.js";
+import type { RenderedPage, TaskProgress } from "../types.js";
+import { getResumableTasks, getTask, getTaskCheckpoint, initializeTaskStore } from "./taskStore.js";
+
+// Stores read and write a temporary DATA_DIR, never backend/data
+const dataDir = await mkdtemp(path.join(tmpdir(), "task-store-data-"));
+process.env.DATA_DIR = dataDir;
+// Removed on exit, after the debounced saves of pipelines still winding down
+process.on("exit", () => rmSync(dataDir, { recursive: true, force: true }));
+const outputDir = await mkdtemp(path.join(tmpdir(), "task-store-test-"));
+process.env.INTERNAL_LINK_BACKFILL_LIMIT = "0";
+
+const now = Date.now();
+const task = (id: string, status: TaskProgress["status"]): TaskProgress => ({
+  id,
+  status,
+  message: status,
+  keyword: "luxury phone",
+  createdAt: now,
+  updatedAt: now,
+});
+const payload = {
+  keyword: "luxury phone",
+  templateContent: "<html>{{content}}</html>",
+  publishTarget: "static" as const,
+  staticPublish: { outputDir, baseUrl: "https://vertu.com" },
+};
+const rendered = (baseSlug: string): RenderedPage => ({
+  html: `<html><body><p>${baseSlug}</p></body></html>`,
+  pageTitle: "Luxury Phones",
+  baseSlug,
+  slug: `luxury-life-guides/${baseSlug}`,
+  expectedPageUrl: `https://vertu.com/luxury-life-guides/${baseSlug}/`,
+  metaDescription: "",
+  pageImageUrl: "",
+  primaryCategory: "phones",
+});
+const pageFile = (baseSlug: string) => path.join(outputDir, "luxury-life-guides", baseSlug, "index.html");
+
+try {
+  await writeFile(
+    path.join(dataDir, "tasks.json"),
+    JSON.stringify([
+      {
+        task: task("rendered", "rendering_template"),
+        payload,
+        checkpoints: { title: { pageTitle: "Luxury Phones" }, render: rendered("rendered") },
+      },
+      {
+        task: task("published", "publishing"),
+        payload,
+        checkpoints: { publish: { pageUrl: "https://vertu.com/luxury-life-guides/published/", message: "done" } },
+      },
+      {
+        task: task("review", "awaiting_review"),
+        payload: { ...payload, requireReview: true },
+        checkpoints: { render: rendered("review") },
+      },
+      {
+        task: {
+          ...task("held", "rendering_template"),
+          details: { unresolvedQuality: { nearDuplicate: { similarity: 0.93, keyword: "luxury phones" } } },
+        },
+        payload,
+        checkpoints: { render: rendered("held") },
+      },
+      { task: task("no-payload", "generating_content"), checkpoints: {} },
+      { task: task("finished", "completed"), checkpoints: {} },
+    ]),
+    "utf-8"
+  );
+
+  {
+    // Reload: unfinished tasks with a payload resume, tasks awaiting review keep waiting
+    await initializeTaskStore();
+    assert.deepEqual(
+      getResumableTasks().map(({ task }) => task.id),
+      ["rendered", "published", "held"]
+    );
+    assert.equal(getTask("finished")?.status, "completed");
+    assert.equal(getTaskCheckpoint("rendered", "title")?.pageTitle, "Luxury Phones");
+  }
+
+  {
+    // A render checkpoint skips generation and publishes the stored page
+    await processTask("rendered", getResumableTasks()[0].payload);
+    assert.equal(getTask("rendered")?.status, "completed");
+    assert.equal(getTask("rendered")?.pageUrl, "https://vertu.com/luxury-life-guides/rendered/");
+    assert.equal(await readFile(pageFile("rendered"), "utf-8"), rendered("rendered").html);
+    assert.equal(getTaskCheckpoint("rendered", "publish")?.pageUrl, "https://vertu.com/luxury-life-guides/rendered/");
+  }
+
+  {
+    // A publish checkpoint completes the task without publishing again
+    await processTask("published", payload);
+    assert.equal(getTask("published")?.status, "completed");
+    assert.equal(getTask("published")?.message, "done");
+    assert.ok(!existsSync(pageFile("published")));
+  }
+
+  {
+    // Without approval a rendered page goes back to review instead of being published
+    await processTask("review", { ...payload, requireReview: true });
+    assert.equal(getTask("review")?.status, "awaiting_review");
+    assert.ok(!existsSync(pageFile("review")));
+  }
+
+  {
+    // Quality issues left after the last regeneration hold the page for review as well
+    await processTask("held", payload);
+    assert.equal(getTask("held")?.status, "awaiting_review");
+    assert.ok(!existsSync(pageFile("held")));
+  }
+} finally {
+  await rm(outputDir, { recursive: true, force: true });
+}
+
+console.log("taskStore.test.ts: all assertions passed");
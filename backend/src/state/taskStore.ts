@@ -1,9 +1,145 @@
 import { randomUUID } from "crypto";
-import type { TaskProgress, TaskStatus } from "../types.js";
+import { EventEmitter } from "events";
+import { promises as fs } from "fs";
+import { dirname } from "path";
+import type { GeneratedContent } from "../services/googleAi.js";
+import type {
+  GenerationRequestPayload,
+  ProductSummary,
+  RenderedPage,
+  TaskEvent,
+  TaskProgress,
+  TaskReview,
+  TaskStatus,
+} from "../types.js";
+import type { PrimaryProductCategory } from "../utils/productCategory.js";
+import { stripPayloadSecrets } from "../utils/siteProfiles.js";
+import { eventsAfter, pushBounded } from "../utils/sse.js";
 import { saveHistoryRecord } from "./historyStore.js";
+import { sanitizeSensitive } from "../utils/sanitize.js";
+import { dataPath } from "./dataDir.js";
+
+// 进行中任务的持久化文件（含请求参数与阶段检查点，服务重启后用于续跑）
+const tasksFilePath = () => dataPath("tasks.json");
+const SAVE_DEBOUNCE_MS = 500; // 状态更新频繁，合并写盘
+const FINISHED_TASK_TTL_MS = 24 * 60 * 60 * 1000; // 已结束任务在文件中保留 24 小时（历史见 historyStore）
+const TASK_EVENT_BUFFER_SIZE = 50; // 每个任务保留最近 50 条状态事件，供 SSE 断线重连补发
+
+/**
+ * 流水线阶段检查点：某阶段完成后写入，续跑时跳过已完成的阶段
+ */
+export interface TaskCheckpoints {
+  title?: { pageTitle: string };
+  products?: {
+    products: ProductSummary[];
+    relatedProducts: ProductSummary[];
+    primaryCategory: PrimaryProductCategory;
+  };
+  content?: {
+    generatedContent: GeneratedContent;
+    quickAnswerText: string;
+    alignmentAttempts: number;
+    alignmentReasons: string[];
+  };
+  render?: RenderedPage;
+  publish?: { pageUrl?: string; message: string };
+}
+
+export type TaskCheckpointStage = keyof TaskCheckpoints;
+
+interface PersistedTask {
+  task: TaskProgress;
+  payload?: GenerationRequestPayload;
+  checkpoints: TaskCheckpoints;
+  /** 事件序号，重启后继续递增，避免客户端的 Last-Event-ID 失效 */
+  eventSeq?: number;
+}
 
 const tasks = new Map<string, TaskProgress>();
 const pausedTasks = new Set<string>(); // 暂停的任务ID集合
+const taskPayloads = new Map<string, GenerationRequestPayload>();
+const taskCheckpoints = new Map<string, TaskCheckpoints>();
+const taskAbortControllers = new Map<string, AbortController>(); // 取消任务时中断进行中的请求（不持久化）
+const taskEvents = new Map<string, TaskEvent[]>(); // 最近的状态事件（不持久化）
+const taskEventSeq = new Map<string, number>();
+const taskEventEmitter = new EventEmitter();
+taskEventEmitter.setMaxListeners(0); // 每个 SSE 连接一个监听器，不设上限
+let saveTimer: NodeJS.Timeout | null = null;
+let isInitialized = false;
+
+const FINISHED_STATUSES = new Set<TaskStatus>(["completed", "failed", "cancelled", "rejected"]);
+
+function isFinished(task: TaskProgress): boolean {
+  return FINISHED_STATUSES.has(task.status);
+}
+
+export function isFinishedStatus(status: TaskStatus): boolean {
+  return FINISHED_STATUSES.has(status);
+}
+
+/**
+ * 保存任务到文件（已结束任务不保留请求参数和检查点；请求参数不写入凭据，续跑时由站点配置或环境变量补全）
+ */
+async function saveTasksToFile(): Promise<void> {
+  try {
+    await fs.mkdir(dirname(tasksFilePath()), { recursive: true });
+    const records: PersistedTask[] = [];
+    for (const task of tasks.values()) {
+      const finished = isFinished(task);
+      const payload = finished ? undefined : taskPayloads.get(task.id);
+      records.push({
+        task,
+        payload: payload && stripPayloadSecrets(payload),
+        checkpoints: finished ? {} : taskCheckpoints.get(task.id) ?? {},
+        eventSeq: taskEventSeq.get(task.id),
+      });
+    }
+    await fs.writeFile(tasksFilePath(), JSON.stringify(records), "utf-8");
+  } catch (error) {
+    console.error("[TaskStore] 保存任务到文件失败:", sanitizeSensitive(error));
+    // 不抛出错误，避免影响主流程
+  }
+}
+
+function scheduleSave(): void {
+  if (saveTimer) return;
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    void saveTasksToFile();
+  }, SAVE_DEBOUNCE_MS);
+}
+
+/**
+ * 初始化任务存储（加载文件数据）
+ */
+export async function initializeTaskStore(): Promise<void> {
+  if (isInitialized) {
+    return;
+  }
+  isInitialized = true;
+  try {
+    const data = await fs.readFile(tasksFilePath(), "utf-8");
+    const parsed = JSON.parse(data);
+    const records: PersistedTask[] = Array.isArray(parsed) ? parsed : [];
+    const now = Date.now();
+    for (const record of records) {
+      if (!record?.task?.id) continue;
+      if (isFinished(record.task) && now - record.task.updatedAt > FINISHED_TASK_TTL_MS) continue;
+      tasks.set(record.task.id, record.task);
+      if (record.task.status === "paused") pausedTasks.add(record.task.id);
+      if (record.payload) taskPayloads.set(record.task.id, record.payload);
+      taskCheckpoints.set(record.task.id, record.checkpoints ?? {});
+      if (record.eventSeq) taskEventSeq.set(record.task.id, record.eventSeq);
+    }
+    console.log(`[TaskStore] 已从文件加载 ${tasks.size} 个任务`);
+  } catch (error: any) {
+    if (error.code === "ENOENT") {
+      console.log("[TaskStore] 任务文件不存在，使用空记录");
+    } else {
+      console.error("[TaskStore] 加载任务失败:", sanitizeSensitive(error));
+    }
+  }
+}
 
 export function createTask(initialMessage: string): TaskProgress {
   const id = randomUUID();
@@ -16,9 +152,75 @@ export function createTask(initialMessage: string): TaskProgress {
     updatedAt: now,
   };
   tasks.set(id, task);
+  taskCheckpoints.set(id, {});
+  recordTaskEvent(task);
+  scheduleSave();
   return task;
 }
 
+/**
+ * 记录任务的请求参数（续跑时原样传回 processTask）
+ */
+export function setTaskPayload(id: string, payload: GenerationRequestPayload): void {
+  if (!tasks.has(id)) return;
+  taskPayloads.set(id, payload);
+  scheduleSave();
+}
+
+export function getTaskPayload(id: string): GenerationRequestPayload | undefined {
+  return taskPayloads.get(id);
+}
+
+/**
+ * 写入阶段检查点；同时更新请求参数（流水线会改写 templateType 等字段）
+ */
+export function saveTaskCheckpoint<S extends TaskCheckpointStage>(
+  id: string,
+  stage: S,
+  data: NonNullable<TaskCheckpoints[S]>,
+  payload?: GenerationRequestPayload
+): void {
+  if (!tasks.has(id)) return;
+  const checkpoints = taskCheckpoints.get(id) ?? {};
+  checkpoints[stage] = data;
+  taskCheckpoints.set(id, checkpoints);
+  if (payload) taskPayloads.set(id, payload);
+  scheduleSave();
+}
+
+/**
+ * 清除指定阶段的检查点（审核要求重新生成时，从这些阶段重跑）
+ */
+export function clearTaskCheckpoints(id: string, stages: TaskCheckpointStage[]): void {
+  const checkpoints = taskCheckpoints.get(id);
+  if (!checkpoints) return;
+  for (const stage of stages) {
+    delete checkpoints[stage];
+  }
+  scheduleSave();
+}
+
+export function getTaskCheckpoint<S extends TaskCheckpointStage>(
+  id: string,
+  stage: S
+): TaskCheckpoints[S] | undefined {
+  return taskCheckpoints.get(id)?.[stage];
+}
+
+/**
+ * 服务重启后需要续跑的任务（未结束且保存了请求参数；等待审核的任务保持原状态，不自动发布）
+ */
+export function getResumableTasks(): Array<{ task: TaskProgress; payload: GenerationRequestPayload }> {
+  const result: Array<{ task: TaskProgress; payload: GenerationRequestPayload }> = [];
+  for (const task of tasks.values()) {
+    const payload = taskPayloads.get(task.id);
+    if (!isFinished(task) && task.status !== "awaiting_review" && payload) {
+      result.push({ task, payload });
+    }
+  }
+  return result;
+}
+
 /**
  * 暂停任务
  */
@@ -28,8 +230,8 @@ export function pauseTask(id: string): boolean {
     return false;
   }
   
-  // 只有进行中的任务才能暂停
-  if (task.status === "completed" || task.status === "failed" || task.status === "paused") {
+  // 只有进行中的任务才能暂停（等待审核的任务没有在执行）
+  if (isFinished(task) || task.status === "paused" || task.status === "awaiting_review") {
     return false;
   }
   
@@ -63,6 +265,44 @@ export function resumeTask(id: string): boolean {
   return true;
 }
 
+/**
+ * 获取任务的取消信号；流水线中的 Gemini、产品拉取、发布请求共用同一个信号
+ */
+export function getTaskSignal(id: string): AbortSignal {
+  let controller = taskAbortControllers.get(id);
+  if (!controller) {
+    controller = new AbortController();
+    taskAbortControllers.set(id, controller);
+  }
+  return controller.signal;
+}
+
+/**
+ * 取消任务：中断进行中的请求并标记为 cancelled（暂停中的任务也可取消）
+ */
+export function cancelTask(id: string): boolean {
+  const task = tasks.get(id);
+  if (!task || isFinished(task)) {
+    return false;
+  }
+
+  getTaskSignal(id); // 确保存在 controller，后续取用信号的阶段立即感知已取消
+  taskAbortControllers.get(id)!.abort(new Error("任务已取消"));
+  pausedTasks.delete(id);
+  updateTaskStatus(id, "cancelled", "任务已取消", {});
+  saveHistoryRecord(task).catch((err) => {
+    console.error("[TaskStore] 保存历史记录失败:", sanitizeSensitive(err));
+  });
+  return true;
+}
+
+/**
+ * 检查任务是否已取消
+ */
+export function isTaskCancelled(id: string): boolean {
+  return tasks.get(id)?.status === "cancelled";
+}
+
 /**
  * 检查任务是否已暂停
  */
@@ -71,12 +311,13 @@ export function isTaskPaused(id: string): boolean {
 }
 
 /**
- * 等待任务恢复（如果任务已暂停）
+ * 等待任务恢复（如果任务已暂停）；任务已取消时抛出取消原因，终止流水线
  */
 export async function waitForTaskResume(id: string, checkInterval: number = 1000): Promise<void> {
   while (isTaskPaused(id)) {
     await new Promise((resolve) => setTimeout(resolve, checkInterval));
   }
+  taskAbortControllers.get(id)?.signal.throwIfAborted();
 }
 
 export function updateTaskStatus(id: string, status: TaskStatus, message: string, extras?: Partial<Omit<TaskProgress, "id" | "status" | "message" | "createdAt" | "updatedAt">>) {
@@ -84,6 +325,10 @@ export function updateTaskStatus(id: string, status: TaskStatus, message: string
   if (!task) {
     throw new Error(`Task ${id} not found`);
   }
+  // 已取消的任务不再接受状态更新（流水线中被中断的阶段可能仍在收尾）
+  if (task.status === "cancelled") {
+    return;
+  }
 
   // 如果状态不是 paused，保存当前状态作为 previousStatus（用于恢复）
   if (status !== "paused" && task.status !== "paused") {
@@ -99,6 +344,50 @@ export function updateTaskStatus(id: string, status: TaskStatus, message: string
   task.message = message;
   task.updatedAt = Date.now();
   tasks.set(id, task);
+  if (status === "completed" || status === "failed") {
+    taskAbortControllers.delete(id);
+  }
+  recordTaskEvent(task);
+  scheduleSave();
+}
+
+/**
+ * 记录一条状态事件并通知订阅者（每次 updateTaskStatus 都会产生，不会遗漏中间消息）
+ */
+function recordTaskEvent(task: TaskProgress): void {
+  const seq = (taskEventSeq.get(task.id) ?? 0) + 1;
+  taskEventSeq.set(task.id, seq);
+  const event: TaskEvent = {
+    id: seq,
+    taskId: task.id,
+    status: task.status,
+    message: task.message,
+    timestamp: task.updatedAt,
+    pageUrl: task.pageUrl,
+    error: task.error,
+  };
+  const buffer = taskEvents.get(task.id) ?? [];
+  pushBounded(buffer, event, TASK_EVENT_BUFFER_SIZE);
+  taskEvents.set(task.id, buffer);
+  taskEventEmitter.emit(task.id, event);
+}
+
+/**
+ * 获取任务最近的状态事件；传入 afterId 时只返回之后的事件（断线重连补发）
+ */
+export function getTaskEvents(id: string, afterId?: number): TaskEvent[] {
+  return eventsAfter(taskEvents.get(id) ?? [], afterId);
+}
+
+/**
+ * 订阅任务状态事件
+ * @returns 取消订阅函数
+ */
+export function subscribeTaskEvents(id: string, listener: (event: TaskEvent) => void): () => void {
+  taskEventEmitter.on(id, listener);
+  return () => {
+    taskEventEmitter.off(id, listener);
+  };
 }
 
 export function setTaskError(id: string, error: string) {
@@ -107,7 +396,7 @@ export function setTaskError(id: string, error: string) {
     updateTaskStatus(id, "failed", error, { error });
     // 保存到历史记录（异步，不阻塞）
     saveHistoryRecord(task).catch((err) => {
-      console.error("[TaskStore] 保存历史记录失败:", err);
+      console.error("[TaskStore] 保存历史记录失败:", sanitizeSensitive(err));
     });
   }
 }
@@ -118,7 +407,22 @@ export function setTaskCompleted(id: string, message: string, pageUrl?: string)
     updateTaskStatus(id, "completed", message, { pageUrl });
     // 保存到历史记录（异步，不阻塞）
     saveHistoryRecord(task).catch((err) => {
-      console.error("[TaskStore] 保存历史记录失败:", err);
+      console.error("[TaskStore] 保存历史记录失败:", sanitizeSensitive(err));
+    });
+  }
+}
+
+/**
+ * 审核驳回：原因写入任务与历史记录
+ */
+export function setTaskRejected(id: string, review: TaskReview) {
+  const task = tasks.get(id);
+  if (task) {
+    const message = review.reason ? `审核驳回：${review.reason}` : "审核驳回";
+    updateTaskStatus(id, "rejected", message, { review, error: review.reason });
+    taskAbortControllers.delete(id);
+    saveHistoryRecord(task).catch((err) => {
+      console.error("[TaskStore] 保存历史记录失败:", sanitizeSensitive(err));
     });
   }
 }
@@ -126,3 +430,12 @@ export function setTaskCompleted(id: string, message: string, pageUrl?: string)
 export function getTask(id: string): TaskProgress | undefined {
   return tasks.get(id);
 }
+
+/**
+ * 按状态列出任务（最近更新的在前）
+ */
+export function listTasksByStatus(status: TaskStatus): TaskProgress[] {
+  return [...tasks.values()]
+    .filter((task) => task.status === status)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
@@ -0,0 +1,55 @@
+import { promises as fs } from "fs";
+import { dirname } from "path";
+import type { LlmUsageLedgerEntry } from "../types.js";
+import { sanitizeSensitive } from "../utils/sanitize.js";
+import { dataPath } from "./dataDir.js";
+
+// LLM 调用台账：每次调用追加一行 JSON（只追加不改写，重启后仍保留）
+const usageLedgerFilePath = () => dataPath("llm-usage.jsonl");
+
+// 串行化追加，避免并发调用的行交错
+let writeChain: Promise<unknown> = Promise.resolve();
+
+/**
+ * 追加一条调用记录；写入失败只记日志，不影响生成流程
+ */
+export function appendUsageLedgerEntry(entry: LlmUsageLedgerEntry): Promise<void> {
+  const run = writeChain.then(async () => {
+    await fs.mkdir(dirname(usageLedgerFilePath()), { recursive: true });
+    await fs.appendFile(usageLedgerFilePath(), `${JSON.stringify(entry)}\n`, "utf-8");
+  });
+  writeChain = run.catch((error) => {
+    console.error("[UsageLedger] 写入调用记录失败:", sanitizeSensitive(error));
+  });
+  return writeChain as Promise<void>;
+}
+
+/**
+ * 读取时间范围内的调用记录（毫秒时间戳，含两端）；损坏的行跳过
+ */
+export async function readUsageLedger(range: { from?: number; to?: number } = {}): Promise<LlmUsageLedgerEntry[]> {
+  // 等待已排队的追加完成，保证刚结束的调用可见
+  await writeChain;
+  let raw: string;
+  try {
+    raw = await fs.readFile(usageLedgerFilePath(), "utf-8");
+  } catch (error: any) {
+    if (error.code !== "ENOENT") {
+      console.error("[UsageLedger] 读取调用台账失败:", sanitizeSensitive(error));
+    }
+    return [];
+  }
+  const entries: LlmUsageLedgerEntry[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line) as LlmUsageLedgerEntry;
+      if (range.from !== undefined && entry.timestamp < range.from) continue;
+      if (range.to !== undefined && entry.timestamp > range.to) continue;
+      entries.push(entry);
+    } catch {
+      // 进程在写入中途退出时最后一行可能不完整
+    }
+  }
+  return entries;
+}
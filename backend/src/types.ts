@@ -1,3 +1,6 @@
+import type { SeoGateReport } from "./utils/seoQualityGate.js";
+import type { StructuredDataReport } from "./utils/structuredDataValidator.js";
+
 export type TaskStatus =
   | "queued"
   | "generating_title"
@@ -5,14 +8,25 @@ export type TaskStatus =
   | "fetching_products"
   | "rendering_template"
   | "publishing"
+  | "awaiting_review"
   | "paused"
   | "completed"
-  | "failed";
+  | "failed"
+  | "cancelled"
+  | "rejected";
 
 export interface GenerationRequestPayload {
   keyword: string;
   productSource?: "wordpress" | "shopify"; // 产品数据源；未指定时若具备完整 Shopify 凭据则走 Shopify，否则 WooCommerce
-  publishTarget?: "wordpress" | "static" | "sanity"; // 发布目标
+  publishTarget?: "wordpress" | "static" | "sanity" | "preview"; // 发布目标；preview 只生成预览不发布
+  /** 为 true 时按 publishTarget 渲染但不发布，结果通过 GET /api/tasks/:id/preview 查看 */
+  dryRun?: boolean;
+  /** 为 true 时渲染后停在 awaiting_review，人工审核通过才发布；未填写时取 REQUIRE_REVIEW 环境变量 */
+  requireReview?: boolean;
+  /** refresh：按 slug 找到已有页面原地更新（旧 HTML 保存为修订版本），找不到时新建；默认 create */
+  publishMode?: "create" | "refresh";
+  /** refresh 模式下要更新的页面 slug（可带 luxury-life-guides/ 前缀）；不填则按标题生成 */
+  refreshSlug?: string;
   titleType?: string; // 标题类型：purchase, informational, review, commercial, how-to, recommendations, services-guides, tech-insights, comparison, expert, best, top, most
   pageTitle?: string; // 可选：如果为空，将根据长尾词和选择的标题类型自动生成标题
   userPrompt?: string; // 可选：用户提供的内容提示词和想法，AI将按照此提示词生成内容
@@ -22,6 +36,29 @@ export interface GenerationRequestPayload {
   respectTemplateChoice?: boolean;
   /** Tier D 关键词仍强制生成（单条提交时可勾选） */
   forceGenerate?: boolean;
+  /** 目标市场语言（en-GB 默认 / en-US / de-DE / fr-FR / es-ES / it-IT）：正文、FAQ、速答按该语言生成，页面发布在语言前缀下（如 de/luxury-life-guides/…），仅支持 static / sanity */
+  locale?: string;
+  /** 同一指南各语言版本共用的标识（用于 hreflang 互链），通常填原文页面的 slug；不填则取本页 slug */
+  translationKey?: string;
+  /** 与已有页面（及同一批次的其他关键词）蚕食时：block 拦截（默认）/ refresh 改为原地刷新已有页面 / allow 仍生成新页面；预览只提示 */
+  cannibalizationAction?: "block" | "refresh" | "allow";
+  /** 发布前 JSON-LD 校验：warn 只记录（默认，可用 STRUCTURED_DATA_VALIDATION 修改）/ strict 有错误时任务失败 / off 跳过 */
+  structuredDataValidation?: "strict" | "warn" | "off";
+  /** 发布前 SEO 质量分（0–100）低于该值时转人工审核、不自动发布；默认取 SEO_GATE_THRESHOLD（未设置为 70），0 关闭拦截 */
+  seoGateThreshold?: number;
+  /** 正文与已发布指南的 MinHash 相似度（0–1）达到该值时带差异化提示重生成；默认取 NEAR_DUPLICATE_THRESHOLD（未设置为 0.4），0 关闭 */
+  nearDuplicateThreshold?: number;
+  /** 正文价格/规格核对（知识库 + 实际商品价格）：correct 原地修正可确定的数值、其余带差异清单重生成（默认，可用 FACT_CHECK_MODE 修改）/ regenerate 不修正、全部重生成 / off 跳过 */
+  factCheckMode?: "correct" | "regenerate" | "off";
+  /** 调用方 / 项目标识：LLM 调用按项目记账，并受 LLM_BUDGETS 中该项目的预算限制 */
+  project?: string;
+  /**
+   * 站点配置 id（/api/site-profiles）：处理时从服务端加载 WordPress / Shopify / Sanity / 静态发布的连接信息与加密凭据，
+   * 请求中显式填写的字段优先
+   */
+  siteProfileId?: string;
+  /** 模板分配：rules 按意图/品类规则选壳（默认，可用 TEMPLATE_ALLOCATION 修改）/ bandit 按意图 × 品类 Thompson 采样选壳；手动选壳与登记实验入组的页面不参与 */
+  templateAllocation?: "rules" | "bandit";
   /** 可选：Article JSON-LD 的 datePublished（ISO 8601）。不填则使用渲染时刻。 */
   articleDatePublishedISO?: string;
   /** 可选：Article JSON-LD 的 dateModified（ISO 8601）。不填则与发布日期或渲染时刻一致。 */
@@ -34,11 +71,16 @@ export interface GenerationRequestPayload {
   searchIntent?: "informational" | "transactional" | "evaluative";
   /** First-screen block order priority */
   layoutPriority?: "article-first" | "commerce-first" | "comparison-first";
-  /** A/B experiment variant: A=text-heavy (template-6), B=tool-heavy (template-4/5) */
-  experimentVariant?: "A" | "B";
+  /**
+   * A/B experiment variant. Without a registered experiment: A=text-heavy (template-6), B=tool-heavy (template-4/5);
+   * registered experiments (/api/experiments) use their own variant ids.
+   */
+  experimentVariant?: string;
   experimentId?: string;
   templateContent: string;
   googleApiKey?: string;
+  /** LLM 提供方：gemini（默认）/ openai-compatible；未填写时取 LLM_PROVIDER 环境变量 */
+  llmProvider?: string;
   useElementor?: boolean; // 是否使用 Elementor 保存页面
   wordpress?: {
     url: string;
@@ -94,6 +136,24 @@ export interface FAQItem {
   answer: string;
 }
 
+/** renderTemplate 之后、发布之前的页面快照（发布步骤只依赖这些字段） */
+export interface RenderedPage {
+  html: string;
+  pageTitle: string;
+  baseSlug: string;
+  /** luxury-life-guides/<baseSlug> */
+  slug: string;
+  expectedPageUrl: string;
+  metaDescription: string;
+  pageImageUrl: string;
+  primaryCategory: string;
+  authorSlug?: string;
+  /** 页面语言、译本分组与渲染时写入的 hreflang 列表（发布后同步到同组其他语言页面） */
+  locale?: string;
+  translationKey?: string;
+  hreflangAlternates?: Array<{ hreflang: string; href: string }>;
+}
+
 export interface TaskProgress {
   id: string;
   status: TaskStatus;
@@ -113,6 +173,360 @@ export interface TaskProgress {
   alignmentReasons?: string[];
   finalAlignmentMismatch?: boolean;
   searchIntent?: "informational" | "transactional" | "evaluative";
-  experimentVariant?: "A" | "B";
+  experimentVariant?: string;
   experimentId?: string;
+  /** 目标市场语言与译本分组（hreflang） */
+  locale?: string;
+  translationKey?: string;
+  /** 发布前 SEO 质量分（0–100）与未通过的检查项 */
+  seoScore?: number;
+  seoFailingChecks?: string[];
+  /** 正文（不含注入的固定段落）的 MinHash 指纹，用于与后续页面比对近似重复 */
+  contentFingerprint?: number[];
+  /** 人工审核记录（approve / reject / regenerate） */
+  review?: TaskReview;
+  /** bandit 选壳的决策与各候选壳的后验（templateAllocation=bandit 时） */
+  templateBandit?: TemplateBanditDecision;
+}
+
+/** 一次 bandit 选壳：上下文（意图 × 品类）、各候选壳的 Beta 后验与本次采样值 */
+export interface TemplateBanditDecision {
+  intent: "informational" | "transactional" | "evaluative";
+  category: string;
+  chosen: string;
+  /** 选壳前 payload 上的模板 */
+  previousTemplate: string;
+  /** 参与计算的站点 CTR 中位数 */
+  medianCtr: number;
+  decidedAt: number;
+  arms: Array<{ arm: string; alpha: number; beta: number; pages: number; mean: number; sample: number }>;
+}
+
+/** 任务累计的 LLM token 用量（details.llmUsage） */
+export interface TaskLlmUsage {
+  provider: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  calls: number;
+}
+
+/** LLM 调用台账（data/llm-usage.jsonl，每次调用一行，含失败的调用） */
+export interface LlmUsageLedgerEntry {
+  timestamp: number;
+  taskId?: string;
+  keyword?: string;
+  templateType?: string;
+  /** 调用方 / 项目（payload.project） */
+  project?: string;
+  provider: string;
+  model: string;
+  /** 掩码后的 API Key（前 10 + 后 4 位）；不使用 Key 池的提供方为空 */
+  keyMask?: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  latencyMs: number;
+  /** 本次调用之前已失败的尝试次数（Key 故障转移 + 429 重试） */
+  retryCount: number;
+  outcome: "success" | "rate_limited" | "error" | "aborted";
+  error?: string;
+  /** 按模型单价估算的费用（美元），记录时计算，之后改单价不影响历史 */
+  costUsd: number;
+}
+
+export interface TaskReview {
+  decision: "approved" | "rejected" | "regenerate";
+  reason?: string;
+  reviewer?: string;
+  decidedAt: number;
+}
+
+/** 实际发布到站点的目标（preview 不发布） */
+export type PagePublishTarget = "wordpress" | "static" | "sanity";
+
+/** 页面被覆盖前的快照，可回滚 */
+export interface PageRevision {
+  /** 单个页面内递增的修订号 */
+  revision: number;
+  /** 快照对应的 contentVersion */
+  contentVersion: number;
+  title?: string;
+  html: string;
+  savedAt: number;
+  /** 覆盖该版本的任务 */
+  taskId?: string;
+  /** internal_links：新页面发布后回填内链 */
+  reason: "refresh" | "overwrite" | "rollback" | "internal_links";
+}
+
+export interface PageRevisionHistory {
+  target: PagePublishTarget;
+  slug: string;
+  /** 线上页面当前的 contentVersion */
+  currentVersion: number;
+  updatedAt: number;
+  revisions: PageRevision[];
+}
+
+/** 预览（dry-run）报告：记录流水线的关键决策，便于上线前检查 */
+export interface PagePreviewReport {
+  taskId: string;
+  keyword: string;
+  pageTitle: string;
+  publishTarget: NonNullable<GenerationRequestPayload["publishTarget"]>;
+  templateType: string;
+  searchIntent?: GenerationRequestPayload["searchIntent"];
+  layoutPriority?: GenerationRequestPayload["layoutPriority"];
+  experimentVariant?: string;
+  primaryCategory: string;
+  keywordGate: { tier: string; score: number; allowed: boolean; reasons: string[] };
+  products: Array<Pick<ProductSummary, "id" | "name" | "link" | "category" | "price">>;
+  productCounts: { top: number; row1: number; row2: number; related: number };
+  alignment: { attempts: number; reasons: string[]; finalMismatch: boolean };
+  /** JSON-LD 校验结果（structuredDataValidation=off 时不含） */
+  structuredData?: StructuredDataReport;
+  /** 发布前 SEO 质量评分（各检查项得分与说明） */
+  seoGate?: SeoGateReport;
+  slug: string;
+  expectedPageUrl: string;
+  metaDescription: string;
+  htmlLength: number;
+  generatedAt: number;
+}
+
+export interface PagePreview {
+  report: PagePreviewReport;
+  html: string;
+}
+
+/** 任务状态流中的一条事件（SSE 推送，id 为任务内递增序号，用于 Last-Event-ID 续传） */
+export interface TaskEvent {
+  id: number;
+  taskId: string;
+  status: TaskStatus;
+  message: string;
+  timestamp: number;
+  pageUrl?: string;
+  error?: string;
+}
+
+export type BatchStatus = "queued" | "running" | "completed" | "interrupted";
+
+export type BatchRowStatus =
+  | "pending"
+  | "running"
+  | "completed"
+  | "failed"
+  | "skipped"
+  | "cancelled"
+  | "awaiting_review"
+  | "rejected";
+
+/** 批量任务中单个关键词的覆盖项（未填写的字段沿用批量请求的公共配置） */
+export interface BatchRowInput {
+  keyword: string;
+  titleType?: string;
+  templateType?: string;
+  targetCategory?: string;
+  pageTitle?: string;
+  userPrompt?: string;
+  /** 要原地更新的页面 slug；填写后该行按 publishMode=refresh 发布 */
+  refreshSlug?: string;
+}
+
+export interface BatchRow extends BatchRowInput {
+  index: number;
+  status: BatchRowStatus;
+  taskId?: string;
+  pageUrl?: string;
+  error?: string;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export interface BatchJob {
+  id: string;
+  status: BatchStatus;
+  concurrency: number;
+  publishTarget: NonNullable<GenerationRequestPayload["publishTarget"]>;
+  /** 公共请求参数（内存中含凭据；落盘到 data/batches.json 时去掉凭据，接口返回前剔除） */
+  basePayload?: GenerationRequestPayload;
+  rows: BatchRow[];
+  createdAt: number;
+  updatedAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+/**
+ * 批量任务事件流：batch = 批量状态变化，row = 行状态变化，task = 行内任务的进度消息
+ */
+export interface BatchEvent {
+  id: number;
+  batchId: string;
+  type: "batch" | "row" | "task";
+  timestamp: number;
+  batchStatus?: BatchStatus;
+  rowIndex?: number;
+  rowStatus?: BatchRowStatus;
+  taskId?: string;
+  taskStatus?: TaskStatus;
+  message?: string;
+  pageUrl?: string;
+  error?: string;
+}
+
+/** 改写队列的入队原因：GSC 监控（ctr_drop / ranking_loss）、过期指南（stale_content）、历史审计（tier_d / alignment） */
+export type RewriteReason =
+  | "ctr_drop"
+  | "ranking_loss"
+  | "stale_content"
+  | "tier_d"
+  | "alignment"
+  | "broken_links"
+  | "orphan_page";
+
+/** awaiting_review：改写任务停在人工审核，审核决定后再结算为 done / failed */
+export type RewriteQueueStatus = "pending" | "processing" | "awaiting_review" | "done" | "failed" | "skipped";
+
+/** data/rewrite-queue.json 中的一条记录（各写入方字段不同，审计脚本会展开整条历史记录） */
+export interface RewriteQueueEntry {
+  pageUrl?: string;
+  keyword?: string;
+  reason?: RewriteReason;
+  /** auditHistoryPages 写入的原因字段 */
+  queueReason?: RewriteReason;
+  detectedAt?: string;
+  source?: string;
+  /** 审计脚本写入的历史记录 ID */
+  id?: string;
+  titleType?: string;
+  templateType?: string;
+  /** 未填写视为 pending */
+  status?: RewriteQueueStatus;
+  attempts?: number;
+  startedAt?: string;
+  finishedAt?: string;
+  outcome?: RewriteQueueOutcome;
+  [key: string]: unknown;
+}
+
+export interface RewriteQueueOutcome {
+  taskId?: string;
+  taskStatus?: TaskStatus;
+  pageUrl?: string;
+  message?: string;
+  error?: string;
+}
+
+/** 内置定时任务的一次执行结果 */
+export interface JobRunOutcome {
+  status: "success" | "failed";
+  trigger: "schedule" | "manual";
+  startedAt: number;
+  finishedAt: number;
+  durationMs: number;
+  result?: Record<string, unknown>;
+  error?: string;
+}
+
+export interface JobState {
+  name: string;
+  description: string;
+  /** 生效的 cron 表达式；未配置时为 null（只能手动触发） */
+  cron: string | null;
+  /** cron 表达式无效时的错误信息 */
+  cronError?: string;
+  running: boolean;
+  lastRunAt?: number;
+  nextRunAt?: number | null;
+  lastOutcome?: JobRunOutcome;
+}
+
+/** 知识库中的一个产品（提示词中的产品段落由这些字段渲染） */
+export interface KnowledgeBaseProduct {
+  /** 稳定标识（小写 slug），PUT /api/knowledge-base/products/:id 使用 */
+  id: string;
+  name: string;
+  brand: string;
+  /** 产品品类（如 phones / watches / rings） */
+  category: string;
+  landingPageUrl?: string;
+  collectionUrl?: string;
+  priceRange?: { min: number; max: number; currency: string };
+  features: string[];
+  specs: string[];
+  faqNotes: string[];
+  /** 仅商业意图正文使用的卖点与异议处理 */
+  buyingAngles: string[];
+  updatedAt?: number;
+}
+
+/** 知识库的一个历史版本（被新版本替换前的产品列表快照） */
+export interface KnowledgeBaseRevision {
+  version: number;
+  /** 该版本当初的保存时间；内置默认版本为 0 */
+  savedAt: number;
+  note?: string;
+  products: KnowledgeBaseProduct[];
+}
+
+export interface KnowledgeBaseDocument {
+  /** 每次保存递增；未保存过时为 1（内置默认产品） */
+  version: number;
+  updatedAt: number;
+  note?: string;
+  products: KnowledgeBaseProduct[];
+  revisions: KnowledgeBaseRevision[];
+}
+
+/** 实验中的一个变体及其模板/版式设置 */
+export interface ExperimentVariantConfig {
+  /** 变体标识（如 A / B），写入任务记录、GA 事件与反馈 */
+  id: string;
+  /** 分配到该变体的页面占比（0–100，各变体合计 100） */
+  allocation: number;
+  description?: string;
+  /** 该变体使用的模板壳；不填则沿用意图选壳结果 */
+  templateType?: string;
+  /** 该变体的首屏版式；不填则沿用意图推断 */
+  layoutPriority?: GenerationRequestPayload["layoutPriority"];
+}
+
+/** 实验登记（/api/experiments）；第一个变体作为对照组 */
+export interface ExperimentDefinition {
+  id: string;
+  name?: string;
+  hypothesis: string;
+  variants: ExperimentVariantConfig[];
+  /** ISO 8601；开始前与结束后新页面不再入组 */
+  startAt: string;
+  endAt?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** 站点配置中加密保存的凭据（明文只在服务端内存中出现） */
+export interface SiteProfileSecrets {
+  wordpress?: { appPassword?: string; consumerKey?: string; consumerSecret?: string };
+  shopify?: { accessToken?: string };
+  sanity?: { token?: string };
+}
+
+/** 站点配置（/api/site-profiles）：发布目标与产品源的连接信息，请求只需传 siteProfileId */
+export interface SiteProfile {
+  /** 小写 slug */
+  id: string;
+  name?: string;
+  wordpress?: { url?: string; username?: string };
+  shopify?: { storeUrl?: string; publicStoreUrl?: string };
+  staticPublish?: GenerationRequestPayload["staticPublish"];
+  sanity?: Omit<NonNullable<GenerationRequestPayload["sanity"]>, "token">;
+  /** SiteProfileSecrets 的 JSON，经 SITE_PROFILE_ENCRYPTION_KEY 加密（secretVault） */
+  encryptedSecrets?: string;
+  /** 已保存的密钥字段（如 wordpress.appPassword），接口只返回这个列表 */
+  secretFields: string[];
+  createdAt: number;
+  updatedAt: number;
 }
@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import {
+  CONTENT_FINGERPRINT_SIZE,
+  buildContentFingerprint,
+  buildDifferentiationHint,
+  buildShingles,
+  estimateSimilarity,
+  findNearDuplicate,
+} from "./contentFingerprint.js";
+
+const paragraphs = [
+  "Luxury phones pair hand-finished materials with concierge services for owners who travel often.",
+  "Calfskin and alligator leather age differently, so ask how the back panel is stitched and sealed.",
+  "Sapphire crystal resists scratches far better than toughened glass, but it can still shatter on stone.",
+  "A dedicated concierge line matters most when you need a restaurant table or a car at short notice.",
+  "Resale value depends on limited editions, original packaging and a documented service history.",
+  "Battery life on boutique handsets trails mainstream flagships because of smaller custom chassis.",
+  "Warranty terms vary by region, so register the device in the country where you bought it.",
+  "Privacy features such as encrypted calls are only useful if the people you call use them too.",
+];
+const html = (items: string[]) => items.map((p) => `<p>${p}</p>`).join("\n");
+
+{
+  assert.equal(buildShingles("<p>one two three four</p>").size, 0);
+  assert.deepEqual(buildContentFingerprint("<p>too short</p>"), []);
+  assert.equal(buildShingles("<p>A b c d e f</p>", 5).size, 2);
+  // markup and case do not change the fingerprint
+  assert.deepEqual(
+    buildContentFingerprint(html(paragraphs)),
+    buildContentFingerprint(`<div>${html(paragraphs).toUpperCase().replace(/<P>/g, "<p class='x'>")}</div>`)
+  );
+}
+
+{
+  const original = buildContentFingerprint(html(paragraphs));
+  assert.equal(original.length, CONTENT_FINGERPRINT_SIZE);
+  assert.equal(estimateSimilarity(original, original), 1);
+
+  const reworded = buildContentFingerprint(html([...paragraphs.slice(0, 6), "Completely new closing thoughts about ownership, insurance and discreet everyday carry for collectors."]));
+  const unrelated = buildContentFingerprint(
+    html([
+      "Mechanical watches need servicing every five years to keep the movement lubricated and accurate.",
+      "Titanium cases are lighter than steel and less likely to trigger allergies on sensitive skin.",
+      "Ceramic bezels keep their colour for decades but can chip if the watch is dropped on tiles.",
+    ])
+  );
+  const similar = estimateSimilarity(original, reworded);
+  assert.ok(similar > 0.5, `reworded similarity ${similar}`);
+  assert.ok(estimateSimilarity(original, unrelated) < 0.1);
+  assert.equal(estimateSimilarity(original, []), 0);
+  assert.equal(estimateSimilarity(original, undefined), 0);
+
+  const corpus = [
+    { id: "watch", keyword: "luxury watch care", fingerprint: unrelated },
+    { id: "phone", keyword: "luxury phone buying guide", pageTitle: "Luxury Phone Buying Guide", pageUrl: "https://x.test/luxury-life-guides/buying/", fingerprint: reworded },
+    { id: "legacy", keyword: "no fingerprint", fingerprint: [] },
+  ];
+  const match = findNearDuplicate(original, corpus, 0.4);
+  assert.equal(match?.page.id, "phone");
+  assert.equal(findNearDuplicate(original, corpus, 0.99), null);
+
+  const hint = buildDifferentiationHint(match!);
+  assert.match(hint, /identical to "Luxury Phone Buying Guide" \(https:\/\/x\.test\/luxury-life-guides\/buying\/\)/);
+  assert.match(hint, /keyword "luxury phone buying guide"/);
+}
+
+console.log("contentFingerprint.test.ts: all assertions passed");
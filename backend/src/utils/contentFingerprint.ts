@@ -0,0 +1,121 @@
+/**
+ * Near-duplicate detection for generated guide copy: word-shingle MinHash fingerprints whose
+ * position-wise agreement estimates the Jaccard similarity of two articles' shingle sets.
+ * Fingerprints are small (one 32-bit integer per hash function) so they can live on history records.
+ */
+
+export const CONTENT_FINGERPRINT_SIZE = 64;
+/** Words per shingle; 5 catches reused sentences without flagging shared stock phrases */
+export const SHINGLE_WORDS = 5;
+
+export interface FingerprintedPage {
+  id: string;
+  keyword: string;
+  pageTitle?: string;
+  pageUrl?: string;
+  fingerprint: number[];
+}
+
+export interface NearDuplicateMatch {
+  page: FingerprintedPage;
+  /** Estimated Jaccard similarity, 0–1 */
+  similarity: number;
+}
+
+const HASH_SEEDS = Array.from({ length: CONTENT_FINGERPRINT_SIZE }, (_, i) => Math.imul(i + 1, 0x27d4eb2d) >>> 0);
+
+function normalizeWords(html: string): string[] {
+  return (html || "")
+    .replace(/<script[\s\S]*?<\/script>/gi, " ")
+    .replace(/<style[\s\S]*?<\/style>/gi, " ")
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&[a-z#0-9]+;/gi, " ")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/** FNV-1a, 32-bit */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** One member of the hash family: murmur3 finalizer over the shingle hash xor a per-function seed. */
+function mix(hash: number, seed: number): number {
+  let x = (hash ^ seed) >>> 0;
+  x ^= x >>> 16;
+  x = Math.imul(x, 0x85ebca6b);
+  x ^= x >>> 13;
+  x = Math.imul(x, 0xc2b2ae35);
+  x ^= x >>> 16;
+  return x >>> 0;
+}
+
+export function buildShingles(html: string, size: number = SHINGLE_WORDS): Set<string> {
+  const words = normalizeWords(html);
+  const shingles = new Set<string>();
+  for (let i = 0; i + size <= words.length; i++) {
+    shingles.add(words.slice(i, i + size).join(" "));
+  }
+  return shingles;
+}
+
+/**
+ * MinHash signature of the article's word shingles; empty when the text is shorter than one shingle.
+ */
+export function buildContentFingerprint(html: string): number[] {
+  const shingles = buildShingles(html);
+  if (shingles.size === 0) return [];
+  const signature = new Array<number>(CONTENT_FINGERPRINT_SIZE).fill(0xffffffff);
+  for (const shingle of shingles) {
+    const hash = hashString(shingle);
+    for (let i = 0; i < CONTENT_FINGERPRINT_SIZE; i++) {
+      const value = mix(hash, HASH_SEEDS[i]);
+      if (value < signature[i]) signature[i] = value;
+    }
+  }
+  return signature;
+}
+
+/** Share of matching signature slots; 0 when either fingerprint is missing or from a different size. */
+export function estimateSimilarity(a: number[] | undefined, b: number[] | undefined): number {
+  if (!a?.length || !b?.length || a.length !== b.length) return 0;
+  let same = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) same++;
+  }
+  return same / a.length;
+}
+
+/** Most similar page at or above the threshold, or null. */
+export function findNearDuplicate(
+  fingerprint: number[],
+  corpus: FingerprintedPage[],
+  threshold: number
+): NearDuplicateMatch | null {
+  let best: NearDuplicateMatch | null = null;
+  for (const page of corpus) {
+    const similarity = estimateSimilarity(fingerprint, page.fingerprint);
+    if (similarity >= threshold && (!best || similarity > best.similarity)) {
+      best = { page, similarity };
+    }
+  }
+  return best;
+}
+
+/** Regeneration instruction naming the page the draft overlaps with. */
+export function buildDifferentiationHint(match: NearDuplicateMatch): string {
+  const { page, similarity } = match;
+  const label = page.pageTitle ? `"${page.pageTitle}"` : `the guide for "${page.keyword}"`;
+  return [
+    `DIFFERENTIATE FROM EXISTING GUIDE: the previous draft was ~${Math.round(similarity * 100)}% identical to ${label}${page.pageUrl ? ` (${page.pageUrl})` : ""}, written for the keyword "${page.keyword}".`,
+    "- Do not reuse its paragraphs, sentences, examples or section order.",
+    "- Lead with the angle that is specific to this page's keyword and search intent; cover what the other guide does not.",
+    "- Use different supporting facts, scenarios and comparisons; keep shared product facts brief.",
+  ].join("\n");
+}
@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { nextCronRun, parseCronExpression, type CronSchedule } from "./cronExpression.js";
+
+function parse(expression: string): CronSchedule {
+  const schedule = parseCronExpression(expression);
+  assert.ok(typeof schedule !== "string", `expected "${expression}" to parse: ${schedule}`);
+  return schedule;
+}
+
+{
+  const schedule = parse("*/15 9-17 * * 1-5");
+  assert.deepEqual([...schedule.minutes], [0, 15, 30, 45]);
+  assert.deepEqual([...schedule.hours].length, 9);
+  assert.deepEqual([...schedule.daysOfWeek], [1, 2, 3, 4, 5]);
+}
+
+{
+  assert.deepEqual([...parse("0 0 * * 7").daysOfWeek], [0]);
+  assert.deepEqual([...parse("5,10-12 * * * *").minutes], [5, 10, 11, 12]);
+  assert.deepEqual([...parse("30/10 * * * *").minutes], [30, 40, 50]);
+  assert.equal(parse("@daily").expression, "@daily");
+}
+
+{
+  assert.equal(typeof parseCronExpression("* * * *"), "string");
+  assert.equal(typeof parseCronExpression("60 * * * *"), "string");
+  assert.equal(typeof parseCronExpression("* 5-2 * * *"), "string");
+  assert.equal(typeof parseCronExpression("*/0 * * * *"), "string");
+  assert.equal(typeof parseCronExpression("a * * * *"), "string");
+}
+
+{
+  // Monday 2024-01-01 10:07 local time
+  const from = new Date(2024, 0, 1, 10, 7, 30);
+  assert.deepEqual(nextCronRun(parse("*/15 * * * *"), from), new Date(2024, 0, 1, 10, 15));
+  assert.deepEqual(nextCronRun(parse("0 6 * * 1"), from), new Date(2024, 0, 8, 6, 0));
+  assert.deepEqual(nextCronRun(parse("0 3 * * *"), from), new Date(2024, 0, 2, 3, 0));
+  assert.deepEqual(nextCronRun(parse("0 0 1 * *"), from), new Date(2024, 1, 1, 0, 0));
+  // Strictly after `from`
+  assert.deepEqual(nextCronRun(parse("7 10 * * *"), new Date(2024, 0, 1, 10, 7)), new Date(2024, 0, 2, 10, 7));
+}
+
+{
+  // Day-of-month OR day-of-week when both are restricted
+  const from = new Date(2024, 0, 1, 12, 0);
+  assert.deepEqual(nextCronRun(parse("0 0 15 * 5"), from), new Date(2024, 0, 5, 0, 0));
+  assert.deepEqual(nextCronRun(parse("0 0 29 2 *"), from), new Date(2024, 1, 29, 0, 0));
+  assert.equal(nextCronRun(parse("0 0 31 2 *"), from), null);
+}
+
+console.log("cronExpression.test.ts: all assertions passed");
@@ -0,0 +1,123 @@
+/**
+ * Minimal 5-field cron parser (minute hour day-of-month month day-of-week) for the
+ * in-process job scheduler. Supports `*`, lists, ranges and steps; evaluated in server local time.
+ */
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Both day fields restricted → a day matches if either matches (standard cron semantics). */
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const FIELD_RANGES: Array<{ name: string; min: number; max: number }> = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day-of-month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day-of-week", min: 0, max: 7 },
+];
+
+const MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+};
+
+/** Search horizon for nextCronRun; covers leap-day schedules. */
+const MAX_LOOKAHEAD_MINUTES = 366 * 4 * 24 * 60;
+
+function parseField(field: string, range: { name: string; min: number; max: number }): Set<number> | string {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      return `Invalid ${range.name} field "${field}"`;
+    }
+    const step = match[4] ? Number(match[4]) : 1;
+    let start = range.min;
+    let end = range.max;
+    if (match[1] !== "*") {
+      start = Number(match[2]);
+      end = match[3] !== undefined ? Number(match[3]) : match[4] ? range.max : start;
+    }
+    if (step < 1 || start < range.min || end > range.max || start > end) {
+      return `Out-of-range ${range.name} field "${field}" (allowed ${range.min}-${range.max})`;
+    }
+    for (let value = start; value <= end; value += step) {
+      // day-of-week 7 is an alias for Sunday
+      values.add(range.name === "day-of-week" && value === 7 ? 0 : value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Parse a cron expression.
+ * @returns the schedule, or an error message when the expression is invalid
+ */
+export function parseCronExpression(expression: string): CronSchedule | string {
+  const trimmed = (expression || "").trim();
+  const fields = (MACROS[trimmed] ?? trimmed).split(/\s+/);
+  if (fields.length !== 5) {
+    return `Cron expression "${trimmed}" must have 5 fields (minute hour day-of-month month day-of-week)`;
+  }
+  const parsed: Set<number>[] = [];
+  for (let i = 0; i < fields.length; i++) {
+    const result = parseField(fields[i], FIELD_RANGES[i]);
+    if (typeof result === "string") return result;
+    parsed.push(result);
+  }
+  return {
+    expression: trimmed,
+    minutes: parsed[0],
+    hours: parsed[1],
+    daysOfMonth: parsed[2],
+    months: parsed[3],
+    daysOfWeek: parsed[4],
+    dayOfMonthRestricted: fields[2] !== "*",
+    dayOfWeekRestricted: fields[4] !== "*",
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const domMatch = schedule.daysOfMonth.has(date.getDate());
+  const dowMatch = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/**
+ * First run time strictly after `from` (minute precision).
+ * @returns null when nothing matches within the lookahead window (e.g. "0 0 31 2 *")
+ */
+export function nextCronRun(schedule: CronSchedule, from: Date = new Date()): Date | null {
+  const candidate = new Date(from.getTime());
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+
+  for (let i = 0; i < MAX_LOOKAHEAD_MINUTES; i++) {
+    if (!schedule.months.has(candidate.getMonth() + 1) || !matchesDay(schedule, candidate)) {
+      // Skip to the start of the next day
+      candidate.setHours(24, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (schedule.minutes.has(candidate.getMinutes())) {
+      return candidate;
+    }
+    candidate.setMinutes(candidate.getMinutes() + 1);
+  }
+  return null;
+}
@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import {
+  assignExperimentVariant,
+  compareProportions,
+  estimateProportion,
+  experimentStatus,
+  normalizeExperimentDefinition,
+} from "./experiments.js";
+import type { ExperimentDefinition } from "../types.js";
+
+const near = (actual: number, expected: number, tolerance = 1e-3) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} ≉ ${expected}`);
+
+{
+  const definition = normalizeExperimentDefinition({
+    id: "faq-first-2026",
+    hypothesis: "Leading with the FAQ lifts helpful votes",
+    variants: [
+      { id: "control", allocation: 70 },
+      { id: "faq", allocation: 30, templateType: "template-6", layoutPriority: "article-first" },
+    ],
+    startAt: "2026-03-01",
+  });
+  assert.notEqual(typeof definition, "string");
+  if (typeof definition === "string") throw new Error(definition);
+  assert.equal(definition.startAt, "2026-03-01T00:00:00.000Z");
+  assert.deepEqual(definition.variants[1], {
+    id: "faq",
+    allocation: 30,
+    templateType: "template-6",
+    layoutPriority: "article-first",
+  });
+
+  const experiment: ExperimentDefinition = { ...definition, createdAt: 0, updatedAt: 0 };
+  assert.equal(experimentStatus(experiment, Date.parse("2026-02-01")), "scheduled");
+  assert.equal(experimentStatus(experiment, Date.parse("2026-04-01")), "running");
+  assert.equal(experimentStatus({ ...experiment, endAt: "2026-03-15T00:00:00.000Z" }, Date.parse("2026-04-01")), "stopped");
+
+  // deterministic, case-insensitive and close to the configured split
+  assert.equal(assignExperimentVariant(experiment, "Luxury Phones").id, assignExperimentVariant(experiment, " luxury phones").id);
+  const counts = { control: 0, faq: 0 } as Record<string, number>;
+  for (let i = 0; i < 2000; i++) counts[assignExperimentVariant(experiment, `keyword ${i}`).id]++;
+  near(counts.faq / 2000, 0.3, 0.04);
+}
+
+{
+  const base = { id: "exp", hypothesis: "h", variants: [{ id: "A", allocation: 50 }, { id: "B", allocation: 50 }] };
+  assert.equal(normalizeExperimentDefinition({ ...base, id: "Exp 1" }), "id must be a lowercase slug (a-z, 0-9, -)");
+  assert.equal(normalizeExperimentDefinition({ ...base, hypothesis: "" }), "hypothesis is required");
+  assert.equal(normalizeExperimentDefinition({ ...base, variants: [{ id: "A", allocation: 100 }] }), "variants must list 2–5 variants");
+  assert.equal(
+    normalizeExperimentDefinition({ ...base, variants: [{ id: "A", allocation: 60 }, { id: "B", allocation: 50 }] }),
+    "variant allocations must add up to 100 (got 110)"
+  );
+  assert.equal(
+    normalizeExperimentDefinition({ ...base, variants: [{ id: "A", allocation: 50 }, { id: "A", allocation: 50 }] }),
+    'variants[1]: duplicate id "A"'
+  );
+  assert.match(
+    normalizeExperimentDefinition({ ...base, variants: [{ id: "A", allocation: 50, templateType: "template-9" }, { id: "B", allocation: 50 }] }) as string,
+    /templateType/
+  );
+  assert.equal(normalizeExperimentDefinition({ ...base, startAt: "2026-03-02", endAt: "2026-03-01" }), "endAt must be after startAt");
+}
+
+{
+  const empty = estimateProportion(0, 0);
+  assert.equal(empty.rate, null);
+  assert.equal(compareProportions(empty, estimateProportion(3, 10)), null);
+
+  // Wilson 95% for 81/263 (Newcombe 1998 worked example): 0.2553–0.3662
+  const a = estimateProportion(81, 263);
+  near(a.ci![0], 0.2553);
+  near(a.ci![1], 0.3662);
+
+  // Newcombe example: 56/70 vs 48/80 → difference 0.2, CI 0.0524–0.3339
+  const comparison = compareProportions(estimateProportion(48, 80), estimateProportion(56, 70))!;
+  near(comparison.delta, 0.2);
+  near(comparison.ci[0], 0.0524);
+  near(comparison.ci[1], 0.3339);
+  near(comparison.relativeLift!, 1 / 3);
+  assert.ok(comparison.pValue < 0.01);
+  assert.equal(comparison.significant, true);
+
+  const flat = compareProportions(estimateProportion(50, 1000), estimateProportion(52, 1000))!;
+  assert.equal(flat.significant, false);
+  assert.ok(flat.pValue > 0.5);
+}
+
+console.log("experiments.test.ts: all assertions passed");
@@ -0,0 +1,201 @@
+/**
+ * A/B experiment helpers: definition validation, deterministic weighted variant assignment and
+ * the proportion statistics used by the results readout (Wilson intervals, two-proportion deltas).
+ */
+
+import type { ExperimentDefinition, ExperimentVariantConfig } from "../types.js";
+
+export type ExperimentStatus = "scheduled" | "running" | "stopped";
+
+export interface ProportionEstimate {
+  successes: number;
+  trials: number;
+  /** successes / trials; null without trials */
+  rate: number | null;
+  /** 95% Wilson score interval */
+  ci: [number, number] | null;
+}
+
+export interface ProportionComparison {
+  /** treatment rate − baseline rate (absolute) */
+  delta: number;
+  /** 95% interval for the absolute delta (Newcombe hybrid score method) */
+  ci: [number, number];
+  /** delta / baseline rate; null when the baseline rate is 0 */
+  relativeLift: number | null;
+  /** Two-sided p-value of the pooled two-proportion z-test */
+  pValue: number;
+  significant: boolean;
+}
+
+const Z_95 = 1.959963984540054;
+const ID_RE = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const VARIANT_ID_RE = /^[A-Za-z0-9_-]{1,20}$/;
+const TEMPLATE_RE = /^template-[1-6]$/;
+const LAYOUT_PRIORITIES = ["article-first", "commerce-first", "comparison-first"];
+const MAX_VARIANTS = 5;
+
+export function experimentStatus(experiment: ExperimentDefinition, now: number = Date.now()): ExperimentStatus {
+  if (Date.parse(experiment.startAt) > now) return "scheduled";
+  if (experiment.endAt && Date.parse(experiment.endAt) <= now) return "stopped";
+  return "running";
+}
+
+/** FNV-1a, 32-bit */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic weighted assignment: the same unit (keyword) always lands in the same variant of a
+ * given experiment, and buckets follow the allocation percentages.
+ */
+export function assignExperimentVariant(
+  experiment: Pick<ExperimentDefinition, "id" | "variants">,
+  unitKey: string
+): ExperimentVariantConfig {
+  const total = experiment.variants.reduce((sum, v) => sum + v.allocation, 0);
+  const bucket = (hashString(`${experiment.id}:${unitKey.trim().toLowerCase()}`) / 0x100000000) * total;
+  let cumulative = 0;
+  for (const variant of experiment.variants) {
+    cumulative += variant.allocation;
+    if (bucket < cumulative) return variant;
+  }
+  return experiment.variants[experiment.variants.length - 1];
+}
+
+function isoDate(value: unknown, field: string): string | undefined | { error: string } {
+  if (value === undefined || value === null || value === "") return undefined;
+  const time = typeof value === "string" || typeof value === "number" ? new Date(value).getTime() : NaN;
+  if (!Number.isFinite(time)) return { error: `${field} must be an ISO date` };
+  return new Date(time).toISOString();
+}
+
+/**
+ * Validate and normalise an experiment definition from an API payload.
+ * @returns the definition (without timestamps), or an error message
+ */
+export function normalizeExperimentDefinition(
+  input: unknown
+): Omit<ExperimentDefinition, "createdAt" | "updatedAt"> | string {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return "experiment must be an object";
+  const raw = input as Record<string, unknown>;
+
+  const id = typeof raw.id === "string" ? raw.id.trim() : "";
+  if (!ID_RE.test(id)) return "id must be a lowercase slug (a-z, 0-9, -)";
+  const hypothesis = typeof raw.hypothesis === "string" ? raw.hypothesis.trim() : "";
+  if (!hypothesis) return "hypothesis is required";
+
+  if (!Array.isArray(raw.variants) || raw.variants.length < 2 || raw.variants.length > MAX_VARIANTS) {
+    return `variants must list 2–${MAX_VARIANTS} variants`;
+  }
+  const variants: ExperimentVariantConfig[] = [];
+  for (const [index, item] of raw.variants.entries()) {
+    const v = (item && typeof item === "object" ? item : {}) as Record<string, unknown>;
+    const variantId = typeof v.id === "string" ? v.id.trim() : "";
+    if (!VARIANT_ID_RE.test(variantId)) return `variants[${index}].id must be 1–20 letters, digits, _ or -`;
+    if (variants.some((existing) => existing.id === variantId)) return `variants[${index}]: duplicate id "${variantId}"`;
+    const allocation = Number(v.allocation);
+    if (!Number.isFinite(allocation) || allocation < 0 || allocation > 100) {
+      return `variants[${index}].allocation must be a number between 0 and 100`;
+    }
+    if (v.templateType !== undefined && (typeof v.templateType !== "string" || !TEMPLATE_RE.test(v.templateType))) {
+      return `variants[${index}].templateType must be template-1 … template-6`;
+    }
+    if (v.layoutPriority !== undefined && !LAYOUT_PRIORITIES.includes(v.layoutPriority as string)) {
+      return `variants[${index}].layoutPriority must be one of: ${LAYOUT_PRIORITIES.join(", ")}`;
+    }
+    variants.push({
+      id: variantId,
+      allocation,
+      ...(typeof v.description === "string" && v.description.trim() && { description: v.description.trim() }),
+      ...(v.templateType !== undefined && { templateType: v.templateType as string }),
+      ...(v.layoutPriority !== undefined && {
+        layoutPriority: v.layoutPriority as ExperimentVariantConfig["layoutPriority"],
+      }),
+    });
+  }
+  const totalAllocation = variants.reduce((sum, v) => sum + v.allocation, 0);
+  if (Math.abs(totalAllocation - 100) > 0.01) return `variant allocations must add up to 100 (got ${totalAllocation})`;
+
+  const startAt = isoDate(raw.startAt, "startAt") ?? new Date().toISOString();
+  if (typeof startAt === "object") return startAt.error;
+  const endAt = isoDate(raw.endAt, "endAt");
+  if (typeof endAt === "object") return endAt.error;
+  if (endAt && Date.parse(endAt) <= Date.parse(startAt)) return "endAt must be after startAt";
+
+  return {
+    id,
+    ...(typeof raw.name === "string" && raw.name.trim() && { name: raw.name.trim() }),
+    hypothesis,
+    variants,
+    startAt,
+    ...(endAt && { endAt }),
+  };
+}
+
+function wilsonInterval(successes: number, trials: number, z: number = Z_95): [number, number] {
+  const p = successes / trials;
+  const z2 = z * z;
+  const denominator = 1 + z2 / trials;
+  const centre = (p + z2 / (2 * trials)) / denominator;
+  const margin = (z * Math.sqrt((p * (1 - p)) / trials + z2 / (4 * trials * trials))) / denominator;
+  return [Math.max(0, centre - margin), Math.min(1, centre + margin)];
+}
+
+export function estimateProportion(successes: number, trials: number): ProportionEstimate {
+  if (!(trials > 0)) return { successes, trials, rate: null, ci: null };
+  const bounded = Math.min(Math.max(successes, 0), trials);
+  return { successes: bounded, trials, rate: bounded / trials, ci: wilsonInterval(bounded, trials) };
+}
+
+/** Abramowitz–Stegun 7.1.26 (|error| < 1.5e-7) */
+function erf(x: number): number {
+  const sign = x < 0 ? -1 : 1;
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const y =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) *
+      t *
+      Math.exp(-x * x);
+  return sign * y;
+}
+
+function normalCdf(z: number): number {
+  return 0.5 * (1 + erf(z / Math.SQRT2));
+}
+
+/**
+ * Treatment vs baseline for one binary metric; null when either side has no trials.
+ */
+export function compareProportions(
+  baseline: ProportionEstimate,
+  treatment: ProportionEstimate
+): ProportionComparison | null {
+  if (baseline.rate === null || treatment.rate === null || !baseline.ci || !treatment.ci) return null;
+  const p1 = baseline.rate;
+  const p2 = treatment.rate;
+  const delta = p2 - p1;
+  // Newcombe (1998) method 10: combine the two Wilson intervals
+  const [l1, u1] = baseline.ci;
+  const [l2, u2] = treatment.ci;
+  const ci: [number, number] = [
+    delta - Math.sqrt((p2 - l2) ** 2 + (u1 - p1) ** 2),
+    delta + Math.sqrt((u2 - p2) ** 2 + (p1 - l1) ** 2),
+  ];
+  const pooled = (baseline.successes + treatment.successes) / (baseline.trials + treatment.trials);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / baseline.trials + 1 / treatment.trials));
+  const pValue = se > 0 ? 2 * (1 - normalCdf(Math.abs(delta) / se)) : 1;
+  return {
+    delta,
+    ci,
+    relativeLift: p1 > 0 ? delta / p1 : null,
+    pValue: Math.min(1, Math.max(0, pValue)),
+    significant: ci[0] > 0 || ci[1] < 0,
+  };
+}
@@ -0,0 +1,148 @@
+import assert from "node:assert/strict";
+import type { KnowledgeBaseProduct } from "../types.js";
+import {
+  buildFactCheckRetryHint,
+  catalogFacts,
+  factCheckContent,
+  factCheckHtml,
+  knowledgeBaseFacts,
+} from "./factCheck.js";
+
+const product = (fields: Partial<KnowledgeBaseProduct> & Pick<KnowledgeBaseProduct, "id" | "name">): KnowledgeBaseProduct => ({
+  brand: "VERTU",
+  category: "phones",
+  features: [],
+  specs: [],
+  faqNotes: [],
+  buyingAngles: [],
+  ...fields,
+});
+
+const kb = [
+  product({
+    id: "agent-q",
+    name: "Agent Q",
+    priceRange: { min: 5380, max: 109680, currency: "USD" },
+    features: ["Falcon-Wing SIM chamber, seamless U-shaped leather, ceramic pillow, crocodile leather option."],
+    specs: [
+      "RAM 16GB; storage 512GB or 1TB",
+      'Display: 6.82" FHD+ (1080×2340) Flexible AMOLED, 120 Hz',
+      'Cameras: 50MP main OIS 1.55" sensor',
+      "Battery 5,565 mAh, 65W fast charging",
+    ],
+  }),
+  product({
+    id: "quantum-flip",
+    name: "Quantum Flip",
+    priceRange: { min: 4300, max: 25310, currency: "USD" },
+    features: ["Aerospace-grade titanium alloy hinge."],
+    specs: ['Displays: 6.9" FHD+ OLED main; 3" OLED cover', "Battery 4,300 mAh with 65W flash charging"],
+  }),
+];
+
+const facts = [
+  ...knowledgeBaseFacts(kb),
+  ...catalogFacts([
+    { name: "Quantum Flip Titanium Black", price: "$4,300.00" },
+    { name: "No price product" },
+  ]),
+];
+
+{
+  assert.deepEqual(
+    facts.map((f) => f.name),
+    ["Agent Q", "Quantum Flip", "Quantum Flip Titanium Black"]
+  );
+  const agentQ = facts[0];
+  assert.deepEqual(agentQ.priceRanges, [[5380, 109680]]);
+  assert.deepEqual(agentQ.batteryMah, [5565]);
+  assert.deepEqual(agentQ.memoryGb, [16, 512, 1024]);
+  // camera sensor sizes are not display sizes
+  assert.deepEqual(agentQ.displayInches, [6.82]);
+  assert.deepEqual(agentQ.materials, ["crocodile", "leather", "ceramic"]);
+  assert.deepEqual(facts[1].displayInches, [6.9, 3]);
+}
+
+{
+  const html = [
+    "<p>The Agent Q starts at $4,999 and packs a 5,000 mAh battery with 16GB of RAM.</p>",
+    "<p>Agent Q owners also receive $250 of travel credit.</p>",
+    "<li>Quantum Flip: 6.8-inch main display, <strong>titanium</strong> hinge, from $4,300.</li>",
+    "<p>The Agent Q ships with 2TB of storage.</p>",
+    "<p>Both the Agent Q from $4,000 and the Quantum Flip ship worldwide.</p>",
+    "<p>The Agent Q is wrapped in titanium.</p>",
+    "<p>Generic phones cost $999.</p>",
+  ].join("\n");
+  const result = factCheckHtml(html, facts, { correct: true });
+
+  assert.deepEqual(
+    result.corrected.map((d) => [d.product, d.kind, d.stated, d.correction]),
+    [
+      ["Agent Q", "price", "$4,999", "$5,380"],
+      ["Agent Q", "battery", "5,000 mAh", "5,565 mAh"],
+      ["Quantum Flip", "display", "6.8-inch", "6.9-inch"],
+    ]
+  );
+  assert.deepEqual(
+    result.remaining.map((d) => [d.product, d.kind, d.stated]),
+    [
+      ["Agent Q", "memory", "2TB"],
+      // two products in one sentence: reported, never rewritten
+      ["Agent Q", "price", "$4,000"],
+      ["Agent Q", "material", "titanium"],
+    ]
+  );
+  assert.match(result.html, /starts at \$5,380 and packs a 5,565 mAh battery/);
+  assert.match(result.html, /6\.9-inch main display, <strong>titanium<\/strong>/);
+  assert.match(result.html, /\$250 of travel credit/);
+  assert.match(result.html, /Generic phones cost \$999/);
+
+  const readOnly = factCheckHtml(html, facts, { correct: false });
+  assert.equal(readOnly.html, html);
+  assert.equal(readOnly.corrected.length, 0);
+  assert.equal(readOnly.remaining.length, 6);
+}
+
+{
+  const { content, corrected, remaining, claims } = factCheckContent(
+    {
+      articleContent: "<p>Agent Q: 6.82\" display.</p>",
+      faqItems: [{ question: "How big is the Quantum Flip battery?", answer: "The Quantum Flip carries a 4,000 mAh cell." }],
+      extra: "kept",
+    },
+    facts,
+    { correct: true }
+  );
+  assert.equal(claims, 2);
+  assert.equal(remaining.length, 0);
+  assert.equal(corrected[0].kind, "battery");
+  assert.equal(content.faqItems[0].answer, "The Quantum Flip carries a 4,300 mAh cell.");
+  assert.equal(content.extra, "kept");
+
+  const hint = buildFactCheckRetryHint([
+    { product: "Agent Q", kind: "memory", stated: "2TB", expected: "16GB, 512GB, 1TB", sentence: "Agent Q has 2TB." },
+  ]);
+  assert.match(hint, /FACT CORRECTION/);
+  assert.match(hint, /Agent Q: the draft states "2TB" \(memory\) but the verified value is 16GB, 512GB, 1TB/);
+}
+
+{
+  // Prices kept in another currency are checked against claims in that currency only
+  const gbpFacts = knowledgeBaseFacts([
+    product({ id: "signature-s", name: "Signature S", priceRange: { min: 7200, max: 9800, currency: "GBP" } }),
+  ]);
+  assert.equal(gbpFacts[0].priceCurrency, "GBP");
+  const result = factCheckHtml(
+    "<p>The Signature S costs £6,500 in London.</p><p>The Signature S sells for $9,000 abroad.</p>",
+    gbpFacts,
+    { correct: true }
+  );
+  assert.equal(result.claims, 2);
+  assert.deepEqual(
+    result.corrected.map((d) => [d.stated, d.expected, d.correction]),
+    [["£6,500", "£7,200–£9,800", "£7,200"]]
+  );
+  assert.equal(result.remaining.length, 0);
+}
+
+console.log("factCheck.test.ts: all assertions passed");
@@ -0,0 +1,401 @@
+/**
+ * Fact-check numeric product claims in generated copy against the knowledge base and live catalog.
+ * Claims (prices, battery mAh, memory GB/TB, display inches, materials) are attributed to the product
+ * named in the same sentence; mismatches are corrected in place when the fix is unambiguous and
+ * otherwise returned so the pipeline can regenerate with the discrepancies listed.
+ */
+
+import type { KnowledgeBaseProduct } from "../types.js";
+import { CURRENCY_SYMBOLS, formatPriceRange } from "./knowledgeBaseRecords.js";
+
+export type FactClaimKind = "price" | "battery" | "memory" | "display" | "material";
+
+export interface ProductFacts {
+  name: string;
+  source: "knowledge_base" | "catalog";
+  /** Allowed price ranges in priceCurrency (inclusive); a single price is [p, p] */
+  priceRanges: Array<[number, number]>;
+  /** ISO code of priceRanges; claims are only compared against prices in the same currency */
+  priceCurrency: string;
+  batteryMah: number[];
+  /** Normalised to GB (1 TB = 1024 GB) */
+  memoryGb: number[];
+  displayInches: number[];
+  materials: string[];
+}
+
+export interface FactDiscrepancy {
+  product: string;
+  kind: FactClaimKind;
+  /** Claim text as written, e.g. "$4,999" or "5,000 mAh" */
+  stated: string;
+  /** Human-readable expected value(s) */
+  expected: string;
+  sentence: string;
+  /** Replacement applied in place (only for corrected discrepancies) */
+  correction?: string;
+}
+
+export interface FactCheckResult {
+  html: string;
+  claims: number;
+  corrected: FactDiscrepancy[];
+  remaining: FactDiscrepancy[];
+}
+
+export interface FactCheckContent {
+  articleContent: string;
+  extendedContent?: string;
+  faqItems: Array<{ question: string; answer: string }>;
+}
+
+export interface FactCheckContentResult<T extends FactCheckContent = FactCheckContent> {
+  content: T;
+  claims: number;
+  corrected: FactDiscrepancy[];
+  remaining: FactDiscrepancy[];
+}
+
+const MATERIALS = [
+  "alligator",
+  "crocodile",
+  "calfskin",
+  "lizard",
+  "ostrich",
+  "leather",
+  "ceramic",
+  "sapphire",
+  "titanium",
+  "stainless steel",
+  "platinum",
+  "rose gold",
+  "gold",
+  "silver",
+  "carbon fibre",
+  "aluminium",
+  "ruby",
+  "diamond",
+];
+
+/** Relative tolerance for price matches (rounding, ".00" formatting) */
+const PRICE_TOLERANCE = 0.01;
+/** Dollar amounts below this share of the cheapest known price are not treated as the product's price */
+const MIN_PRICE_RATIO = 0.3;
+/** Display sizes further than this from every known size are not auto-corrected */
+const MAX_DISPLAY_CORRECTION = 0.5;
+const BLOCK_RE = /<(p|li|td|th|h[2-6]|figcaption|blockquote|dd)\b[^>]*>([\s\S]*?)<\/\1>/gi;
+
+const PRICE_RE = /(US\$|\$|£|€)\s?(\d{1,3}(?:,\d{3})+|\d+)(?:\.\d{1,2})?/g;
+/** Price symbol as written → ISO code */
+const SYMBOL_CURRENCIES: Record<string, string> = {
+  "US$": "USD",
+  ...Object.fromEntries(Object.entries(CURRENCY_SYMBOLS).map(([code, symbol]) => [symbol, code])),
+};
+const BATTERY_RE = /(\d{1,2},\d{3}|\d{3,5})\s?mAh\b/gi;
+const MEMORY_RE = /\b(\d+(?:\.\d+)?)\s?(GB|TB)\b/g;
+const DISPLAY_RE = /\b(\d{1,2}(?:\.\d{1,2})?)\s?(?:["”″]|-inch\b|\s?inch(?:es)?\b|-in\b)/gi;
+
+function toNumber(text: string): number {
+  return Number(text.replace(/,/g, ""));
+}
+
+function formatNumber(value: number): string {
+  return value.toLocaleString("en-US", { maximumFractionDigits: 2 });
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function plainText(html: string): string {
+  return (html || "")
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&quot;|&#8221;|&#8220;/g, '"')
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function uniqueNumbers(values: number[]): number[] {
+  return [...new Set(values.filter((v) => Number.isFinite(v) && v > 0))];
+}
+
+function materialsIn(text: string): string[] {
+  const lower = text.toLowerCase();
+  return MATERIALS.filter((m) => new RegExp(`\\b${escapeRegExp(m)}\\b`).test(lower));
+}
+
+function parsePriceRanges(text: string, currency: string): Array<[number, number]> {
+  const values = [...(text || "").matchAll(PRICE_RE)]
+    .filter((m) => SYMBOL_CURRENCIES[m[1]] === currency)
+    .map((m) => toNumber(m[2]))
+    .filter((v) => v > 0);
+  if (values.length === 0) return [];
+  return [[Math.min(...values), Math.max(...values)]];
+}
+
+/**
+ * Facts of the typed knowledge-base records: the price range as stored (any currency), specs parsed
+ * per record from its features, specs and notes.
+ */
+export function knowledgeBaseFacts(products: KnowledgeBaseProduct[]): ProductFacts[] {
+  return products.map((product) => {
+    const lines = [...product.features, ...product.specs, ...product.faqNotes, ...product.buyingAngles];
+    const text = lines.join("\n");
+    const displayLines = lines.filter((line) => /display/i.test(line)).join("\n");
+    return {
+      name: product.name,
+      source: "knowledge_base" as const,
+      priceRanges: product.priceRange ? [[product.priceRange.min, product.priceRange.max]] : [],
+      priceCurrency: product.priceRange?.currency ?? "USD",
+      batteryMah: uniqueNumbers([...text.matchAll(BATTERY_RE)].map((m) => toNumber(m[1]))),
+      memoryGb: uniqueNumbers([...text.matchAll(MEMORY_RE)].map((m) => Number(m[1]) * (m[2] === "TB" ? 1024 : 1))),
+      displayInches: uniqueNumbers([...displayLines.matchAll(/(\d{1,2}(?:\.\d{1,2})?)["”]/g)].map((m) => Number(m[1]))),
+      materials: materialsIn(`${product.name}\n${text}`),
+    };
+  });
+}
+
+/** Live catalog prices (current and pre-sale) keyed by product name. */
+export function catalogFacts(products: Array<{ name: string; price?: string; originalPrice?: string }>): ProductFacts[] {
+  return products
+    .filter((p) => p.name?.trim())
+    .map((p) => ({
+      name: plainText(p.name),
+      source: "catalog" as const,
+      priceRanges: [...parsePriceRanges(p.price || "", "USD"), ...parsePriceRanges(p.originalPrice || "", "USD")],
+      priceCurrency: "USD",
+      batteryMah: [],
+      memoryGb: [],
+      displayInches: [],
+      materials: [],
+    }))
+    .filter((p) => p.priceRanges.length > 0);
+}
+
+function related(a: string, b: string): boolean {
+  const x = a.toLowerCase();
+  const y = b.toLowerCase();
+  return x === y || x.includes(y) || y.includes(x);
+}
+
+interface Mention {
+  name: string;
+  index: number;
+}
+
+function findMentions(sentence: string, names: string[]): Mention[] {
+  const mentions: Mention[] = [];
+  const taken: Array<[number, number]> = [];
+  // longest names first so "Metavertu Max" wins over "Metavertu"
+  for (const name of names) {
+    const re = new RegExp(`\\b${escapeRegExp(name)}\\b`, "gi");
+    for (const match of sentence.matchAll(re)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      if (taken.some(([s, e]) => start < e && end > s)) continue;
+      taken.push([start, end]);
+      mentions.push({ name, index: start });
+    }
+  }
+  return mentions.sort((a, b) => a.index - b.index);
+}
+
+function attribute(mentions: Mention[], index: number): string {
+  const before = mentions.filter((m) => m.index <= index);
+  return (before.length ? before[before.length - 1] : mentions[0]).name;
+}
+
+interface Claim {
+  kind: FactClaimKind;
+  raw: string;
+  value: number | string;
+  index: number;
+  /** Span of the numeric part inside raw, used for corrections */
+  numberText: string;
+  /** ISO code of a price claim */
+  currency?: string;
+}
+
+function extractClaims(sentence: string): Claim[] {
+  const claims: Claim[] = [];
+  for (const m of sentence.matchAll(PRICE_RE)) {
+    claims.push({
+      kind: "price",
+      raw: m[0],
+      value: toNumber(m[2]),
+      index: m.index ?? 0,
+      numberText: m[2],
+      currency: SYMBOL_CURRENCIES[m[1]],
+    });
+  }
+  for (const m of sentence.matchAll(BATTERY_RE)) {
+    claims.push({ kind: "battery", raw: m[0], value: toNumber(m[1]), index: m.index ?? 0, numberText: m[1] });
+  }
+  for (const m of sentence.matchAll(MEMORY_RE)) {
+    const gb = Number(m[1]) * (m[2] === "TB" ? 1024 : 1);
+    claims.push({ kind: "memory", raw: m[0], value: gb, index: m.index ?? 0, numberText: m[1] });
+  }
+  for (const m of sentence.matchAll(DISPLAY_RE)) {
+    claims.push({ kind: "display", raw: m[0], value: Number(m[1]), index: m.index ?? 0, numberText: m[1] });
+  }
+  const lower = sentence.toLowerCase();
+  for (const material of MATERIALS) {
+    for (const m of lower.matchAll(new RegExp(`\\b${escapeRegExp(material)}\\b`, "g"))) {
+      // "rose gold" already covers its "gold"
+      if (claims.some((c) => c.kind === "material" && c.index <= (m.index ?? 0) && (m.index ?? 0) < c.index + c.raw.length)) continue;
+      claims.push({ kind: "material", raw: sentence.slice(m.index ?? 0, (m.index ?? 0) + material.length), value: material, index: m.index ?? 0, numberText: "" });
+    }
+  }
+  return claims;
+}
+
+function describeRanges(ranges: Array<[number, number]>, currency: string): string {
+  return ranges.map(([min, max]) => formatPriceRange({ min, max, currency })).join(" or ");
+}
+
+/**
+ * Checks one claim against the facts known for the product it is attributed to.
+ * @returns null when the claim is consistent or nothing is known to check it against
+ */
+function verifyClaim(
+  claim: Claim,
+  facts: ProductFacts[]
+): { expected: string; correctedNumber?: number } | null {
+  switch (claim.kind) {
+    case "price": {
+      const currency = claim.currency ?? "USD";
+      const ranges = facts.filter((f) => f.priceCurrency === currency).flatMap((f) => f.priceRanges);
+      if (!ranges.length) return null;
+      const value = claim.value as number;
+      // far below every known price: a fee, credit or accessory rather than the product itself
+      if (value < Math.min(...ranges.map(([min]) => min)) * MIN_PRICE_RATIO) return null;
+      const within = ranges.some(([min, max]) => value >= min * (1 - PRICE_TOLERANCE) && value <= max * (1 + PRICE_TOLERANCE));
+      if (within) return null;
+      // nearest bound of the nearest range
+      const bounds = ranges.flat();
+      const nearest = bounds.reduce((best, b) => (Math.abs(b - value) < Math.abs(best - value) ? b : best), bounds[0]);
+      return { expected: describeRanges(ranges, currency), correctedNumber: nearest };
+    }
+    case "battery": {
+      const known = uniqueNumbers(facts.flatMap((f) => f.batteryMah));
+      if (!known.length || known.includes(claim.value as number)) return null;
+      return {
+        expected: known.map((v) => `${formatNumber(v)} mAh`).join(" or "),
+        correctedNumber: known.length === 1 ? known[0] : undefined,
+      };
+    }
+    case "memory": {
+      const known = uniqueNumbers(facts.flatMap((f) => f.memoryGb));
+      if (!known.length || known.includes(claim.value as number)) return null;
+      // RAM vs storage is ambiguous, so memory is never corrected in place
+      return { expected: known.map((v) => (v >= 1024 ? `${formatNumber(v / 1024)}TB` : `${formatNumber(v)}GB`)).join(", ") };
+    }
+    case "display": {
+      const known = uniqueNumbers(facts.flatMap((f) => f.displayInches));
+      const value = claim.value as number;
+      if (!known.length || known.some((v) => Math.abs(v - value) < 0.005)) return null;
+      const nearest = known.reduce((best, v) => (Math.abs(v - value) < Math.abs(best - value) ? v : best), known[0]);
+      return {
+        expected: known.map((v) => `${v}"`).join(" or "),
+        correctedNumber: Math.abs(nearest - value) <= MAX_DISPLAY_CORRECTION ? nearest : undefined,
+      };
+    }
+    case "material": {
+      const known = [...new Set(facts.flatMap((f) => f.materials))];
+      // catalog-only products carry no material data
+      if (!known.length || known.some((k) => k.includes(claim.value as string))) return null;
+      return { expected: known.join(", ") };
+    }
+  }
+}
+
+/**
+ * Fact-check one HTML fragment. Blocks (p / li / td / headings …) are split into sentences; a claim
+ * is attributed to the nearest preceding product name in its sentence. Corrections are applied only
+ * when the sentence names a single product and the claim text occurs exactly once in its block.
+ */
+export function factCheckHtml(html: string, facts: ProductFacts[], options: { correct: boolean }): FactCheckResult {
+  const names = [...new Set(facts.map((f) => f.name))].sort((a, b) => b.length - a.length);
+  const corrected: FactDiscrepancy[] = [];
+  const remaining: FactDiscrepancy[] = [];
+  let claims = 0;
+  if (!html || names.length === 0) return { html, claims, corrected, remaining };
+
+  const checked = html.replace(BLOCK_RE, (block: string, tag: string, inner: string) => {
+    let nextInner = inner;
+    const sentences = plainText(inner).split(/(?<=[.!?])\s+/);
+    for (const sentence of sentences) {
+      const mentions = findMentions(sentence, names);
+      if (mentions.length === 0) continue;
+      const singleProduct = new Set(mentions.map((m) => m.name.toLowerCase())).size === 1;
+      for (const claim of extractClaims(sentence)) {
+        const product = attribute(mentions, claim.index);
+        const productFacts = facts.filter((f) => related(f.name, product));
+        // materials only count when the sentence is about one product
+        if (claim.kind === "material" && !singleProduct) continue;
+        claims++;
+        const result = verifyClaim(claim, productFacts);
+        if (!result) continue;
+        const discrepancy: FactDiscrepancy = {
+          product,
+          kind: claim.kind,
+          stated: claim.raw.trim(),
+          expected: result.expected,
+          sentence,
+        };
+        const occurrences = nextInner.split(claim.raw).length - 1;
+        if (options.correct && singleProduct && result.correctedNumber !== undefined && occurrences === 1) {
+          const replacement = claim.raw.replace(claim.numberText, formatNumber(result.correctedNumber));
+          nextInner = nextInner.replace(claim.raw, replacement);
+          corrected.push({ ...discrepancy, correction: replacement.trim() });
+        } else {
+          remaining.push(discrepancy);
+        }
+      }
+    }
+    return nextInner === inner ? block : block.replace(inner, nextInner);
+  });
+
+  return { html: checked, claims, corrected, remaining };
+}
+
+/** Fact-check article, extended content and FAQ answers together. */
+export function factCheckContent<T extends FactCheckContent>(
+  content: T,
+  facts: ProductFacts[],
+  options: { correct: boolean }
+): FactCheckContentResult<T> {
+  const corrected: FactDiscrepancy[] = [];
+  const remaining: FactDiscrepancy[] = [];
+  let claims = 0;
+  const run = (html: string) => {
+    const result = factCheckHtml(html, facts, options);
+    claims += result.claims;
+    corrected.push(...result.corrected);
+    remaining.push(...result.remaining);
+    return result.html;
+  };
+  const articleContent = run(content.articleContent);
+  const extendedContent = content.extendedContent ? run(content.extendedContent) : content.extendedContent;
+  const faqItems = content.faqItems.map((item) => {
+    // FAQ answers may be plain text; wrap so they are checked as one block
+    const wrapped = /<(p|li|td)\b/i.test(item.answer) ? item.answer : `<p>${item.answer}</p>`;
+    const answer = run(wrapped);
+    return { ...item, answer: wrapped === item.answer ? answer : answer.replace(/^<p>|<\/p>$/g, "") };
+  });
+  return { content: { ...content, articleContent, extendedContent, faqItems }, claims, corrected, remaining };
+}
+
+/** Regeneration instruction listing the claims that contradict the catalog / knowledge base. */
+export function buildFactCheckRetryHint(discrepancies: FactDiscrepancy[]): string {
+  const lines = discrepancies.slice(0, 12).map(
+    (d) => `- ${d.product}: the draft states "${d.stated}" (${d.kind}) but the verified value is ${d.expected}. Sentence: "${d.sentence}"`
+  );
+  return [
+    "FACT CORRECTION (mandatory): the previous draft contradicted the product catalogue / knowledge base:",
+    ...lines,
+    "Use only the verified values above, or omit the figure if unsure. Do not invent prices, specifications or materials.",
+  ].join("\n");
+}
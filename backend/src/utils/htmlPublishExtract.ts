@@ -10,7 +10,8 @@ export interface ExtractedPublishHtml {
 const JSON_LD_SCRIPT_RE =
   /<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
 
-function collectJsonLd(html: string): string[] {
+/** Raw contents of every `application/ld+json` script block, in document order. */
+export function collectJsonLd(html: string): string[] {
   const scripts: string[] = [];
   for (const match of html.matchAll(JSON_LD_SCRIPT_RE)) {
     const content = match[1]?.trim();
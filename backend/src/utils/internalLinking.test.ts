@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import {
+  buildAnchorPhrases,
+  extractLinkEntities,
+  injectContextualLinks,
+  rankRelatedPages,
+  scoreLinkRelatedness,
+  splitArticleBody,
+  type LinkGraphPage,
+} from "./internalLinking.js";
+
+{
+  assert.deepEqual([...extractLinkEntities("Vertu Agent Q vs Quantum Flip and the Agent  Q concierge")].sort(), [
+    "agentq",
+    "concierge",
+    "quantumflip",
+  ]);
+  assert.equal(extractLinkEntities("luxury flip phone").size, 0);
+}
+
+const pages: LinkGraphPage[] = [
+  { url: "https://vertu.com/luxury-life-guides/agent-q-price/", title: "Vertu Agent Q Price Guide", keyword: "vertu agent q price", category: "phone", source: "history", publishedAt: "2025-01-01" },
+  { url: "https://vertu.com/luxury-life-guides/agent-q-battery/", title: "Agent Q Battery Life", keyword: "agent q battery life", category: "phone", source: "sanity", publishedAt: "2025-03-01" },
+  { url: "https://vertu.com/luxury-life-guides/luxury-watches-men/", title: "Best Luxury Watches for Men", keyword: "luxury watches for men", category: "watch", source: "static" },
+  { url: "https://vertu.com/luxury-life-guides/durable-flip-phones/", title: "Durable Flip Phones", keyword: "durable flip phones", category: "phone", source: "history", publishedAt: "2024-06-01" },
+];
+
+{
+  const target = { keyword: "vertu agent q review", title: "Vertu Agent Q Review", category: "phone" };
+  assert.ok(scoreLinkRelatedness(target, pages[0]) > scoreLinkRelatedness(target, pages[3]));
+  assert.equal(scoreLinkRelatedness(target, pages[2]), 0);
+  // "general" on both sides is not a category match
+  assert.equal(
+    scoreLinkRelatedness({ keyword: "a b", title: "", category: "general" }, { keyword: "c d", title: "", category: "general" }),
+    0
+  );
+
+  const related = rankRelatedPages({ ...target, url: "https://vertu.com/luxury-life-guides/agent-q-review" }, pages, { limit: 3 });
+  assert.deepEqual(
+    related.map((r) => r.page.keyword),
+    ["vertu agent q price", "agent q battery life", "durable flip phones"]
+  );
+  // The page itself (by URL or keyword) is never related to itself
+  assert.ok(rankRelatedPages(pages[0], pages).every((r) => r.page.url !== pages[0].url));
+}
+
+{
+  assert.deepEqual(buildAnchorPhrases({ keyword: "durable flip phones", title: "Durable Flip Phones | VERTU" }), [
+    "durable flip phones",
+    "durable flip phone",
+  ]);
+  assert.deepEqual(buildAnchorPhrases({ keyword: "agent q battery life", title: "How Long Does the Agent Q Battery Last" }), [
+    "agent q battery life",
+    "How Long Does the Agent Q Battery Last",
+  ]);
+}
+
+{
+  const html =
+    "<h2>Durable flip phones</h2>" +
+    "<p>Many buyers compare durable flip phones with bar phones. Durable flip phones last.</p>" +
+    "<p>Already linked: <a href=\"https://vertu.com/x/\">agent q price</a> and the vertu agent q price.</p>" +
+    "<ul><li>The Agent Q battery life is long, and the Agent Q battery life matters.</li></ul>";
+  const { html: out, inserted } = injectContextualLinks(html, [
+    { url: "https://vertu.com/luxury-life-guides/durable-flip-phones/", anchors: ["durable flip phones"] },
+    { url: "https://vertu.com/luxury-life-guides/agent-q-price/", anchors: ["vertu agent q price"] },
+    { url: "https://vertu.com/luxury-life-guides/agent-q-battery/", anchors: ["agent q battery life"] },
+    { url: "https://vertu.com/luxury-life-guides/missing/", anchors: ["not in text"] },
+  ]);
+  assert.deepEqual(inserted.map((link) => link.anchor), ["durable flip phones", "vertu agent q price", "agent q battery life"]);
+  // Heading untouched; first body occurrence linked once, original casing kept
+  assert.ok(out.startsWith("<h2>Durable flip phones</h2><p>Many buyers compare <a href=\"https://vertu.com/luxury-life-guides/durable-flip-phones/\">durable flip phones</a> with"));
+  assert.equal((out.match(/durable-flip-phones/g) || []).length, 1);
+  assert.ok(out.includes("<li>The <a href=\"https://vertu.com/luxury-life-guides/agent-q-battery/\">Agent Q battery life</a> is long"));
+  // Existing anchors are not nested
+  assert.ok(out.includes("<a href=\"https://vertu.com/x/\">agent q price</a>"));
+
+  // URLs already linked in the body are skipped; maxLinks caps insertions
+  const again = injectContextualLinks(out, [{ url: "https://vertu.com/luxury-life-guides/durable-flip-phones", anchors: ["durable flip phones"] }]);
+  assert.equal(again.inserted.length, 0);
+  assert.equal(injectContextualLinks(html, [
+    { url: "https://a.test/1", anchors: ["durable flip phones"] },
+    { url: "https://a.test/2", anchors: ["agent q battery life"] },
+  ], 1).inserted.length, 1);
+}
+
+{
+  const page = '<nav><p>x</p></nav><div class="content ai-article-body"><div class="toc"><p>toc</p></div><p>Body</p></div><footer><p>f</p></footer>';
+  const split = splitArticleBody(page);
+  assert.ok(split);
+  assert.equal(split.body, '<div class="toc"><p>toc</p></div><p>Body</p>');
+  assert.equal(split.before + split.body + split.after, page);
+  assert.equal(splitArticleBody("<p>Body</p>"), null);
+}
+
+console.log("internalLinking.test.ts: all assertions passed");
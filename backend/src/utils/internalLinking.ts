@@ -0,0 +1,216 @@
+/**
+ * Topical internal linking: relatedness scoring between published guides (keyword / title
+ * tokens, product category, named VERTU products) and contextual in-body anchor injection.
+ * Data loading lives in services/linkGraph.ts; this module stays pure for testing.
+ */
+import { normalizeKeywordTokens } from "./keywordCannibalization.js";
+
+export interface LinkGraphPage {
+  url: string;
+  title: string;
+  keyword: string;
+  /** detectPrimaryCategory() result */
+  category: string;
+  source: "history" | "sanity" | "static";
+  publishedAt?: string;
+}
+
+export interface RelatedPage {
+  page: LinkGraphPage;
+  score: number;
+}
+
+export interface ContextualLinkCandidate {
+  url: string;
+  /** Phrases tried in order; the first one found in eligible body text becomes the anchor */
+  anchors: string[];
+}
+
+export interface InjectedLink {
+  url: string;
+  anchor: string;
+}
+
+/** Below this a page is not considered topically related. */
+export const MIN_LINK_RELATEDNESS = 0.2;
+
+const ENTITY_RE =
+  /\b(agent\s*q|quantum\s*flip|metavertu(?:\s*\d)?|meta\s*max|meta\s*curve|ivertu|signature(?:\s*s|\s*v)?|iron\s*flip|grand\s*watch|meta\s*ring|ai\s*diamond\s*ring|ows\s*earbuds?|ruby\s*key|ruby\s*talk|concierge)\b/gi;
+
+/** Text containers eligible for in-body anchors (never headings, captions, existing links). */
+const ELIGIBLE_TAGS = new Set(["p", "li"]);
+const BLOCKED_TAGS = new Set(["a", "h1", "h2", "h3", "h4", "h5", "h6", "script", "style", "figcaption", "button"]);
+
+/** Named VERTU products / services mentioned in the text (normalized, no spaces). */
+export function extractLinkEntities(text: string): Set<string> {
+  const entities = new Set<string>();
+  for (const match of (text || "").matchAll(ENTITY_RE)) {
+    entities.add(match[1].toLowerCase().replace(/\s+/g, "").replace(/s$/, ""));
+  }
+  return entities;
+}
+
+function jaccard(left: Set<string>, right: Set<string>): number {
+  if (left.size === 0 || right.size === 0) return 0;
+  let shared = 0;
+  for (const item of left) if (right.has(item)) shared++;
+  return shared / (left.size + right.size - shared);
+}
+
+export function normalizeLinkUrl(url: string): string {
+  return (url || "").trim().replace(/[?#].*$/, "").replace(/\/+$/, "").toLowerCase();
+}
+
+/**
+ * Relatedness (0..1): 45% keyword+title token overlap, 30% shared named products,
+ * 25% same specific product category ("general" never counts as a match).
+ */
+export function scoreLinkRelatedness(
+  a: Pick<LinkGraphPage, "keyword" | "title" | "category">,
+  b: Pick<LinkGraphPage, "keyword" | "title" | "category">
+): number {
+  const tokens = (page: typeof a) => new Set(normalizeKeywordTokens(`${page.keyword} ${page.title}`));
+  const entities = (page: typeof a) => extractLinkEntities(`${page.keyword} ${page.title}`);
+  const sameCategory = a.category && a.category !== "general" && a.category === b.category ? 1 : 0;
+  const score = 0.45 * jaccard(tokens(a), tokens(b)) + 0.3 * jaccard(entities(a), entities(b)) + 0.25 * sameCategory;
+  return Math.round(score * 1000) / 1000;
+}
+
+/**
+ * Most related pages for the target (excluding itself), best first; ties go to the newer page.
+ */
+export function rankRelatedPages(
+  target: Pick<LinkGraphPage, "keyword" | "title" | "category"> & { url?: string },
+  pages: LinkGraphPage[],
+  options: { limit?: number; minScore?: number } = {}
+): RelatedPage[] {
+  const limit = options.limit ?? 6;
+  const minScore = options.minScore ?? MIN_LINK_RELATEDNESS;
+  const self = target.url ? normalizeLinkUrl(target.url) : "";
+  const targetKeyword = target.keyword.trim().toLowerCase();
+
+  return pages
+    .filter((page) => normalizeLinkUrl(page.url) !== self && page.keyword.trim().toLowerCase() !== targetKeyword)
+    .map((page) => ({ page, score: scoreLinkRelatedness(target, page) }))
+    .filter((related) => related.score >= minScore)
+    .sort((a, b) => b.score - a.score || (b.page.publishedAt || "").localeCompare(a.page.publishedAt || ""))
+    .slice(0, limit);
+}
+
+/** Anchor phrases for a page: its keyword (plus its singular form), then its title. */
+export function buildAnchorPhrases(page: Pick<LinkGraphPage, "keyword" | "title">): string[] {
+  const keyword = page.keyword.trim().replace(/\s+/g, " ");
+  const phrases = [keyword];
+  if (/[^s]s$/i.test(keyword)) phrases.push(keyword.slice(0, -1));
+  const title = page.title.split(/\s+[|–—-]\s+/)[0].trim();
+  if (title && title.toLowerCase() !== keyword.toLowerCase()) phrases.push(title);
+  return phrases.filter((phrase) => phrase.split(" ").length >= 2);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function escapeAttr(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+}
+
+/**
+ * Wrap the first eligible occurrence of the phrase (inside <p>/<li>, not in a link or heading)
+ * in an anchor. At most one injected link per paragraph.
+ * @returns the new HTML, or null when the phrase does not occur in eligible text
+ */
+function linkFirstOccurrence(html: string, phrase: string, url: string, usedBlocks: Set<number>): string | null {
+  const pattern = new RegExp(`\\b${escapeRegExp(phrase).replace(/\\? /g, "\\s+")}\\b`, "i");
+  const parts = html.split(/(<[^>]+>)/);
+  const open: string[] = [];
+  let blockIndex = -1;
+  let offset = 0;
+
+  for (const part of parts) {
+    if (part.startsWith("<")) {
+      const tag = /^<\s*(\/)?\s*([a-z0-9]+)/i.exec(part);
+      if (tag && !part.endsWith("/>")) {
+        const name = tag[2].toLowerCase();
+        if (tag[1]) {
+          const at = open.lastIndexOf(name);
+          if (at >= 0) open.splice(at);
+        } else if (!/^(br|img|hr|meta|link|input|source|wbr)$/.test(name)) {
+          open.push(name);
+          if (ELIGIBLE_TAGS.has(name)) blockIndex++;
+        }
+      }
+    } else if (
+      part.trim() &&
+      open.some((name) => ELIGIBLE_TAGS.has(name)) &&
+      !open.some((name) => BLOCKED_TAGS.has(name)) &&
+      !usedBlocks.has(blockIndex)
+    ) {
+      const match = pattern.exec(part);
+      if (match) {
+        usedBlocks.add(blockIndex);
+        const at = offset + match.index;
+        return `${html.slice(0, at)}<a href="${escapeAttr(url)}">${match[0]}</a>${html.slice(at + match[0].length)}`;
+      }
+    }
+    offset += part.length;
+  }
+  return null;
+}
+
+/**
+ * Inject contextual anchors for the candidates (in order) into article HTML.
+ * Skips URLs the HTML already links to; one link per candidate, at most maxLinks in total.
+ */
+export function injectContextualLinks(
+  html: string,
+  candidates: ContextualLinkCandidate[],
+  maxLinks = 3
+): { html: string; inserted: InjectedLink[] } {
+  const inserted: InjectedLink[] = [];
+  if (!html?.trim() || maxLinks <= 0) return { html, inserted };
+
+  const linked = new Set(
+    Array.from(html.matchAll(/<a\b[^>]*\bhref\s*=\s*["']([^"']+)["']/gi), (m) => normalizeLinkUrl(m[1]))
+  );
+  const usedBlocks = new Set<number>();
+  let out = html;
+
+  for (const candidate of candidates) {
+    if (inserted.length >= maxLinks) break;
+    if (!candidate.url || linked.has(normalizeLinkUrl(candidate.url))) continue;
+    for (const anchor of candidate.anchors) {
+      if (!anchor.trim()) continue;
+      const next = linkFirstOccurrence(out, anchor.trim(), candidate.url, usedBlocks);
+      if (next !== null) {
+        out = next;
+        inserted.push({ url: candidate.url, anchor: anchor.trim() });
+        linked.add(normalizeLinkUrl(candidate.url));
+        break;
+      }
+    }
+  }
+  return { html: out, inserted };
+}
+
+/**
+ * Split a rendered page around the AI article body (<div class="... ai-article-body ...">) so
+ * back-filled links land in the article rather than nav / footer copy.
+ * @returns null when the page has no article body wrapper
+ */
+export function splitArticleBody(html: string): { before: string; body: string; after: string } | null {
+  const open = /<div\b[^>]*\bclass\s*=\s*["'][^"']*\bai-article-body\b[^"']*["'][^>]*>/i.exec(html || "");
+  if (!open) return null;
+  const start = open.index + open[0].length;
+  const divTag = /<(\/)?div\b[^>]*>/gi;
+  divTag.lastIndex = start;
+  let depth = 1;
+  let m: RegExpExecArray | null;
+  while ((m = divTag.exec(html)) !== null) {
+    depth += m[1] ? -1 : 1;
+    if (depth === 0) {
+      return { before: html.slice(0, start), body: html.slice(start, m.index), after: html.slice(m.index) };
+    }
+  }
+  return null;
+}
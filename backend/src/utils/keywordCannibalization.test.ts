@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import {
+  findCannibalizationConflict,
+  normalizeKeywordTokens,
+  tokenOverlap,
+  type ExistingPageRef,
+} from "./keywordCannibalization.js";
+
+{
+  assert.deepEqual(normalizeKeywordTokens("Vertu Agent Q Price"), ["agent", "price", "q", "vertu"]);
+  assert.deepEqual(normalizeKeywordTokens("agent q price vertu"), normalizeKeywordTokens("Vertu Agent Q Price"));
+  assert.deepEqual(normalizeKeywordTokens("luxury phones for the CEO's"), ["ceo", "luxury", "phone"]);
+  assert.deepEqual(normalizeKeywordTokens("best batteries"), ["battery", "best"]);
+}
+
+{
+  assert.equal(tokenOverlap("vertu agent q price", "agent q price vertu"), 1);
+  assert.equal(tokenOverlap("vertu agent q price", "vertu agent q review"), 3 / 5);
+  assert.equal(tokenOverlap("", "vertu"), 0);
+}
+
+const existing: ExistingPageRef[] = [
+  { keyword: "vertu agent q price", pageTitle: "Vertu Agent Q Price Guide", pageUrl: "/luxury-life-guides/vertu-agent-q-price/", source: "history" },
+  { keyword: "how to set up vertu agent q", pageTitle: "How to Set Up Vertu Agent Q", source: "sanity" },
+  { keyword: "vertu agent q vs iphone", titleType: "comparison", source: "history" },
+];
+
+{
+  const conflict = findCannibalizationConflict({ keyword: "agent q price vertu" }, existing);
+  assert.ok(conflict);
+  assert.equal(conflict.existing.pageUrl, "/luxury-life-guides/vertu-agent-q-price/");
+  assert.equal(conflict.matchedOn, "keyword");
+  assert.equal(conflict.similarity, 1);
+  assert.equal(conflict.intent, "transactional");
+}
+
+{
+  // Same tokens, different intent: price page vs comparison page can coexist
+  assert.equal(findCannibalizationConflict({ keyword: "vertu agent q iphone", titleType: "comparison" }, existing)?.existing.keyword, "vertu agent q vs iphone");
+  assert.equal(findCannibalizationConflict({ keyword: "vertu agent q price", titleType: "comparison" }, existing), null);
+}
+
+{
+  // Title overlap catches re-worded keywords that target the same guide
+  const conflict = findCannibalizationConflict(
+    { keyword: "vertu agent q setup steps", pageTitle: "How to Set Up the Vertu Agent Q" },
+    existing
+  );
+  assert.equal(conflict?.matchedOn, "title");
+  assert.equal(conflict?.existing.source, "sanity");
+}
+
+{
+  assert.equal(findCannibalizationConflict({ keyword: "vertu metavertu 2 battery life" }, existing), null);
+  assert.equal(findCannibalizationConflict({ keyword: "vertu agent q price" }, []), null);
+}
+
+console.log("keywordCannibalization.test.ts: all assertions passed");
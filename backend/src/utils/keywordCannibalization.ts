@@ -0,0 +1,102 @@
+/**
+ * Keyword cannibalization: detects when a new keyword / title targets the same query as an
+ * existing guide ("vertu agent q price" vs "agent q price vertu"). Normalized token overlap
+ * plus matching search intent — two pages for the same tokens but different intent can coexist.
+ */
+import { classifySearchIntent, type SearchIntent } from "./searchIntentClassifier.js";
+
+/** Token Jaccard at or above this (with the same intent) counts as the same query. */
+export const KEYWORD_OVERLAP_THRESHOLD = 0.8;
+/** Titles are longer and share boilerplate, so they need a higher bar. */
+export const TITLE_OVERLAP_THRESHOLD = 0.85;
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "the", "of", "for", "to", "in", "on", "with", "by", "at", "from", "or",
+  "is", "are", "my", "your", "vs", "versus", "guide", "complete", "ultimate",
+]);
+
+export interface ExistingPageRef {
+  keyword: string;
+  pageTitle?: string;
+  titleType?: string;
+  pageUrl?: string;
+  /** history：本地生成记录；sanity：已发布文档 */
+  source: "history" | "sanity";
+  /** 页面语言；未记录时按 URL 的语言前缀判断 */
+  locale?: string;
+}
+
+export interface CannibalizationCandidate {
+  keyword: string;
+  pageTitle?: string;
+  titleType?: string;
+}
+
+export interface CannibalizationConflict {
+  existing: ExistingPageRef;
+  /** keyword or title token overlap (0..1) */
+  similarity: number;
+  matchedOn: "keyword" | "title";
+  intent: SearchIntent;
+}
+
+function stemToken(token: string): string {
+  if (token.length > 4 && token.endsWith("ies")) return `${token.slice(0, -3)}y`;
+  if (token.length > 3 && token.endsWith("es") && /(ches|shes|xes|sses)$/.test(token)) return token.slice(0, -2);
+  if (token.length > 3 && token.endsWith("s") && !token.endsWith("ss")) return token.slice(0, -1);
+  return token;
+}
+
+/** Lowercased, punctuation-free, stopword-free, singularized token set. */
+export function normalizeKeywordTokens(text: string): string[] {
+  const tokens = (text || "")
+    .toLowerCase()
+    .replace(/[’']/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token && !STOPWORDS.has(token))
+    .map(stemToken);
+  return Array.from(new Set(tokens)).sort();
+}
+
+/** Jaccard similarity of two normalized token sets (0 when either side is empty). */
+export function tokenOverlap(a: string, b: string): number {
+  const left = new Set(normalizeKeywordTokens(a));
+  const right = new Set(normalizeKeywordTokens(b));
+  if (left.size === 0 || right.size === 0) return 0;
+  let shared = 0;
+  for (const token of left) if (right.has(token)) shared++;
+  return shared / (left.size + right.size - shared);
+}
+
+/**
+ * Find the existing page that the candidate would cannibalize (highest similarity wins).
+ * @returns null when no existing page targets the same query with the same intent
+ */
+export function findCannibalizationConflict(
+  candidate: CannibalizationCandidate,
+  existingPages: ExistingPageRef[]
+): CannibalizationConflict | null {
+  const intent = classifySearchIntent(candidate.keyword, candidate.pageTitle || "", candidate.titleType);
+  let best: CannibalizationConflict | null = null;
+
+  for (const existing of existingPages) {
+    if (!existing.keyword?.trim()) continue;
+    const existingIntent = classifySearchIntent(existing.keyword, existing.pageTitle || "", existing.titleType);
+    if (existingIntent !== intent) continue;
+
+    const keywordSimilarity = tokenOverlap(candidate.keyword, existing.keyword);
+    const titleSimilarity =
+      candidate.pageTitle && existing.pageTitle ? tokenOverlap(candidate.pageTitle, existing.pageTitle) : 0;
+
+    let match: CannibalizationConflict | null = null;
+    if (keywordSimilarity >= KEYWORD_OVERLAP_THRESHOLD) {
+      match = { existing, similarity: keywordSimilarity, matchedOn: "keyword", intent };
+    } else if (titleSimilarity >= TITLE_OVERLAP_THRESHOLD) {
+      match = { existing, similarity: titleSimilarity, matchedOn: "title", intent };
+    }
+    if (match && (!best || match.similarity > best.similarity)) {
+      best = match;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import { clusterKeywords, findBatchDuplicateRows, suggestTitleType } from "./keywordClustering.js";
+
+{
+  assert.equal(suggestTitleType("how to set up vertu agent q"), "how-to");
+  assert.equal(suggestTitleType("vertu agent q vs iphone 16"), "comparison");
+  assert.equal(suggestTitleType("best luxury flip phones"), "best");
+  assert.equal(suggestTitleType("vertu agent q price"), "purchase");
+  assert.equal(suggestTitleType("luxury phone gifts for him"), "recommendations");
+  assert.equal(suggestTitleType("luxury flip phone"), "informational");
+}
+
+const result = clusterKeywords([
+  "vertu agent q price",
+  "agent q price vertu",
+  "Vertu Agent Q Price",
+  "vertu agent q battery life",
+  "vertu agent q review",
+  "luxury flip phone",
+  "best luxury flip phones",
+  "durable flip phones",
+  "luxury watch for men",
+  "best luxury watches for men",
+  "phone screen protector",
+  "cheapest charger",
+  "",
+]);
+
+{
+  // Exact repeats are dropped, Tier D keywords are rejected with the gate's reasons
+  assert.deepEqual(result.repeated, ["Vertu Agent Q Price"]);
+  assert.deepEqual(result.rejects.map((r) => r.keyword), ["phone screen protector", "cheapest charger"]);
+  assert.ok(result.rejects.every((r) => r.tier === "D" && r.reasons.length > 0));
+}
+
+{
+  // Near-duplicates fold into one canonical; siblings share a cluster under the broadest pillar
+  const agentQ = result.clusters.find((c) => c.pillar.keyword === "vertu agent q price");
+  assert.ok(agentQ);
+  assert.deepEqual(agentQ.duplicates, [
+    { keyword: "agent q price vertu", duplicateOf: "vertu agent q price", similarity: 1 },
+  ]);
+  assert.deepEqual(
+    agentQ.children.map((c) => c.keyword).sort(),
+    ["vertu agent q battery life", "vertu agent q review"]
+  );
+  assert.equal(agentQ.titleType, "purchase");
+  assert.equal(agentQ.templateType, "template-5");
+}
+
+{
+  const flip = result.clusters.find((c) => c.pillar.keyword === "luxury flip phone");
+  assert.ok(flip);
+  assert.equal(flip.category, "phone");
+  assert.equal(flip.children.length, 2);
+  assert.equal(flip.templateType, "template-6");
+}
+
+{
+  // Different categories never share a cluster
+  const watch = result.clusters.find((c) => c.category === "watch");
+  assert.ok(watch);
+  assert.deepEqual(
+    [watch.pillar.keyword, ...watch.children.map((c) => c.keyword)],
+    ["luxury watch for men", "best luxury watches for men"]
+  );
+  assert.equal(result.clusters.length, 3);
+  assert.deepEqual(result.clusters.map((c) => c.id), ["cluster-1", "cluster-2", "cluster-3"]);
+}
+
+{
+  assert.deepEqual(clusterKeywords([]), { clusters: [], rejects: [], repeated: [] });
+}
+
+{
+  // Batch rows: repeats and folded near-duplicates are listed by row index, the canonical row is kept
+  assert.deepEqual(
+    findBatchDuplicateRows([
+      "agent q price vertu",
+      "luxury flip phone",
+      "vertu agent q price",
+      " Luxury  flip phone ",
+      "",
+      "vertu agent q review",
+    ]),
+    [
+      { index: 2, keyword: "vertu agent q price", duplicateOf: "agent q price vertu", similarity: 1 },
+      { index: 3, keyword: "Luxury flip phone", duplicateOf: "luxury flip phone", similarity: 1 },
+    ]
+  );
+  assert.deepEqual(findBatchDuplicateRows(["luxury flip phone", "luxury watch for men"]), []);
+}
+
+console.log("keywordClustering.test.ts: all assertions passed");
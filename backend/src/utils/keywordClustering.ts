@@ -0,0 +1,248 @@
+/**
+ * Keyword clustering for batch planning: runs the intent gate, search-intent and category
+ * detection on a raw keyword list, folds near-duplicates into one canonical keyword, groups
+ * topical siblings (same category, shared head tokens) and picks a pillar per cluster.
+ * Tier D keywords are returned separately as rejects.
+ */
+import { evaluateKeywordGate, type KeywordTier } from "./keywordIntentGate.js";
+import { KEYWORD_OVERLAP_THRESHOLD, normalizeKeywordTokens } from "./keywordCannibalization.js";
+import { detectPrimaryCategory, type PrimaryProductCategory } from "./productCategory.js";
+import { classifySearchIntent, type SearchIntent } from "./searchIntentClassifier.js";
+
+/** Token Jaccard at or above this (same category) puts two keywords in one topical cluster. */
+export const SIBLING_OVERLAP_THRESHOLD = 0.5;
+
+/** Ordered: first match wins (how-to before best, comparison before review, ...). */
+const TITLE_TYPE_RULES: Array<[RegExp, string]> = [
+  [/\bhow\s+to\b/i, "how-to"],
+  [/\b(vs\.?|versus|compare|compared|comparison)\b/i, "comparison"],
+  [/\b(review|reviews)\b/i, "review"],
+  [/\b(top\s+\d+|ranking|ranked|rankings)\b/i, "top-ranking"],
+  [/\bbest\b/i, "best"],
+  [/\bmost\b/i, "most"],
+  [/\b(deal|deals|discount|sale|offer|offers)\b/i, "commercial"],
+  [/\b(buy|buying|purchase|price|prices|cost|shop|order|where\s+to\s+buy)\b/i, "purchase"],
+  [/\b(repair|service|services|warranty|concierge|support|set\s*up|setup)\b/i, "services-guides"],
+  [/\b(tech|technology|ai|encryption|security|privacy|battery|chip|specs?|features?)\b/i, "tech-insights"],
+  [/\b(gift|gifts|for\s+him|for\s+her|for\s+men|for\s+women|recommended|recommendations?)\b/i, "recommendations"],
+];
+
+const TEMPLATE_BY_INTENT: Record<SearchIntent, string> = {
+  informational: "template-6",
+  transactional: "template-5",
+  evaluative: "template-5",
+};
+
+export interface ClusteredKeyword {
+  keyword: string;
+  tier: KeywordTier;
+  score: number;
+  intent: SearchIntent;
+  category: PrimaryProductCategory;
+  titleType: string;
+}
+
+export interface KeywordDuplicate {
+  keyword: string;
+  duplicateOf: string;
+  similarity: number;
+}
+
+export interface BatchRowDuplicate extends KeywordDuplicate {
+  /** Index of the row in the input list */
+  index: number;
+}
+
+export interface KeywordCluster {
+  id: string;
+  pillar: ClusteredKeyword;
+  children: ClusteredKeyword[];
+  /** Near-duplicates folded into the pillar or a child; do not generate separately */
+  duplicates: KeywordDuplicate[];
+  category: PrimaryProductCategory;
+  intent: SearchIntent;
+  titleType: string;
+  templateType: string;
+}
+
+export interface KeywordReject {
+  keyword: string;
+  tier: KeywordTier;
+  score: number;
+  reasons: string[];
+}
+
+export interface KeywordClusterResult {
+  clusters: KeywordCluster[];
+  rejects: KeywordReject[];
+  /** Exact repeats after trimming / lowercasing, dropped before clustering */
+  repeated: string[];
+}
+
+/** Suggested titleType for a single keyword (falls back to informational). */
+export function suggestTitleType(keyword: string): string {
+  for (const [pattern, titleType] of TITLE_TYPE_RULES) {
+    if (pattern.test(keyword)) return titleType;
+  }
+  return "informational";
+}
+
+function jaccard(left: Set<string>, right: Set<string>): number {
+  if (left.size === 0 || right.size === 0) return 0;
+  let shared = 0;
+  for (const token of left) if (right.has(token)) shared++;
+  return shared / (left.size + right.size - shared);
+}
+
+interface AnalyzedKeyword extends ClusteredKeyword {
+  tokens: Set<string>;
+}
+
+function toClustered({ tokens: _tokens, ...rest }: AnalyzedKeyword): ClusteredKeyword {
+  return rest;
+}
+
+/** Broadest keyword first: fewest tokens, then higher gate score, then shorter text. */
+function comparePillarCandidates(a: AnalyzedKeyword, b: AnalyzedKeyword): number {
+  return a.tokens.size - b.tokens.size || b.score - a.score || a.keyword.length - b.keyword.length;
+}
+
+function mostCommon(values: string[], fallback: string): string {
+  const counts = new Map<string, number>();
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+  let best = fallback;
+  let bestCount = counts.get(fallback) ?? 0;
+  for (const [value, count] of counts) {
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+export function clusterKeywords(rawKeywords: string[]): KeywordClusterResult {
+  const seen = new Set<string>();
+  const repeated: string[] = [];
+  const rejects: KeywordReject[] = [];
+  const accepted: AnalyzedKeyword[] = [];
+
+  for (const raw of rawKeywords) {
+    const keyword = (raw || "").trim().replace(/\s+/g, " ");
+    if (!keyword) continue;
+    const key = keyword.toLowerCase();
+    if (seen.has(key)) {
+      repeated.push(keyword);
+      continue;
+    }
+    seen.add(key);
+
+    const gate = evaluateKeywordGate(keyword);
+    if (!gate.allowed) {
+      rejects.push({ keyword, tier: gate.tier, score: gate.score, reasons: gate.reasons });
+      continue;
+    }
+    const titleType = suggestTitleType(keyword);
+    accepted.push({
+      keyword,
+      tier: gate.tier,
+      score: gate.score,
+      intent: classifySearchIntent(keyword, "", titleType),
+      category: detectPrimaryCategory(keyword, ""),
+      titleType,
+      tokens: new Set(normalizeKeywordTokens(keyword)),
+    });
+  }
+
+  // 1) Near-duplicates (same intent, high overlap) fold into the best-scoring canonical keyword
+  const byQuality = [...accepted].sort((a, b) => b.score - a.score || a.keyword.length - b.keyword.length);
+  const canonicals: AnalyzedKeyword[] = [];
+  const duplicatesOf = new Map<AnalyzedKeyword, KeywordDuplicate[]>();
+  for (const item of byQuality) {
+    let match: { canonical: AnalyzedKeyword; similarity: number } | null = null;
+    for (const canonical of canonicals) {
+      if (canonical.intent !== item.intent) continue;
+      const similarity = jaccard(item.tokens, canonical.tokens);
+      if (similarity >= KEYWORD_OVERLAP_THRESHOLD && (!match || similarity > match.similarity)) {
+        match = { canonical, similarity };
+      }
+    }
+    if (match) {
+      const list = duplicatesOf.get(match.canonical) ?? [];
+      list.push({ keyword: item.keyword, duplicateOf: match.canonical.keyword, similarity: match.similarity });
+      duplicatesOf.set(match.canonical, list);
+    } else {
+      canonicals.push(item);
+    }
+  }
+
+  // 2) Topical siblings: single-link grouping within the same product category
+  const parent = canonicals.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  for (let i = 0; i < canonicals.length; i++) {
+    for (let j = i + 1; j < canonicals.length; j++) {
+      if (canonicals[i].category !== canonicals[j].category) continue;
+      if (jaccard(canonicals[i].tokens, canonicals[j].tokens) >= SIBLING_OVERLAP_THRESHOLD) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+  const groups = new Map<number, AnalyzedKeyword[]>();
+  canonicals.forEach((item, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), item]);
+  });
+
+  const clusters: KeywordCluster[] = Array.from(groups.values())
+    .map((members) => {
+      const [pillar, ...children] = [...members].sort(comparePillarCandidates);
+      const titleType = mostCommon(
+        members.map((member) => member.titleType),
+        pillar.titleType
+      );
+      const intent = classifySearchIntent(pillar.keyword, "", titleType);
+      return {
+        id: "",
+        pillar: toClustered(pillar),
+        children: children.map(toClustered),
+        duplicates: members.flatMap((member) => duplicatesOf.get(member) ?? []),
+        category: pillar.category,
+        intent,
+        titleType,
+        templateType: TEMPLATE_BY_INTENT[intent],
+      };
+    })
+    .sort((a, b) => b.children.length - a.children.length || b.pillar.score - a.pillar.score)
+    .map((cluster, i) => ({ ...cluster, id: `cluster-${i + 1}` }));
+
+  return { clusters, rejects, repeated };
+}
+
+/**
+ * Rows of one batch that would cannibalize another row of the same batch: exact repeats and the
+ * near-duplicates clusterKeywords folds into a canonical keyword. The canonical row is not listed.
+ * Empty entries are ignored (callers blank out rows that must not be compared).
+ */
+export function findBatchDuplicateRows(keywords: string[]): BatchRowDuplicate[] {
+  const folded = new Map<string, KeywordDuplicate>();
+  for (const cluster of clusterKeywords(keywords).clusters) {
+    for (const duplicate of cluster.duplicates) folded.set(duplicate.keyword.toLowerCase(), duplicate);
+  }
+
+  const firstSeen = new Map<string, string>();
+  const duplicates: BatchRowDuplicate[] = [];
+  keywords.forEach((raw, index) => {
+    const keyword = (raw || "").trim().replace(/\s+/g, " ");
+    if (!keyword) return;
+    const key = keyword.toLowerCase();
+    const first = firstSeen.get(key);
+    if (first !== undefined) {
+      duplicates.push({ index, keyword, duplicateOf: first, similarity: 1 });
+      return;
+    }
+    firstSeen.set(key, keyword);
+    const duplicate = folded.get(key);
+    if (duplicate) duplicates.push({ index, ...duplicate });
+  });
+  return duplicates;
+}
@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import {
+  formatPriceRange,
+  normalizeKnowledgeBaseProduct,
+  normalizeKnowledgeBaseProducts,
+  renderKnowledgeBaseProduct,
+  renderKnowledgeBaseProducts,
+} from "./knowledgeBaseRecords.js";
+
+{
+  const product = normalizeKnowledgeBaseProduct({
+    name: "  Signature  S+ ",
+    category: "Phones",
+    landingPageUrl: "https://vertu.com/signature/",
+    priceRange: { min: 9800, max: 48000 },
+    features: ["- Hand-stitched calfskin", "  ", "Sapphire\ncrystal screen"],
+    specs: ["Battery 1,250 mAh"],
+  });
+  assert.notEqual(typeof product, "string");
+  if (typeof product === "string") throw new Error(product);
+  assert.equal(product.id, "signature-s");
+  assert.equal(product.name, "Signature S+");
+  assert.equal(product.brand, "VERTU");
+  assert.equal(product.category, "phones");
+  assert.deepEqual(product.priceRange, { min: 9800, max: 48000, currency: "USD" });
+  assert.deepEqual(product.features, ["Hand-stitched calfskin", "Sapphire crystal screen"]);
+  assert.deepEqual(product.faqNotes, []);
+
+  assert.equal(
+    renderKnowledgeBaseProduct(product),
+    [
+      "-".repeat(70),
+      "SIGNATURE S+",
+      "-".repeat(70),
+      "### Basic info",
+      "- Brand name: VERTU",
+      "- Product name: Signature S+",
+      "- Category: phones",
+      "- Product landing page url: https://vertu.com/signature/",
+      "- Product price: $9,800–$48,000",
+      "",
+      "### Features",
+      "- Hand-stitched calfskin",
+      "- Sapphire crystal screen",
+      "",
+      "### Specs",
+      "- Battery 1,250 mAh",
+    ].join("\n")
+  );
+}
+
+{
+  assert.equal(formatPriceRange({ min: 1450, max: 1450, currency: "USD" }), "$1,450");
+  assert.equal(formatPriceRange({ min: 1200, max: 1500.5, currency: "GBP" }), "£1,200–£1,500.5");
+  assert.equal(formatPriceRange({ min: 100, max: 200, currency: "CHF" }), "CHF 100–CHF 200");
+}
+
+{
+  assert.equal(normalizeKnowledgeBaseProduct(null), "product must be an object");
+  assert.equal(normalizeKnowledgeBaseProduct({ name: " " }), "name is required");
+  assert.match(normalizeKnowledgeBaseProduct({ name: "X", id: "Bad Id" }) as string, /lowercase slug/);
+  assert.match(normalizeKnowledgeBaseProduct({ name: "X", collectionUrl: "vertu.com" }) as string, /collectionUrl/);
+  assert.match(normalizeKnowledgeBaseProduct({ name: "X", priceRange: { min: 10, max: 5 } }) as string, /priceRange/);
+  assert.match(normalizeKnowledgeBaseProduct({ name: "X", specs: "6.9 inch" }) as string, /specs must be an array/);
+
+  assert.equal(normalizeKnowledgeBaseProducts({}), "products must be an array");
+  assert.equal(
+    normalizeKnowledgeBaseProducts([{ name: "Agent Q" }, { name: "agent q", id: "agent-q-2" }]),
+    'products[1]: duplicate name "agent q"'
+  );
+  assert.equal(normalizeKnowledgeBaseProducts([{ name: "A", id: "a" }, { name: "B", id: "a" }]), 'products[1]: duplicate id "a"');
+
+  const products = normalizeKnowledgeBaseProducts([{ name: "Agent Q" }, { name: "Quantum Flip" }]);
+  assert.ok(Array.isArray(products));
+  const rendered = renderKnowledgeBaseProducts(products);
+  assert.match(rendered, /AGENT Q\n-{70}\n### Basic info\n- Brand name: VERTU\n- Product name: Agent Q\n\n-{70}\nQUANTUM FLIP/);
+}
+
+console.log("knowledgeBaseRecords.test.ts: all assertions passed");
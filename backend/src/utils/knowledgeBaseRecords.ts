@@ -0,0 +1,162 @@
+/**
+ * Typed knowledge-base product records: validation of edited records and rendering into the
+ * plain-text section format the generation prompts (and the KB section parsers) expect.
+ */
+
+import type { KnowledgeBaseProduct } from "../types.js";
+import { createSlug } from "./slug.js";
+
+export const KB_SECTION_RULE = "-".repeat(70);
+
+export const CURRENCY_SYMBOLS: Record<string, string> = { USD: "$", GBP: "£", EUR: "€" };
+const ID_RE = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const MAX_LIST_ITEMS = 50;
+const MAX_ITEM_LENGTH = 1000;
+
+function formatPrice(value: number, currency: string): string {
+  const amount = value.toLocaleString("en-US", { maximumFractionDigits: 2 });
+  const symbol = CURRENCY_SYMBOLS[currency];
+  return symbol ? `${symbol}${amount}` : `${currency} ${amount}`;
+}
+
+export function formatPriceRange(range: NonNullable<KnowledgeBaseProduct["priceRange"]>): string {
+  const min = formatPrice(range.min, range.currency);
+  return range.min === range.max ? min : `${min}–${formatPrice(range.max, range.currency)}`;
+}
+
+function bulletList(heading: string, items: string[]): string[] {
+  return items.length ? ["", `### ${heading}`, ...items.map((item) => `- ${item}`)] : [];
+}
+
+/**
+ * One product section, e.g.
+ * ----…
+ * AGENT Q
+ * ----…
+ * ### Basic info
+ * - Product name: Agent Q
+ */
+export function renderKnowledgeBaseProduct(product: KnowledgeBaseProduct): string {
+  const basicInfo = [
+    `- Brand name: ${product.brand}`,
+    `- Product name: ${product.name}`,
+    product.category ? `- Category: ${product.category}` : "",
+    product.landingPageUrl ? `- Product landing page url: ${product.landingPageUrl}` : "",
+    product.collectionUrl ? `- Collection url: ${product.collectionUrl}` : "",
+    product.priceRange ? `- Product price: ${formatPriceRange(product.priceRange)}` : "",
+  ].filter(Boolean);
+  return [
+    KB_SECTION_RULE,
+    product.name.toUpperCase(),
+    KB_SECTION_RULE,
+    "### Basic info",
+    ...basicInfo,
+    ...bulletList("Features", product.features),
+    ...bulletList("Specs", product.specs),
+    ...bulletList("FAQ notes", product.faqNotes),
+    ...bulletList("Buying angles (for commercial content only)", product.buyingAngles),
+  ].join("\n");
+}
+
+export function renderKnowledgeBaseProducts(products: KnowledgeBaseProduct[]): string {
+  return products.map(renderKnowledgeBaseProduct).join("\n\n");
+}
+
+function stringList(value: unknown, field: string): string[] | string {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) return `${field} must be an array of strings`;
+  if (value.length > MAX_LIST_ITEMS) return `${field} accepts at most ${MAX_LIST_ITEMS} items`;
+  const items: string[] = [];
+  for (const item of value) {
+    if (typeof item !== "string") return `${field} must be an array of strings`;
+    // one bullet per item: a newline would start an unrelated line in the prompt
+    const text = item.replace(/\s+/g, " ").trim().replace(/^-\s+/, "");
+    if (text.length > MAX_ITEM_LENGTH) return `${field} items must be at most ${MAX_ITEM_LENGTH} characters`;
+    if (text) items.push(text);
+  }
+  return items;
+}
+
+function optionalUrl(value: unknown, field: string): string | undefined | { error: string } {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value !== "string" || !/^https?:\/\/\S+$/i.test(value.trim())) {
+    return { error: `${field} must be an http(s) URL` };
+  }
+  return value.trim();
+}
+
+/**
+ * Validate and normalise one record from an API payload.
+ * @returns the normalised product, or an error message
+ */
+export function normalizeKnowledgeBaseProduct(input: unknown): KnowledgeBaseProduct | string {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return "product must be an object";
+  const raw = input as Record<string, unknown>;
+
+  const name = typeof raw.name === "string" ? raw.name.replace(/\s+/g, " ").trim() : "";
+  if (!name) return "name is required";
+  const id = typeof raw.id === "string" && raw.id.trim() ? raw.id.trim() : createSlug(name);
+  if (!ID_RE.test(id)) return `id "${id}" must be a lowercase slug (a-z, 0-9, -)`;
+
+  const landingPageUrl = optionalUrl(raw.landingPageUrl, "landingPageUrl");
+  if (typeof landingPageUrl === "object") return landingPageUrl.error;
+  const collectionUrl = optionalUrl(raw.collectionUrl, "collectionUrl");
+  if (typeof collectionUrl === "object") return collectionUrl.error;
+
+  let priceRange: KnowledgeBaseProduct["priceRange"];
+  if (raw.priceRange !== undefined && raw.priceRange !== null) {
+    const range = raw.priceRange as Record<string, unknown>;
+    const min = Number(range.min);
+    const max = range.max === undefined ? min : Number(range.max);
+    if (!Number.isFinite(min) || !Number.isFinite(max) || min < 0 || max < min) {
+      return "priceRange needs numeric min ≤ max (≥ 0)";
+    }
+    const currency = typeof range.currency === "string" && range.currency.trim() ? range.currency.trim().toUpperCase() : "USD";
+    if (!/^[A-Z]{3}$/.test(currency)) return "priceRange.currency must be a 3-letter ISO code";
+    priceRange = { min, max, currency };
+  }
+
+  const lists: Record<"features" | "specs" | "faqNotes" | "buyingAngles", string[]> = {
+    features: [],
+    specs: [],
+    faqNotes: [],
+    buyingAngles: [],
+  };
+  for (const field of Object.keys(lists) as Array<keyof typeof lists>) {
+    const items = stringList(raw[field], field);
+    if (typeof items === "string") return items;
+    lists[field] = items;
+  }
+
+  return {
+    id,
+    name,
+    brand: typeof raw.brand === "string" && raw.brand.trim() ? raw.brand.trim() : "VERTU",
+    category: typeof raw.category === "string" ? createSlug(raw.category) : "",
+    ...(landingPageUrl && { landingPageUrl }),
+    ...(collectionUrl && { collectionUrl }),
+    ...(priceRange && { priceRange }),
+    ...lists,
+  };
+}
+
+/**
+ * Validate a full product list; ids and names must be unique (names head the prompt sections).
+ * @returns the normalised products, or an error message naming the offending entry
+ */
+export function normalizeKnowledgeBaseProducts(input: unknown): KnowledgeBaseProduct[] | string {
+  if (!Array.isArray(input)) return "products must be an array";
+  const products: KnowledgeBaseProduct[] = [];
+  const ids = new Set<string>();
+  const names = new Set<string>();
+  for (const [index, item] of input.entries()) {
+    const product = normalizeKnowledgeBaseProduct(item);
+    if (typeof product === "string") return `products[${index}]: ${product}`;
+    if (ids.has(product.id)) return `products[${index}]: duplicate id "${product.id}"`;
+    if (names.has(product.name.toLowerCase())) return `products[${index}]: duplicate name "${product.name}"`;
+    ids.add(product.id);
+    names.add(product.name.toLowerCase());
+    products.push(product);
+  }
+  return products;
+}
@@ -1,3 +1,5 @@
+import { DEFAULT_LOCALE, SUPPORTED_LOCALES, type LocaleCopy } from "./locale.js";
+
 export interface LinkItem {
   title: string;
   url: string;
@@ -46,17 +48,17 @@ export function buildExpertInsightHtml(title: string, body: string): string {
   return `<section class="ll-information-gain ll-expert-insight" aria-label="Expert insight">${heading}<p>${escapeHtml(b)}</p></section>`;
 }
 
-export function buildHelpfulFeedbackHtml(pageSlug?: string): string {
+export function buildHelpfulFeedbackHtml(pageSlug?: string, copy: LocaleCopy = SUPPORTED_LOCALES[DEFAULT_LOCALE].copy): string {
   const slugAttr = pageSlug?.trim()
     ? ` data-page-slug="${escapeHtml(pageSlug.trim())}"`
     : "";
-  return `<section class="ll-helpful-feedback" aria-label="Was this helpful?"${slugAttr}>
-  <p class="ll-helpful-prompt">Was this guide helpful?</p>
+  return `<section class="ll-helpful-feedback" aria-label="${escapeHtml(copy.helpfulLabel)}"${slugAttr}>
+  <p class="ll-helpful-prompt">${escapeHtml(copy.helpfulPrompt)}</p>
   <div class="ll-helpful-actions">
-    <button type="button" class="ll-helpful-btn" data-vote="yes">Yes</button>
-    <button type="button" class="ll-helpful-btn" data-vote="no">Not really</button>
+    <button type="button" class="ll-helpful-btn" data-vote="yes">${escapeHtml(copy.helpfulYes)}</button>
+    <button type="button" class="ll-helpful-btn" data-vote="no">${escapeHtml(copy.helpfulNo)}</button>
   </div>
-  <p class="ll-helpful-thanks" hidden>Thank you for your feedback.</p>
+  <p class="ll-helpful-thanks" hidden>${escapeHtml(copy.helpfulThanks)}</p>
 </section>`;
 }
 
@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { auditInternalLinks, classifyLink, extractPageLinks, type LinkAuditPage } from "./linkAudit.js";
+
+const base = "https://vertu.com/luxury-life-guides/agent-q-price/";
+
+{
+  assert.deepEqual(classifyLink("/luxury-life-guides/Agent-Q-Battery/?utm=x#faq", base), {
+    kind: "guide",
+    url: "https://vertu.com/luxury-life-guides/Agent-Q-Battery/",
+    path: "/luxury-life-guides/agent-q-battery",
+  });
+  assert.equal(classifyLink("https://vertu.com/products/agent-q-gold", base)?.handle, "agent-q-gold");
+  assert.equal(classifyLink("https://vertu.com/collections/phones/products/agent-q", base)?.platform, "shopify");
+  assert.deepEqual(
+    { ...classifyLink("https://shop.example.com/product/metavertu-2/", base) },
+    { kind: "product", url: "https://shop.example.com/product/metavertu-2/", path: "/product/metavertu-2", platform: "woocommerce", handle: "metavertu-2" }
+  );
+  assert.equal(classifyLink("/de/luxury-life-guides/luxus-handys/", base)?.kind, "guide");
+  assert.equal(classifyLink("https://vertu.com/collections/phones", base)?.kind, "other");
+  assert.equal(classifyLink("#faq", base), null);
+  assert.equal(classifyLink("mailto:care@vertu.com", base), null);
+}
+
+{
+  const links = extractPageLinks({
+    url: base,
+    html: '<a href="/products/a">A</a><a class="x" href=\'/products/a\'>again</a><a href="#top">top</a><a name="n">n</a>',
+  });
+  assert.deepEqual(links.map((l) => l.handle), ["a"]);
+}
+
+const pages: LinkAuditPage[] = [
+  {
+    url: "https://vertu.com/luxury-life-guides/agent-q-price/",
+    source: "static",
+    html:
+      '<p><a href="/luxury-life-guides/agent-q-battery/">battery</a> <a href="/luxury-life-guides/deleted-guide/">gone</a> ' +
+      '<a href="/luxury-life-guides/agent-q-price/">self</a> <a href="https://vertu.com/products/agent-q">Agent Q</a></p>',
+  },
+  {
+    url: "https://vertu.com/luxury-life-guides/agent-q-battery/",
+    source: "sanity",
+    html: '<p><a href="https://vertu.com/luxury-life-guides/wordpress-only-guide/">wp</a> <a href="https://vertu.com/products/agent-q">Agent Q</a></p>',
+  },
+  {
+    url: "https://vertu.com/luxury-life-guides/lonely-guide/",
+    source: "static",
+    html: '<p><a href="/luxury-life-guides/lonely-guide/">self only</a></p>',
+  },
+];
+
+{
+  const result = auditInternalLinks(pages, ["https://vertu.com/luxury-life-guides/wordpress-only-guide/"]);
+  // agent-q-price only links to itself from itself; lonely-guide too
+  assert.deepEqual(result.orphans.map((p) => p.url), [
+    "https://vertu.com/luxury-life-guides/agent-q-price/",
+    "https://vertu.com/luxury-life-guides/lonely-guide/",
+  ]);
+  assert.deepEqual(result.brokenLinks, [
+    { pageUrl: "https://vertu.com/luxury-life-guides/agent-q-price/", href: "https://vertu.com/luxury-life-guides/deleted-guide/" },
+  ]);
+  assert.deepEqual(result.productLinks, [
+    {
+      platform: "shopify",
+      handle: "agent-q",
+      url: "https://vertu.com/products/agent-q",
+      pages: ["https://vertu.com/luxury-life-guides/agent-q-price/", "https://vertu.com/luxury-life-guides/agent-q-battery/"],
+    },
+  ]);
+}
+
+{
+  // Without the history URL the WordPress-only guide counts as a broken link
+  assert.equal(auditInternalLinks(pages).brokenLinks.length, 2);
+  assert.deepEqual(auditInternalLinks([]), { orphans: [], brokenLinks: [], productLinks: [] });
+}
+
+console.log("linkAudit.test.ts: all assertions passed");
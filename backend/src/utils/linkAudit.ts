@@ -0,0 +1,129 @@
+/**
+ * Link audit over stored page HTML: orphan guides (no inbound internal links), internal guide
+ * links pointing at slugs we do not know, and the product links each page depends on.
+ * Crawling / product lookups live in services/linkAudit.ts; this module stays pure for testing.
+ */
+
+export type ProductPlatform = "shopify" | "woocommerce";
+
+/** available / missing (deleted, unpublished) / out_of_stock */
+export type ProductLinkStatus = "available" | "missing" | "out_of_stock";
+
+export interface LinkAuditPage {
+  url: string;
+  html: string;
+  source: "static" | "sanity" | "preview";
+}
+
+export interface ClassifiedLink {
+  kind: "guide" | "product" | "other";
+  url: string;
+  /** Lowercased pathname without trailing slash */
+  path: string;
+  platform?: ProductPlatform;
+  handle?: string;
+}
+
+export interface BrokenInternalLink {
+  pageUrl: string;
+  href: string;
+}
+
+export interface ProductLinkRef {
+  platform: ProductPlatform;
+  handle: string;
+  url: string;
+  /** Pages that link to this product */
+  pages: string[];
+}
+
+export interface InternalLinkAuditResult {
+  orphans: LinkAuditPage[];
+  brokenLinks: BrokenInternalLink[];
+  productLinks: ProductLinkRef[];
+}
+
+// optional locale prefix (e.g. /de/luxury-life-guides/...) for translated guides
+const GUIDE_PATH_RE = /^\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?luxury-life-guides\/[^/]+/;
+const SHOPIFY_PRODUCT_RE = /^\/(?:collections\/[^/]+\/)?products\/([^/]+)/;
+const WOO_PRODUCT_RE = /^\/product\/([^/]+)/;
+
+export function normalizeLinkPath(pathname: string): string {
+  return (pathname || "").toLowerCase().replace(/\/+$/, "") || "/";
+}
+
+/**
+ * Resolve and classify an href found on pageUrl; null for anchors, mailto:, tel:, javascript: etc.
+ */
+export function classifyLink(href: string, pageUrl: string): ClassifiedLink | null {
+  const raw = (href || "").trim();
+  if (!raw || raw.startsWith("#") || /^(mailto|tel|javascript|data):/i.test(raw)) return null;
+  let resolved: URL;
+  try {
+    resolved = new URL(raw, pageUrl);
+  } catch {
+    return null;
+  }
+  if (!/^https?:$/.test(resolved.protocol)) return null;
+
+  const url = `${resolved.origin}${resolved.pathname}`;
+  const path = normalizeLinkPath(resolved.pathname);
+  if (GUIDE_PATH_RE.test(path)) return { kind: "guide", url, path };
+  const shopify = SHOPIFY_PRODUCT_RE.exec(path);
+  if (shopify) return { kind: "product", url, path, platform: "shopify", handle: decodeURIComponent(shopify[1]) };
+  const woo = WOO_PRODUCT_RE.exec(path);
+  if (woo) return { kind: "product", url, path, platform: "woocommerce", handle: decodeURIComponent(woo[1]) };
+  return { kind: "other", url, path };
+}
+
+/** Every classified <a href> on the page, deduplicated by URL. */
+export function extractPageLinks(page: Pick<LinkAuditPage, "url" | "html">): ClassifiedLink[] {
+  const links = new Map<string, ClassifiedLink>();
+  for (const match of (page.html || "").matchAll(/<a\b[^>]*\bhref\s*=\s*["']([^"']+)["']/gi)) {
+    const link = classifyLink(match[1].replace(/&amp;/g, "&"), page.url);
+    if (link && !links.has(link.url)) links.set(link.url, link);
+  }
+  return Array.from(links.values());
+}
+
+/**
+ * @param knownUrls URLs of guides that exist but were not crawled (e.g. history records of WordPress pages)
+ */
+export function auditInternalLinks(pages: LinkAuditPage[], knownUrls: string[] = []): InternalLinkAuditResult {
+  const pathOf = (url: string) => {
+    try {
+      return normalizeLinkPath(new URL(url).pathname);
+    } catch {
+      return normalizeLinkPath(url);
+    }
+  };
+  const known = new Set([...pages.map((page) => pathOf(page.url)), ...knownUrls.map(pathOf)]);
+  const inbound = new Map<string, number>();
+  const brokenLinks: BrokenInternalLink[] = [];
+  const products = new Map<string, ProductLinkRef>();
+
+  for (const page of pages) {
+    const selfPath = pathOf(page.url);
+    for (const link of extractPageLinks(page)) {
+      if (link.kind === "guide") {
+        if (link.path === selfPath) continue;
+        if (known.has(link.path)) {
+          inbound.set(link.path, (inbound.get(link.path) ?? 0) + 1);
+        } else {
+          brokenLinks.push({ pageUrl: page.url, href: link.url });
+        }
+      } else if (link.kind === "product" && link.platform && link.handle) {
+        const key = `${link.platform}:${link.handle}`;
+        const ref = products.get(key) ?? { platform: link.platform, handle: link.handle, url: link.url, pages: [] };
+        if (!ref.pages.includes(page.url)) ref.pages.push(page.url);
+        products.set(key, ref);
+      }
+    }
+  }
+
+  return {
+    orphans: pages.filter((page) => GUIDE_PATH_RE.test(pathOf(page.url)) && !inbound.get(pathOf(page.url))),
+    brokenLinks,
+    productLinks: Array.from(products.values()),
+  };
+}
@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import {
+  addBudgetUsage,
+  budgetResetTime,
+  createBudgetUsage,
+  describeBudgets,
+  findBudgetViolation,
+  formatBudgetViolation,
+  isValidProjectId,
+  parseBudgetConfig,
+} from "./llmBudget.js";
+
+const at = (iso: string) => Date.parse(iso);
+
+{
+  assert.deepEqual(parseBudgetConfig(undefined), { projects: {} });
+  assert.deepEqual(
+    parseBudgetConfig(
+      JSON.stringify({
+        global: { daily: { tokens: 1000, requests: 3 } },
+        projects: { acme: { monthly: { tokens: 5000 } }, "*": { daily: { requests: 2 } } },
+      })
+    ),
+    {
+      global: { daily: { tokens: 1000, requests: 3 } },
+      projects: { acme: { monthly: { tokens: 5000 } }, "*": { daily: { requests: 2 } } },
+    }
+  );
+  assert.equal(parseBudgetConfig("{"), "LLM_BUDGETS is not valid JSON");
+  assert.match(parseBudgetConfig(JSON.stringify({ global: { weekly: { tokens: 1 } } })) as string, /unknown period "weekly"/);
+  assert.match(parseBudgetConfig(JSON.stringify({ global: { daily: { tokens: -1 } } })) as string, /non-negative/);
+  assert.match(parseBudgetConfig(JSON.stringify({ projects: { "bad id": {} } })) as string, /Invalid project id/);
+  assert.match(parseBudgetConfig(JSON.stringify({ perProject: {} })) as string, /unknown key "perProject"/);
+  assert.ok(isValidProjectId("acme-uk"));
+  assert.ok(!isValidProjectId("*"));
+}
+
+{
+  assert.equal(budgetResetTime("daily", at("2026-01-31T18:00:00Z")), "2026-02-01T00:00:00.000Z");
+  assert.equal(budgetResetTime("monthly", at("2026-12-15T00:00:00Z")), "2027-01-01T00:00:00.000Z");
+}
+
+{
+  const config = parseBudgetConfig(
+    JSON.stringify({
+      global: { daily: { tokens: 1000, requests: 10 }, monthly: { tokens: 6000 } },
+      projects: { acme: { daily: { tokens: 400 } }, "*": { daily: { requests: 1 } } },
+    })
+  );
+  if (typeof config === "string") throw new Error(config);
+  const now = at("2026-03-10T12:00:00Z");
+  const usage = createBudgetUsage(now);
+
+  // Earlier days of the month only count towards the monthly budget
+  addBudgetUsage(usage, { timestamp: at("2026-03-02T09:00:00Z"), totalTokens: 4000 });
+  addBudgetUsage(usage, { timestamp: at("2026-03-10T08:00:00Z"), totalTokens: 300, project: "acme" });
+  assert.deepEqual(usage.global, { daily: { tokens: 300, requests: 1 }, monthly: { tokens: 4300, requests: 2 } });
+  assert.equal(findBudgetViolation(config, usage, "acme", now), null);
+
+  addBudgetUsage(usage, { timestamp: at("2026-03-10T09:00:00Z"), totalTokens: 150, project: "acme" });
+  assert.deepEqual(findBudgetViolation(config, usage, "acme", now), {
+    project: "acme",
+    period: "daily",
+    metric: "tokens",
+    used: 450,
+    limit: 400,
+    resetsAt: "2026-03-11T00:00:00.000Z",
+  });
+  // Other projects fall back to the "*" budget; no project → global only
+  assert.equal(findBudgetViolation(config, usage, "beta", now), null);
+  addBudgetUsage(usage, { timestamp: at("2026-03-10T10:00:00Z"), totalTokens: 0, project: "beta" });
+  assert.equal(findBudgetViolation(config, usage, "beta", now)?.metric, "requests");
+  assert.equal(findBudgetViolation(config, usage, undefined, now), null);
+
+  // Global budget is checked first
+  addBudgetUsage(usage, { timestamp: at("2026-03-10T11:00:00Z"), totalTokens: 800 });
+  const violation = findBudgetViolation(config, usage, "acme", now);
+  assert.equal(violation?.project, undefined);
+  assert.equal(violation?.metric, "tokens");
+  assert.equal(
+    formatBudgetViolation(violation!),
+    "Daily LLM token budget for all projects is used up (1,250 / 1,000); resets at 2026-03-11T00:00:00.000Z"
+  );
+
+  // Next day: daily counters reset, the monthly total carries on
+  const tomorrow = at("2026-03-11T00:00:01Z");
+  assert.equal(findBudgetViolation(config, usage, "acme", tomorrow), null);
+  assert.deepEqual(usage.global, { daily: { tokens: 0, requests: 0 }, monthly: { tokens: 5250, requests: 5 } });
+  addBudgetUsage(usage, { timestamp: tomorrow, totalTokens: 800 });
+  assert.equal(findBudgetViolation(config, usage, undefined, tomorrow)?.period, "monthly");
+
+  const status = describeBudgets(config, usage, tomorrow);
+  assert.deepEqual(Object.keys(status.projects), ["acme", "beta"]);
+  assert.deepEqual(status.global.monthly.tokens, { used: 6050, limit: 6000, remaining: 0 });
+  assert.deepEqual(status.global.monthly.requests, { used: 6, limit: null, remaining: null });
+  assert.deepEqual(status.projects.beta.daily.requests, { used: 0, limit: 1, remaining: 1 });
+  assert.equal(status.resetsAt.monthly, "2026-04-01T00:00:00.000Z");
+}
+
+console.log("llmBudget.test.ts: all assertions passed");
@@ -0,0 +1,269 @@
+/**
+ * LLM budgets: daily / monthly token and request limits, globally and per project (caller).
+ * Usage counters roll over at UTC midnight and on the 1st of the month (UTC).
+ */
+
+export type BudgetPeriod = "daily" | "monthly";
+export type BudgetMetric = "tokens" | "requests";
+
+export type BudgetLimits = Partial<Record<BudgetMetric, number>>;
+export type BudgetScopeConfig = Partial<Record<BudgetPeriod, BudgetLimits>>;
+
+export interface LlmBudgetConfig {
+  global?: BudgetScopeConfig;
+  /** Per-project limits; "*" applies to every project without its own entry */
+  projects: Record<string, BudgetScopeConfig>;
+}
+
+export type PeriodUsage = Record<BudgetMetric, number>;
+export type ScopeUsage = Record<BudgetPeriod, PeriodUsage>;
+
+export interface BudgetUsage {
+  /** YYYY-MM-DD (UTC) the daily counters belong to */
+  day: string;
+  /** YYYY-MM (UTC) the monthly counters belong to */
+  month: string;
+  global: ScopeUsage;
+  projects: Record<string, ScopeUsage>;
+}
+
+export interface BudgetViolation {
+  /** Undefined for the global budget */
+  project?: string;
+  period: BudgetPeriod;
+  metric: BudgetMetric;
+  used: number;
+  limit: number;
+  resetsAt: string;
+}
+
+export interface BudgetMeter {
+  used: number;
+  limit: number | null;
+  remaining: number | null;
+}
+
+export type ScopeStatus = Record<BudgetPeriod, Record<BudgetMetric, BudgetMeter>>;
+
+const PERIODS: BudgetPeriod[] = ["daily", "monthly"];
+const METRICS: BudgetMetric[] = ["tokens", "requests"];
+const PROJECT_RE = /^(?:\*|[A-Za-z0-9_.-]{1,64})$/;
+export const DEFAULT_PROJECT_KEY = "*";
+
+function emptyScopeUsage(): ScopeUsage {
+  return { daily: { tokens: 0, requests: 0 }, monthly: { tokens: 0, requests: 0 } };
+}
+
+function dayKey(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function monthKey(time: number): string {
+  return new Date(time).toISOString().slice(0, 7);
+}
+
+export function isValidProjectId(project: string): boolean {
+  return project !== DEFAULT_PROJECT_KEY && PROJECT_RE.test(project);
+}
+
+function parseScope(value: unknown, label: string): BudgetScopeConfig | string {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return `${label} must be an object`;
+  const scope: BudgetScopeConfig = {};
+  for (const [period, limits] of Object.entries(value as Record<string, unknown>)) {
+    if (!PERIODS.includes(period as BudgetPeriod)) return `${label}: unknown period "${period}" (daily, monthly)`;
+    if (!limits || typeof limits !== "object" || Array.isArray(limits)) return `${label}.${period} must be an object`;
+    const parsed: BudgetLimits = {};
+    for (const [metric, limit] of Object.entries(limits as Record<string, unknown>)) {
+      if (!METRICS.includes(metric as BudgetMetric)) return `${label}.${period}: unknown metric "${metric}" (tokens, requests)`;
+      if (typeof limit !== "number" || !Number.isFinite(limit) || limit < 0) {
+        return `${label}.${period}.${metric} must be a non-negative number`;
+      }
+      parsed[metric as BudgetMetric] = limit;
+    }
+    scope[period as BudgetPeriod] = parsed;
+  }
+  return scope;
+}
+
+/**
+ * Parse the LLM_BUDGETS JSON, e.g.
+ * {"global":{"daily":{"tokens":2000000,"requests":1500}},"projects":{"acme":{"monthly":{"tokens":5000000}}}}
+ * @returns the config, or an error message
+ */
+export function parseBudgetConfig(raw?: string): LlmBudgetConfig | string {
+  if (!raw?.trim()) return { projects: {} };
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return "LLM_BUDGETS is not valid JSON";
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return "LLM_BUDGETS must be a JSON object";
+  const { global, projects, ...rest } = parsed as Record<string, unknown>;
+  const unknownKey = Object.keys(rest)[0];
+  if (unknownKey) return `LLM_BUDGETS: unknown key "${unknownKey}" (global, projects)`;
+
+  const config: LlmBudgetConfig = { projects: {} };
+  if (global !== undefined) {
+    const scope = parseScope(global, "global");
+    if (typeof scope === "string") return scope;
+    config.global = scope;
+  }
+  if (projects !== undefined) {
+    if (!projects || typeof projects !== "object" || Array.isArray(projects)) return "projects must be an object";
+    for (const [project, value] of Object.entries(projects as Record<string, unknown>)) {
+      if (!PROJECT_RE.test(project)) return `Invalid project id "${project}"`;
+      const scope = parseScope(value, `projects.${project}`);
+      if (typeof scope === "string") return scope;
+      config.projects[project] = scope;
+    }
+  }
+  return config;
+}
+
+export function createBudgetUsage(now: number = Date.now()): BudgetUsage {
+  return { day: dayKey(now), month: monthKey(now), global: emptyScopeUsage(), projects: {} };
+}
+
+/** Zero the counters whose period has ended (mutates and returns usage). */
+export function rollBudgetPeriods(usage: BudgetUsage, now: number = Date.now()): BudgetUsage {
+  const day = dayKey(now);
+  const month = monthKey(now);
+  const scopes = [usage.global, ...Object.values(usage.projects)];
+  if (usage.month !== month) {
+    for (const scope of scopes) scope.monthly = { tokens: 0, requests: 0 };
+    usage.month = month;
+  }
+  if (usage.day !== day) {
+    for (const scope of scopes) scope.daily = { tokens: 0, requests: 0 };
+    usage.day = day;
+  }
+  return usage;
+}
+
+/**
+ * Count one model call (failed calls count as a request with their — usually zero — tokens).
+ * A newer call rolls the counters forward; older ones only add to the periods they fall in.
+ */
+export function addBudgetUsage(
+  usage: BudgetUsage,
+  call: { timestamp: number; totalTokens: number; project?: string }
+): BudgetUsage {
+  if (dayKey(call.timestamp) > usage.day) rollBudgetPeriods(usage, call.timestamp);
+  const scopes = [usage.global];
+  if (call.project) {
+    usage.projects[call.project] ??= emptyScopeUsage();
+    scopes.push(usage.projects[call.project]);
+  }
+  const periods = PERIODS.filter((period) =>
+    period === "daily" ? dayKey(call.timestamp) === usage.day : monthKey(call.timestamp) === usage.month
+  );
+  for (const scope of scopes) {
+    for (const period of periods) {
+      scope[period].tokens += call.totalTokens;
+      scope[period].requests += 1;
+    }
+  }
+  return usage;
+}
+
+export function budgetResetTime(period: BudgetPeriod, now: number = Date.now()): string {
+  const date = new Date(now);
+  const reset =
+    period === "daily"
+      ? Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1)
+      : Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+  return new Date(reset).toISOString();
+}
+
+function projectScope(config: LlmBudgetConfig, project: string): BudgetScopeConfig | undefined {
+  return config.projects[project] ?? config.projects[DEFAULT_PROJECT_KEY];
+}
+
+/**
+ * First exhausted budget for a new call (global before project, daily before monthly), or null.
+ * A budget is exhausted once usage reaches the limit; a limit of 0 blocks every call.
+ */
+export function findBudgetViolation(
+  config: LlmBudgetConfig,
+  usage: BudgetUsage,
+  project?: string,
+  now: number = Date.now()
+): BudgetViolation | null {
+  rollBudgetPeriods(usage, now);
+  const checks: Array<{ project?: string; scope?: BudgetScopeConfig; used: ScopeUsage }> = [
+    { scope: config.global, used: usage.global },
+  ];
+  if (project) {
+    checks.push({ project, scope: projectScope(config, project), used: usage.projects[project] ?? emptyScopeUsage() });
+  }
+  for (const check of checks) {
+    for (const period of PERIODS) {
+      for (const metric of METRICS) {
+        const limit = check.scope?.[period]?.[metric];
+        if (limit === undefined) continue;
+        const used = check.used[period][metric];
+        if (used >= limit) {
+          return {
+            ...(check.project ? { project: check.project } : {}),
+            period,
+            metric,
+            used,
+            limit,
+            resetsAt: budgetResetTime(period, now),
+          };
+        }
+      }
+    }
+  }
+  return null;
+}
+
+export function formatBudgetViolation(violation: BudgetViolation): string {
+  const scope = violation.project ? `project "${violation.project}"` : "all projects";
+  const period = violation.period === "daily" ? "Daily" : "Monthly";
+  return (
+    `${period} LLM ${violation.metric === "tokens" ? "token" : "request"} budget for ${scope} is used up ` +
+    `(${violation.used.toLocaleString("en-US")} / ${violation.limit.toLocaleString("en-US")}); resets at ${violation.resetsAt}`
+  );
+}
+
+/** Used / limit / remaining for every period and metric of one scope (limit null = unlimited). */
+export function describeScopeBudget(scope: BudgetScopeConfig | undefined, used: ScopeUsage): ScopeStatus {
+  const meter = (period: BudgetPeriod, metric: BudgetMetric): BudgetMeter => {
+    const limit = scope?.[period]?.[metric];
+    const value = used[period][metric];
+    return limit === undefined
+      ? { used: value, limit: null, remaining: null }
+      : { used: value, limit, remaining: Math.max(0, limit - value) };
+  };
+  return {
+    daily: { tokens: meter("daily", "tokens"), requests: meter("daily", "requests") },
+    monthly: { tokens: meter("monthly", "tokens"), requests: meter("monthly", "requests") },
+  };
+}
+
+/**
+ * Burn for the global scope and every project that has a budget or usage this month.
+ */
+export function describeBudgets(
+  config: LlmBudgetConfig,
+  usage: BudgetUsage,
+  now: number = Date.now()
+): { day: string; month: string; resetsAt: Record<BudgetPeriod, string>; global: ScopeStatus; projects: Record<string, ScopeStatus> } {
+  rollBudgetPeriods(usage, now);
+  const projectIds = new Set(
+    [...Object.keys(config.projects), ...Object.keys(usage.projects)].filter((p) => p !== DEFAULT_PROJECT_KEY)
+  );
+  const projects: Record<string, ScopeStatus> = {};
+  for (const project of [...projectIds].sort()) {
+    projects[project] = describeScopeBudget(projectScope(config, project), usage.projects[project] ?? emptyScopeUsage());
+  }
+  return {
+    day: usage.day,
+    month: usage.month,
+    resetsAt: { daily: budgetResetTime("daily", now), monthly: budgetResetTime("monthly", now) },
+    global: describeScopeBudget(config.global, usage.global),
+    projects,
+  };
+}
@@ -0,0 +1,19 @@
+import assert from "node:assert/strict";
+import { extractJsonText, parseLlmJson } from "./llmJson.js";
+
+{
+  assert.deepEqual(parseLlmJson('{"a":1}'), { a: 1 });
+  assert.deepEqual(parseLlmJson('```json\n[{"question":"Q","answer":"A"}]\n```'), [{ question: "Q", answer: "A" }]);
+  assert.deepEqual(parseLlmJson('Here is the result:\n{"ok":true}\nHope this helps.'), { ok: true });
+  assert.deepEqual(parseLlmJson('```\n{"nested":{"list":[1,2]}}\n```'), { nested: { list: [1, 2] } });
+}
+
+{
+  assert.equal(extractJsonText("no json here"), null);
+  assert.equal(extractJsonText(""), null);
+  assert.equal(extractJsonText("} {"), null);
+  assert.throws(() => parseLlmJson("plain text"), /contains no JSON/);
+  assert.throws(() => parseLlmJson("{broken: }"), /invalid JSON/);
+}
+
+console.log("llmJson.test.ts: all assertions passed");
@@ -0,0 +1,37 @@
+/**
+ * Pull a JSON value out of an LLM reply: models wrap JSON in ```json fences or add a sentence
+ * before / after it, regardless of the "JSON only" instruction.
+ */
+
+/**
+ * Extract the JSON text from a model reply.
+ * @returns the JSON substring, or null when the reply contains no object / array
+ */
+export function extractJsonText(reply: string): string | null {
+  const text = (reply || "").trim();
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(text);
+  const candidate = (fenced ? fenced[1] : text).trim();
+  if (!candidate) return null;
+
+  const starts = [candidate.indexOf("{"), candidate.indexOf("[")].filter((i) => i !== -1);
+  if (starts.length === 0) return null;
+  const start = Math.min(...starts);
+  const end = Math.max(candidate.lastIndexOf("}"), candidate.lastIndexOf("]"));
+  return end > start ? candidate.slice(start, end + 1) : null;
+}
+
+/**
+ * Parse a JSON value from a model reply.
+ * @throws Error when no parseable JSON is found
+ */
+export function parseLlmJson<T = unknown>(reply: string): T {
+  const json = extractJsonText(reply);
+  if (json === null) {
+    throw new Error(`LLM reply contains no JSON: ${(reply || "").slice(0, 120)}`);
+  }
+  try {
+    return JSON.parse(json) as T;
+  } catch (error) {
+    throw new Error(`LLM reply contains invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
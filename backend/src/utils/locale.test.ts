@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import {
+  DEFAULT_LOCALE,
+  applyHreflangLinks,
+  buildHreflangAlternates,
+  buildLanguageDirective,
+  localizeGuideSlug,
+  localizeTemplateChrome,
+  normalizeTranslationKey,
+  resolveLocale,
+  splitLocalePrefix,
+} from "./locale.js";
+
+{
+  assert.equal(resolveLocale(undefined)?.code, DEFAULT_LOCALE);
+  assert.equal(resolveLocale("  ")?.code, DEFAULT_LOCALE);
+  assert.equal(resolveLocale("de_de")?.code, "de-DE");
+  assert.equal(resolveLocale("FR-fr")?.code, "fr-FR");
+  assert.equal(resolveLocale("pt-BR"), null);
+}
+
+{
+  const de = resolveLocale("de-DE")!;
+  assert.equal(localizeGuideSlug("luxus-handys", de), "de/luxury-life-guides/luxus-handys");
+  assert.equal(localizeGuideSlug("/luxury-phones/", resolveLocale()!), "luxury-life-guides/luxury-phones");
+
+  assert.deepEqual(
+    { ...splitLocalePrefix("/de/luxury-life-guides/luxus-handys/"), locale: splitLocalePrefix("de/luxury-life-guides/x").locale.code },
+    { path: "luxury-life-guides/luxus-handys", locale: "de-DE" }
+  );
+  const plain = splitLocalePrefix("luxury-life-guides/luxury-phones");
+  assert.equal(plain.locale.code, DEFAULT_LOCALE);
+  assert.equal(plain.path, "luxury-life-guides/luxury-phones");
+  // a bare "de" segment is not a prefix
+  assert.equal(splitLocalePrefix("de").locale.code, DEFAULT_LOCALE);
+
+  assert.equal(normalizeTranslationKey("https://x.test/de/luxury-life-guides/Luxus-Handys/?a=1"), "luxus-handys");
+  assert.equal(normalizeTranslationKey("luxury-life-guides/best-phones"), "best-phones");
+  assert.equal(normalizeTranslationKey("/best-phones/"), "best-phones");
+}
+
+{
+  assert.equal(buildLanguageDirective(resolveLocale()!), "");
+  assert.match(buildLanguageDirective(resolveLocale("it-IT")!), /LANGUAGE OVERRIDE \(it-IT\)[\s\S]*Italian/);
+  assert.match(buildLanguageDirective(resolveLocale("en-US")!), /American English/);
+}
+
+{
+  assert.deepEqual(buildHreflangAlternates([{ locale: "en-GB", url: "https://x.test/luxury-life-guides/a/" }]), []);
+  assert.deepEqual(
+    buildHreflangAlternates([
+      { locale: "de-DE", url: "https://x.test/de/luxury-life-guides/b/" },
+      { locale: "", url: "https://x.test/luxury-life-guides/a/" },
+      { locale: "de-DE", url: "https://x.test/de/luxury-life-guides/older/" },
+      { locale: "xx-XX", url: "https://x.test/xx/" },
+    ]),
+    [
+      { hreflang: "de-DE", href: "https://x.test/de/luxury-life-guides/b/" },
+      { hreflang: "en-GB", href: "https://x.test/luxury-life-guides/a/" },
+      { hreflang: "x-default", href: "https://x.test/luxury-life-guides/a/" },
+    ]
+  );
+  assert.equal(
+    buildHreflangAlternates([
+      { locale: "de-DE", url: "https://x.test/de/a/" },
+      { locale: "fr-FR", url: "https://x.test/fr/a/" },
+    ]).some((alt) => alt.hreflang === "x-default"),
+    false
+  );
+}
+
+{
+  const head = `<html lang="en-GB">\n<head>\n    <link rel="canonical" href="https://x.test/a/" />\n    <meta property="og:locale" content="en_GB" />\n</head>`;
+  const alternates = [
+    { hreflang: "de-DE", href: "https://x.test/de/a/" },
+    { hreflang: "en-GB", href: "https://x.test/a/" },
+  ];
+  const once = applyHreflangLinks(head, alternates);
+  assert.match(once, /canonical" href="https:\/\/x.test\/a\/" \/>\n    <link rel="alternate" hreflang="de-DE" href="https:\/\/x.test\/de\/a\/" \/>\n/);
+  assert.equal(applyHreflangLinks(once, alternates), once);
+  assert.equal(applyHreflangLinks(once, []), head);
+  assert.match(applyHreflangLinks("<head></head>", alternates), /hreflang="en-GB"[^\n]*\n<\/head>/);
+}
+
+{
+  const page = `<html lang="en-GB"><head><meta property="og:locale" content="en_GB" /></head><body><section class="ll-quick-answer" aria-label="Quick answer"><p>x</p></section><h2 class="faq-title">FAQ</h2></body></html>`;
+  assert.equal(localizeTemplateChrome(page, resolveLocale()!), page);
+  const fr = localizeTemplateChrome(page, resolveLocale("fr-FR")!);
+  assert.match(fr, /<html lang="fr-FR">/);
+  assert.match(fr, /og:locale" content="fr_FR"/);
+  assert.match(fr, /aria-label="Réponse rapide"/);
+  assert.match(fr, /<h2 class="faq-title">Questions fréquentes<\/h2>/);
+}
+
+console.log("locale.test.ts: all assertions passed");
@@ -0,0 +1,280 @@
+/**
+ * Market locales for guide generation: prompt language directive, locale-prefixed slugs,
+ * hreflang alternates and the small pieces of template chrome (FAQ heading, quick-answer
+ * label, editorial note, feedback widget) that are not produced by the model.
+ * en-GB is the default market: no slug prefix, templates and prompts are written for it.
+ */
+
+export interface LocaleCopy {
+  faqTitle: string;
+  quickAnswerLabel: string;
+  editorialNote: string;
+  editorialNoteBody: string;
+  updated: string;
+  helpfulLabel: string;
+  helpfulPrompt: string;
+  helpfulYes: string;
+  helpfulNo: string;
+  helpfulThanks: string;
+}
+
+export interface LocaleDefinition {
+  /** BCP 47 code, also used as the hreflang value */
+  code: string;
+  /** Language name used in the generation prompt */
+  language: string;
+  /** Open Graph locale (underscore form) */
+  ogLocale: string;
+  /** First path segment of published pages; empty for the default market */
+  slugPrefix: string;
+  /** slugify locale for transliteration (ü → ue, …) */
+  slugifyLocale: string;
+  copy: LocaleCopy;
+}
+
+export interface HreflangAlternate {
+  hreflang: string;
+  href: string;
+}
+
+export const DEFAULT_LOCALE = "en-GB";
+
+const ENGLISH_COPY: LocaleCopy = {
+  faqTitle: "FAQ",
+  quickAnswerLabel: "Quick answer",
+  editorialNote: "Editorial note:",
+  editorialNoteBody: "This guide reflects our product knowledge base at the time of writing.",
+  updated: "Updated",
+  helpfulLabel: "Was this helpful?",
+  helpfulPrompt: "Was this guide helpful?",
+  helpfulYes: "Yes",
+  helpfulNo: "Not really",
+  helpfulThanks: "Thank you for your feedback.",
+};
+
+export const SUPPORTED_LOCALES: Record<string, LocaleDefinition> = {
+  "en-GB": {
+    code: "en-GB",
+    language: "British English",
+    ogLocale: "en_GB",
+    slugPrefix: "",
+    slugifyLocale: "en",
+    copy: ENGLISH_COPY,
+  },
+  "en-US": {
+    code: "en-US",
+    language: "American English",
+    ogLocale: "en_US",
+    slugPrefix: "en-us",
+    slugifyLocale: "en",
+    copy: ENGLISH_COPY,
+  },
+  "de-DE": {
+    code: "de-DE",
+    language: "German",
+    ogLocale: "de_DE",
+    slugPrefix: "de",
+    slugifyLocale: "de",
+    copy: {
+      faqTitle: "Häufige Fragen",
+      quickAnswerLabel: "Kurze Antwort",
+      editorialNote: "Redaktioneller Hinweis:",
+      editorialNoteBody: "Dieser Ratgeber gibt den Stand unserer Produktdatenbank zum Zeitpunkt der Erstellung wieder.",
+      updated: "Aktualisiert",
+      helpfulLabel: "War das hilfreich?",
+      helpfulPrompt: "War dieser Ratgeber hilfreich?",
+      helpfulYes: "Ja",
+      helpfulNo: "Eher nicht",
+      helpfulThanks: "Vielen Dank für Ihr Feedback.",
+    },
+  },
+  "fr-FR": {
+    code: "fr-FR",
+    language: "French",
+    ogLocale: "fr_FR",
+    slugPrefix: "fr",
+    slugifyLocale: "fr",
+    copy: {
+      faqTitle: "Questions fréquentes",
+      quickAnswerLabel: "Réponse rapide",
+      editorialNote: "Note de la rédaction :",
+      editorialNoteBody: "Ce guide reflète notre base de connaissances produits au moment de sa rédaction.",
+      updated: "Mis à jour le",
+      helpfulLabel: "Cela vous a-t-il aidé ?",
+      helpfulPrompt: "Ce guide vous a-t-il été utile ?",
+      helpfulYes: "Oui",
+      helpfulNo: "Pas vraiment",
+      helpfulThanks: "Merci pour votre retour.",
+    },
+  },
+  "es-ES": {
+    code: "es-ES",
+    language: "Spanish (Spain)",
+    ogLocale: "es_ES",
+    slugPrefix: "es",
+    slugifyLocale: "es",
+    copy: {
+      faqTitle: "Preguntas frecuentes",
+      quickAnswerLabel: "Respuesta rápida",
+      editorialNote: "Nota editorial:",
+      editorialNoteBody: "Esta guía refleja nuestra base de conocimiento de productos en el momento de su redacción.",
+      updated: "Actualizado el",
+      helpfulLabel: "¿Le ha resultado útil?",
+      helpfulPrompt: "¿Le ha resultado útil esta guía?",
+      helpfulYes: "Sí",
+      helpfulNo: "No mucho",
+      helpfulThanks: "Gracias por su opinión.",
+    },
+  },
+  "it-IT": {
+    code: "it-IT",
+    language: "Italian",
+    ogLocale: "it_IT",
+    slugPrefix: "it",
+    slugifyLocale: "it",
+    copy: {
+      faqTitle: "Domande frequenti",
+      quickAnswerLabel: "Risposta rapida",
+      editorialNote: "Nota redazionale:",
+      editorialNoteBody: "Questa guida riflette la nostra base di conoscenza sui prodotti al momento della stesura.",
+      updated: "Aggiornato il",
+      helpfulLabel: "È stato utile?",
+      helpfulPrompt: "Questa guida ti è stata utile?",
+      helpfulYes: "Sì",
+      helpfulNo: "Non proprio",
+      helpfulThanks: "Grazie per il tuo feedback.",
+    },
+  },
+};
+
+/**
+ * Resolve a requested locale ("de-DE", "de_de", "DE-de"); empty input resolves to the default.
+ * @returns null when the locale is not supported
+ */
+export function resolveLocale(input?: string | null): LocaleDefinition | null {
+  const raw = (input ?? "").trim().replace(/_/g, "-");
+  if (!raw) return SUPPORTED_LOCALES[DEFAULT_LOCALE];
+  const match = Object.keys(SUPPORTED_LOCALES).find((code) => code.toLowerCase() === raw.toLowerCase());
+  return match ? SUPPORTED_LOCALES[match] : null;
+}
+
+/** Locale of a stored record / document; unknown or missing values count as the default market. */
+export function localeOrDefault(input?: string | null): LocaleDefinition {
+  return resolveLocale(input) ?? SUPPORTED_LOCALES[DEFAULT_LOCALE];
+}
+
+export function isDefaultLocale(locale: LocaleDefinition): boolean {
+  return locale.code === DEFAULT_LOCALE;
+}
+
+/** Publish slug for a guide: `[prefix/]luxury-life-guides/<baseSlug>`. */
+export function localizeGuideSlug(baseSlug: string, locale: LocaleDefinition): string {
+  const slug = `luxury-life-guides/${baseSlug.replace(/^\/+|\/+$/g, "")}`;
+  return locale.slugPrefix ? `${locale.slugPrefix}/${slug}` : slug;
+}
+
+/**
+ * Split a known locale prefix off a page path ("de/luxury-life-guides/x" → de-DE + "luxury-life-guides/x").
+ * Paths without a prefix belong to the default market.
+ */
+export function splitLocalePrefix(pagePath: string): { locale: LocaleDefinition; path: string } {
+  const clean = (pagePath || "").replace(/^\/+|\/+$/g, "");
+  const [first, ...rest] = clean.split("/");
+  const prefixed = Object.values(SUPPORTED_LOCALES).find(
+    (locale) => locale.slugPrefix && locale.slugPrefix === first?.toLowerCase()
+  );
+  if (prefixed && rest.length > 0) return { locale: prefixed, path: rest.join("/") };
+  return { locale: SUPPORTED_LOCALES[DEFAULT_LOCALE], path: clean };
+}
+
+/**
+ * Translation group key from a slug, path or page URL: the guide's base slug without the
+ * locale prefix and luxury-life-guides/ ("https://x.test/de/luxury-life-guides/a/" → "a").
+ */
+export function normalizeTranslationKey(input: string): string {
+  let value = (input || "").trim().replace(/[?#].*$/, "");
+  if (/^https?:\/\//i.test(value)) {
+    try {
+      value = new URL(value).pathname;
+    } catch {
+      return "";
+    }
+  }
+  return splitLocalePrefix(value).path.replace(/^luxury-life-guides\//, "").toLowerCase();
+}
+
+/**
+ * Prompt directive appended to every generation prompt for non-default locales. The base
+ * prompts are written for British English, so this explicitly overrides those rules.
+ */
+export function buildLanguageDirective(locale: LocaleDefinition): string {
+  if (isDefaultLocale(locale)) return "";
+  const spelling =
+    locale.code === "en-US"
+      ? "Use American English spelling and vocabulary; ignore every British English rule above."
+      : `Ignore every instruction above that requires British English: all reader-facing text (titles, headings, paragraphs, FAQ questions and answers, meta descriptions) MUST be written in natural, fluent ${locale.language} for the ${locale.code} market.`;
+  return `
+
+LANGUAGE OVERRIDE (${locale.code}) — this takes priority over all language rules above:
+- ${spelling}
+- Keep HTML tags, JSON keys, URLs and product names (e.g. "VERTU Agent Q") exactly as given; do not translate them.
+- The search query is already in the target language; use it verbatim where the instructions ask for the keyword.`;
+}
+
+/**
+ * hreflang alternates for a set of translations: one entry per locale (first URL wins), sorted
+ * by code, plus x-default pointing at the default-market page when there is one.
+ * @returns [] when fewer than two locales exist (a lone self-reference adds nothing)
+ */
+export function buildHreflangAlternates(pages: Array<{ locale: string; url: string }>): HreflangAlternate[] {
+  const byLocale = new Map<string, string>();
+  for (const page of pages) {
+    const locale = resolveLocale(page.locale);
+    if (locale && page.url && !byLocale.has(locale.code)) byLocale.set(locale.code, page.url);
+  }
+  if (byLocale.size < 2) return [];
+  const alternates = Array.from(byLocale, ([hreflang, href]) => ({ hreflang, href })).sort((a, b) =>
+    a.hreflang.localeCompare(b.hreflang)
+  );
+  const fallback = byLocale.get(DEFAULT_LOCALE);
+  return fallback ? [...alternates, { hreflang: "x-default", href: fallback }] : alternates;
+}
+
+function escapeAttr(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+}
+
+const HREFLANG_LINK_RE = /[ \t]*<link\b[^>]*\brel\s*=\s*["']alternate["'][^>]*\bhreflang\s*=[^>]*>[^\S\n]*\n?/gi;
+
+/**
+ * Replace the page's hreflang <link> tags with the given alternates (idempotent; an empty list
+ * removes them). Inserted after the canonical link, or before </head>.
+ */
+export function applyHreflangLinks(html: string, alternates: HreflangAlternate[]): string {
+  const cleaned = html.replace(HREFLANG_LINK_RE, "");
+  if (alternates.length === 0) return cleaned;
+  const tags = alternates
+    .map((alt) => `    <link rel="alternate" hreflang="${escapeAttr(alt.hreflang)}" href="${escapeAttr(alt.href)}" />`)
+    .join("\n");
+  const canonical = /<link\b[^>]*\brel\s*=\s*["']canonical["'][^>]*>[^\S\n]*\n?/i.exec(cleaned);
+  if (canonical) {
+    const at = canonical.index + canonical[0].length;
+    const sep = canonical[0].endsWith("\n") ? "" : "\n";
+    return `${cleaned.slice(0, at)}${sep}${tags}\n${cleaned.slice(at)}`;
+  }
+  return /<\/head>/i.test(cleaned) ? cleaned.replace(/<\/head>/i, `${tags}\n</head>`) : cleaned;
+}
+
+/**
+ * Localize the template chrome of a rendered page: <html lang>, og:locale, the quick-answer
+ * label and the FAQ heading. No-op for the default market.
+ */
+export function localizeTemplateChrome(html: string, locale: LocaleDefinition): string {
+  if (isDefaultLocale(locale)) return html;
+  const { copy } = locale;
+  return html
+    .replace(/(<html\b[^>]*\blang\s*=\s*["'])[^"']*(["'])/i, `$1${locale.code}$2`)
+    .replace(/(<meta\b[^>]*\bproperty\s*=\s*["']og:locale["'][^>]*\bcontent\s*=\s*["'])[^"']*(["'])/i, `$1${locale.ogLocale}$2`)
+    .replace(/(<section\b[^>]*\bclass\s*=\s*["'][^"']*\bll-quick-answer\b[^"']*["'][^>]*\baria-label\s*=\s*["'])[^"']*(["'])/gi, `$1${escapeAttr(copy.quickAnswerLabel)}$2`)
+    .replace(/(<h2\b[^>]*\bclass\s*=\s*["'][^"']*\bfaq-title\b[^"']*["'][^>]*>)[\s\S]*?(<\/h2>)/gi, `$1${copy.faqTitle}$2`);
+}
@@ -5,15 +5,20 @@
 
 type AnyRecord = Record<string, any>;
 
+// 按小写比较（请求头 Authorization / authorization 等大小写不一）
 const SENSITIVE_FIELDS = new Set([
-  "googleApiKey",
-  "apiKey",
-  "appPassword",
-  "consumerKey",
-  "consumerSecret",
-  "accessToken",
-  "refreshToken",
+  "googleapikey",
+  "apikey",
+  "apppassword",
+  "consumerkey",
+  "consumersecret",
+  "accesstoken",
+  "refreshtoken",
   "token",
+  "password",
+  "authorization",
+  "cookie",
+  "encryptedsecrets",
 ]);
 
 /**
@@ -27,9 +32,28 @@ function sanitizeWordpressCredentials(value: AnyRecord) {
 }
 
 /**
- * 递归移除已知敏感字段
+ * 错误对象只保留名称、信息、状态码与响应体（axios 等错误的 config / request 中带有请求头与账号密码）
+ */
+function sanitizeError(error: Error): AnyRecord {
+  const { code, status, response } = error as AnyRecord;
+  return {
+    name: error.name,
+    message: error.message,
+    ...(code !== undefined && { code }),
+    ...((status ?? response?.status) !== undefined && { status: status ?? response?.status }),
+    ...(response?.data !== undefined && { response: sanitizeSensitive(response.data) }),
+    stack: error.stack,
+  };
+}
+
+/**
+ * 递归移除已知敏感字段（接口返回与日志输出共用）
  */
 export function sanitizeSensitive(obj: any): any {
+  if (obj instanceof Error) {
+    return sanitizeError(obj);
+  }
+
   if (Array.isArray(obj)) {
     return obj.map((item) => sanitizeSensitive(item));
   }
@@ -44,7 +68,7 @@ export function sanitizeSensitive(obj: any): any {
 
     const result: AnyRecord = {};
     for (const [key, value] of Object.entries(obj)) {
-      if (SENSITIVE_FIELDS.has(key)) {
+      if (SENSITIVE_FIELDS.has(key.toLowerCase())) {
         continue; // 直接删除敏感字段
       }
       result[key] = sanitizeSensitive(value);
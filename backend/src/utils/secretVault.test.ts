@@ -0,0 +1,29 @@
+import assert from "node:assert/strict";
+import { decryptSecret, encryptSecret } from "./secretVault.js";
+
+{
+  const plaintext = JSON.stringify({ wordpress: { appPassword: "abcd efgh ijkl" }, sanity: { token: "sk-ünïcode" } });
+  const encrypted = encryptSecret(plaintext, "passphrase-1");
+  assert.match(encrypted, /^v1:[^:]+:[^:]+:[^:]+$/);
+  assert.ok(!encrypted.includes("abcd"));
+  assert.equal(decryptSecret(encrypted, "passphrase-1"), plaintext);
+
+  // A fresh IV per call: same input, different ciphertext
+  assert.notEqual(encryptSecret(plaintext, "passphrase-1"), encrypted);
+  assert.equal(decryptSecret(encryptSecret("", "passphrase-1"), "passphrase-1"), "");
+}
+
+{
+  const encrypted = encryptSecret("secret", "passphrase-1");
+  assert.throws(() => decryptSecret(encrypted, "passphrase-2"), /wrong key or corrupted/);
+
+  const [version, iv, tag, data] = encrypted.split(":");
+  const bytes = Buffer.from(data, "base64");
+  bytes[0] ^= 1;
+  assert.throws(() => decryptSecret([version, iv, tag, bytes.toString("base64")].join(":"), "passphrase-1"), /corrupted/);
+
+  assert.throws(() => decryptSecret("secret", "passphrase-1"), /Unsupported encrypted secret format/);
+  assert.throws(() => decryptSecret(`v2:${iv}:${tag}:${data}`, "passphrase-1"), /Unsupported/);
+}
+
+console.log("secretVault.test.ts: all assertions passed");
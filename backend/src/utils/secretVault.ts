@@ -0,0 +1,47 @@
+/**
+ * Symmetric encryption for secrets stored at rest (AES-256-GCM).
+ * Ciphertext format: "v1:<iv>:<auth tag>:<data>", each part base64; the key is derived from a passphrase with scrypt.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "crypto";
+
+const VERSION = "v1";
+const IV_BYTES = 12;
+const KEY_SALT = "site-profile-secrets";
+
+const derivedKeys = new Map<string, Buffer>();
+
+/** 32-byte key for a passphrase (scrypt is slow, so derived keys are cached). */
+export function deriveSecretKey(passphrase: string): Buffer {
+  let key = derivedKeys.get(passphrase);
+  if (!key) {
+    key = scryptSync(passphrase, KEY_SALT, 32);
+    derivedKeys.set(passphrase, key);
+  }
+  return key;
+}
+
+export function encryptSecret(plaintext: string, passphrase: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", deriveSecretKey(passphrase), iv);
+  const data = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  return [VERSION, iv.toString("base64"), cipher.getAuthTag().toString("base64"), data.toString("base64")].join(":");
+}
+
+/**
+ * Decrypt a value produced by encryptSecret.
+ * Throws when the format is unknown, the passphrase is wrong or the ciphertext was modified.
+ */
+export function decryptSecret(ciphertext: string, passphrase: string): string {
+  const [version, iv, tag, data, ...rest] = ciphertext.split(":");
+  if (version !== VERSION || !iv || !tag || data === undefined || rest.length > 0) {
+    throw new Error("Unsupported encrypted secret format");
+  }
+  const decipher = createDecipheriv("aes-256-gcm", deriveSecretKey(passphrase), Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  try {
+    return Buffer.concat([decipher.update(Buffer.from(data, "base64")), decipher.final()]).toString("utf8");
+  } catch {
+    throw new Error("Encrypted secret could not be decrypted (wrong key or corrupted data)");
+  }
+}
@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { DEFAULT_SEO_GATE_THRESHOLD, evaluateSeoGate } from "./seoQualityGate.js";
+
+const sentence = "Luxury phones pair hand-finished materials with concierge services for owners who travel often.";
+const paragraph = (i: number) => `<p>${sentence} Detail ${i} covers warranty, repairs and resale value in plain terms.</p>`;
+
+function article(paragraphs: number, h2s: string[]): string {
+  const intro = "<p>Choosing luxury phones starts with materials, service and long-term support.</p>";
+  const sections = h2s.map((h, i) => `<h2>${h}</h2>${Array.from({ length: paragraphs }, (_, j) => paragraph(i * 100 + j)).join("")}`);
+  return intro + sections.join("");
+}
+
+const goodArticle = article(6, ["Why luxury phones hold value", "Materials", "Service"]);
+const goodPage = `<html><head><title>x</title></head><body>
+<header><a href="https://vertu.com/">Home</a><a href="https://partner.test/">Partner</a></header>
+${goodArticle}
+<img src="a.jpg" alt="Agent Q in calf leather"><img src="b.jpg" alt="Ruby key">
+<a href="/luxury-life-guides/agent-q-price/">Agent Q price</a>
+<a href="https://vertu.com/luxury-life-guides/care/">Care guide</a>
+<a href="https://www.gsma.com/report">GSMA report</a>
+<a href="#faq">FAQ</a><a href="mailto:care@vertu.com">Mail</a>
+</body></html>`;
+
+const goodInput = {
+  html: goodPage,
+  articleHtml: goodArticle,
+  pageTitle: "Luxury Phones: What Justifies the Price in 2026",
+  metaDescription:
+    "A practical guide to luxury phones: the materials, concierge services and warranty terms that separate genuine value from branding, and what to check first.",
+  keyword: "luxury phones",
+  pageUrl: "https://vertu.com/luxury-life-guides/luxury-phones/",
+};
+
+{
+  const report = evaluateSeoGate(goodInput);
+  assert.equal(report.threshold, DEFAULT_SEO_GATE_THRESHOLD);
+  assert.deepEqual(report.failing, []);
+  assert.equal(report.score, 100);
+  assert.equal(report.passed, true);
+  assert.equal(report.checks.reduce((sum, c) => sum + c.weight, 0), 100);
+  // header links are chrome, not content
+  assert.match(report.checks.find((c) => c.id === "internal_links")!.detail, /^2 internal/);
+  assert.match(report.checks.find((c) => c.id === "external_links")!.detail, /^1 external/);
+}
+
+{
+  // long-form shells expect more words and headings
+  const report = evaluateSeoGate({ ...goodInput, longForm: true });
+  assert.ok(report.failing.includes("word_count"));
+  assert.ok(report.failing.includes("h2_structure"));
+  assert.ok(report.score < 100);
+}
+
+{
+  const thin = `<h1>Intro</h1>${paragraph(1)}${paragraph(1)}${paragraph(1)}<h2>Other topic</h2>`;
+  const report = evaluateSeoGate(
+    {
+      html: `<body>${thin}<img src="x.jpg"><img src="y.jpg" alt=""></body>`,
+      articleHtml: thin,
+      pageTitle: "Phones",
+      metaDescription: "Short.",
+      keyword: "vertu agent q battery life",
+      pageUrl: "https://vertu.com/a/",
+    },
+    80
+  );
+  assert.equal(report.passed, false);
+  assert.equal(report.threshold, 80);
+  for (const id of [
+    "title_length",
+    "meta_description_length",
+    "h2_structure",
+    "keyword_placement",
+    "image_alt_coverage",
+    "internal_links",
+    "external_links",
+    "word_count",
+    "duplicate_paragraphs",
+  ]) {
+    assert.ok(report.failing.includes(id as never), id);
+  }
+  assert.match(report.checks.find((c) => c.id === "duplicate_paragraphs")!.detail, /^2\/3 paragraphs repeated/);
+  assert.match(report.checks.find((c) => c.id === "h2_structure")!.detail, /contains an H1/);
+}
+
+console.log("seoQualityGate.test.ts: all assertions passed");
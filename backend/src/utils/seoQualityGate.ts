@@ -0,0 +1,235 @@
+/**
+ * Pre-publish SEO quality gate: one weighted 0–100 score over the rendered page
+ * (title / meta lengths, H2 structure, keyword placement, image alt coverage, link counts,
+ * word count vs template expectations, duplicate paragraphs). Pure so the pipeline and tests share it.
+ */
+
+export type SeoCheckId =
+  | "title_length"
+  | "meta_description_length"
+  | "h2_structure"
+  | "keyword_placement"
+  | "image_alt_coverage"
+  | "internal_links"
+  | "external_links"
+  | "word_count"
+  | "duplicate_paragraphs";
+
+export interface SeoCheckResult {
+  id: SeoCheckId;
+  /** Points this check contributes at full score; weights sum to 100 */
+  weight: number;
+  /** 0–1 */
+  score: number;
+  passed: boolean;
+  detail: string;
+}
+
+export interface SeoGateReport {
+  /** 0–100 */
+  score: number;
+  threshold: number;
+  passed: boolean;
+  checks: SeoCheckResult[];
+  /** Ids of checks below their pass mark */
+  failing: SeoCheckId[];
+}
+
+export interface SeoGateInput {
+  /** Full rendered page (template + article) */
+  html: string;
+  /** Generated body copy only (article + extended content) — word count, H2s and duplicates are measured here */
+  articleHtml: string;
+  pageTitle: string;
+  metaDescription: string;
+  keyword: string;
+  /** Used to tell internal from external links; relative links are always internal */
+  pageUrl?: string;
+  /** Long-form guide shells (template-3…6 or guide-intent titles) expect more words and headings */
+  longForm?: boolean;
+}
+
+export const DEFAULT_SEO_GATE_THRESHOLD = 70;
+
+/** Score at or above which a single check counts as passed */
+const CHECK_PASS_MARK = 0.8;
+
+const WEIGHTS: Record<SeoCheckId, number> = {
+  title_length: 10,
+  meta_description_length: 10,
+  h2_structure: 15,
+  keyword_placement: 15,
+  image_alt_coverage: 10,
+  internal_links: 10,
+  external_links: 5,
+  word_count: 15,
+  duplicate_paragraphs: 10,
+};
+
+const WORD_EXPECTATIONS = {
+  short: { min: 400, max: 1000, h2: 2 },
+  long: { min: 1200, max: Infinity, h2: 4 },
+};
+
+const MIN_INTERNAL_LINKS = 2;
+const MIN_EXTERNAL_LINKS = 1;
+/** Paragraphs shorter than this are ignored by the duplicate check (captions, CTAs) */
+const MIN_DUPLICATE_PARAGRAPH_CHARS = 40;
+
+function plainText(html: string): string {
+  return (html || "")
+    .replace(/<script[\s\S]*?<\/script>/gi, " ")
+    .replace(/<style[\s\S]*?<\/style>/gi, " ")
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&#x27;|&#39;/g, "'")
+    .replace(/&quot;/g, '"')
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function countWords(text: string): number {
+  return text ? text.split(/\s+/).filter((w) => /[\p{L}\p{N}]/u.test(w)).length : 0;
+}
+
+/** True when every keyword token (≥ 3 chars) occurs in the text, or the whole phrase does. */
+function containsKeyword(text: string, keyword: string): boolean {
+  const haystack = text.toLowerCase();
+  const phrase = keyword.trim().toLowerCase();
+  if (!phrase) return false;
+  if (haystack.includes(phrase)) return true;
+  const tokens = phrase.split(/[^\p{L}\p{N}]+/u).filter((t) => t.length >= 3);
+  return tokens.length > 0 && tokens.every((t) => haystack.includes(t));
+}
+
+/** Page body without header / nav / footer chrome, which would otherwise dominate link counts. */
+function mainBody(html: string): string {
+  const body = html.match(/<body[^>]*>([\s\S]*?)<\/body>/i)?.[1] ?? html;
+  return body.replace(/<(header|nav|footer)\b[\s\S]*?<\/\1>/gi, " ");
+}
+
+function rangeScore(value: number, ideal: [number, number], acceptable: [number, number]): number {
+  if (value >= ideal[0] && value <= ideal[1]) return 1;
+  if (value >= acceptable[0] && value <= acceptable[1]) return 0.5;
+  return 0;
+}
+
+function check(id: SeoCheckId, score: number, detail: string): SeoCheckResult {
+  const clamped = Math.max(0, Math.min(1, score));
+  return { id, weight: WEIGHTS[id], score: Math.round(clamped * 100) / 100, passed: clamped >= CHECK_PASS_MARK, detail };
+}
+
+export function evaluateSeoGate(input: SeoGateInput, threshold: number = DEFAULT_SEO_GATE_THRESHOLD): SeoGateReport {
+  const expectations = input.longForm ? WORD_EXPECTATIONS.long : WORD_EXPECTATIONS.short;
+  const title = plainText(input.pageTitle);
+  const meta = plainText(input.metaDescription);
+  const article = input.articleHtml || "";
+  const articleText = plainText(article);
+  const body = mainBody(input.html || "");
+  const checks: SeoCheckResult[] = [];
+
+  checks.push(check("title_length", rangeScore(title.length, [30, 65], [20, 75]), `${title.length} chars (ideal 30–65)`));
+  checks.push(
+    check("meta_description_length", rangeScore(meta.length, [120, 160], [70, 180]), `${meta.length} chars (ideal 120–160)`)
+  );
+
+  const h2s = [...article.matchAll(/<h2[^>]*>([\s\S]*?)<\/h2>/gi)].map((m) => plainText(m[1]));
+  const hasH1 = /<h1[\s>]/i.test(article);
+  checks.push(
+    check(
+      "h2_structure",
+      Math.min(h2s.length / expectations.h2, 1) * (hasH1 ? 0.5 : 1),
+      `${h2s.length} H2 (expected ≥ ${expectations.h2})${hasH1 ? "; article contains an H1" : ""}`
+    )
+  );
+
+  const firstParagraph = plainText(article.match(/<p[^>]*>([\s\S]*?)<\/p>/i)?.[1] ?? articleText.split(" ").slice(0, 100).join(" "));
+  const placements: Array<[string, boolean]> = [
+    ["title", containsKeyword(title, input.keyword)],
+    ["meta description", containsKeyword(meta, input.keyword)],
+    ["first paragraph", containsKeyword(firstParagraph, input.keyword)],
+    ["an H2", h2s.some((h) => containsKeyword(h, input.keyword))],
+  ];
+  const missing = placements.filter(([, found]) => !found).map(([where]) => where);
+  checks.push(
+    check(
+      "keyword_placement",
+      (placements.length - missing.length) / placements.length,
+      missing.length ? `keyword missing from ${missing.join(", ")}` : "keyword in title, meta, first paragraph and an H2"
+    )
+  );
+
+  const images = [...body.matchAll(/<img\b[^>]*>/gi)].map((m) => m[0]);
+  const withAlt = images.filter((img) => /\balt\s*=\s*(["'])\s*[^"'\s][^"']*\1/i.test(img)).length;
+  checks.push(
+    check(
+      "image_alt_coverage",
+      images.length ? withAlt / images.length : 1,
+      images.length ? `${withAlt}/${images.length} images have alt text` : "no images"
+    )
+  );
+
+  let pageHost = "";
+  try {
+    pageHost = input.pageUrl ? new URL(input.pageUrl).host.toLowerCase() : "";
+  } catch {
+    pageHost = "";
+  }
+  let internal = 0;
+  let external = 0;
+  for (const match of body.matchAll(/<a\b[^>]*href\s*=\s*(["'])([^"']+)\1/gi)) {
+    const href = match[2].trim();
+    if (!href || href.startsWith("#") || /^(mailto|tel|javascript):/i.test(href)) continue;
+    if (!/^https?:\/\//i.test(href)) {
+      internal++;
+      continue;
+    }
+    try {
+      if (pageHost && new URL(href).host.toLowerCase() === pageHost) internal++;
+      else external++;
+    } catch {
+      /* unparseable href */
+    }
+  }
+  checks.push(check("internal_links", internal / MIN_INTERNAL_LINKS, `${internal} internal links (expected ≥ ${MIN_INTERNAL_LINKS})`));
+  checks.push(check("external_links", external / MIN_EXTERNAL_LINKS, `${external} external links (expected ≥ ${MIN_EXTERNAL_LINKS})`));
+
+  const words = countWords(articleText);
+  const wordScore = words < expectations.min ? words / expectations.min : words > expectations.max ? 0.7 : 1;
+  checks.push(
+    check(
+      "word_count",
+      wordScore,
+      `${words} words (expected ${expectations.min}${Number.isFinite(expectations.max) ? `–${expectations.max}` : "+"})`
+    )
+  );
+
+  const paragraphs = [...article.matchAll(/<p[^>]*>([\s\S]*?)<\/p>/gi)]
+    .map((m) => plainText(m[1]).toLowerCase())
+    .filter((p) => p.length >= MIN_DUPLICATE_PARAGRAPH_CHARS);
+  const seen = new Set<string>();
+  let duplicates = 0;
+  for (const p of paragraphs) {
+    if (seen.has(p)) duplicates++;
+    else seen.add(p);
+  }
+  const duplicateRatio = paragraphs.length ? duplicates / paragraphs.length : 0;
+  // 20% repeated paragraphs scores zero
+  checks.push(
+    check(
+      "duplicate_paragraphs",
+      1 - duplicateRatio * 5,
+      `${duplicates}/${paragraphs.length} paragraphs repeated (${Math.round(duplicateRatio * 100)}%)`
+    )
+  );
+
+  const score = Math.round(checks.reduce((sum, c) => sum + c.weight * c.score, 0));
+  return {
+    score,
+    threshold,
+    passed: score >= threshold,
+    checks,
+    failing: checks.filter((c) => !c.passed).map((c) => c.id),
+  };
+}
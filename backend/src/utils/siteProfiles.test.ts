@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import {
+  applySecretUpdates,
+  listSecretFields,
+  mergeSiteProfile,
+  normalizeSiteProfileInput,
+  stripPayloadSecrets,
+} from "./siteProfiles.js";
+
+{
+  const parsed = normalizeSiteProfileInput({
+    id: "vertu-uk",
+    name: " VERTU UK ",
+    wordpress: { url: "https://vertu.com", username: "editor", appPassword: " abcd efgh " },
+    shopify: { storeUrl: "https://vertu.myshopify.com", accessToken: "" },
+    sanity: { projectId: "p1", dataset: "production", token: "sk-1" },
+    staticPublish: null,
+  });
+  assert.deepEqual(parsed, {
+    profile: {
+      id: "vertu-uk",
+      name: "VERTU UK",
+      wordpress: { url: "https://vertu.com", username: "editor" },
+      shopify: { storeUrl: "https://vertu.myshopify.com" },
+      sanity: { projectId: "p1", dataset: "production" },
+    },
+    secrets: {
+      wordpress: { appPassword: "abcd efgh" },
+      shopify: { accessToken: null },
+      sanity: { token: "sk-1" },
+    },
+  });
+
+  assert.match(normalizeSiteProfileInput({ id: "Bad Id" }) as string, /lowercase slug/);
+  assert.match(normalizeSiteProfileInput({ id: "a", woocommerce: {} }) as string, /unknown key "woocommerce"/);
+  assert.match(normalizeSiteProfileInput({ id: "a", wordpress: { password: "x" } }) as string, /unknown field "password"/);
+  assert.match(normalizeSiteProfileInput({ id: "a", wordpress: { url: "vertu.com" } }) as string, /http\(s\) URL/);
+  assert.match(normalizeSiteProfileInput({ id: "a", sanity: { token: 1 } }) as string, /must be a string/);
+}
+
+{
+  const stored = { wordpress: { appPassword: "old", consumerKey: "ck" }, shopify: { accessToken: "shpat" } };
+  // Omitted secrets are kept, null removes, strings replace
+  const next = applySecretUpdates(stored, {
+    wordpress: { appPassword: "new" },
+    shopify: { accessToken: null },
+    sanity: { token: "sk" },
+  });
+  assert.deepEqual(next, { wordpress: { appPassword: "new", consumerKey: "ck" }, sanity: { token: "sk" } });
+  assert.deepEqual(stored.shopify, { accessToken: "shpat" });
+  assert.deepEqual(listSecretFields(next), ["wordpress.appPassword", "wordpress.consumerKey", "sanity.token"]);
+  assert.deepEqual(listSecretFields({}), []);
+}
+
+{
+  const profile = {
+    id: "vertu-uk",
+    wordpress: { url: "https://vertu.com", username: "editor" },
+    sanity: { projectId: "p1", dataset: "production", baseUrl: "https://vertu.com/luxury-life-guides" },
+  };
+  const secrets = { wordpress: { appPassword: "app-pass" }, sanity: { token: "sk-1" } };
+  const payload = {
+    keyword: "luxury phone",
+    siteProfileId: "vertu-uk",
+    sanity: { dataset: "staging", token: "" },
+  };
+  const merged = mergeSiteProfile(payload, profile, secrets);
+  assert.deepEqual(merged, {
+    keyword: "luxury phone",
+    siteProfileId: "vertu-uk",
+    wordpress: { url: "https://vertu.com", username: "editor", appPassword: "app-pass" },
+    sanity: { dataset: "staging", token: "sk-1", projectId: "p1", baseUrl: "https://vertu.com/luxury-life-guides" },
+  });
+  assert.deepEqual(payload.sanity, { dataset: "staging", token: "" });
+  // Merging again is a no-op
+  assert.deepEqual(mergeSiteProfile(merged, profile, secrets), merged);
+
+  assert.deepEqual(stripPayloadSecrets(merged), {
+    keyword: "luxury phone",
+    siteProfileId: "vertu-uk",
+    wordpress: { url: "https://vertu.com", username: "editor" },
+    sanity: { dataset: "staging", projectId: "p1", baseUrl: "https://vertu.com/luxury-life-guides" },
+  });
+  // Inline credentials are stripped as well; the input is left untouched
+  const inline = {
+    keyword: "luxury phone",
+    googleApiKey: "AIza-1",
+    wordpress: { url: "https://vertu.com", username: "editor", appPassword: "x", consumerSecret: "cs" },
+    shopify: { storeUrl: "https://vertu.myshopify.com", accessToken: "shpat" },
+  };
+  assert.deepEqual(stripPayloadSecrets(inline), {
+    keyword: "luxury phone",
+    wordpress: { url: "https://vertu.com", username: "editor" },
+    shopify: { storeUrl: "https://vertu.myshopify.com" },
+  });
+  assert.equal(inline.wordpress.appPassword, "x");
+}
+
+console.log("siteProfiles.test.ts: all assertions passed");
@@ -0,0 +1,149 @@
+/**
+ * Site profiles: named connection settings for the publish targets and product sources.
+ * Validation of API input, secret bookkeeping and merging a profile into a request payload.
+ */
+
+import type { GenerationRequestPayload, SiteProfile, SiteProfileSecrets } from "../types.js";
+
+const ID_RE = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const URL_FIELDS = new Set(["url", "storeUrl", "publicStoreUrl", "baseUrl"]);
+
+/** Per block: plain settings (stored as-is) and secrets (stored encrypted). */
+const PROFILE_BLOCKS = {
+  wordpress: { settings: ["url", "username"], secrets: ["appPassword", "consumerKey", "consumerSecret"] },
+  shopify: { settings: ["storeUrl", "publicStoreUrl"], secrets: ["accessToken"] },
+  staticPublish: { settings: ["outputDir", "baseUrl"], secrets: [] },
+  sanity: { settings: ["projectId", "dataset", "apiVersion", "docType", "baseUrl"], secrets: ["token"] },
+} as const;
+
+type ProfileBlock = keyof typeof PROFILE_BLOCKS;
+const BLOCKS = Object.keys(PROFILE_BLOCKS) as ProfileBlock[];
+
+export type SiteProfileSettings = Omit<SiteProfile, "encryptedSecrets" | "secretFields" | "createdAt" | "updatedAt">;
+
+/** Secret changes from an API write: a string sets the secret, null removes it, absent keeps the stored value. */
+export type SiteProfileSecretUpdates = Partial<Record<ProfileBlock, Record<string, string | null>>>;
+
+/** Anything carrying the credential blocks of a generation payload (payloads, rollback requests). */
+export type SiteCredentialTarget = Pick<
+  GenerationRequestPayload,
+  "siteProfileId" | "wordpress" | "shopify" | "staticPublish" | "sanity"
+>;
+
+type AnyRecord = Record<string, any>;
+
+export function isValidSiteProfileId(id: string): boolean {
+  return ID_RE.test(id);
+}
+
+/**
+ * Validate a site profile from an API payload ({ id, name?, wordpress?, shopify?, staticPublish?, sanity? }).
+ * Secret fields may be sent in the same blocks as the settings; an empty string or null removes a stored secret.
+ * @returns the settings and secret updates, or an error message
+ */
+export function normalizeSiteProfileInput(
+  input: unknown
+): { profile: SiteProfileSettings; secrets: SiteProfileSecretUpdates } | string {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return "site profile must be an object";
+  const { id: rawId, name, ...blocks } = input as AnyRecord;
+
+  const id = typeof rawId === "string" ? rawId.trim() : "";
+  if (!ID_RE.test(id)) return "id must be a lowercase slug (a-z, 0-9, -)";
+  if (name !== undefined && typeof name !== "string") return "name must be a string";
+
+  const profile: AnyRecord = { id, ...(name?.trim() && { name: name.trim().slice(0, 200) }) };
+  const secrets: SiteProfileSecretUpdates = {};
+  for (const [block, value] of Object.entries(blocks)) {
+    if (!BLOCKS.includes(block as ProfileBlock)) {
+      return `unknown key "${block}" (id, name, ${BLOCKS.join(", ")})`;
+    }
+    if (value === undefined || value === null) continue;
+    if (typeof value !== "object" || Array.isArray(value)) return `${block} must be an object`;
+    const fields = PROFILE_BLOCKS[block as ProfileBlock];
+    const settings: AnyRecord = {};
+    const secretUpdates: Record<string, string | null> = {};
+    for (const [field, raw] of Object.entries(value as AnyRecord)) {
+      const isSecret = (fields.secrets as readonly string[]).includes(field);
+      if (!isSecret && !(fields.settings as readonly string[]).includes(field)) {
+        return `${block}: unknown field "${field}"`;
+      }
+      if (raw !== undefined && raw !== null && typeof raw !== "string") return `${block}.${field} must be a string`;
+      const text = (raw ?? "").trim();
+      if (isSecret) {
+        secretUpdates[field] = text || null;
+        continue;
+      }
+      if (!text) continue;
+      if (URL_FIELDS.has(field) && !/^https?:\/\/[^\s]+$/i.test(text)) return `${block}.${field} must be an http(s) URL`;
+      settings[field] = text;
+    }
+    if (Object.keys(settings).length > 0) profile[block] = settings;
+    if (Object.keys(secretUpdates).length > 0) secrets[block as ProfileBlock] = secretUpdates;
+  }
+  return { profile: profile as SiteProfileSettings, secrets };
+}
+
+/** Apply secret updates to the currently stored secrets (returns a new object). */
+export function applySecretUpdates(current: SiteProfileSecrets, updates: SiteProfileSecretUpdates): SiteProfileSecrets {
+  const next: AnyRecord = {};
+  for (const block of BLOCKS) {
+    const merged: AnyRecord = { ...((current as AnyRecord)[block] ?? {}) };
+    for (const [field, value] of Object.entries(updates[block] ?? {})) {
+      if (value === null) delete merged[field];
+      else merged[field] = value;
+    }
+    if (Object.keys(merged).length > 0) next[block] = merged;
+  }
+  return next as SiteProfileSecrets;
+}
+
+/** Dotted names of the secrets that are set, e.g. ["wordpress.appPassword", "sanity.token"]. */
+export function listSecretFields(secrets: SiteProfileSecrets): string[] {
+  const fields: string[] = [];
+  for (const block of BLOCKS) {
+    for (const field of PROFILE_BLOCKS[block].secrets) {
+      if ((secrets as AnyRecord)[block]?.[field]) fields.push(`${block}.${field}`);
+    }
+  }
+  return fields;
+}
+
+/**
+ * Fill the credential blocks of a payload from a profile; fields already set on the payload win.
+ * Returns a new object, the input is not modified.
+ */
+export function mergeSiteProfile<T extends SiteCredentialTarget>(
+  target: T,
+  profile: SiteProfileSettings,
+  secrets: SiteProfileSecrets
+): T {
+  const merged: AnyRecord = { ...target };
+  for (const block of BLOCKS) {
+    const fields = [...PROFILE_BLOCKS[block].settings, ...PROFILE_BLOCKS[block].secrets];
+    const own: AnyRecord = (target as AnyRecord)[block] ?? {};
+    const fromProfile: AnyRecord = { ...((profile as AnyRecord)[block] ?? {}), ...((secrets as AnyRecord)[block] ?? {}) };
+    const result: AnyRecord = { ...own };
+    for (const field of fields) {
+      const value = own[field];
+      if ((typeof value !== "string" || !value.trim()) && fromProfile[field]) result[field] = fromProfile[field];
+    }
+    if (Object.keys(result).length > 0) merged[block] = result;
+  }
+  return merged as T;
+}
+
+/**
+ * Copy of a payload without any secret (publish / product credentials and googleApiKey), for writing to disk.
+ * Resumed payloads get them back from the site profile or the server env, never from the file.
+ */
+export function stripPayloadSecrets<T extends SiteCredentialTarget>(payload: T): T {
+  const { googleApiKey: _googleApiKey, ...stripped } = payload as AnyRecord;
+  for (const block of BLOCKS) {
+    const value = stripped[block];
+    if (!value || typeof value !== "object") continue;
+    const copy: AnyRecord = { ...value };
+    for (const field of PROFILE_BLOCKS[block].secrets) delete copy[field];
+    stripped[block] = copy;
+  }
+  return stripped as T;
+}
@@ -1,9 +1,9 @@
 import slugify from "slugify";
 
-export function createSlug(input: string): string {
+export function createSlug(input: string, locale: string = "en"): string {
   return slugify(input, {
     lower: true,
     strict: true,
-    locale: "en",
+    locale,
   });
 }
@@ -0,0 +1,31 @@
+import assert from "node:assert/strict";
+import { eventsAfter, formatSseEvent, parseLastEventId, pushBounded } from "./sse.js";
+
+{
+  const frame = formatSseEvent("task", { status: "queued", message: "a\nb" }, 3);
+  assert.equal(frame, 'id: 3\nevent: task\ndata: {"status":"queued","message":"a\\nb"}\n\n');
+}
+
+{
+  const frame = formatSseEvent("batch", { id: 0 });
+  assert.ok(!frame.includes("id: "));
+  assert.ok(frame.startsWith("event: batch\n"));
+}
+
+{
+  assert.equal(parseLastEventId("12", "5"), 12);
+  assert.equal(parseLastEventId(undefined, "5"), 5);
+  assert.equal(parseLastEventId("", undefined), undefined);
+  assert.equal(parseLastEventId("abc", "-1"), undefined);
+}
+
+{
+  const buffer: Array<{ id: number }> = [];
+  for (let id = 1; id <= 7; id++) pushBounded(buffer, { id }, 5);
+  assert.deepEqual(buffer.map((e) => e.id), [3, 4, 5, 6, 7]);
+  assert.deepEqual(eventsAfter(buffer, 5).map((e) => e.id), [6, 7]);
+  assert.equal(eventsAfter(buffer).length, 5);
+  assert.equal(eventsAfter(buffer, 7).length, 0);
+}
+
+console.log("sse.test.ts: all assertions passed");
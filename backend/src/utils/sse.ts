@@ -0,0 +1,107 @@
+/**
+ * Server-Sent Events helpers: bounded replay buffers, Last-Event-ID parsing
+ * and a small stream writer shared by the task and batch event endpoints.
+ */
+import type { Request, Response } from "express";
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+const CLIENT_RETRY_MS = 3000;
+
+export interface StreamableEvent {
+  id: number;
+}
+
+/** Serialize one SSE frame. Events without an id do not move the client's Last-Event-ID. */
+export function formatSseEvent(event: string, data: unknown, id?: number): string {
+  const lines: string[] = [];
+  if (id !== undefined) lines.push(`id: ${id}`);
+  lines.push(`event: ${event}`);
+  for (const line of JSON.stringify(data).split("\n")) {
+    lines.push(`data: ${line}`);
+  }
+  return `${lines.join("\n")}\n\n`;
+}
+
+/**
+ * Resolve the resume point: the `Last-Event-ID` header (sent by EventSource on reconnect)
+ * wins over the `lastEventId` query param (for the first connection of a reloaded page).
+ */
+export function parseLastEventId(header: unknown, query: unknown): number | undefined {
+  for (const raw of [header, query]) {
+    if (typeof raw !== "string" || !raw.trim()) continue;
+    const value = Number(raw.trim());
+    if (Number.isInteger(value) && value >= 0) return value;
+  }
+  return undefined;
+}
+
+/** Append to a ring buffer, dropping the oldest entries beyond `max`. */
+export function pushBounded<T>(buffer: T[], item: T, max: number): void {
+  buffer.push(item);
+  if (buffer.length > max) {
+    buffer.splice(0, buffer.length - max);
+  }
+}
+
+/** Events newer than `lastEventId` (all buffered events when it is undefined). */
+export function eventsAfter<T extends StreamableEvent>(buffer: T[], lastEventId?: number): T[] {
+  if (lastEventId === undefined) return [...buffer];
+  return buffer.filter((event) => event.id > lastEventId);
+}
+
+export interface EventStreamOptions<T extends StreamableEvent> {
+  /** Buffered events to send first (already filtered by Last-Event-ID). */
+  replay: T[];
+  /** SSE event name for each event. */
+  eventName: (event: T) => string;
+  /** Register a live listener; returns the unsubscribe function. */
+  subscribe: (listener: (event: T) => void) => () => void;
+  /** The stream ends after this event is written (e.g. task reached a terminal status). */
+  isFinal: (event: T) => boolean;
+  /** End immediately after replay, without subscribing. */
+  alreadyFinished: boolean;
+}
+
+/**
+ * Open an SSE response: replay buffered events, then forward live ones until the final
+ * event or client disconnect. A comment heartbeat keeps proxies from closing idle streams.
+ */
+export function openEventStream<T extends StreamableEvent>(
+  req: Request,
+  res: Response,
+  options: EventStreamOptions<T>
+): void {
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream; charset=utf-8");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+  res.write(`retry: ${CLIENT_RETRY_MS}\n\n`);
+
+  const send = (event: T) => res.write(formatSseEvent(options.eventName(event), event, event.id));
+
+  for (const event of options.replay) {
+    send(event);
+  }
+  if (options.alreadyFinished) {
+    res.end();
+    return;
+  }
+
+  let closed = false;
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_INTERVAL_MS);
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    unsubscribe();
+    res.end();
+  };
+  const unsubscribe = options.subscribe((event) => {
+    if (closed) return;
+    send(event);
+    if (options.isFinal(event)) close();
+  });
+  req.on("close", close);
+}
@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import { extractVisibleFaqQuestions, validateStructuredData } from "./structuredDataValidator.js";
+
+const ld = (data: unknown) => `<script type="application/ld+json">${JSON.stringify(data)}</script>`;
+
+const faqHtml = `
+<div class="accordion-item"><div class="accordion-header">
+  <h3 class="faq-question accordion-question" id="faq-q-0">Is the Agent Q &amp; its case waterproof?</h3>
+</div><div class="accordion-content">&lt;p&gt;Yes, it is rated IP68.&lt;/p&gt;</div></div>`;
+
+const graph = {
+  "@context": "https://schema.org",
+  "@graph": [
+    { "@type": "Organization", "@id": "https://x.test/#organization", name: "VERTU" },
+    { "@type": "Person", "@id": "https://x.test/a/#author", name: "Jane Doe" },
+    {
+      "@type": "Article",
+      headline: "Agent Q guide",
+      author: { "@id": "https://x.test/a/#author" },
+      publisher: { "@id": "https://x.test/#organization" },
+      datePublished: "2026-01-02T00:00:00.000Z",
+      dateModified: "2026-02-01T00:00:00.000Z",
+      image: "https://x.test/a.jpg",
+    },
+    { "@type": "WebPage", mainEntity: { "@type": "Article", headline: "Agent Q guide" } },
+    {
+      "@type": "FAQPage",
+      mainEntity: [
+        {
+          "@type": "Question",
+          name: "Is the Agent Q & its case waterproof?",
+          acceptedAnswer: { "@type": "Answer", text: "Yes, it is rated IP68." },
+        },
+      ],
+    },
+  ],
+};
+
+{
+  const report = validateStructuredData(`<html><head>${ld(graph)}</head><body>${faqHtml}</body></html>`);
+  assert.deepEqual(report.errors, []);
+  assert.deepEqual(report.warnings, []);
+  assert.equal(report.blocks, 1);
+  assert.ok(report.types.includes("FAQPage"));
+  assert.deepEqual(extractVisibleFaqQuestions(faqHtml), ["is the agent q & its case waterproof?"]);
+}
+
+{
+  const broken = structuredClone(graph);
+  const article = broken["@graph"][2] as Record<string, unknown>;
+  article.author = { "@id": "https://x.test/missing#author" };
+  delete article.image;
+  article.datePublished = "last week";
+  const report = validateStructuredData(`<html><head>${ld(broken)}<script type="application/ld+json">{oops</script></head><body>${faqHtml}</body></html>`);
+  const paths = report.errors.map((e) => e.path);
+  assert.ok(paths.includes("block[0].@graph[2].author"));
+  assert.ok(paths.includes("block[0].@graph[2].image"));
+  assert.ok(paths.includes("block[0].@graph[2].datePublished"));
+  assert.equal(report.errors.find((e) => e.path === "block[1]")?.schemaType, "JSON-LD");
+}
+
+{
+  // FAQ parity: marked-up question missing from the page, visible question missing from markup
+  const report = validateStructuredData(
+    `<html><head>${ld(graph)}</head><body><h3 class="faq-question">Does it have eSIM?</h3><p>Yes.</p></body></html>`
+  );
+  assert.equal(report.errors.length, 2);
+  assert.match(report.errors[0].message, /is not shown on the page/);
+  assert.match(report.errors[1].message, /"does it have esim\?" is missing from FAQPage markup/);
+  assert.equal(report.warnings.length, 1);
+
+  const noFaq = validateStructuredData(`<html><head>${ld(graph)}</head><body><p>No accordion</p></body></html>`);
+  assert.match(noFaq.errors[0].message, /shows no FAQ/);
+
+  const unmarked = validateStructuredData(`<html><body>${faqHtml}</body></html>`);
+  assert.deepEqual(unmarked.errors, []);
+  assert.match(unmarked.warnings[0].message, /without FAQPage markup/);
+}
+
+{
+  const products = {
+    "@context": "https://schema.org",
+    "@type": "ItemList",
+    itemListElement: [
+      { "@type": "ListItem", position: 1, item: { "@type": "Product", name: "Agent Q", image: "https://x.test/q.jpg", offers: { "@type": "Offer", price: "4300", priceCurrency: "USD" } } },
+      { "@type": "ListItem", position: 2, item: { "@type": "Product", name: "Metavertu", image: "https://x.test/m.jpg", offers: { "@type": "Offer", price: "", priceCurrency: "usd" } } },
+      { "@type": "ListItem", position: 3, item: { "@type": "Product", name: "Signature" } },
+    ],
+  };
+  const report = validateStructuredData(ld(products));
+  assert.deepEqual(
+    report.errors.map((e) => e.path),
+    ["block[0].itemListElement[1].item.offers.price", "block[0].itemListElement[1].item.offers.priceCurrency"]
+  );
+  assert.deepEqual(
+    report.warnings.map((w) => w.path),
+    ["block[0].itemListElement[2].item.image", "block[0].itemListElement[2].item.offers"]
+  );
+}
+
+{
+  const howTo = { "@context": "https://schema.org", "@type": "HowTo", name: "Set up", step: [{ "@type": "HowToStep", text: "Charge it" }, {}] };
+  assert.deepEqual(validateStructuredData(ld(howTo)).errors.map((e) => e.path), ["block[0].step[1]"]);
+}
+
+console.log("structuredDataValidator.test.ts: all assertions passed");
@@ -0,0 +1,290 @@
+/**
+ * Validates the JSON-LD a rendered landing page ships: every `application/ld+json` block must parse,
+ * Article / Product / FAQPage / HowTo nodes must carry the properties rich results depend on, and
+ * FAQPage questions must match the FAQ the visitor actually sees.
+ * Pure (HTML in, report out) so the generation pipeline and tests share it.
+ */
+import { collectJsonLd } from "./htmlPublishExtract.js";
+
+export type StructuredDataSeverity = "error" | "warning";
+
+export interface StructuredDataIssue {
+  severity: StructuredDataSeverity;
+  /** schema.org type of the offending node, or "JSON-LD" for parse failures */
+  schemaType: string;
+  /** Location inside the JSON-LD, e.g. `block[0].@graph[3].offers.price` */
+  path: string;
+  message: string;
+}
+
+export interface StructuredDataReport {
+  blocks: number;
+  /** Distinct schema.org types found (top-level and @graph nodes) */
+  types: string[];
+  errors: StructuredDataIssue[];
+  warnings: StructuredDataIssue[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+interface LocatedNode {
+  node: JsonObject;
+  path: string;
+}
+
+const ARTICLE_TYPES = new Set(["Article", "BlogPosting", "NewsArticle"]);
+const FAQ_QUESTION_RE = /<(h[1-6]|div|p|button|dt|summary)\b[^>]*class=["'][^"']*\bfaq-question\b[^"']*["'][^>]*>([\s\S]*?)<\/\1>/gi;
+const ANSWER_MATCH_CHARS = 80;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function typesOf(node: JsonObject): string[] {
+  const type = node["@type"];
+  if (typeof type === "string") return [type];
+  return Array.isArray(type) ? type.filter((t): t is string => typeof t === "string") : [];
+}
+
+function asList(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function isBlank(value: unknown): boolean {
+  if (value === undefined || value === null) return true;
+  if (typeof value === "string") return value.trim() === "";
+  if (Array.isArray(value)) return value.every(isBlank);
+  return false;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(Number(dec)))
+    .replace(/&nbsp;/g, " ")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Plain, lowercased, whitespace-collapsed text used to compare markup with visible copy.
+ * Tags are stripped again after decoding because `{{this.answer}}` renders escaped HTML.
+ */
+function normalizeText(html: string): string {
+  return decodeEntities((html || "").replace(/<[^>]*>/g, " "))
+    .replace(/<[^>]*>/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+}
+
+function visibleBodyText(html: string): string {
+  const body = html.match(/<body[^>]*>([\s\S]*?)<\/body>/i)?.[1] ?? html;
+  return normalizeText(body.replace(/<script[\s\S]*?<\/script>/gi, " ").replace(/<style[\s\S]*?<\/style>/gi, " "));
+}
+
+/** Question headings rendered by the templates' FAQ accordions (`.faq-question`). */
+export function extractVisibleFaqQuestions(html: string): string[] {
+  const questions: string[] = [];
+  for (const match of html.matchAll(FAQ_QUESTION_RE)) {
+    const text = normalizeText(match[2]);
+    if (text) questions.push(text);
+  }
+  return questions;
+}
+
+/**
+ * Nodes worth validating: top-level objects, `@graph` members and ItemList items.
+ * Nested stubs such as `WebPage.mainEntity: { "@type": "Article", headline }` are references,
+ * not full entities, so they are not descended into.
+ */
+function collectNodes(value: unknown, path: string, out: LocatedNode[]): void {
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => collectNodes(item, `${path}[${i}]`, out));
+    return;
+  }
+  if (!isObject(value)) return;
+  if (Array.isArray(value["@graph"])) {
+    collectNodes(value["@graph"], `${path}.@graph`, out);
+  }
+  if (typesOf(value).length === 0) return;
+  out.push({ node: value, path });
+  if (typesOf(value).includes("ItemList")) {
+    asList(value.itemListElement).forEach((element, i) => {
+      if (isObject(element) && isObject(element.item)) {
+        collectNodes(element.item, `${path}.itemListElement[${i}].item`, out);
+      }
+    });
+  }
+}
+
+export function validateStructuredData(html: string): StructuredDataReport {
+  const errors: StructuredDataIssue[] = [];
+  const warnings: StructuredDataIssue[] = [];
+  const issue = (severity: StructuredDataSeverity, schemaType: string, path: string, message: string) =>
+    (severity === "error" ? errors : warnings).push({ severity, schemaType, path, message });
+
+  const scripts = collectJsonLd(html);
+  const nodes: LocatedNode[] = [];
+  scripts.forEach((script, i) => {
+    try {
+      collectNodes(JSON.parse(script), `block[${i}]`, nodes);
+    } catch (error) {
+      issue("error", "JSON-LD", `block[${i}]`, `invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+
+  const byId = new Map<string, JsonObject>();
+  for (const { node } of nodes) {
+    if (typeof node["@id"] === "string") byId.set(node["@id"], node);
+  }
+  // `{ "@id": "..." }` references resolve to the full node elsewhere in the page
+  const resolve = (value: unknown): unknown => {
+    if (isObject(value) && typeof value["@id"] === "string" && typesOf(value).length === 0) {
+      return byId.get(value["@id"]) ?? value;
+    }
+    return value;
+  };
+
+  const faqQuestions: Array<{ name: string; answer: string; path: string }> = [];
+  let faqPageCount = 0;
+
+  for (const { node, path } of nodes) {
+    const types = typesOf(node);
+    const type = types[0];
+
+    if (types.some((t) => ARTICLE_TYPES.has(t))) {
+      if (isBlank(node.headline)) issue("error", type, `${path}.headline`, "headline is required");
+      else if (String(node.headline).length > 110) {
+        issue("warning", type, `${path}.headline`, "headline is longer than 110 characters");
+      }
+
+      const authors = asList(node.author).map(resolve);
+      if (authors.length === 0) {
+        issue("error", type, `${path}.author`, "author is required");
+      }
+      authors.forEach((author, i) => {
+        const authorPath = authors.length > 1 ? `${path}.author[${i}]` : `${path}.author`;
+        if (isObject(author) && typeof author["@id"] === "string" && typesOf(author).length === 0) {
+          issue("error", type, authorPath, `author reference ${author["@id"]} does not match any node on the page`);
+        } else if (!isObject(author) || isBlank(author.name)) {
+          issue("error", type, `${authorPath}.name`, "author must be a Person or Organization with a name");
+        }
+      });
+
+      const published = typeof node.datePublished === "string" ? Date.parse(node.datePublished) : NaN;
+      if (isBlank(node.datePublished)) issue("error", type, `${path}.datePublished`, "datePublished is required");
+      else if (Number.isNaN(published)) {
+        issue("error", type, `${path}.datePublished`, `datePublished "${String(node.datePublished)}" is not an ISO 8601 date`);
+      }
+      if (!isBlank(node.dateModified)) {
+        const modified = typeof node.dateModified === "string" ? Date.parse(node.dateModified) : NaN;
+        if (Number.isNaN(modified)) {
+          issue("error", type, `${path}.dateModified`, `dateModified "${String(node.dateModified)}" is not an ISO 8601 date`);
+        } else if (!Number.isNaN(published) && modified < published) {
+          issue("warning", type, `${path}.dateModified`, "dateModified is earlier than datePublished");
+        }
+      }
+
+      if (isBlank(node.image)) issue("error", type, `${path}.image`, "image is required");
+    }
+
+    if (types.includes("Product")) {
+      if (isBlank(node.name)) issue("error", "Product", `${path}.name`, "name is required");
+      if (isBlank(node.image)) issue("warning", "Product", `${path}.image`, "image is recommended");
+      const offers = asList(node.offers).map(resolve);
+      if (offers.length === 0) {
+        issue("warning", "Product", `${path}.offers`, "no offers; the product is not eligible for price rich results");
+      }
+      offers.forEach((offer, i) => {
+        const offerPath = offers.length > 1 ? `${path}.offers[${i}]` : `${path}.offers`;
+        if (!isObject(offer)) {
+          issue("error", "Product", offerPath, "offers must be an Offer object");
+          return;
+        }
+        const price = offer.price;
+        if (isBlank(price)) issue("error", "Product", `${offerPath}.price`, "offers.price is required");
+        else if (!/^\d+(\.\d+)?$/.test(String(price).trim()) || !(Number(price) > 0)) {
+          issue("error", "Product", `${offerPath}.price`, `offers.price "${String(price)}" must be a positive number`);
+        }
+        const currency = offer.priceCurrency;
+        if (isBlank(currency)) issue("error", "Product", `${offerPath}.priceCurrency`, "offers.priceCurrency is required");
+        else if (!/^[A-Z]{3}$/.test(String(currency))) {
+          issue("error", "Product", `${offerPath}.priceCurrency`, `offers.priceCurrency "${String(currency)}" must be an ISO 4217 code`);
+        }
+      });
+    }
+
+    if (types.includes("FAQPage")) {
+      faqPageCount++;
+      const entities = asList(node.mainEntity);
+      if (entities.length === 0) issue("error", "FAQPage", `${path}.mainEntity`, "FAQPage has no questions");
+      entities.forEach((entity, i) => {
+        const questionPath = `${path}.mainEntity[${i}]`;
+        const question = isObject(entity) ? entity : {};
+        const answer = asList(question.acceptedAnswer)[0];
+        const answerText = isObject(answer) && typeof answer.text === "string" ? answer.text : "";
+        if (isBlank(question.name)) issue("error", "FAQPage", `${questionPath}.name`, "question name is required");
+        if (!answerText.trim()) issue("error", "FAQPage", `${questionPath}.acceptedAnswer.text`, "accepted answer text is required");
+        if (!isBlank(question.name)) {
+          faqQuestions.push({ name: String(question.name), answer: answerText, path: questionPath });
+        }
+      });
+    }
+
+    if (types.includes("HowTo")) {
+      if (isBlank(node.name)) issue("error", "HowTo", `${path}.name`, "name is required");
+      const steps = asList(node.step);
+      if (steps.length === 0) issue("error", "HowTo", `${path}.step`, "HowTo has no steps");
+      steps.forEach((step, i) => {
+        if (!isObject(step) || (isBlank(step.text) && isBlank(step.name))) {
+          issue("error", "HowTo", `${path}.step[${i}]`, "each step needs text or name");
+        }
+      });
+    }
+  }
+
+  // FAQ markup must mirror the visible FAQ (Google treats hidden / mismatched FAQ markup as spam)
+  const visibleQuestions = extractVisibleFaqQuestions(html);
+  if (faqPageCount > 0) {
+    if (visibleQuestions.length === 0 && faqQuestions.length > 0) {
+      issue("error", "FAQPage", "FAQPage", `marks up ${faqQuestions.length} question(s) but the page shows no FAQ`);
+    } else {
+      const visible = new Set(visibleQuestions);
+      const marked = new Set(faqQuestions.map((q) => normalizeText(q.name)));
+      const bodyText = visibleBodyText(html);
+      for (const q of faqQuestions) {
+        if (!visible.has(normalizeText(q.name))) {
+          issue("error", "FAQPage", `${q.path}.name`, `question "${q.name}" is not shown on the page`);
+        }
+        const answerHead = normalizeText(q.answer).slice(0, ANSWER_MATCH_CHARS);
+        if (answerHead && !bodyText.includes(answerHead)) {
+          issue("warning", "FAQPage", `${q.path}.acceptedAnswer.text`, `answer to "${q.name}" does not match the visible answer`);
+        }
+      }
+      for (const question of visibleQuestions) {
+        if (!marked.has(question)) {
+          issue("error", "FAQPage", "FAQPage.mainEntity", `visible question "${question}" is missing from FAQPage markup`);
+        }
+      }
+    }
+  } else if (visibleQuestions.length > 0) {
+    issue("warning", "FAQPage", "FAQPage", `page shows ${visibleQuestions.length} FAQ question(s) without FAQPage markup`);
+  }
+
+  return {
+    blocks: scripts.length,
+    types: [...new Set(nodes.flatMap(({ node }) => typesOf(node)))],
+    errors,
+    warnings,
+  };
+}
+
+/** One line per issue, for task errors and logs. */
+export function formatStructuredDataIssues(issues: StructuredDataIssue[]): string {
+  return issues.map((i) => `[${i.schemaType}] ${i.path}: ${i.message}`).join("; ");
+}
@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import {
+  BANDIT_ARMS_BY_INTENT,
+  buildArmPosteriors,
+  computePageReward,
+  medianCtr,
+  sampleBeta,
+  thompsonSelect,
+} from "./templateBandit.js";
+
+const near = (actual: number, expected: number, tolerance = 1e-3) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} ≉ ${expected}`);
+
+// Deterministic rng so posterior draws are reproducible
+function mulberry32(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+{
+  // At the median CTR the CTR component is 0.5; blended equally with the vote ratio
+  near(computePageReward({ clicks: 5, impressions: 100, helpfulYes: 0, helpfulVotes: 0 }, 0.05)!, 0.5);
+  near(computePageReward({ clicks: 10, impressions: 100, helpfulYes: 3, helpfulVotes: 4 }, 0.05)!, (2 / 3 + 0.75) / 2);
+  // Too few impressions / votes → no signal at all
+  assert.equal(computePageReward({ clicks: 3, impressions: 20, helpfulYes: 2, helpfulVotes: 2 }, 0.05), null);
+  // Votes alone still count when impressions are thin
+  near(computePageReward({ clicks: 3, impressions: 20, helpfulYes: 1, helpfulVotes: 4 }, 0.05)!, 0.25);
+}
+
+{
+  const pages = [
+    { clicks: 1, impressions: 100, helpfulYes: 0, helpfulVotes: 0 },
+    { clicks: 3, impressions: 100, helpfulYes: 0, helpfulVotes: 0 },
+    { clicks: 9, impressions: 10, helpfulYes: 0, helpfulVotes: 0 },
+  ];
+  near(medianCtr(pages), 0.02);
+  assert.equal(medianCtr([]), 0);
+}
+
+{
+  const posteriors = buildArmPosteriors(BANDIT_ARMS_BY_INTENT.transactional, [
+    { arm: "template-4", reward: 1 },
+    { arm: "template-4", reward: 0.5 },
+    { arm: "template-5", reward: 1.4 },
+    { arm: "template-9", reward: 1 },
+  ]);
+  assert.deepEqual(
+    posteriors.map(({ arm, alpha, beta, pages }) => ({ arm, alpha, beta, pages })),
+    [
+      { arm: "template-4", alpha: 2.5, beta: 1.5, pages: 2 },
+      { arm: "template-5", alpha: 2, beta: 1, pages: 1 },
+    ]
+  );
+  near(posteriors[0].mean, 0.625);
+}
+
+{
+  // Sample mean of Beta(8, 2) ≈ 0.8, and draws stay inside (0, 1) for small shapes too
+  const random = mulberry32(42);
+  let sum = 0;
+  for (let i = 0; i < 4000; i++) sum += sampleBeta(8, 2, random);
+  near(sum / 4000, 0.8, 0.01);
+  for (let i = 0; i < 200; i++) {
+    const draw = sampleBeta(0.5, 0.5, random);
+    assert.ok(draw >= 0 && draw <= 1);
+  }
+}
+
+{
+  // A clearly better arm wins most draws; an untried arm still gets explored
+  const posteriors = buildArmPosteriors(
+    ["template-3", "template-5", "template-6"],
+    [
+      ...Array.from({ length: 30 }, () => ({ arm: "template-3", reward: 0.8 })),
+      ...Array.from({ length: 30 }, () => ({ arm: "template-5", reward: 0.3 })),
+    ]
+  );
+  const random = mulberry32(7);
+  const wins: Record<string, number> = {};
+  for (let i = 0; i < 1000; i++) {
+    const decision = thompsonSelect(posteriors, random);
+    assert.equal(decision.arms.length, 3);
+    wins[decision.chosen] = (wins[decision.chosen] ?? 0) + 1;
+  }
+  assert.ok(wins["template-3"] > 600, JSON.stringify(wins));
+  assert.ok((wins["template-6"] ?? 0) > 0, JSON.stringify(wins));
+  assert.ok((wins["template-5"] ?? 0) < 20, JSON.stringify(wins));
+  assert.throws(() => thompsonSelect([]));
+}
+
+console.log("templateBandit.test.ts: all assertions passed");
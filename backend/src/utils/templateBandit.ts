@@ -0,0 +1,130 @@
+/**
+ * Thompson-sampling template allocation: each candidate shell is an arm with a Beta posterior over
+ * page reward (search CTR relative to the site median blended with the helpful-vote ratio).
+ * Rewards in [0, 1] update the posterior fractionally (α += r, β += 1 − r), so one page = one trial.
+ */
+
+import type { SearchIntent } from "./searchIntentClassifier.js";
+
+export interface BanditArmPosterior {
+  arm: string;
+  alpha: number;
+  beta: number;
+  /** Pages that contributed a reward */
+  pages: number;
+  /** Posterior mean α / (α + β) */
+  mean: number;
+}
+
+export interface BanditDecision {
+  chosen: string;
+  arms: Array<BanditArmPosterior & { sample: number }>;
+}
+
+export interface PageRewardInput {
+  clicks: number;
+  impressions: number;
+  helpfulYes: number;
+  helpfulVotes: number;
+}
+
+/** Candidate shells per intent — the same families the rule-based layout picks from. */
+export const BANDIT_ARMS_BY_INTENT: Record<SearchIntent, string[]> = {
+  informational: ["template-3", "template-5", "template-6"],
+  transactional: ["template-4", "template-5"],
+  evaluative: ["template-4", "template-5", "template-6"],
+};
+
+/** Below this many impressions a page's CTR is too noisy to use */
+export const MIN_REWARD_IMPRESSIONS = 50;
+/** Below this many votes the helpful ratio is ignored */
+export const MIN_REWARD_VOTES = 3;
+const PRIOR = { alpha: 1, beta: 1 };
+
+/**
+ * Reward in [0, 1] for one page, or null when it has neither enough impressions nor votes.
+ * CTR is scored against the site median as ctr / (ctr + median) — 0.5 at the median — so the
+ * reward does not depend on the absolute CTR level of the niche.
+ */
+export function computePageReward(input: PageRewardInput, medianCtr: number): number | null {
+  const parts: number[] = [];
+  if (input.impressions >= MIN_REWARD_IMPRESSIONS && medianCtr > 0) {
+    const ctr = input.clicks / input.impressions;
+    parts.push(ctr / (ctr + medianCtr));
+  }
+  if (input.helpfulVotes >= MIN_REWARD_VOTES) {
+    parts.push(input.helpfulYes / input.helpfulVotes);
+  }
+  if (parts.length === 0) return null;
+  return parts.reduce((sum, p) => sum + p, 0) / parts.length;
+}
+
+export function medianCtr(pages: PageRewardInput[]): number {
+  const ctrs = pages
+    .filter((p) => p.impressions >= MIN_REWARD_IMPRESSIONS)
+    .map((p) => p.clicks / p.impressions)
+    .sort((a, b) => a - b);
+  if (ctrs.length === 0) return 0;
+  const mid = Math.floor(ctrs.length / 2);
+  return ctrs.length % 2 ? ctrs[mid] : (ctrs[mid - 1] + ctrs[mid]) / 2;
+}
+
+export function buildArmPosteriors(
+  arms: string[],
+  observations: Array<{ arm: string; reward: number }>
+): BanditArmPosterior[] {
+  return arms.map((arm) => {
+    let alpha = PRIOR.alpha;
+    let beta = PRIOR.beta;
+    let pages = 0;
+    for (const observation of observations) {
+      if (observation.arm !== arm) continue;
+      const reward = Math.min(1, Math.max(0, observation.reward));
+      alpha += reward;
+      beta += 1 - reward;
+      pages++;
+    }
+    return { arm, alpha, beta, pages, mean: alpha / (alpha + beta) };
+  });
+}
+
+function sampleStandardNormal(random: () => number): number {
+  // Box–Muller; 1 − u keeps log() away from 0
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/** Marsaglia–Tsang gamma sampler (shape ≥ 1; boosted for shape < 1). */
+function sampleGamma(shape: number, random: () => number): number {
+  if (shape < 1) {
+    return sampleGamma(shape + 1, random) * Math.pow(1 - random(), 1 / shape);
+  }
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleStandardNormal(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = 1 - random();
+    if (Math.log(u) < 0.5 * x * x + d - d * v + d * Math.log(v)) return d * v;
+  }
+}
+
+export function sampleBeta(alpha: number, beta: number, random: () => number = Math.random): number {
+  const x = sampleGamma(alpha, random);
+  const y = sampleGamma(beta, random);
+  return x / (x + y);
+}
+
+/** Draw once from every arm's posterior and pick the highest draw. */
+export function thompsonSelect(posteriors: BanditArmPosterior[], random: () => number = Math.random): BanditDecision {
+  if (posteriors.length === 0) throw new Error("thompsonSelect needs at least one arm");
+  const arms = posteriors.map((posterior) => ({ ...posterior, sample: sampleBeta(posterior.alpha, posterior.beta, random) }));
+  const chosen = arms.reduce((best, arm) => (arm.sample > best.sample ? arm : best), arms[0]);
+  return { chosen: chosen.arm, arms };
+}
@@ -1,7 +1,7 @@
 import { readFileSync, existsSync } from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
-import type { GenerationRequestPayload } from "../types.js";
+import type { ExperimentVariantConfig, GenerationRequestPayload } from "../types.js";
 import { isCommercialTitleType, shouldTreatAsLongFormGuideArticle } from "./guideIntent.js";
 import { isBrandStrongKeyword } from "./keywordIntentGate.js";
 import { detectPrimaryCategory, isComparisonIntent } from "./productCategory.js";
@@ -59,21 +59,31 @@ function hashKeyword(s: string): number {
   return Math.abs(h);
 }
 
+/** Read a shell's HTML from frontend/ (null when the id is unknown or the file is missing). */
+export function loadTemplateContent(templateType: string): string | null {
+  const fileName = TEMPLATE_FILE_BY_TYPE[templateType];
+  if (!fileName) return null;
+  const fullPath = path.join(repoFrontendDir(), fileName);
+  if (!existsSync(fullPath)) {
+    console.warn(`[templatePolicy] template file missing at ${fullPath}`);
+    return null;
+  }
+  return readFileSync(fullPath, "utf8");
+}
+
 function loadTemplateIntoPayload(
   payload: GenerationRequestPayload,
   pick: string,
   reason: string
 ): boolean {
-  const fileName = TEMPLATE_FILE_BY_TYPE[pick];
-  if (!fileName) return false;
-  const fullPath = path.join(repoFrontendDir(), fileName);
-  if (!existsSync(fullPath)) {
-    console.warn(`[templatePolicy] ${reason} skipped: template file missing at ${fullPath}`);
+  const content = loadTemplateContent(pick);
+  if (content === null) {
+    console.warn(`[templatePolicy] ${reason} skipped: no template content for ${pick}`);
     return false;
   }
   const from = payload.templateType || "template-1";
   payload.templateType = pick;
-  payload.templateContent = readFileSync(fullPath, "utf8");
+  payload.templateContent = content;
   console.log(`[templatePolicy] ${reason}: ${from} → ${pick} (keyword="${payload.keyword}")`);
   return true;
 }
@@ -228,3 +238,35 @@ export function applyExperimentVariantShell(payload: GenerationRequestPayload):
   if (tt === "template-6") return;
   loadTemplateIntoPayload(payload, "template-6", "A/B variant A (text-heavy shell)");
 }
+
+/**
+ * Registered experiment (/api/experiments): apply the variant's template shell and layout.
+ * Like the hash-based A/B shell, never overrides a template chosen by hand or by batch rotation.
+ */
+export function applyExperimentVariantSettings(
+  payload: GenerationRequestPayload,
+  variant: ExperimentVariantConfig,
+  experimentId: string
+): void {
+  if (payload.respectTemplateChoice) return;
+  if (variant.templateType && variant.templateType !== (payload.templateType || "").trim()) {
+    loadTemplateIntoPayload(payload, variant.templateType, `Experiment ${experimentId} variant ${variant.id}`);
+  }
+  if (variant.layoutPriority) {
+    payload.layoutPriority = variant.layoutPriority;
+  }
+}
+
+/**
+ * Bandit allocation (TEMPLATE_ALLOCATION=bandit): load the shell picked by Thompson sampling.
+ * Replaces the rule-based shell upgrades for this page; never overrides a manual / batch template choice.
+ */
+export function applyBanditTemplateChoice(
+  payload: GenerationRequestPayload,
+  templateType: string,
+  context: string
+): boolean {
+  if (payload.respectTemplateChoice) return false;
+  if (templateType === (payload.templateType || "").trim()) return true;
+  return loadTemplateIntoPayload(payload, templateType, `Template bandit (${context})`);
+}
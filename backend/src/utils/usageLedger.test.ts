@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import {
+  aggregateUsage,
+  classifyLlmOutcome,
+  estimateCostUsd,
+  resolveModelPricing,
+  summarizeUsage,
+} from "./usageLedger.js";
+import type { LlmUsageLedgerEntry } from "../types.js";
+
+function entry(overrides: Partial<LlmUsageLedgerEntry>): LlmUsageLedgerEntry {
+  return {
+    timestamp: Date.parse("2026-05-04T10:00:00Z"),
+    provider: "gemini",
+    model: "gemini-2.5-pro",
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    latencyMs: 1000,
+    retryCount: 0,
+    outcome: "success",
+    costUsd: 0,
+    ...overrides,
+  };
+}
+
+{
+  // 1M prompt + 100k completion on 2.5 Pro = 1.25 + 1.00
+  assert.equal(estimateCostUsd("gemini-2.5-pro", 1_000_000, 100_000), 2.25);
+  // Versioned names fall back to the longest priced prefix; unpriced (local) models cost nothing
+  assert.equal(estimateCostUsd("models/gemini-2.0-flash-001", 1_000_000, 0), 0.1);
+  assert.equal(estimateCostUsd("llama3.1:70b", 50_000, 50_000), 0);
+}
+
+{
+  const pricing = resolveModelPricing(
+    JSON.stringify({ "llama3.1:70b": { input: 0.5, output: 0.5 }, "gemini-2.5-pro": { input: 2.5, output: 15 }, bad: { input: "1" } })
+  );
+  assert.equal(estimateCostUsd("llama3.1:70b", 1_000_000, 1_000_000, pricing), 1);
+  assert.equal(estimateCostUsd("gemini-2.5-pro", 1_000_000, 0, pricing), 2.5);
+  assert.equal(pricing.bad, undefined);
+  assert.deepEqual(resolveModelPricing("{not json"), resolveModelPricing(undefined));
+}
+
+{
+  assert.equal(classifyLlmOutcome(Object.assign(new Error("boom"), { status: 429 })), "rate_limited");
+  assert.equal(classifyLlmOutcome(new Error("[GoogleGenerativeAI Error]: Resource has been exhausted (e.g. check quota).")), "rate_limited");
+  assert.equal(classifyLlmOutcome(Object.assign(new Error("aborted"), { name: "AbortError" })), "aborted");
+  assert.equal(classifyLlmOutcome(new Error("socket hang up"), true), "aborted");
+  assert.equal(classifyLlmOutcome(Object.assign(new Error("Internal"), { statusCode: 500 })), "error");
+}
+
+{
+  const entries = [
+    entry({ taskId: "t1", keyword: "Luxury Phones", templateType: "template-6", promptTokens: 1000, completionTokens: 3000, totalTokens: 4000, costUsd: 0.03125 }),
+    entry({ taskId: "t1", keyword: "luxury phones", templateType: "template-6", outcome: "rate_limited", latencyMs: 200 }),
+    entry({ taskId: "t1", keyword: "luxury phones", templateType: "template-6", retryCount: 1, model: "gemini-2.0-flash", promptTokens: 500, completionTokens: 100, totalTokens: 600, costUsd: 0.00009 }),
+    entry({ taskId: "t2", keyword: "gold watch", templateType: "template-4", timestamp: Date.parse("2026-05-05T23:59:00Z"), promptTokens: 800, completionTokens: 1200, totalTokens: 2000, costUsd: 0.013 }),
+    entry({ keyword: undefined, timestamp: Date.parse("2026-05-03T08:00:00Z"), promptTokens: 10, completionTokens: 10, totalTokens: 20, costUsd: 0.0001 }),
+  ];
+
+  const byDay = aggregateUsage(entries, "day");
+  assert.deepEqual(byDay.map((g) => [g.key, g.calls]), [["2026-05-03", 1], ["2026-05-04", 3], ["2026-05-05", 1]]);
+
+  const byKeyword = aggregateUsage(entries, "keyword");
+  assert.deepEqual(byKeyword.map((g) => g.key), ["luxury phones", "gold watch", "(none)"]);
+  assert.equal(byKeyword[0].calls, 3);
+  assert.equal(byKeyword[0].failures, 1);
+  assert.equal(byKeyword[0].rateLimited, 1);
+  assert.equal(byKeyword[0].retries, 1);
+  assert.equal(byKeyword[0].totalTokens, 4600);
+  assert.equal(byKeyword[0].costUsd, 0.03134);
+  assert.equal(byKeyword[0].tasks, 1);
+  assert.equal(byKeyword[0].costPerTaskUsd, 0.03134);
+  assert.equal(byKeyword[0].avgLatencyMs, 733);
+  assert.equal(byKeyword[2].costPerTaskUsd, null);
+
+  const byModel = aggregateUsage(entries, "model");
+  assert.deepEqual(byModel.map((g) => g.key), ["gemini:gemini-2.5-pro", "gemini:gemini-2.0-flash"]);
+  assert.deepEqual(aggregateUsage(entries, "template").map((g) => g.key), ["template-6", "template-4", "(none)"]);
+
+  const total = summarizeUsage(entries);
+  assert.equal(total.calls, 5);
+  assert.equal(total.tasks, 2);
+  assert.equal(total.costPerTaskUsd, 0.02222);
+  assert.equal(summarizeUsage([]).avgLatencyMs, 0);
+}
+
+console.log("usageLedger.test.ts: all assertions passed");
@@ -0,0 +1,172 @@
+/**
+ * LLM usage ledger helpers: per-model pricing, cost estimates, failure classification and the
+ * day / model / template / keyword roll-ups served by GET /api/usage.
+ */
+
+import type { LlmUsageLedgerEntry } from "../types.js";
+
+/** USD per 1M tokens */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+export type UsageDimension = "day" | "model" | "template" | "keyword" | "task";
+
+export interface UsageAggregate {
+  key: string;
+  calls: number;
+  failures: number;
+  rateLimited: number;
+  /** Σ retryCount — attempts that had already failed before each recorded call */
+  retries: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  avgLatencyMs: number;
+  /** Distinct task ids among the entries (calls outside a task are not counted) */
+  tasks: number;
+  /** costUsd / tasks; null when no entry belongs to a task */
+  costPerTaskUsd: number | null;
+}
+
+/** Published list prices (prompt ≤ 200k tokens); override or extend with LLM_PRICING. */
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "gemini-1.5-pro": { input: 1.25, output: 5 },
+  "gemini-1.5-flash": { input: 0.075, output: 0.3 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+};
+
+const UNKNOWN_KEY = "(none)";
+
+/**
+ * Defaults merged with a JSON override such as {"gemini-2.5-pro":{"input":1.25,"output":10}}.
+ * Malformed JSON or entries are ignored so a typo never blocks generation.
+ */
+export function resolveModelPricing(raw?: string): Record<string, ModelPricing> {
+  const pricing = { ...DEFAULT_MODEL_PRICING };
+  if (!raw?.trim()) return pricing;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return pricing;
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return pricing;
+  for (const [model, value] of Object.entries(parsed as Record<string, unknown>)) {
+    const { input, output } = (value ?? {}) as Partial<ModelPricing>;
+    if (typeof input === "number" && typeof output === "number" && input >= 0 && output >= 0) {
+      pricing[model] = { input, output };
+    }
+  }
+  return pricing;
+}
+
+/**
+ * Cost of one call. Versioned model names ("gemini-2.5-pro-preview-05-06") fall back to the
+ * longest priced prefix; unpriced models (e.g. local servers) cost 0.
+ */
+export function estimateCostUsd(
+  model: string,
+  promptTokens: number,
+  completionTokens: number,
+  pricing: Record<string, ModelPricing> = DEFAULT_MODEL_PRICING
+): number {
+  const name = model.replace(/^models\//, "");
+  const match =
+    pricing[name] ??
+    Object.entries(pricing)
+      .filter(([priced]) => name.startsWith(`${priced}-`))
+      .sort((a, b) => b[0].length - a[0].length)[0]?.[1];
+  if (!match) return 0;
+  const cost = (promptTokens * match.input + completionTokens * match.output) / 1_000_000;
+  return Math.round(cost * 1e6) / 1e6;
+}
+
+export function classifyLlmOutcome(error: unknown, aborted = false): Exclude<LlmUsageLedgerEntry["outcome"], "success"> {
+  const err = error as { name?: string; status?: unknown; statusCode?: unknown; message?: unknown } | undefined;
+  if (aborted || err?.name === "AbortError" || err?.name === "CanceledError") return "aborted";
+  const status = err?.statusCode ?? err?.status;
+  const message = typeof err?.message === "string" ? err.message : "";
+  if (status === 429 || /too many requests|resource has been exhausted|RESOURCE_EXHAUSTED|quota/i.test(message)) {
+    return "rate_limited";
+  }
+  return "error";
+}
+
+function dimensionKey(entry: LlmUsageLedgerEntry, dimension: UsageDimension): string {
+  switch (dimension) {
+    case "day":
+      return new Date(entry.timestamp).toISOString().slice(0, 10);
+    case "model":
+      return `${entry.provider}:${entry.model}`;
+    case "template":
+      return entry.templateType || UNKNOWN_KEY;
+    case "keyword":
+      return entry.keyword?.trim().toLowerCase() || UNKNOWN_KEY;
+    case "task":
+      return entry.taskId || UNKNOWN_KEY;
+  }
+}
+
+const round = (n: number, digits: number) => Math.round(n * 10 ** digits) / 10 ** digits;
+
+/**
+ * Roll entries up along one dimension. Days are returned in date order, everything else by cost
+ * (most expensive first), so the top of the keyword list is what the priciest guides cost.
+ */
+export function aggregateUsage(entries: LlmUsageLedgerEntry[], dimension: UsageDimension): UsageAggregate[] {
+  const groups = new Map<string, { entries: LlmUsageLedgerEntry[]; tasks: Set<string> }>();
+  for (const entry of entries) {
+    const key = dimensionKey(entry, dimension);
+    const group = groups.get(key) ?? { entries: [], tasks: new Set<string>() };
+    group.entries.push(entry);
+    if (entry.taskId) group.tasks.add(entry.taskId);
+    groups.set(key, group);
+  }
+
+  const aggregates = [...groups.entries()].map(([key, group]) => summarizeUsage(group.entries, key, group.tasks.size));
+  return dimension === "day"
+    ? aggregates.sort((a, b) => a.key.localeCompare(b.key))
+    : aggregates.sort((a, b) => b.costUsd - a.costUsd || b.totalTokens - a.totalTokens);
+}
+
+export function summarizeUsage(
+  entries: LlmUsageLedgerEntry[],
+  key = "total",
+  tasks = new Set(entries.map((e) => e.taskId).filter(Boolean)).size
+): UsageAggregate {
+  const totals = entries.reduce(
+    (sum, entry) => {
+      sum.failures += entry.outcome === "success" ? 0 : 1;
+      sum.rateLimited += entry.outcome === "rate_limited" ? 1 : 0;
+      sum.retries += entry.retryCount;
+      sum.promptTokens += entry.promptTokens;
+      sum.completionTokens += entry.completionTokens;
+      sum.totalTokens += entry.totalTokens;
+      sum.costUsd += entry.costUsd;
+      sum.latencyMs += entry.latencyMs;
+      return sum;
+    },
+    { failures: 0, rateLimited: 0, retries: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0, latencyMs: 0 }
+  );
+  return {
+    key,
+    calls: entries.length,
+    failures: totals.failures,
+    rateLimited: totals.rateLimited,
+    retries: totals.retries,
+    promptTokens: totals.promptTokens,
+    completionTokens: totals.completionTokens,
+    totalTokens: totals.totalTokens,
+    costUsd: round(totals.costUsd, 6),
+    avgLatencyMs: entries.length ? Math.round(totals.latencyMs / entries.length) : 0,
+    tasks,
+    costPerTaskUsd: tasks ? round(totals.costUsd / tasks, 6) : null,
+  };
+}
@@ -138,9 +138,44 @@ function getRespectTemplateChoice(formData) {
   return formData.get("respectTemplateChoice") === "on";
 }
 
+/**
+ * 发布目标与产品源的连接信息：填写站点配置 ID 时只发送 siteProfileId，凭据由服务端站点配置提供
+ */
+function getConnectionFields(formData) {
+  const siteProfileId = String(formData.get("siteProfileId") ?? "").trim();
+  if (siteProfileId) {
+    return { siteProfileId };
+  }
+  return {
+    wordpress: {
+      url: String(formData.get("wpUrl") ?? "").trim(),
+      username: String(formData.get("wpUsername") ?? "").trim(),
+      appPassword: String(formData.get("wpAppPassword") ?? "").trim(),
+    },
+    shopify: {
+      storeUrl: String(formData.get("shopifyStoreUrl") ?? "").trim(),
+      accessToken: String(formData.get("shopifyAccessToken") ?? "").trim(),
+    },
+    staticPublish: {
+      baseUrl: String(formData.get("staticBaseUrl") ?? "").trim(),
+      outputDir: String(formData.get("staticOutputDir") ?? "").trim(),
+    },
+    sanity: {
+      projectId: String(formData.get("sanityProjectId") ?? "").trim(),
+      dataset: String(formData.get("sanityDataset") ?? "").trim(),
+      token: String(formData.get("sanityToken") ?? "").trim(),
+      docType: String(formData.get("sanityDocType") ?? "").trim(),
+      baseUrl: String(formData.get("sanityBaseUrl") ?? "").trim(),
+    },
+  };
+}
+
 // 任务控制按钮
 const pauseTaskBtn = document.getElementById("pause-task-btn");
 const resumeTaskBtn = document.getElementById("resume-task-btn");
+const cancelTaskBtn = document.getElementById("cancel-task-btn");
+const approveTaskBtn = document.getElementById("approve-task-btn");
+const rejectTaskBtn = document.getElementById("reject-task-btn");
 
 // 更新任务控制按钮显示状态
 function updateTaskControlButtons(status) {
@@ -149,13 +184,26 @@ function updateTaskControlButtons(status) {
   // 隐藏所有按钮
   pauseTaskBtn.style.display = "none";
   resumeTaskBtn.style.display = "none";
+  if (cancelTaskBtn) cancelTaskBtn.style.display = "none";
+  if (approveTaskBtn) approveTaskBtn.style.display = "none";
+  if (rejectTaskBtn) rejectTaskBtn.style.display = "none";
   
   // 根据状态显示相应按钮
+  const isFinished =
+    status === "completed" || status === "failed" || status === "cancelled" || status === "rejected";
   if (status === "paused") {
     resumeTaskBtn.style.display = "block";
-  } else if (status && status !== "completed" && status !== "failed" && currentTaskId) {
+  } else if (status === "awaiting_review" && currentTaskId) {
+    // 等待审核：不能暂停，只能批准 / 驳回 / 取消
+    if (approveTaskBtn) approveTaskBtn.style.display = "block";
+    if (rejectTaskBtn) rejectTaskBtn.style.display = "block";
+  } else if (status && !isFinished && currentTaskId) {
     pauseTaskBtn.style.display = "block";
   }
+  // 暂停中的任务也可以取消
+  if (cancelTaskBtn && status && !isFinished && currentTaskId) {
+    cancelTaskBtn.style.display = "block";
+  }
 }
 
 // 暂停任务
@@ -218,6 +266,111 @@ if (resumeTaskBtn) {
   });
 }
 
+// 取消任务
+if (cancelTaskBtn) {
+  cancelTaskBtn.addEventListener("click", async () => {
+    if (!currentTaskId) {
+      appendLog("没有正在运行的任务", "error");
+      return;
+    }
+    
+    const backendUrl = backendUrlInput?.value?.trim() || "http://localhost:4000";
+    
+    try {
+      const response = await fetch(`${backendUrl}/api/tasks/${currentTaskId}/cancel`, {
+        method: "POST",
+      });
+      
+      const result = await response.json();
+      
+      if (result.success) {
+        appendLog("⏹️ 任务已取消", "info");
+        updateTaskControlButtons("cancelled");
+      } else {
+        appendLog(`取消失败: ${result.error || "未知错误"}`, "error");
+      }
+    } catch (error) {
+      console.error("取消任务失败:", error);
+      appendLog(`取消任务失败: ${error instanceof Error ? error.message : "网络错误"}`, "error");
+    }
+  });
+}
+
+// 审核通过：发布等待审核的页面，并继续跟踪发布进度
+if (approveTaskBtn) {
+  approveTaskBtn.addEventListener("click", async () => {
+    if (!currentTaskId) {
+      appendLog("没有等待审核的任务", "error");
+      return;
+    }
+    
+    const backendUrl = backendUrlInput?.value?.trim() || "http://localhost:4000";
+    const taskId = currentTaskId;
+    
+    try {
+      const response = await fetch(`${backendUrl}/api/tasks/${taskId}/approve`, {
+        method: "POST",
+      });
+      
+      const result = await response.json();
+      
+      if (result.success) {
+        appendLog("✅ 审核通过，正在发布...", "success");
+        updateTaskControlButtons(result.task?.status || "publishing");
+        pollingAbortController = new AbortController();
+        await pollTaskStatus({ backendUrl, taskId, signal: pollingAbortController.signal });
+      } else {
+        appendLog(`批准失败: ${result.error || "未知错误"}`, "error");
+      }
+    } catch (error) {
+      console.error("批准发布失败:", error);
+      appendLog(`批准发布失败: ${error instanceof Error ? error.message : "网络错误"}`, "error");
+    }
+  });
+}
+
+// 审核驳回：原因写入历史记录
+if (rejectTaskBtn) {
+  rejectTaskBtn.addEventListener("click", async () => {
+    if (!currentTaskId) {
+      appendLog("没有等待审核的任务", "error");
+      return;
+    }
+    
+    const reason = window.prompt("请输入驳回原因（可留空）：");
+    if (reason === null) return; // 取消了输入框
+    
+    const backendUrl = backendUrlInput?.value?.trim() || "http://localhost:4000";
+    
+    try {
+      const response = await fetch(`${backendUrl}/api/tasks/${currentTaskId}/reject`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason }),
+      });
+      
+      const result = await response.json();
+      
+      if (result.success) {
+        appendLog(`🚫 ${result.task?.message || "已驳回"}`, "info");
+        updateProgress("rejected", result.task?.message || "已驳回");
+        currentTaskId = null;
+        updateTaskControlButtons("rejected");
+        setTimeout(() => {
+          if (typeof loadHistory === "function") {
+            loadHistory();
+          }
+        }, 1000);
+      } else {
+        appendLog(`驳回失败: ${result.error || "未知错误"}`, "error");
+      }
+    } catch (error) {
+      console.error("驳回任务失败:", error);
+      appendLog(`驳回任务失败: ${error instanceof Error ? error.message : "网络错误"}`, "error");
+    }
+  });
+}
+
 // 关键词池功能：显示/隐藏关键词池输入框
 const useKeywordPoolCheckbox = document.querySelector("#useKeywordPool");
 const keywordPoolRow = document.querySelector("#keywordPoolRow");
@@ -614,10 +767,13 @@ const TASK_STAGES = {
   "generating_content": { percent: 40, status: "正在生成内容..." },
   "fetching_products": { percent: 60, status: "正在获取产品..." },
   "generating_html": { percent: 80, status: "正在生成HTML..." },
+  "awaiting_review": { percent: 85, status: "等待审核..." },
   "publishing": { percent: 90, status: "正在发布..." },
   "paused": { percent: 0, status: "任务已暂停" },
   "completed": { percent: 100, status: "任务完成！" },
-  "failed": { percent: 0, status: "任务失败" }
+  "failed": { percent: 0, status: "任务失败" },
+  "cancelled": { percent: 0, status: "任务已取消" },
+  "rejected": { percent: 0, status: "审核驳回" }
 };
 
 // 更新进度条
@@ -640,7 +796,7 @@ function updateProgress(stage, message = null) {
     if (stage === "completed") {
       progressBar.classList.add("success");
       progressStatus.classList.add("success");
-    } else if (stage === "failed") {
+    } else if (stage === "failed" || stage === "cancelled" || stage === "rejected") {
       progressBar.classList.add("error");
       progressStatus.classList.add("error");
     } else {
@@ -896,6 +1052,7 @@ form.addEventListener("submit", async (event) => {
         titleType: currentTitleType,
         productSource: String(formData.get("productSource") ?? "shopify").trim() || "shopify",
         publishTarget: String(formData.get("publishTarget") ?? "sanity").trim() || "sanity",
+        requireReview: formData.get("requireReview") === "on",
         pageTitle: String(formData.get("pageTitle") ?? "").trim() || undefined,
         userPrompt: String(formData.get("userPrompt") ?? "").trim() || undefined,
         targetCategory: String(formData.get("targetCategory") ?? "").trim() || undefined,
@@ -908,26 +1065,7 @@ form.addEventListener("submit", async (event) => {
     forceGenerate: formData.get("forceGenerate") === "on",
     articleAuthorName: String(formData.get("articleAuthorName") ?? "").trim() || undefined,
         useElementor: formData.get("useElementor") === "on",
-        wordpress: {
-          url: String(formData.get("wpUrl") ?? "").trim(),
-          username: String(formData.get("wpUsername") ?? "").trim(),
-          appPassword: String(formData.get("wpAppPassword") ?? "").trim(),
-        },
-        shopify: {
-          storeUrl: String(formData.get("shopifyStoreUrl") ?? "").trim(),
-          accessToken: String(formData.get("shopifyAccessToken") ?? "").trim(),
-        },
-        staticPublish: {
-          baseUrl: String(formData.get("staticBaseUrl") ?? "").trim(),
-          outputDir: String(formData.get("staticOutputDir") ?? "").trim(),
-        },
-        sanity: {
-          projectId: String(formData.get("sanityProjectId") ?? "").trim(),
-          dataset: String(formData.get("sanityDataset") ?? "").trim(),
-          token: String(formData.get("sanityToken") ?? "").trim(),
-          docType: String(formData.get("sanityDocType") ?? "").trim(),
-          baseUrl: String(formData.get("sanityBaseUrl") ?? "").trim(),
-        },
+        ...getConnectionFields(formData),
       };
 
       try {
@@ -1060,6 +1198,9 @@ form.addEventListener("submit", async (event) => {
     titleType,
     productSource: String(formData.get("productSource") ?? "shopify").trim() || "shopify",
     publishTarget: String(formData.get("publishTarget") ?? "sanity").trim() || "sanity",
+    requireReview: formData.get("requireReview") === "on",
+    publishMode: formData.get("refreshExisting") === "on" ? "refresh" : "create",
+    refreshSlug: String(formData.get("refreshSlug") ?? "").trim() || undefined,
     pageTitle: pageTitle || undefined,
     userPrompt: String(formData.get("userPrompt") ?? "").trim() || undefined,
     targetCategory: String(formData.get("targetCategory") ?? "").trim() || undefined,
@@ -1069,26 +1210,7 @@ form.addEventListener("submit", async (event) => {
     forceGenerate: formData.get("forceGenerate") === "on",
     articleAuthorName: String(formData.get("articleAuthorName") ?? "").trim() || undefined,
     useElementor: formData.get("useElementor") === "on",
-    wordpress: {
-      url: String(formData.get("wpUrl") ?? "").trim(),
-      username: String(formData.get("wpUsername") ?? "").trim(),
-      appPassword: String(formData.get("wpAppPassword") ?? "").trim(),
-    },
-    shopify: {
-      storeUrl: String(formData.get("shopifyStoreUrl") ?? "").trim(),
-      accessToken: String(formData.get("shopifyAccessToken") ?? "").trim(),
-    },
-    staticPublish: {
-      baseUrl: String(formData.get("staticBaseUrl") ?? "").trim(),
-      outputDir: String(formData.get("staticOutputDir") ?? "").trim(),
-    },
-    sanity: {
-      projectId: String(formData.get("sanityProjectId") ?? "").trim(),
-      dataset: String(formData.get("sanityDataset") ?? "").trim(),
-      token: String(formData.get("sanityToken") ?? "").trim(),
-      docType: String(formData.get("sanityDocType") ?? "").trim(),
-      baseUrl: String(formData.get("sanityBaseUrl") ?? "").trim(),
-    },
+    ...getConnectionFields(formData),
   };
 
   appendLog("正在创建任务...");
@@ -1149,8 +1271,197 @@ form.addEventListener("submit", async (event) => {
   }
 });
 
+/**
+ * 根据任务快照/事件更新进度条、日志与控制按钮
+ * @returns 任务是否已结束（completed / failed / cancelled），或停在等待审核
+ */
+function applyTaskUpdate(task, state) {
+  const { keywordIndex, totalKeywords } = state;
+  // 根据任务状态更新进度条
+  const status = task.status || "pending";
+  const message = task.message || null;
+  
+  // 根据消息内容推断更具体的阶段
+  let progressStage = status;
+  if (message) {
+    if (message.includes("标题") || message.includes("title")) {
+      progressStage = "generating_title";
+    } else if (message.includes("内容") || message.includes("content") || message.includes("文章")) {
+      progressStage = "generating_content";
+    } else if (message.includes("产品") || message.includes("product")) {
+      progressStage = "fetching_products";
+    } else if (message.includes("HTML") || message.includes("模板")) {
+      progressStage = "generating_html";
+    } else if (message.includes("发布") || message.includes("publish") || message.includes("WordPress") || message.includes("Sanity") || message.includes("静态")) {
+      progressStage = "publishing";
+    }
+  }
+  
+  // 更新任务控制按钮状态
+  updateTaskControlButtons(task.status);
+  
+  if (task.status !== state.lastStatus || (state.logEveryMessage && task.message !== state.lastMessage)) {
+    let logMessage = task.message ?? task.status;
+    if (keywordIndex && totalKeywords) {
+      logMessage = `[${keywordIndex}/${totalKeywords}] ${logMessage}`;
+    }
+    appendLog(logMessage);
+    // 优化批量生成的进度显示
+    if (keywordIndex && totalKeywords) {
+      const progressText = message && message.includes("429") 
+        ? `批量生成中：${keywordIndex}/${totalKeywords} - ${message}`
+        : `批量生成中：${keywordIndex}/${totalKeywords} - ${message || task.status}`;
+      updateProgress(progressStage, progressText);
+    } else {
+      updateProgress(progressStage, message || task.status);
+    }
+    state.lastStatus = task.status;
+    state.lastMessage = task.message;
+  }
+
+  // 更新任务控制按钮状态
+  updateTaskControlButtons(task.status);
+  
+  if (task.status === "completed" && task.message?.startsWith("预览已生成")) {
+    // 预览模式：不发布，只提供预览链接
+    updateProgress("completed", "预览已生成（未发布）");
+    currentTaskId = null; // 清除当前任务ID
+    updateTaskControlButtons("completed");
+    const previewUrl = `${state.backendUrl}/api/tasks/${state.taskId}/preview?format=html`;
+    appendLog("👀 预览已生成（未发布）", "success");
+    appendLog(`📄 预览地址: ${previewUrl}`, "success", previewUrl);
+    return true;
+  }
+
+  if (task.status === "completed") {
+    updateProgress("completed", "页面已发布成功！");
+    currentTaskId = null; // 清除当前任务ID
+    updateTaskControlButtons("completed");
+    if (task.pageUrl) {
+      appendLog("✅ 页面已发布成功!", "success");
+      appendLog(`📄 页面 URL: ${task.pageUrl}`, "success", task.pageUrl);
+      appendLog("💡 提示：点击上方链接验证页面是否已成功发布", "info");
+    } else {
+      appendLog("✅ 页面已发布成功!", "success");
+      appendLog("⚠️ 注意：未获取到页面 URL，请在对应发布后台（Sanity Studio / 静态目录 / WordPress）查看", "info");
+    }
+    // 任务完成后刷新历史记录
+    setTimeout(() => {
+      if (typeof loadHistory === "function") {
+        loadHistory();
+      }
+    }, 1000);
+    return true;
+  }
+
+  if (task.status === "failed") {
+    updateProgress("failed", task.error || "任务失败");
+    currentTaskId = null; // 清除当前任务ID
+    updateTaskControlButtons("failed");
+    appendLog(task.error || "任务失败", "error");
+    // 任务失败后也刷新历史记录
+    setTimeout(() => {
+      if (typeof loadHistory === "function") {
+        loadHistory();
+      }
+    }, 1000);
+    return true;
+  }
+  
+  if (task.status === "cancelled") {
+    updateProgress("cancelled", task.message || "任务已取消");
+    currentTaskId = null; // 清除当前任务ID
+    updateTaskControlButtons("cancelled");
+    appendLog(task.message || "任务已取消", "info");
+    setTimeout(() => {
+      if (typeof loadHistory === "function") {
+        loadHistory();
+      }
+    }, 1000);
+    return true;
+  }
+  
+  if (task.status === "awaiting_review") {
+    // 保留 currentTaskId，供批准 / 驳回按钮使用
+    updateProgress("awaiting_review", "页面已渲染，等待审核");
+    updateTaskControlButtons("awaiting_review");
+    const previewUrl = `${state.backendUrl}/api/tasks/${state.taskId}/preview?format=html`;
+    appendLog("📝 页面已渲染，等待审核（批准后才会发布）", "info");
+    appendLog(`📄 预览地址: ${previewUrl}`, "info", previewUrl);
+    return true;
+  }
+  
+  if (task.status === "paused") {
+    updateProgress("paused", "任务已暂停");
+    updateTaskControlButtons("paused");
+    appendLog("⏸️ 任务已暂停", "info");
+  }
+  return false;
+}
+
+/**
+ * 通过 SSE 订阅任务进度（不会遗漏中间消息，断线由浏览器按 Last-Event-ID 自动续传）
+ * @returns 任务结束或已中止时为 true；无法建立连接时为 false（调用方回退到轮询）
+ */
+function streamTaskStatus({ backendUrl, taskId, signal, state }) {
+  return new Promise((resolve) => {
+    const source = new EventSource(`${backendUrl}/api/tasks/${taskId}/events`);
+    let received = false;
+
+    const finish = (result) => {
+      source.close();
+      signal.removeEventListener("abort", onAbort);
+      resolve(result);
+    };
+    function onAbort() {
+      finish(true);
+    }
+    signal.addEventListener("abort", onAbort, { once: true });
+
+    source.addEventListener("task", (event) => {
+      received = true;
+      let task;
+      try {
+        task = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+      if (applyTaskUpdate(task, state)) {
+        finish(true);
+      }
+    });
+
+    source.onerror = () => {
+      // 从未收到事件或浏览器放弃重连时回退到轮询；否则交给 EventSource 自动重连
+      if (!received || source.readyState === EventSource.CLOSED) {
+        finish(false);
+      }
+    };
+  });
+}
+
 async function pollTaskStatus({ backendUrl, taskId, signal, keywordIndex, totalKeywords }) {
-  let lastStatus = null;
+  const state = {
+    lastStatus: null,
+    lastMessage: null,
+    backendUrl,
+    taskId,
+    keywordIndex,
+    totalKeywords,
+    logEveryMessage: false,
+  };
+
+  if (typeof EventSource === "function") {
+    const streamed = await streamTaskStatus({
+      backendUrl,
+      taskId,
+      signal,
+      state: { ...state, logEveryMessage: true },
+    });
+    if (streamed) return;
+    if (signal.aborted) return;
+    appendLog("实时进度连接不可用，改为轮询任务状态", "info");
+  }
 
   while (!signal.aborted) {
     try {
@@ -1159,91 +1470,9 @@ async function pollTaskStatus({ backendUrl, taskId, signal, keywordIndex, totalK
         throw new Error(`无法获取任务进度 (${response.status})`);
       }
       const task = await response.json();
-      
-      // 根据任务状态更新进度条
-      const status = task.status || "pending";
-      const message = task.message || null;
-      
-      // 根据消息内容推断更具体的阶段
-      let progressStage = status;
-      if (message) {
-        if (message.includes("标题") || message.includes("title")) {
-          progressStage = "generating_title";
-        } else if (message.includes("内容") || message.includes("content") || message.includes("文章")) {
-          progressStage = "generating_content";
-        } else if (message.includes("产品") || message.includes("product")) {
-          progressStage = "fetching_products";
-        } else if (message.includes("HTML") || message.includes("模板")) {
-          progressStage = "generating_html";
-        } else if (message.includes("发布") || message.includes("publish") || message.includes("WordPress") || message.includes("Sanity") || message.includes("静态")) {
-          progressStage = "publishing";
-        }
-      }
-      
-      // 更新任务控制按钮状态
-      updateTaskControlButtons(task.status);
-      
-      if (task.status !== lastStatus) {
-        let logMessage = task.message ?? task.status;
-        if (keywordIndex && totalKeywords) {
-          logMessage = `[${keywordIndex}/${totalKeywords}] ${logMessage}`;
-        }
-        appendLog(logMessage);
-        // 优化批量生成的进度显示
-        if (keywordIndex && totalKeywords) {
-          const progressText = message && message.includes("429") 
-            ? `批量生成中：${keywordIndex}/${totalKeywords} - ${message}`
-            : `批量生成中：${keywordIndex}/${totalKeywords} - ${message || task.status}`;
-          updateProgress(progressStage, progressText);
-        } else {
-          updateProgress(progressStage, message || task.status);
-        }
-        lastStatus = task.status;
-      }
-
-      // 更新任务控制按钮状态
-      updateTaskControlButtons(task.status);
-      
-      if (task.status === "completed") {
-        updateProgress("completed", "页面已发布成功！");
-        currentTaskId = null; // 清除当前任务ID
-        updateTaskControlButtons("completed");
-        if (task.pageUrl) {
-          appendLog("✅ 页面已发布成功!", "success");
-          appendLog(`📄 页面 URL: ${task.pageUrl}`, "success", task.pageUrl);
-          appendLog("💡 提示：点击上方链接验证页面是否已成功发布", "info");
-        } else {
-          appendLog("✅ 页面已发布成功!", "success");
-          appendLog("⚠️ 注意：未获取到页面 URL，请在对应发布后台（Sanity Studio / 静态目录 / WordPress）查看", "info");
-        }
-        // 任务完成后刷新历史记录
-        setTimeout(() => {
-          if (typeof loadHistory === "function") {
-            loadHistory();
-          }
-        }, 1000);
+      if (applyTaskUpdate(task, state)) {
         return;
       }
-
-      if (task.status === "failed") {
-        updateProgress("failed", task.error || "任务失败");
-        currentTaskId = null; // 清除当前任务ID
-        updateTaskControlButtons("failed");
-        appendLog(task.error || "任务失败", "error");
-        // 任务失败后也刷新历史记录
-        setTimeout(() => {
-          if (typeof loadHistory === "function") {
-            loadHistory();
-          }
-        }, 1000);
-        return;
-      }
-      
-      if (task.status === "paused") {
-        updateProgress("paused", "任务已暂停");
-        updateTaskControlButtons("paused");
-        appendLog("⏸️ 任务已暂停", "info");
-      }
     } catch (error) {
       if (signal.aborted) return;
       console.error(error);
@@ -1348,7 +1577,14 @@ async function loadHistory() {
       });
 
       const statusClass = record.status === "completed" ? "completed" : "failed";
-      const statusText = record.status === "completed" ? "✅ 已完成" : "❌ 失败";
+      const statusText =
+        record.status === "completed"
+          ? "✅ 已完成"
+          : record.status === "cancelled"
+            ? "⏹️ 已取消"
+            : record.status === "rejected"
+              ? "🚫 已驳回"
+              : "❌ 失败";
 
       return `
         <div class="history-item">